@@ -1,17 +1,61 @@
 
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import type { Feature, FeatureCollection } from 'geojson';
 import L from 'leaflet';
 import { bbox, BBox } from '@turf/turf';
 
 import LeftSidebar from './components/ControlPanel';
 import MapWrapper from './components/MapWrapper';
-import AttributeTable from './components/AttributeTable';
+import AttributeTable, { AttributeEdit } from './components/AttributeTable';
 import AreaCalculationModal from './components/AreaCalculationModal';
-import type { GeoJsonLayer } from './types';
+import FeatureInspector from './components/FeatureInspector';
+import QueryAssistant from './components/QueryAssistant';
+import OverlayAnalysisPanel from './components/OverlayAnalysisPanel';
+import ServiceLayerDialog from './components/ServiceLayerDialog';
+import WorkspaceMenu from './components/WorkspaceMenu';
+import WorkOrderForm from './components/WorkOrderForm';
+import type { AttributeFilter, AuditEntry, FeatureEdits, GeoJsonLayer, ImageCorners, LayerStyle, MapSessionState, MapViewState, RasterLayer, RemoteLayerSource, SavedQuery, SpatialBookmark, WorkOrder, WorkOrderStatus, Workspace } from './types';
 import { getFeatureDisplayName } from './utils';
+import { loadLayerCatalog } from './services/layerCatalogService';
+import { applySavedLayerStyles, clearSavedLayerStyle, pickLayerStyle, saveLayerStyle } from './services/layerStyleService';
+import { parseLayerFile, getNextLayerColor, getUniqueLayerName, dedupeLayerName } from './services/importService';
+import { applyFilter, describeFilter, loadSavedQueries, matchesFilter, storeSavedQueries, validateFilter } from './services/filterService';
+import { readUrlState, UrlState, writeUrlState } from './services/urlStateService';
+import { clearWorkspace, exportWorkspaceFile, loadWorkspace, parseWorkspaceFile, saveWorkspace, WORKSPACE_VERSION } from './services/workspaceService';
+import { ArcGisQueryResult, queryArcGisLayer } from './services/arcgisService';
+import { createGeoreferenceSession, createImageRasterLayer, DEFAULT_IMAGE_OPACITY, GeoreferenceSession, loadOverlayImage } from './services/imageOverlayService';
+import { getLayerStatusModel } from './services/statusService';
+import { appendAuditEntries, createAuditEntry, getAuditUser, loadAuditLog, setAuditUser } from './services/auditService';
+import { assignFeatureIds, getAssetKey, getFeatureId, getLayerIdField, isSameAsset, withFeatureIds } from './services/featureIdService';
+import { createWorkOrder, getOpenWorkOrderPriorities, getWorkOrderAssetKey, loadWorkOrders, saveWorkOrders, toWorkOrderAssets, transitionWorkOrder, WorkOrderDraft } from './services/workOrderService';
 
-const Header: React.FC = () => (
+// The URL hash always mirrors the current view, so sharing is just copying the address
+const ShareLinkButton: React.FC = () => {
+    const [isCopied, setIsCopied] = useState(false);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), 2000);
+        } catch (error) {
+            console.error("Could not copy link:", error);
+        }
+    };
+
+    return (
+        <button
+            onClick={handleCopy}
+            title="Copy a link to this view"
+            className="flex items-center gap-1.5 h-9 px-3 rounded-lg bg-white/60 text-sm font-semibold text-slate-800 hover:bg-white/90 transition-colors"
+        >
+            <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>{isCopied ? 'check' : 'link'}</span>
+            {isCopied ? 'Link copied' : 'Share view'}
+        </button>
+    );
+};
+
+const Header: React.FC<{ children?: React.ReactNode }> = ({ children }) => (
     <header className="flex shrink-0 items-center justify-between whitespace-nowrap bg-[rgb(135,186,195)] px-6 py-3 z-[1200] shadow-xl transition-shadow duration-300 hover:shadow-2xl">
         <div className="flex items-center gap-8">
             <div className="flex items-center gap-3 text-slate-900">
@@ -27,7 +71,9 @@ const Header: React.FC = () => (
                 <h2 className="text-lg font-bold leading-tight tracking-[-0.015em]">GeoAsset Dashboard</h2>
             </div>
         </div>
-        <div className="flex flex-1 justify-end gap-4">
+        <div className="flex flex-1 items-center justify-end gap-4">
+            {children}
+            <ShareLinkButton />
             <div className="bg-center bg-no-repeat aspect-square bg-cover rounded-full size-10" style={{ backgroundImage: `url("https://lh3.googleusercontent.com/a/ACg8ocK_gS2g_2YUN2a-wYp5c_NslloT2Sg_Nl4K6s5i-w=s96-c")` }}></div>
         </div>
     </header>
@@ -35,21 +81,36 @@ const Header: React.FC = () => (
 
 const App: React.FC = () => {
     const [layers, setLayers] = useState<GeoJsonLayer[]>([]);
-    const [activeLayerTab, setActiveLayerTab] = useState<string>('Buildings');
-    const [sidebarView, setSidebarView] = useState<'assets' | 'statistics'>('assets');
-    const [layerVisibility, setLayerVisibility] = useState<Record<string, boolean>>({
-        'Buildings': true,
-        'Horticulture': true,
-        'Roads': false,
-    });
+    const [activeLayerTab, setActiveLayerTab] = useState<string>('');
+    const [sidebarView, setSidebarView] = useState<'assets' | 'statistics' | 'workOrders' | 'history'>('assets');
+    const [layerVisibility, setLayerVisibility] = useState<Record<string, boolean>>({});
     const [selectedAssets, setSelectedAssets] = useState<{ layerId: string; feature: Feature }[]>([]);
     const [boundsToFit, setBoundsToFit] = useState<L.LatLngBounds | null>(null);
     const [assetSearchTerm, setAssetSearchTerm] = useState('');
-    const [propertySearchKey, setPropertySearchKey] = useState('');
-    const [propertySearchValue, setPropertySearchValue] = useState('');
     const [attributeTableLayerId, setAttributeTableLayerId] = useState<string | null>(null);
-    const [attributeTableFilter, setAttributeTableFilter] = useState<{ key: string; value: string } | null>(null);
     const [isAreaModalOpen, setAreaModalOpen] = useState(false);
+    const [isOverlayPanelOpen, setOverlayPanelOpen] = useState(false);
+    const [isServiceDialogOpen, setServiceDialogOpen] = useState(false);
+    const [rasterLayers, setRasterLayers] = useState<RasterLayer[]>([]);
+    const [georeferenceSession, setGeoreferenceSession] = useState<GeoreferenceSession | null>(null);
+    const [queryFilter, setQueryFilter] = useState<AttributeFilter | null>(null);
+    const [savedQueries, setSavedQueries] = useState<SavedQuery[]>(() => loadSavedQueries());
+    const defaultLayerStylesRef = useRef<Record<string, LayerStyle>>({});
+    const [initialUrlState] = useState<UrlState>(readUrlState);
+    const [mapView, setMapView] = useState<MapViewState | null>(null);
+    const [extentToShow, setExtentToShow] = useState<L.LatLngBounds | null>(null);
+    // undefined while IndexedDB is being read, null when there is no saved workspace
+    const [restoredWorkspace, setRestoredWorkspace] = useState<Workspace | null | undefined>(undefined);
+    const [mapSession, setMapSession] = useState<MapSessionState | null>(null);
+    const [bookmarks, setBookmarks] = useState<SpatialBookmark[]>([]);
+    const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+    // The catalog's own data per catalog layer, to tell edited layers apart when saving
+    const catalogDataRef = useRef<Map<string, FeatureCollection>>(new Map());
+    const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+    const workOrdersLoadedRef = useRef(false);
+    const [isWorkOrderFormOpen, setWorkOrderFormOpen] = useState(false);
+    const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+    const [auditUser, setAuditUserName] = useState(getAuditUser);
 
     const calculateBounds = useCallback((geojson: Feature | FeatureCollection) => {
         try {
@@ -79,60 +140,418 @@ const App: React.FC = () => {
     }, []);
 
     useEffect(() => {
-        const loadInitialData = async () => {
-            try {
-                const [buildingResponse, horticultureResponse] = await Promise.all([
-                    fetch('/data/Building.json'),
-                    fetch('/data/horticulture-area.json')
-                ]);
+        loadWorkspace().then(workspace => {
+            setRestoredWorkspace(workspace);
+            setBookmarks(workspace?.bookmarks || []);
+            setLastSavedAt(workspace?.savedAt || null);
+        });
+    }, []);
 
-                if (!buildingResponse.ok || !horticultureResponse.ok) {
-                    throw new Error('Failed to fetch initial GeoJSON data');
-                }
+    useEffect(() => {
+        loadWorkOrders()
+            .then(orders => {
+                workOrdersLoadedRef.current = true;
+                setWorkOrders(orders);
+            })
+            .catch(error => console.error("Error loading work orders:", error));
+    }, []);
 
-                const buildingData = await buildingResponse.json() as FeatureCollection;
-                const horticultureData = await horticultureResponse.json() as FeatureCollection;
-                
-                const initialLayers: GeoJsonLayer[] = [
-                    { id: 'buildings-1', name: 'Buildings', data: buildingData, isVisible: true, color: '#f97316', strokeOpacity: 1, fillOpacity: 0.5, dashArray: '' },
-                    { id: 'horticulture-1', name: 'Horticulture', data: horticultureData, isVisible: true, color: '#22c55e', strokeOpacity: 1, fillOpacity: 0.5, dashArray: '' },
-                    { id: 'roads-1', name: 'Roads', data: { type: 'FeatureCollection', features: [] }, isVisible: false, color: '#64748b', strokeOpacity: 1, fillOpacity: 0.5, dashArray: '' },
-                ];
+    useEffect(() => {
+        loadAuditLog()
+            .then(entries => {
+                // Keep anything recorded while the log was still loading
+                const loadedIds = new Set(entries.map(e => e.id));
+                setAuditLog(prev => [...entries, ...prev.filter(e => !loadedIds.has(e.id))]);
+            })
+            .catch(error => console.error("Error loading the audit log:", error));
+    }, []);
+
+    const recordAuditEntries = useCallback((entries: (AuditEntry | null)[]) => {
+        const recorded = entries.filter((e): e is AuditEntry => !!e);
+        if (recorded.length === 0) return;
+        setAuditLog(prev => [...prev, ...recorded]);
+        appendAuditEntries(recorded).catch(error => console.error("Error saving audit entries:", error));
+    }, []);
+
+    const handleAuditUserChange = useCallback((name: string) => {
+        setAuditUserName(name);
+        setAuditUser(name);
+    }, []);
+
+    // Never write before the stored orders are in, or an empty list would overwrite them
+    useEffect(() => {
+        if (!workOrdersLoadedRef.current) return;
+        saveWorkOrders(workOrders).catch(error => console.error("Error saving work orders:", error));
+    }, [workOrders]);
+
+    // A shared link takes precedence over the workspace saved in this browser
+    const initialView = initialUrlState.view || restoredWorkspace?.view;
+
+    useEffect(() => {
+        if (restoredWorkspace === undefined) return;
+        const loadInitialData = async () => {
+            try {
+                const catalogLayers = (await loadLayerCatalog()).map(withFeatureIds);
+                catalogDataRef.current = new Map(catalogLayers.map(l => [l.id, l.data]));
+                const importedLayers = (restoredWorkspace?.importedLayers || []).filter(l => !catalogDataRef.current.has(l.id));
+                const editedLayerData = restoredWorkspace?.editedLayerData || {};
+                defaultLayerStylesRef.current = Object.fromEntries([...catalogLayers, ...importedLayers].map(l => [l.id, pickLayerStyle(l)]));
+                const { activeLayerId, selection } = initialUrlState;
+                const visibleLayerIds = initialUrlState.visibleLayerIds || restoredWorkspace?.visibleLayerIds;
+                const filter = initialUrlState.filter || restoredWorkspace?.queryFilter;
+                const savedStyles = restoredWorkspace?.layerStyles || {};
+                const initialLayers = [...applySavedLayerStyles(catalogLayers), ...importedLayers]
+                    .map(l => editedLayerData[l.id] ? { ...l, data: editedLayerData[l.id] } : l)
+                    .map(l => savedStyles[l.id] ? { ...l, ...savedStyles[l.id] } : l)
+                    .map(l => visibleLayerIds ? { ...l, isVisible: visibleLayerIds.includes(l.id) } : l)
+                    .map(withFeatureIds);
                 setLayers(initialLayers);
+                setRasterLayers(restoredWorkspace?.rasterLayers || []);
+                setLayerVisibility(Object.fromEntries(initialLayers.map(l => [l.name, l.isVisible])));
 
-                if (buildingData.features.length > 0) {
-                  const firstBuildingLayer = initialLayers.find(l => l.name === 'Buildings');
-                  if(firstBuildingLayer) {
-                    setSelectedAssets([{ layerId: firstBuildingLayer.id, feature: buildingData.features[0] }]);
-                  }
+                const firstLayerWithData = initialLayers.find(l => l.data.features.length > 0);
+                const initialTab = initialLayers.find(l => l.id === activeLayerId) || firstLayerWithData;
+                if (initialTab) setActiveLayerTab(initialTab.name);
+                if (filter && validateFilter(filter, initialLayers).length === 0) setQueryFilter(filter);
+
+                if (selection) {
+                    setSelectedAssets(selection.flatMap(({ layerId, fid }) => {
+                        const feature = initialLayers.find(l => l.id === layerId)?.data.features.find(f => getFeatureId(f) === fid);
+                        return feature ? [{ layerId, feature }] : [];
+                    }));
+                } else if (firstLayerWithData && !window.location.hash) {
+                    setSelectedAssets([{ layerId: firstLayerWithData.id, feature: firstLayerWithData.data.features[0] }]);
                 }
-                
+                // A shared link or saved workspace opens on its own extent rather than the data extent
+                if (initialView) return;
+
                 const combinedData: FeatureCollection = {
                     type: 'FeatureCollection',
-                    features: [...buildingData.features, ...horticultureData.features]
+                    features: initialLayers.filter(l => l.isVisible).flatMap(l => l.data.features)
                 };
-                
+
                 if (combinedData.features.length > 0) calculateBounds(combinedData);
             } catch (error) { console.error("Error loading initial data:", error); }
         };
         loadInitialData();
-    }, [calculateBounds]);
+    }, [calculateBounds, initialUrlState, restoredWorkspace]);
+
+    const buildWorkspace = useCallback((): Workspace => ({
+        version: WORKSPACE_VERSION,
+        savedAt: new Date().toISOString(),
+        layerStyles: Object.fromEntries(layers.map(l => [l.id, pickLayerStyle(l)])),
+        visibleLayerIds: layers.filter(l => l.isVisible).map(l => l.id),
+        importedLayers: layers.filter(l => !catalogDataRef.current.has(l.id)),
+        editedLayerData: Object.fromEntries(layers
+            .filter(l => catalogDataRef.current.has(l.id) && l.data !== catalogDataRef.current.get(l.id))
+            .map(l => [l.id, l.data])),
+        rasterLayers,
+        queryFilter,
+        view: mapView ? { center: mapView.center, zoom: mapView.zoom } : initialView,
+        basemap: mapView?.basemap,
+        session: mapSession || undefined,
+        bookmarks,
+    }), [layers, rasterLayers, queryFilter, mapView, initialView, mapSession, bookmarks]);
+
+    // Autosave, debounced so panning and typing don't write on every change
+    useEffect(() => {
+        if (restoredWorkspace === undefined || layers.length === 0) return;
+        const timer = setTimeout(() => {
+            const workspace = buildWorkspace();
+            saveWorkspace(workspace)
+                .then(() => setLastSavedAt(workspace.savedAt))
+                .catch(error => console.error("Error saving workspace:", error));
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [buildWorkspace, restoredWorkspace, layers.length]);
+
+    const reloadWithoutLink = () => {
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        window.location.reload();
+    };
+
+    const handleImportWorkspace = async (file: File): Promise<string | null> => {
+        try {
+            await saveWorkspace(await parseWorkspaceFile(file));
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+        reloadWithoutLink();
+        return null;
+    };
+
+    const handleResetWorkspace = async () => {
+        try {
+            await clearWorkspace();
+        } catch (error) {
+            console.error("Error clearing workspace:", error);
+        }
+        reloadWithoutLink();
+    };
+
+    const handleAddBookmark = (name: string) => {
+        if (!mapView) return;
+        setBookmarks(prev => [...prev, { id: `bookmark-${Date.now()}`, name, bounds: mapView.bounds }]);
+    };
+
+    const handleGoToBookmark = (bookmark: SpatialBookmark) => {
+        setExtentToShow(L.latLngBounds(bookmark.bounds));
+    };
+
+    useEffect(() => {
+        if (layers.length === 0) return;
+        writeUrlState({
+            view: mapView ? { center: mapView.center, zoom: mapView.zoom } : initialView,
+            basemap: mapView?.basemap,
+            visibleLayerIds: layers.filter(l => l.isVisible).map(l => l.id),
+            activeLayerId: layers.find(l => l.name === activeLayerTab)?.id,
+            filter: queryFilter || undefined,
+            selection: selectedAssets.map(a => ({ layerId: a.layerId, fid: getFeatureId(a.feature) })),
+        });
+    }, [layers, mapView, activeLayerTab, queryFilter, selectedAssets, initialView]);
 
     const handleVisibilityChange = useCallback((layerName: string, isVisible: boolean) => {
         setLayerVisibility(prev => ({ ...prev, [layerName]: isVisible }));
         setLayers(prev => prev.map(l => l.name === layerName ? { ...l, isVisible } : l));
     }, []);
 
+    const handleImportFiles = useCallback(async (files: File[]): Promise<string[]> => {
+        const errors: string[] = [];
+        const importedLayers: GeoJsonLayer[] = [];
+        const usedNames = layers.map(l => l.name);
+        const usedColors = layers.map(l => l.color);
+
+        for (const file of files) {
+            try {
+                const data = await parseLayerFile(file);
+                const name = getUniqueLayerName(file.name, usedNames);
+                const color = getNextLayerColor(usedColors);
+                usedNames.push(name);
+                usedColors.push(color);
+                const layer: GeoJsonLayer = withFeatureIds({
+                    id: `imported-${Date.now()}-${importedLayers.length}`,
+                    name, data, isVisible: true, color, strokeOpacity: 1, fillOpacity: 0.5, dashArray: '', weight: 2,
+                });
+                defaultLayerStylesRef.current[layer.id] = pickLayerStyle(layer);
+                importedLayers.push(layer);
+            } catch (error) {
+                errors.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        if (importedLayers.length > 0) {
+            setLayers(prev => [...prev, ...importedLayers]);
+            setLayerVisibility(prev => ({ ...prev, ...Object.fromEntries(importedLayers.map(l => [l.name, true])) }));
+            const lastLayer = importedLayers[importedLayers.length - 1];
+            setActiveLayerTab(lastLayer.name);
+            setSidebarView('assets');
+            calculateBounds(lastLayer.data);
+        }
+        return errors;
+    }, [layers, calculateBounds]);
+
+    // Adds a layer derived from map work (analysis results, measurements) and zooms to it
+    const handleAddDerivedLayer = useCallback((name: string, data: FeatureCollection, icon: string) => {
+        const layer: GeoJsonLayer = withFeatureIds({
+            id: `derived-${Date.now()}`,
+            name: dedupeLayerName(name, layers.map(l => l.name)),
+            data,
+            isVisible: true,
+            color: getNextLayerColor(layers.map(l => l.color)),
+            strokeOpacity: 1, fillOpacity: 0.5, dashArray: '', weight: 2,
+            icon,
+        });
+        defaultLayerStylesRef.current[layer.id] = pickLayerStyle(layer);
+        setLayers(prev => [...prev, layer]);
+        setLayerVisibility(prev => ({ ...prev, [layer.name]: true }));
+        setActiveLayerTab(layer.name);
+        setSidebarView('assets');
+        calculateBounds(layer.data);
+    }, [layers, calculateBounds]);
+
+    const handleAddRemoteLayers = useCallback((results: { result: ArcGisQueryResult; source: RemoteLayerSource }[]) => {
+        const usedNames = layers.map(l => l.name);
+        const usedColors = layers.map(l => l.color);
+        const addedLayers = results.map(({ result, source }, index) => {
+            const name = dedupeLayerName(result.name, usedNames);
+            const color = getNextLayerColor(usedColors);
+            usedNames.push(name);
+            usedColors.push(color);
+            const layer: GeoJsonLayer = withFeatureIds({
+                id: `service-${Date.now()}-${index}`,
+                name, data: result.data, isVisible: true, color, strokeOpacity: 1, fillOpacity: 0.5, dashArray: '', weight: 2,
+                icon: 'cloud',
+                idField: result.idField,
+                source,
+            });
+            defaultLayerStylesRef.current[layer.id] = pickLayerStyle(layer);
+            return layer;
+        });
+        if (addedLayers.length === 0) return;
+        setLayers(prev => [...prev, ...addedLayers]);
+        setLayerVisibility(prev => ({ ...prev, ...Object.fromEntries(addedLayers.map(l => [l.name, true])) }));
+        const lastLayer = addedLayers[addedLayers.length - 1];
+        setActiveLayerTab(lastLayer.name);
+        setSidebarView('assets');
+        calculateBounds(lastLayer.data);
+    }, [layers, calculateBounds]);
+
+    // Re-runs a service layer's query and swaps in the new features, keeping style and selection (matched by id)
+    const handleRefreshRemoteLayer = useCallback(async (layerId: string): Promise<string | null> => {
+        const layer = layers.find(l => l.id === layerId);
+        if (!layer?.source) return null;
+        let data: FeatureCollection;
+        try {
+            data = (await queryArcGisLayer(layer.source)).data;
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+        const refreshed = withFeatureIds({ ...layer, data });
+        const featuresById = new Map(refreshed.data.features.map(f => [getFeatureId(f), f]));
+        setLayers(prev => prev.map(l => l.id === layerId ? { ...l, data: refreshed.data } : l));
+        setSelectedAssets(prev => prev.flatMap(a => {
+            if (a.layerId !== layerId) return [a];
+            const feature = featuresById.get(getFeatureId(a.feature));
+            return feature ? [{ ...a, feature }] : [];
+        }));
+        return null;
+    }, [layers]);
+
+    const handleAddRasterLayers = useCallback((added: RasterLayer[]) => {
+        setRasterLayers(prev => [...prev, ...added]);
+        setSidebarView('assets');
+    }, []);
+
+    const handleRasterLayerChange = useCallback((id: string, changes: Partial<RasterLayer>) => {
+        setRasterLayers(prev => prev.map(l => l.id === id ? { ...l, ...changes } : l));
+    }, []);
+
+    const handleRemoveRasterLayer = useCallback((id: string) => {
+        setRasterLayers(prev => prev.filter(l => l.id !== id));
+    }, []);
+
+    const handleImportImageOverlay = useCallback(async (files: File[]): Promise<string | null> => {
+        try {
+            const image = await loadOverlayImage(files);
+            setGeoreferenceSession({ image, opacity: DEFAULT_IMAGE_OPACITY });
+            return null;
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+    }, []);
+
+    const handleAdjustRasterLayer = useCallback((id: string) => {
+        const layer = rasterLayers.find(l => l.id === id);
+        if (layer?.kind === 'image') setGeoreferenceSession(createGeoreferenceSession(layer));
+    }, [rasterLayers]);
+
+    const handleGeoreferenceSave = useCallback((corners: ImageCorners, opacity: number) => {
+        if (!georeferenceSession) return;
+        const { layerId, image } = georeferenceSession;
+        if (layerId) {
+            setRasterLayers(prev => prev.map(l => l.id === layerId ? { ...l, corners, opacity } : l));
+        } else {
+            setRasterLayers(prev => [...prev, { ...createImageRasterLayer(image, corners), opacity }]);
+            setSidebarView('assets');
+        }
+        setGeoreferenceSession(null);
+    }, [georeferenceSession]);
+
+    const handleStyleChange = useCallback((layerId: string, style: Partial<LayerStyle>) => {
+        const layer = layers.find(l => l.id === layerId);
+        if (!layer) return;
+        saveLayerStyle(layerId, pickLayerStyle({ ...layer, ...style }));
+        setLayers(prev => prev.map(l => l.id === layerId ? { ...l, ...style } : l));
+    }, [layers]);
+
+    const handleResetStyle = useCallback((layerId: string) => {
+        const defaultStyle = defaultLayerStylesRef.current[layerId];
+        if (!defaultStyle) return;
+        clearSavedLayerStyle(layerId);
+        setLayers(prev => prev.map(l => l.id === layerId ? { ...l, ...defaultStyle } : l));
+    }, []);
+
+    const handleCommitAttributeEdits = useCallback((layerId: string, edits: AttributeEdit[]) => {
+        const layer = layers.find(l => l.id === layerId);
+        if (!layer) return;
+        // Pending edits hold the feature objects they were made on, which a refresh or map edit may have replaced
+        // since. They are matched to the current features by id; edits to features that are gone are dropped.
+        const current = new Map<string, Feature>(layer.data.features.map(f => [getFeatureId(f), f]));
+        const replacements = new Map<Feature, Feature>();
+        edits.forEach(({ feature, changes }) => {
+            const target = current.get(getFeatureId(feature));
+            if (target) replacements.set(target, { ...target, properties: { ...target.properties, ...replacements.get(target)?.properties, ...changes } });
+        });
+        recordAuditEntries(Array.from(replacements.entries()).map(([before, after]) => createAuditEntry(layer, before, after)));
+        setLayers(prev => prev.map(l => l.id === layerId
+            ? { ...l, data: { ...l.data, features: l.data.features.map(f => replacements.get(f) || f) } }
+            : l));
+        setSelectedAssets(prev => prev.map(a => replacements.has(a.feature) ? { ...a, feature: replacements.get(a.feature)! } : a));
+    }, [layers, recordAuditEntries]);
+
+    const handleEditFeatures = useCallback((layerId: string, edits: FeatureEdits) => {
+        const removed = new Set<Feature>(edits.removed || []);
+        const replacements = new Map<Feature, Feature>((edits.updated || []).map(({ before, after }) => [before, after]));
+        const layer = layers.find(l => l.id === layerId);
+        // New and split-off features get ids of their own so they don't take over an existing feature's, or the
+        // history of one that was deleted
+        const taken = new Set<string>((layer?.data.features || []).map(f => getFeatureId(f)));
+        auditLog.forEach(entry => { if (entry.layerId === layerId) taken.add(entry.featureId); });
+        const added = assignFeatureIds(edits.added || [], layer ? getLayerIdField(layer) : undefined, taken);
+        if (layer) recordAuditEntries([
+            ...Array.from(removed).map(feature => createAuditEntry(layer, feature, null)),
+            ...Array.from(replacements.entries()).map(([before, after]) => createAuditEntry(layer, before, after)),
+            ...added.map(feature => createAuditEntry(layer, null, feature)),
+        ]);
+        setLayers(prev => prev.map(l => l.id === layerId
+            ? { ...l, data: { ...l.data, features: [...l.data.features.filter(f => !removed.has(f)).map(f => replacements.get(f) || f), ...added] } }
+            : l));
+        setSelectedAssets(prev => {
+            if (added.length > 0) {
+                // New and split features become the selection so they can be inspected right away
+                const updated = Array.from(replacements.values()).map(feature => ({ layerId, feature }));
+                return [...updated, ...added.map(feature => ({ layerId, feature }))];
+            }
+            return prev
+                .filter(a => !removed.has(a.feature))
+                .map(a => replacements.has(a.feature) ? { ...a, feature: replacements.get(a.feature)! } : a);
+        });
+    }, [layers, auditLog, recordAuditEntries]);
+
+    // Puts a feature back as it was in an earlier version, bringing it back if it has been deleted since
+    const handleRevertFeature = useCallback((layerId: string, version: Feature) => {
+        const layer = layers.find(l => l.id === layerId);
+        if (!layer) return;
+        const featureId = getFeatureId(version);
+        const current = layer.data.features.find(f => getFeatureId(f) === featureId) || null;
+        const restored: Feature = { ...version, id: featureId };
+        const entry = createAuditEntry(layer, current, restored, 'reverted');
+        if (!entry) return;
+        recordAuditEntries([entry]);
+        setLayers(prev => prev.map(l => l.id === layerId
+            ? { ...l, data: { ...l.data, features: current ? l.data.features.map(f => f === current ? restored : f) : [...l.data.features, restored] } }
+            : l));
+        setSelectedAssets(prev => current && prev.some(a => a.feature === current)
+            ? prev.map(a => a.feature === current ? { ...a, feature: restored } : a)
+            : [{ layerId, feature: restored }]);
+    }, [layers, recordAuditEntries]);
+
+    const handleSelectAuditFeature = useCallback((layerId: string, featureId: string) => {
+        const feature = layers.find(l => l.id === layerId)?.data.features.find(f => getFeatureId(f) === featureId);
+        if (!feature) return;
+        setSelectedAssets([{ layerId, feature }]);
+        if (feature.geometry) calculateBounds(feature);
+    }, [layers, calculateBounds]);
+
     const handleAssetSelect = useCallback((layerId: string, feature: Feature, isCtrlPressed: boolean) => {
         const newSelection = { layerId, feature };
-        const fid = String(feature.properties?.fid);
 
         setSelectedAssets(prev => {
-            const isAlreadySelected = prev.some(item => item.layerId === layerId && String(item.feature.properties?.fid) === fid);
+            const isAlreadySelected = prev.some(item => isSameAsset(item, newSelection));
 
             if (isCtrlPressed) {
                 return isAlreadySelected
-                    ? prev.filter(item => !(item.layerId === layerId && String(item.feature.properties?.fid) === fid))
+                    ? prev.filter(item => !isSameAsset(item, newSelection))
                     : [...prev, newSelection];
             } else {
                 return isAlreadySelected && prev.length === 1 ? [] : [newSelection];
@@ -145,9 +564,9 @@ const App: React.FC = () => {
     const handleAreaSelect = useCallback((assets: { layerId: string, feature: Feature }[], isCtrlPressed: boolean) => {
         setSelectedAssets(prev => {
             if (isCtrlPressed) {
-                const existingSelectionMap = new Map(prev.map(a => [`${a.layerId}-${a.feature.properties?.fid}`, a]));
+                const existingSelectionMap = new Map(prev.map(a => [getAssetKey(a.layerId, a.feature), a]));
                 for(const asset of assets) {
-                    const key = `${asset.layerId}-${asset.feature.properties?.fid}`;
+                    const key = getAssetKey(asset.layerId, asset.feature);
                     if (!existingSelectionMap.has(key)) {
                         existingSelectionMap.set(key, asset);
                     }
@@ -166,25 +585,92 @@ const App: React.FC = () => {
     }, [layers, calculateBounds]);
 
     const handleOpenAttributeTable = (layerId: string) => { setAttributeTableLayerId(layerId); };
-    const handleCloseAttributeTable = () => { 
-        setAttributeTableLayerId(null); 
-        setAttributeTableFilter(null);
-    };
+    const handleCloseAttributeTable = () => { setAttributeTableLayerId(null); };
     const handleCalculateArea = () => { setAreaModalOpen(true); };
 
+    // The active query filters the asset list, the attribute table and dims non-matching features on the map
+    const handleApplyQuery = useCallback((filter: AttributeFilter | null) => {
+        setQueryFilter(filter);
+        const layer = filter && layers.find(l => l.id === filter.layerId);
+        if (layer) {
+            setActiveLayerTab(layer.name);
+            setSidebarView('assets');
+        }
+    }, [layers]);
+
+    const handleSelectQueryMatches = useCallback((filter: AttributeFilter): number => {
+        const layer = layers.find(l => l.id === filter.layerId);
+        if (!layer) return 0;
+        const matches = applyFilter(layer, filter);
+        setSelectedAssets(matches.map(feature => ({ layerId: layer.id, feature })));
+        if (matches.length > 0) calculateBounds({ type: 'FeatureCollection', features: matches });
+        return matches.length;
+    }, [layers, calculateBounds]);
+
+    // Applies a filter from the query assistant and selects the matches on the map
+    const handleApplyAssistantFilter = useCallback((filter: AttributeFilter): number => {
+        handleApplyQuery(filter);
+        return handleSelectQueryMatches(filter);
+    }, [handleApplyQuery, handleSelectQueryMatches]);
+
+    const handleSaveQuery = (name: string, filter: AttributeFilter) => {
+        const next = [...savedQueries.filter(q => !(q.name === name && q.filter.layerId === filter.layerId)), { id: `query-${Date.now()}`, name, filter }];
+        setSavedQueries(next);
+        storeSavedQueries(next);
+    };
+
+    const handleDeleteQuery = (id: string) => {
+        const next = savedQueries.filter(q => q.id !== id);
+        setSavedQueries(next);
+        storeSavedQueries(next);
+    };
+
+    const handleCreateWorkOrder = (draft: WorkOrderDraft): string | null => {
+        try {
+            const order = createWorkOrder(draft, toWorkOrderAssets(mappedSelectedAssets as { layer: GeoJsonLayer; feature: Feature }[]));
+            setWorkOrders(prev => [...prev, order]);
+            return null;
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+    };
+
+    const handleWorkOrderStatusChange = useCallback((id: string, status: WorkOrderStatus) => {
+        setWorkOrders(prev => prev.map(order => {
+            if (order.id !== id) return order;
+            try {
+                return transitionWorkOrder(order, status);
+            } catch (error) {
+                console.warn(error);
+                return order;
+            }
+        }));
+    }, []);
+
+    const handleDeleteWorkOrder = useCallback((id: string) => {
+        setWorkOrders(prev => prev.filter(order => order.id !== id));
+    }, []);
+
+    const handleShowWorkOrderAssets = useCallback((order: WorkOrder) => {
+        const keys = new Set(order.assets.map(a => getWorkOrderAssetKey(a.layerId, a.fid)));
+        const assets = layers.flatMap(layer => layer.data.features
+            .filter(feature => keys.has(getWorkOrderAssetKey(layer.id, getFeatureId(feature))))
+            .map(feature => ({ layerId: layer.id, feature })));
+        setSelectedAssets(assets);
+        if (assets.length > 0) calculateBounds({ type: 'FeatureCollection', features: assets.map(a => a.feature) });
+    }, [layers, calculateBounds]);
+
+    const workOrderPriorities = useMemo(() => getOpenWorkOrderPriorities(workOrders), [workOrders]);
+
     const handleCategoryFilter = (layerId: string, key: string, value: string) => {
-        const layer = layers.find(l => l.id === layerId);
-        if (layer) setActiveLayerTab(layer.name);
-        setPropertySearchKey(key);
-        setPropertySearchValue(value);
-        setSidebarView('assets');
+        handleApplyQuery({ layerId, combinator: 'and', clauses: [{ field: key, operator: '=', value }] });
         setAssetSearchTerm('');
     };
     
     const handleViewFilteredTable = (key: string, value: string) => {
         const activeLayer = layers.find(l => l.name === activeLayerTab);
         if (activeLayer) {
-            setAttributeTableFilter({ key, value });
+            handleApplyQuery({ layerId: activeLayer.id, combinator: 'and', clauses: [{ field: key, operator: '=', value }] });
             setAttributeTableLayerId(activeLayer.id);
         }
     };
@@ -197,45 +683,35 @@ const App: React.FC = () => {
             layerId: activeLayer.id,
             feature,
             layerName: activeLayer.name,
-            layerColor: activeLayer.color
+            layerColor: activeLayer.color,
+            labelConfig: activeLayer,
+            statusModel: getLayerStatusModel(activeLayer),
         }));
         
-        if (propertySearchKey.trim() && propertySearchValue.trim()) {
-            const lowerKey = propertySearchKey.toLowerCase().trim();
-            const lowerValue = propertySearchValue.toLowerCase().trim();
-            list = list.filter(asset => {
-                if (!asset.feature.properties) return false;
-                const matchingPropKey = Object.keys(asset.feature.properties).find(k => k.toLowerCase() === lowerKey);
-                if (matchingPropKey) {
-                    const propValue = asset.feature.properties[matchingPropKey];
-                    return propValue !== null && propValue !== undefined && String(propValue).toLowerCase().includes(lowerValue);
-                }
-                return false;
-            });
+        if (queryFilter && queryFilter.layerId === activeLayer.id) {
+            list = list.filter(asset => matchesFilter(asset.feature, queryFilter));
         }
 
         if (assetSearchTerm.trim()) {
             const lowercasedFilter = assetSearchTerm.toLowerCase();
             list = list.filter(asset => {
-                const displayName = getFeatureDisplayName(asset.feature).toLowerCase();
-                const id = (asset.feature.properties?.fid || '').toString().toLowerCase();
+                const displayName = getFeatureDisplayName(asset.feature, activeLayer).toLowerCase();
+                const id = getFeatureId(asset.feature).toLowerCase();
                 return displayName.includes(lowercasedFilter) || id.includes(lowercasedFilter);
             });
         }
         return list;
-    }, [layers, activeLayerTab, assetSearchTerm, propertySearchKey, propertySearchValue]);
+    }, [layers, activeLayerTab, assetSearchTerm, queryFilter]);
     
     const layerForAttributeTable = useMemo(() => {
         const originalLayer = layers.find(l => l.id === attributeTableLayerId);
         if (!originalLayer) return null;
 
-        if (attributeTableFilter) {
-            const filteredFeatures = originalLayer.data.features.filter(f =>
-                f.properties && String(f.properties[attributeTableFilter.key]) === attributeTableFilter.value
-            );
+        if (queryFilter && queryFilter.layerId === originalLayer.id) {
+            const filteredFeatures = applyFilter(originalLayer, queryFilter);
             return {
                 ...originalLayer,
-                name: `${originalLayer.name} (Filter: ${attributeTableFilter.key} = "${attributeTableFilter.value}")`,
+                name: `${originalLayer.name} (Query: ${describeFilter(queryFilter)})`,
                 data: {
                     ...originalLayer.data,
                     features: filteredFeatures,
@@ -244,7 +720,7 @@ const App: React.FC = () => {
         }
 
         return originalLayer;
-    }, [layers, attributeTableLayerId, attributeTableFilter]);
+    }, [layers, attributeTableLayerId, queryFilter]);
 
     const mappedSelectedAssets = useMemo(() => {
         return selectedAssets.map(asset => {
@@ -255,7 +731,18 @@ const App: React.FC = () => {
 
     return (
         <div className="relative flex h-screen w-full flex-col overflow-hidden">
-            <Header />
+            <Header>
+                <WorkspaceMenu
+                    bookmarks={bookmarks}
+                    lastSavedAt={lastSavedAt}
+                    onAddBookmark={handleAddBookmark}
+                    onGoToBookmark={handleGoToBookmark}
+                    onDeleteBookmark={(id) => setBookmarks(prev => prev.filter(b => b.id !== id))}
+                    onExportWorkspace={() => exportWorkspaceFile(buildWorkspace())}
+                    onImportWorkspace={handleImportWorkspace}
+                    onResetWorkspace={handleResetWorkspace}
+                />
+            </Header>
             <div className="flex h-full min-h-0 flex-1">
                 <LeftSidebar
                     layers={layers}
@@ -267,32 +754,83 @@ const App: React.FC = () => {
                     onOpenAttributeTable={handleOpenAttributeTable}
                     onCategoryFilter={handleCategoryFilter}
                     onViewFilteredTable={handleViewFilteredTable}
+                    onImportFiles={handleImportFiles}
+                    onImportImageOverlay={handleImportImageOverlay}
+                    onOpenOverlayAnalysis={() => setOverlayPanelOpen(true)}
+                    onOpenServiceDialog={() => setServiceDialogOpen(true)}
+                    onRefreshRemoteLayer={handleRefreshRemoteLayer}
+                    rasterLayers={rasterLayers}
+                    onRasterLayerChange={handleRasterLayerChange}
+                    onRemoveRasterLayer={handleRemoveRasterLayer}
+                    onAdjustRasterLayer={handleAdjustRasterLayer}
+                    onStyleChange={handleStyleChange}
+                    onResetStyle={handleResetStyle}
                     assets={assetList}
                     selectedAssets={selectedAssets}
                     onAssetSelect={handleAssetSelect}
                     assetSearchTerm={assetSearchTerm}
                     onAssetSearchChange={setAssetSearchTerm}
-                    propertySearchKey={propertySearchKey}
-                    propertySearchValue={propertySearchValue}
-                    onPropertyFilterClear={() => {
-                        setPropertySearchKey('');
-                        setPropertySearchValue('');
-                    }}
+                    queryFilter={queryFilter}
+                    savedQueries={savedQueries}
+                    onApplyQuery={handleApplyQuery}
+                    onSelectQueryMatches={handleSelectQueryMatches}
+                    onSaveQuery={handleSaveQuery}
+                    onDeleteQuery={handleDeleteQuery}
+                    workOrders={workOrders}
+                    onWorkOrderStatusChange={handleWorkOrderStatusChange}
+                    onDeleteWorkOrder={handleDeleteWorkOrder}
+                    onShowWorkOrderAssets={handleShowWorkOrderAssets}
+                    auditLog={auditLog}
+                    auditUser={auditUser}
+                    onAuditUserChange={handleAuditUserChange}
+                    onRevertFeature={handleRevertFeature}
+                    onSelectAuditFeature={handleSelectAuditFeature}
                     sidebarView={sidebarView}
                     setSidebarView={setSidebarView}
                 />
-                <main className="flex flex-1 flex-col bg-slate-100 p-4">
-                    <MapWrapper
-                        center={[13.267, 80.329]}
-                        zoom={15}
-                        layers={layers}
-                        boundsToFit={boundsToFit}
-                        onFeatureSelect={handleAssetSelect}
-                        selectedAssets={mappedSelectedAssets as { layer: GeoJsonLayer; feature: Feature }[]}
-                        onClearSelection={handleClearSelection}
-                        onAreaSelect={handleAreaSelect}
-                        onCalculateArea={handleCalculateArea}
-                    />
+                <main className="relative flex flex-1 min-w-0 gap-4 bg-slate-100 p-4">
+                    <div className="absolute top-8 left-8 z-[1100]">
+                        <QueryAssistant layers={layers} onApplyFilter={handleApplyAssistantFilter} />
+                    </div>
+                    {restoredWorkspace !== undefined && (
+                        <MapWrapper
+                            center={initialView?.center || [13.267, 80.329]}
+                            zoom={initialView?.zoom ?? 15}
+                            layers={layers}
+                            rasterLayers={rasterLayers}
+                            boundsToFit={boundsToFit}
+                            extentToShow={extentToShow}
+                            onFeatureSelect={handleAssetSelect}
+                            selectedAssets={mappedSelectedAssets as { layer: GeoJsonLayer; feature: Feature }[]}
+                            onClearSelection={handleClearSelection}
+                            onAreaSelect={handleAreaSelect}
+                            onCalculateArea={handleCalculateArea}
+                            onEditFeatures={handleEditFeatures}
+                            queryFilter={queryFilter}
+                            initialBasemapKey={initialUrlState.basemap || restoredWorkspace?.basemap}
+                            onViewChange={setMapView}
+                            initialSession={restoredWorkspace?.session}
+                            onSessionChange={setMapSession}
+                            workOrderPriorities={workOrderPriorities}
+                            georeferenceSession={georeferenceSession}
+                            onGeoreferenceSave={handleGeoreferenceSave}
+                            onGeoreferenceCancel={() => setGeoreferenceSession(null)}
+                            onCreateLayer={(name, data) => handleAddDerivedLayer(name, data, 'straighten')}
+                        />
+                    )}
+                    {mappedSelectedAssets.length > 0 && (
+                        <FeatureInspector
+                            assets={mappedSelectedAssets as { layer: GeoJsonLayer; feature: Feature }[]}
+                            onClose={handleClearSelection}
+                            onZoomToFeature={calculateBounds}
+                            workOrders={workOrders}
+                            onCreateWorkOrder={() => setWorkOrderFormOpen(true)}
+                            onOpenWorkOrders={() => setSidebarView('workOrders')}
+                            auditLog={auditLog}
+                            onRevertFeature={handleRevertFeature}
+                            onOpenAuditLog={() => setSidebarView('history')}
+                        />
+                    )}
                 </main>
             </div>
             {layerForAttributeTable && (
@@ -303,8 +841,27 @@ const App: React.FC = () => {
                         handleAssetSelect(layerForAttributeTable.id, feature, false);
                         handleCloseAttributeTable();
                     }}
+                    onCommitEdits={handleCommitAttributeEdits}
                 />
             )}
+            <OverlayAnalysisPanel
+                isOpen={isOverlayPanelOpen}
+                onClose={() => setOverlayPanelOpen(false)}
+                layers={layers}
+                onCreateLayer={(result) => handleAddDerivedLayer(result.name, result.data, 'join')}
+            />
+            <ServiceLayerDialog
+                isOpen={isServiceDialogOpen}
+                onClose={() => setServiceDialogOpen(false)}
+                onAddRasterLayers={handleAddRasterLayers}
+                onAddRemoteLayers={handleAddRemoteLayers}
+            />
+            <WorkOrderForm
+                isOpen={isWorkOrderFormOpen}
+                onClose={() => setWorkOrderFormOpen(false)}
+                assets={mappedSelectedAssets as { layer: GeoJsonLayer; feature: Feature }[]}
+                onCreate={handleCreateWorkOrder}
+            />
             <AreaCalculationModal 
                 isOpen={isAreaModalOpen}
                 onClose={() => setAreaModalOpen(false)}
@@ -1,14 +1,27 @@
 import React, { useState, useMemo, useRef, useEffect, MouseEvent } from 'react';
 import type { Feature } from 'geojson';
 import type { GeoJsonLayer } from '../types';
-import { getFeatureDisplayName } from '../utils';
+import { getFeatureDisplayName, inferFieldType, FieldType } from '../utils';
+import { getFeatureId, getLayerIdField } from '../services/featureIdService';
+import ExportMenu from './ExportMenu';
+
+export interface AttributeEdit {
+  feature: Feature;
+  changes: Record<string, unknown>;
+}
 
 interface AttributeTableProps {
   layer: GeoJsonLayer;
   onClose: () => void;
   onFeatureSelect: (feature: Feature) => void;
+  onCommitEdits: (layerId: string, edits: AttributeEdit[]) => void;
 }
 
+// Identifier and geometry-derived fields are never edited by hand; neither is the layer's own id field
+const READ_ONLY_FIELDS = ['fid', 'Shape_Length', 'Shape_Area'];
+
+type PendingEdits = Map<Feature, Record<string, unknown>>;
+
 type SortConfig = {
   key: string;
   direction: 'ascending' | 'descending';
@@ -54,9 +67,71 @@ const ValueDisplay: React.FC<{ value: any; searchTerm: string }> = ({ value, sea
 };
 
 
-const AttributeTable: React.FC<AttributeTableProps> = ({ layer, onClose, onFeatureSelect }) => {
+const CellEditor: React.FC<{
+  type: FieldType;
+  value: unknown;
+  options: string[];
+  onCommit: (value: unknown) => void;
+  onCancel: () => void;
+}> = ({ type, value, options, onCommit, onCancel }) => {
+  const [draft, setDraft] = useState(value === null || value === undefined ? '' : String(value));
+  const listId = useMemo(() => `attr-options-${Math.random().toString(36).slice(2)}`, []);
+
+  const commit = () => {
+    if (type === 'number') {
+      onCommit(draft.trim() === '' ? null : Number(draft));
+    } else if (type === 'boolean' && typeof value === 'boolean') {
+      onCommit(draft === 'true');
+    } else {
+      onCommit(draft);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') commit();
+    if (e.key === 'Escape') onCancel();
+  };
+
+  const inputClasses = "form-input w-full min-w-32 rounded-md border-indigo-300 bg-white px-2 py-1 text-sm text-slate-900 focus:border-indigo-500 focus:ring-indigo-500/30";
+
+  if (type === 'boolean') {
+    const choices = typeof value === 'boolean' ? ['true', 'false'] : ['Yes', 'No'];
+    return (
+      <select autoFocus className={`form-select ${inputClasses}`} value={draft} onChange={(e) => setDraft(e.target.value)} onBlur={commit} onKeyDown={handleKeyDown}>
+        {!choices.includes(draft) && <option value={draft}>{draft || '(empty)'}</option>}
+        {choices.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+      </select>
+    );
+  }
+
+  return (
+    <>
+      <input
+        autoFocus
+        type={type === 'number' ? 'number' : 'text'}
+        className={inputClasses}
+        value={draft}
+        list={type === 'category' ? listId : undefined}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+      />
+      {type === 'category' && (
+        <datalist id={listId}>
+          {options.map(option => <option key={option} value={option} />)}
+        </datalist>
+      )}
+    </>
+  );
+};
+
+const AttributeTable: React.FC<AttributeTableProps> = ({ layer, onClose, onFeatureSelect, onCommitEdits }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortConfig, setSortConfig] = useState<SortConfig>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [pendingEdits, setPendingEdits] = useState<PendingEdits>(new Map());
+  const [editHistory, setEditHistory] = useState<{ feature: Feature; key: string; previous: unknown; hadPending: boolean }[]>([]);
+  const [activeCell, setActiveCell] = useState<{ feature: Feature; key: string } | null>(null);
 
   const panelRef = useRef<HTMLDivElement>(null);
   const [position, setPosition] = useState({ x: 0, y: 0 });
@@ -121,13 +196,83 @@ const AttributeTable: React.FC<AttributeTableProps> = ({ layer, onClose, onFeatu
     return ['Display Name', ...sortedKeys];
   }, [layer.data.features]);
 
+  const fieldInfo = useMemo(() => {
+    const info: Record<string, { type: FieldType; options: string[] }> = {};
+    for (const header of headers.slice(1)) {
+      const values = layer.data.features.map(f => f.properties?.[header]);
+      const options = Array.from(new Set<string>(values.filter(v => v !== null && v !== undefined && String(v).trim() !== '').map(v => String(v).trim()))).sort();
+      info[header] = { type: inferFieldType(values), options };
+    }
+    return info;
+  }, [headers, layer.data.features]);
+
+  const pendingCount = useMemo(
+    () => Array.from(pendingEdits.values()).reduce((sum: number, changes) => sum + Object.keys(changes).length, 0),
+    [pendingEdits]
+  );
+
+  const getCellValue = (feature: Feature, key: string) => {
+    const changes = pendingEdits.get(feature);
+    return changes && key in changes ? changes[key] : feature.properties?.[key];
+  };
+
+  const isDirty = (feature: Feature, key: string) => !!pendingEdits.get(feature) && key in pendingEdits.get(feature)!;
+
+  const setCellValue = (feature: Feature, key: string, value: unknown) => {
+    setActiveCell(null);
+    if (value === getCellValue(feature, key)) return;
+
+    const changes = pendingEdits.get(feature);
+    setEditHistory(prev => [...prev, { feature, key, previous: changes?.[key], hadPending: !!changes && key in changes }]);
+    setPendingEdits(prev => {
+      const next: PendingEdits = new Map(prev);
+      const featureChanges = { ...(next.get(feature) || {}) };
+      if (value === feature.properties?.[key]) delete featureChanges[key];
+      else featureChanges[key] = value;
+      if (Object.keys(featureChanges).length === 0) next.delete(feature);
+      else next.set(feature, featureChanges);
+      return next;
+    });
+  };
+
+  const undoLastEdit = () => {
+    const last = editHistory[editHistory.length - 1];
+    if (!last) return;
+    setEditHistory(prev => prev.slice(0, -1));
+    setPendingEdits(prev => {
+      const next: PendingEdits = new Map(prev);
+      const featureChanges = { ...(next.get(last.feature) || {}) };
+      if (last.hadPending) featureChanges[last.key] = last.previous;
+      else delete featureChanges[last.key];
+      if (Object.keys(featureChanges).length === 0) next.delete(last.feature);
+      else next.set(last.feature, featureChanges);
+      return next;
+    });
+  };
+
+  const discardEdits = () => {
+    setPendingEdits(new Map());
+    setEditHistory([]);
+    setActiveCell(null);
+  };
+
+  const commitEdits = () => {
+    onCommitEdits(layer.id, Array.from(pendingEdits.entries()).map(([feature, changes]) => ({ feature, changes })));
+    discardEdits();
+  };
+
+  const handleClose = () => {
+    if (pendingCount > 0 && !window.confirm(`Discard ${pendingCount} uncommitted change${pendingCount !== 1 ? 's' : ''}?`)) return;
+    onClose();
+  };
+
   const rows = useMemo(() => {
     let featureData = [...layer.data.features];
 
     if (searchTerm) {
       const lowercasedFilter = searchTerm.toLowerCase();
       featureData = featureData.filter(feature => {
-        if (getFeatureDisplayName(feature).toLowerCase().includes(lowercasedFilter)) {
+        if (getFeatureDisplayName(feature, layer).toLowerCase().includes(lowercasedFilter)) {
             return true;
         }
         if (!feature.properties) return false;
@@ -144,8 +289,8 @@ const AttributeTable: React.FC<AttributeTableProps> = ({ layer, onClose, onFeatu
         let bValue: any;
 
         if (key === 'Display Name') {
-            aValue = getFeatureDisplayName(a);
-            bValue = getFeatureDisplayName(b);
+            aValue = getFeatureDisplayName(a, layer);
+            bValue = getFeatureDisplayName(b, layer);
         } else {
             aValue = a.properties?.[key];
             bValue = b.properties?.[key];
@@ -169,7 +314,7 @@ const AttributeTable: React.FC<AttributeTableProps> = ({ layer, onClose, onFeatu
       });
     }
     return featureData;
-  }, [layer.data.features, searchTerm, sortConfig]);
+  }, [layer.data.features, layer.labelTemplate, layer.displayNameField, searchTerm, sortConfig]);
 
   const requestSort = (key: string) => {
     let direction: 'ascending' | 'descending' = 'ascending';
@@ -220,7 +365,27 @@ const AttributeTable: React.FC<AttributeTableProps> = ({ layer, onClose, onFeatu
                         />
                     </div>
                 </label>
-                <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-red-500/10 hover:text-red-500 transition-colors">
+                <button
+                    onClick={() => {
+                        setIsEditing(prev => !prev);
+                        setActiveCell(null);
+                    }}
+                    title={isEditing ? 'Stop editing (pending changes are kept)' : 'Edit attributes'}
+                    className={`flex items-center gap-1.5 h-10 px-3 rounded-lg text-sm font-semibold transition-colors ${isEditing ? 'bg-indigo-500 text-white hover:bg-indigo-600' : 'bg-slate-100 text-slate-700 border border-slate-200 hover:bg-slate-200'}`}
+                >
+                    <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>{isEditing ? 'edit_off' : 'edit'}</span>
+                    {isEditing ? 'Editing' : 'Edit'}
+                </button>
+                <ExportMenu
+                    features={rows}
+                    name={layer.name}
+                    labelConfig={layer}
+                    color={layer.color}
+                    title={`Export ${rows.length} row${rows.length !== 1 ? 's' : ''}`}
+                    buttonClassName="flex items-center gap-1.5 h-10 px-3 rounded-lg text-sm font-semibold bg-slate-100 text-slate-700 border border-slate-200 hover:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+                    label="Export"
+                />
+                <button onClick={handleClose} className="p-2 rounded-full text-slate-500 hover:bg-red-500/10 hover:text-red-500 transition-colors">
                     <span className="material-symbols-outlined" style={{ fontSize: '24px' }}>close</span>
                 </button>
             </div>
@@ -243,18 +408,43 @@ const AttributeTable: React.FC<AttributeTableProps> = ({ layer, onClose, onFeatu
                 <tbody>
                     {rows.map((feature, index) => (
                         <tr 
-                            key={feature.properties?.fid || index} 
-                            className="group border-b border-slate-200 hover:bg-indigo-50 even:bg-slate-50/50 cursor-pointer transition-colors"
-                            onClick={() => onFeatureSelect(feature)}
+                            key={getFeatureId(feature)} 
+                            className={`group border-b border-slate-200 hover:bg-indigo-50 even:bg-slate-50/50 transition-colors ${isEditing ? '' : 'cursor-pointer'}`}
+                            onClick={() => { if (!isEditing) onFeatureSelect(feature); }}
                         >
-                           {headers.map((header, idx) => (
-                                <td key={header} className={`px-5 py-4 whitespace-nowrap max-w-xs truncate ${idx === 0 ? 'sticky left-0 bg-white group-even:bg-slate-50/50 group-hover:bg-indigo-50 border-r border-slate-200 font-semibold text-indigo-700' : ''}`} title={String(header === 'Display Name' ? getFeatureDisplayName(feature) : (feature.properties?.[header] || ''))}>
-                                    {header === 'Display Name' 
-                                        ? <Highlight text={getFeatureDisplayName(feature)} highlight={searchTerm} />
-                                        : <ValueDisplay value={feature.properties?.[header]} searchTerm={searchTerm} />
-                                    }
-                                </td>
-                           ))}
+                           {headers.map((header, idx) => {
+                                if (idx === 0) {
+                                    return (
+                                        <td key={header} className="px-5 py-4 whitespace-nowrap max-w-xs truncate sticky left-0 bg-white group-even:bg-slate-50/50 group-hover:bg-indigo-50 border-r border-slate-200 font-semibold text-indigo-700" title={getFeatureDisplayName(feature, layer)}>
+                                            <Highlight text={getFeatureDisplayName(feature, layer)} highlight={searchTerm} />
+                                        </td>
+                                    );
+                                }
+                                const value = getCellValue(feature, header);
+                                const dirty = isDirty(feature, header);
+                                const editable = isEditing && !READ_ONLY_FIELDS.includes(header) && header !== getLayerIdField(layer);
+                                const isActive = activeCell?.feature === feature && activeCell.key === header;
+                                return (
+                                    <td
+                                        key={header}
+                                        className={`relative px-5 py-4 whitespace-nowrap max-w-xs truncate ${dirty ? 'bg-amber-50' : ''} ${editable ? 'cursor-text hover:ring-1 hover:ring-inset hover:ring-indigo-300' : ''}`}
+                                        title={dirty ? `Changed from "${feature.properties?.[header] ?? 'null'}"` : String(value ?? '')}
+                                        onClick={() => { if (editable) setActiveCell({ feature, key: header }); }}
+                                    >
+                                        {dirty && <span className="absolute top-1 right-1 size-1.5 rounded-full bg-amber-500"></span>}
+                                        {isActive
+                                            ? <CellEditor
+                                                type={fieldInfo[header]?.type || 'text'}
+                                                value={value}
+                                                options={fieldInfo[header]?.options || []}
+                                                onCommit={(newValue) => setCellValue(feature, header, newValue)}
+                                                onCancel={() => setActiveCell(null)}
+                                              />
+                                            : <ValueDisplay value={value} searchTerm={searchTerm} />
+                                        }
+                                    </td>
+                                );
+                           })}
                         </tr>
                     ))}
                 </tbody>
@@ -268,8 +458,30 @@ const AttributeTable: React.FC<AttributeTableProps> = ({ layer, onClose, onFeatu
             )}
         </div>
 
-        <footer className="p-3 bg-slate-50 border-t border-slate-200 text-xs text-slate-600 shrink-0">
-            Showing <span className="font-semibold text-slate-900">{rows.length.toLocaleString()}</span> of <span className="font-semibold text-slate-900">{layer.data.features.length.toLocaleString()}</span> features.
+        <footer className="p-3 bg-slate-50 border-t border-slate-200 text-xs text-slate-600 shrink-0 flex items-center justify-between gap-4">
+            <span>
+                Showing <span className="font-semibold text-slate-900">{rows.length.toLocaleString()}</span> of <span className="font-semibold text-slate-900">{layer.data.features.length.toLocaleString()}</span> features.
+            </span>
+            {pendingCount > 0 && (
+                <div className="flex items-center gap-2">
+                    <span className="flex items-center gap-1.5 font-medium text-amber-700">
+                        <span className="size-2 rounded-full bg-amber-500"></span>
+                        {pendingCount} pending change{pendingCount !== 1 ? 's' : ''}
+                    </span>
+                    <button onClick={undoLastEdit} disabled={editHistory.length === 0} className="flex items-center gap-1 px-2 py-1 rounded-md text-slate-600 hover:bg-slate-200 disabled:text-slate-400 disabled:hover:bg-transparent transition-colors">
+                        <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>undo</span>
+                        Undo
+                    </button>
+                    <button onClick={discardEdits} className="flex items-center gap-1 px-2 py-1 rounded-md text-rose-600 hover:bg-rose-50 transition-colors">
+                        <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>delete_sweep</span>
+                        Discard
+                    </button>
+                    <button onClick={commitEdits} className="flex items-center gap-1 px-3 py-1 rounded-md bg-indigo-500 text-white font-semibold hover:bg-indigo-600 transition-colors">
+                        <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>save</span>
+                        Commit
+                    </button>
+                </div>
+            )}
         </footer>
     </div>
   );
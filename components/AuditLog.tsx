@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import type { Feature } from 'geojson';
+import type { AuditEntry, GeoJsonLayer } from '../types';
+import AuditTimeline from './AuditTimeline';
+import { exportAuditLog, getDeletedFeatures } from '../services/auditService';
+
+interface AuditLogProps {
+    log: AuditEntry[];
+    layers: GeoJsonLayer[];
+    user: string;
+    onUserChange: (name: string) => void;
+    onClose: () => void;
+    onRevertFeature: (layerId: string, version: Feature) => void;
+    onSelectFeature: (layerId: string, featureId: string) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const AuditLog: React.FC<AuditLogProps> = ({ log, layers, user, onUserChange, onClose, onRevertFeature, onSelectFeature }) => {
+    const [layerFilter, setLayerFilter] = useState('');
+    const [shownCount, setShownCount] = useState(PAGE_SIZE);
+
+    const entries = useMemo(() => log.filter(entry => !layerFilter || entry.layerId === layerFilter).reverse(), [log, layerFilter]);
+    const deleted = useMemo(() => getDeletedFeatures(log).filter(entry => !layerFilter || entry.layerId === layerFilter).reverse(), [log, layerFilter]);
+    // Layers with recorded changes, under their current name
+    const loggedLayers = useMemo(() => Array.from(new Map(log.map(entry =>
+        [entry.layerId, layers.find(l => l.id === entry.layerId)?.name || entry.layerName])).entries()), [log, layers]);
+
+    return (
+        <div className="h-full flex flex-col text-slate-700">
+            <div className="flex-shrink-0 flex items-center justify-between pb-3 border-b border-slate-200">
+                <button onClick={onClose} className="flex items-center gap-1 text-sm text-primary hover:text-blue-600 transition-colors group">
+                    <span className="material-symbols-outlined transition-transform group-hover:-translate-x-1" style={{ fontSize: '20px' }}>arrow_back</span>
+                    Back to Assets
+                </button>
+                <button
+                    onClick={() => exportAuditLog(entries.slice().reverse())}
+                    disabled={entries.length === 0}
+                    title="Export the audit log as CSV"
+                    className="flex items-center gap-1 rounded-md px-2 py-1 text-xs font-semibold text-slate-600 hover:bg-slate-100 disabled:text-slate-400 disabled:hover:bg-transparent disabled:cursor-not-allowed transition-colors"
+                >
+                    <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>download</span>
+                    CSV
+                </button>
+            </div>
+
+            <div className="mt-4 flex-shrink-0 space-y-3">
+                <h2 className="text-2xl font-bold text-slate-900">Change History</h2>
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+                    <span className="shrink-0">Recording as</span>
+                    <input
+                        value={user}
+                        onChange={(e) => onUserChange(e.target.value)}
+                        placeholder="Your name"
+                        className={`form-input flex-1 min-w-0 rounded-md bg-white py-1 px-2 text-xs text-slate-800 focus:border-primary focus:ring-primary/20 ${user.trim() ? 'border-slate-300' : 'border-amber-400'}`}
+                    />
+                </label>
+                {loggedLayers.length > 1 && (
+                    <select
+                        value={layerFilter}
+                        onChange={(e) => { setLayerFilter(e.target.value); setShownCount(PAGE_SIZE); }}
+                        className="form-select w-full rounded-md border-slate-300 bg-white py-1 pl-2 pr-8 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+                    >
+                        <option value="">All layers</option>
+                        {loggedLayers.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+                    </select>
+                )}
+            </div>
+
+            <div className="mt-4 flex-grow overflow-y-auto -mr-4 pr-3 space-y-4 pb-2">
+                {deleted.length > 0 && (
+                    <div>
+                        <p className="text-xs font-bold uppercase tracking-wide text-slate-500 mb-1">Deleted features</p>
+                        <ul className="space-y-1">
+                            {deleted.map(entry => (
+                                <li key={entry.id} className="flex items-center justify-between gap-2 rounded-md border border-slate-200 bg-white px-2 py-1.5 text-xs">
+                                    <span className="truncate" title={`${entry.featureName} · ${entry.layerName}`}>
+                                        <span className="font-semibold text-slate-800">{entry.featureName}</span> <span className="text-slate-500">· {entry.layerName}</span>
+                                    </span>
+                                    <button
+                                        onClick={() => entry.before && onRevertFeature(entry.layerId, entry.before)}
+                                        disabled={!layers.some(l => l.id === entry.layerId)}
+                                        className="flex items-center gap-1 shrink-0 font-semibold text-primary hover:text-blue-600 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+                                    >
+                                        <span className="material-symbols-outlined" style={{ fontSize: '14px' }}>restore_from_trash</span>
+                                        Restore
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {entries.length === 0 ? (
+                    <p className="text-sm text-slate-500 px-1">No changes recorded yet. Edits to attributes and geometry show up here.</p>
+                ) : (
+                    <>
+                        <AuditTimeline
+                            entries={entries.slice(0, shownCount)}
+                            showFeature
+                            onRevert={(entry, version) => onRevertFeature(entry.layerId, version)}
+                            onSelectFeature={(entry) => onSelectFeature(entry.layerId, entry.featureId)}
+                        />
+                        {entries.length > shownCount && (
+                            <button onClick={() => setShownCount(count => count + PAGE_SIZE)} className="w-full rounded-md py-1.5 text-xs font-semibold text-slate-600 hover:bg-slate-100 transition-colors">
+                                Show {Math.min(PAGE_SIZE, entries.length - shownCount)} more of {entries.length - shownCount}
+                            </button>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AuditLog;
@@ -0,0 +1,103 @@
+import React from 'react';
+import type { Feature } from 'geojson';
+import type { AuditEntry, AuditFieldChange } from '../types';
+import { AUDIT_ACTIONS, GEOMETRY_FIELD } from '../services/auditService';
+
+interface AuditTimelineProps {
+    // Newest first
+    entries: AuditEntry[];
+    // Shows which feature each entry is about, for timelines spanning several features
+    showFeature?: boolean;
+    // Called with the version to go back to: what an entry left behind, or what it replaced
+    onRevert?: (entry: AuditEntry, version: Feature) => void;
+    onSelectFeature?: (entry: AuditEntry) => void;
+}
+
+const MAX_CHANGES_SHOWN = 6;
+
+const formatAuditValue = (value: unknown) => {
+    if (value === null || value === undefined || String(value).trim() === '') return '—';
+    if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+    return String(value);
+};
+
+const ChangeRow: React.FC<{ change: AuditFieldChange }> = ({ change }) => {
+    if (change.field === GEOMETRY_FIELD) {
+        const text = !change.before ? 'Geometry drawn' : !change.after ? 'Geometry removed' : 'Geometry reshaped';
+        return <li className="text-slate-600 italic">{text}</li>;
+    }
+    return (
+        <li className="flex flex-wrap items-baseline gap-x-1 text-slate-600">
+            <span className="font-medium text-slate-500">{change.field}:</span>
+            <span className="line-through decoration-slate-400 text-slate-400 break-all">{formatAuditValue(change.before)}</span>
+            <span className="material-symbols-outlined text-slate-400" style={{ fontSize: '12px' }}>arrow_forward</span>
+            <span className="font-semibold text-slate-800 break-all">{formatAuditValue(change.after)}</span>
+        </li>
+    );
+};
+
+const AuditTimeline: React.FC<AuditTimelineProps> = ({ entries, showFeature = false, onRevert, onSelectFeature }) => (
+    <ol className="relative space-y-3 border-l border-slate-200 ml-2">
+        {entries.map((entry, i) => {
+            const spec = AUDIT_ACTIONS[entry.action];
+            // Per feature, the newest entry is the current version; anything older can be gone back to
+            const isCurrent = entries.findIndex(e => e.layerId === entry.layerId && e.featureId === entry.featureId) === i;
+            const changes = entry.action === 'created' || entry.action === 'deleted' ? [] : entry.changes;
+            return (
+                <li key={entry.id} className="relative pl-4 text-xs">
+                    <span
+                        className="absolute -left-2 top-0 flex size-4 items-center justify-center rounded-full bg-white ring-2 ring-white"
+                        style={{ color: spec.color }}
+                    >
+                        <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>{spec.icon}</span>
+                    </span>
+                    <div className="flex items-baseline justify-between gap-2">
+                        <span className="font-semibold" style={{ color: spec.color }}>{spec.label}</span>
+                        <span className="text-slate-400 tabular-nums shrink-0">{new Date(entry.at).toLocaleString()}</span>
+                    </div>
+                    {showFeature && (
+                        <button
+                            onClick={() => onSelectFeature?.(entry)}
+                            disabled={!onSelectFeature}
+                            className="block max-w-full truncate text-left font-semibold text-slate-800 hover:text-primary disabled:hover:text-slate-800 transition-colors"
+                            title={`${entry.featureName} · ${entry.layerName}`}
+                        >
+                            {entry.featureName} <span className="font-normal text-slate-500">· {entry.layerName}</span>
+                        </button>
+                    )}
+                    <p className="text-slate-500">by {entry.user}</p>
+                    {changes.length > 0 && (
+                        <ul className="mt-1 space-y-0.5">
+                            {changes.slice(0, MAX_CHANGES_SHOWN).map(change => <ChangeRow key={change.field} change={change} />)}
+                            {changes.length > MAX_CHANGES_SHOWN && <li className="text-slate-400">+{changes.length - MAX_CHANGES_SHOWN} more fields</li>}
+                        </ul>
+                    )}
+                    {onRevert && ((!isCurrent && entry.after) || entry.before) && (
+                        <div className="mt-1 flex flex-wrap gap-x-3 gap-y-0.5">
+                            {!isCurrent && entry.after && (
+                                <button
+                                    onClick={() => onRevert(entry, entry.after!)}
+                                    className="flex items-center gap-1 font-semibold text-primary hover:text-blue-600 transition-colors"
+                                >
+                                    <span className="material-symbols-outlined" style={{ fontSize: '14px' }}>history</span>
+                                    Revert to this version
+                                </button>
+                            )}
+                            {entry.before && (
+                                <button
+                                    onClick={() => onRevert(entry, entry.before!)}
+                                    className="flex items-center gap-1 font-semibold text-primary hover:text-blue-600 transition-colors"
+                                >
+                                    <span className="material-symbols-outlined" style={{ fontSize: '14px' }}>undo</span>
+                                    Revert to before this change
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </li>
+            );
+        })}
+    </ol>
+);
+
+export default AuditTimeline;
@@ -0,0 +1,88 @@
+import React, { useEffect } from 'react';
+import { TileLayer, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import type { BasemapDefinition } from '../types';
+import { getBasemapArchive, isArchiveBasemap } from '../services/basemapService';
+import type { TileArchive } from '../services/tileArchiveService';
+
+interface BasemapLayerProps {
+    basemap: BasemapDefinition;
+    onError: (message: string) => void;
+}
+
+// Tiles are scaled up past a basemap's deepest level until this zoom
+const MIN_MAX_ZOOM = 19;
+
+// Leaflet has no layer for tile archives, so each tile is read from the archive and shown through an object URL
+const createArchiveLayer = (archive: TileArchive, attribution: string) => {
+    const ArchiveLayer = L.GridLayer.extend({
+        createTile(coords: L.Coords, done: L.DoneCallback) {
+            const tile = document.createElement('img');
+            tile.alt = '';
+            const count = 2 ** coords.z;
+            if (coords.y < 0 || coords.y >= count) {
+                setTimeout(() => done(undefined, tile));
+                return tile;
+            }
+            archive.getTile(coords.z, ((coords.x % count) + count) % count, coords.y).then(blob => {
+                if (!blob) {
+                    done(undefined, tile);
+                    return;
+                }
+                const url = URL.createObjectURL(blob);
+                tile.onload = () => { URL.revokeObjectURL(url); done(undefined, tile); };
+                tile.onerror = () => { URL.revokeObjectURL(url); done(new Error(`Tile ${coords.z}/${coords.x}/${coords.y} is not a readable image`), tile); };
+                tile.src = url;
+            }, error => done(error, tile));
+            return tile;
+        },
+    });
+    return new ArchiveLayer({
+        attribution,
+        minNativeZoom: archive.minZoom,
+        maxNativeZoom: archive.maxZoom,
+        maxZoom: Math.max(archive.maxZoom, MIN_MAX_ZOOM),
+    }) as L.GridLayer;
+};
+
+const ArchiveBasemapLayer: React.FC<BasemapLayerProps> = ({ basemap, onError }) => {
+    const map = useMap();
+
+    useEffect(() => {
+        let isCancelled = false;
+        let layer: L.GridLayer | null = null;
+        getBasemapArchive(basemap).then(archive => {
+            if (isCancelled) return;
+            layer = createArchiveLayer(archive, basemap.attribution).addTo(map);
+            layer.bringToBack();
+        }, error => {
+            if (!isCancelled) onError(error instanceof Error ? error.message : String(error));
+        });
+        return () => {
+            isCancelled = true;
+            layer?.remove();
+        };
+    }, [map, basemap]);
+
+    return null;
+};
+
+const BasemapLayer: React.FC<BasemapLayerProps> = ({ basemap, onError }) => {
+    if (isArchiveBasemap(basemap)) return <ArchiveBasemapLayer basemap={basemap} onError={onError} />;
+    // Leaflet replaces its defaults with whatever keys are passed, so only the zooms a basemap sets are given
+    const zoomOptions = {
+        ...(basemap.minZoom !== undefined && { minNativeZoom: basemap.minZoom }),
+        ...(basemap.maxZoom !== undefined && { maxNativeZoom: basemap.maxZoom, maxZoom: Math.max(basemap.maxZoom, MIN_MAX_ZOOM) }),
+    };
+    return (
+        <TileLayer
+            url={basemap.url || ''}
+            attribution={basemap.attribution}
+            tms={basemap.type === 'tms'}
+            subdomains={basemap.subdomains || 'abc'}
+            {...zoomOptions}
+        />
+    );
+};
+
+export default BasemapLayer;
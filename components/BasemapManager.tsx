@@ -0,0 +1,313 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type L from 'leaflet';
+import type { BasemapDefinition, BasemapType } from '../types';
+import { BASEMAP_TYPES, getBasemapArchive, isArchiveBasemap, openBasemapFile, validateBasemap } from '../services/basemapService';
+import {
+    clearTileCache, countTiles, getCachedTileCount, getTileRanges, isTileCacheSupported, MAX_PREFETCH_TILES, prefetchTiles, TilePrefetchProgress,
+} from '../services/tileCacheService';
+
+interface BasemapManagerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    map: L.Map | null;
+    activeBasemap: BasemapDefinition;
+    // Basemaps added here, as opposed to the ones from the manifest
+    customBasemaps: BasemapDefinition[];
+    onAddBasemap: (basemap: BasemapDefinition) => void;
+    onRemoveBasemap: (id: string) => void;
+}
+
+const URL_TYPES: BasemapType[] = ['xyz', 'tms', 'pmtiles'];
+const DEFAULT_MAX_ZOOM = 19;
+// How far past the current zoom a download goes by default
+const DEFAULT_ZOOM_DEPTH = 3;
+
+const inputClasses = "form-input mt-1 w-full rounded-md border-slate-300 bg-white py-1.5 px-2 text-sm text-slate-800 focus:border-primary focus:ring-primary/20";
+const selectClasses = "form-select mt-1 w-full rounded-md border-slate-300 bg-white py-1.5 pl-2 pr-8 text-sm text-slate-800 focus:border-primary focus:ring-primary/20";
+
+const messageOf = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const BasemapManager: React.FC<BasemapManagerProps> = ({ isOpen, onClose, map, activeBasemap, customBasemaps, onAddBasemap, onRemoveBasemap }) => {
+    const [name, setName] = useState('');
+    const [type, setType] = useState<BasemapType>('xyz');
+    const [url, setUrl] = useState('');
+    const [maxZoom, setMaxZoom] = useState('');
+    const [allowPrefetch, setAllowPrefetch] = useState(false);
+    const [isAdding, setIsAdding] = useState(false);
+    const [bounds, setBounds] = useState<[[number, number], [number, number]] | null>(null);
+    const [zoomRange, setZoomRange] = useState<[number, number]>([0, 0]);
+    const [progress, setProgress] = useState<TilePrefetchProgress | null>(null);
+    const [cachedCount, setCachedCount] = useState(0);
+    const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const basemapMaxZoom = activeBasemap.maxZoom ?? DEFAULT_MAX_ZOOM;
+
+    // Downloads cover the extent on screen when the manager opens
+    useEffect(() => {
+        if (!isOpen || !map) return;
+        const extent = map.getBounds();
+        const zoom = Math.min(Math.round(map.getZoom()), basemapMaxZoom);
+        setBounds([[extent.getSouth(), extent.getWest()], [extent.getNorth(), extent.getEast()]]);
+        setZoomRange([zoom, Math.min(zoom + DEFAULT_ZOOM_DEPTH, basemapMaxZoom)]);
+        setStatus(null);
+        getCachedTileCount().then(setCachedCount);
+    }, [isOpen, map, activeBasemap]);
+
+    // Closing the manager stops a running download
+    useEffect(() => {
+        if (!isOpen) abortRef.current?.abort();
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const tileCount = bounds ? countTiles(getTileRanges(bounds, zoomRange[0], zoomRange[1])) : 0;
+    const isDownloading = progress !== null;
+
+    const handleAddUrl = async () => {
+        const basemap: BasemapDefinition = {
+            id: `custom-${Date.now()}`,
+            name: name.trim(),
+            type,
+            url: url.trim(),
+            attribution: name.trim(),
+            icon: BASEMAP_TYPES[type].icon,
+            ...(maxZoom !== '' && { maxZoom: Number(maxZoom) }),
+            ...(allowPrefetch && type !== 'pmtiles' && { allowPrefetch }),
+        };
+        setIsAdding(true);
+        setStatus(null);
+        try {
+            validateBasemap(basemap);
+            // PMTiles archives are opened now so a wrong URL is reported here rather than as a blank map
+            if (type === 'pmtiles') {
+                const archive = await getBasemapArchive(basemap);
+                basemap.minZoom = archive.minZoom;
+                basemap.maxZoom = archive.maxZoom;
+                if (archive.attribution) basemap.attribution = archive.attribution;
+            }
+            onAddBasemap(basemap);
+            setName('');
+            setUrl('');
+            setMaxZoom('');
+            setAllowPrefetch(false);
+            setStatus({ text: `Added "${basemap.name}".`, isError: false });
+        } catch (error) {
+            setStatus({ text: messageOf(error), isError: true });
+        } finally {
+            setIsAdding(false);
+        }
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsAdding(true);
+        setStatus(null);
+        try {
+            const basemap = await openBasemapFile(file);
+            onAddBasemap(basemap);
+            setStatus({ text: `Opened "${basemap.name}" (zoom ${basemap.minZoom}–${basemap.maxZoom}). Open the file again after reloading the page.`, isError: false });
+        } catch (error) {
+            setStatus({ text: messageOf(error), isError: true });
+        } finally {
+            setIsAdding(false);
+        }
+    };
+
+    const handleDownload = async () => {
+        if (!bounds) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setStatus(null);
+        setProgress({ total: tileCount, done: 0, failed: 0 });
+        try {
+            const result = await prefetchTiles(activeBasemap, bounds, zoomRange[0], zoomRange[1], setProgress, controller.signal);
+            const saved = result.done - result.failed;
+            setStatus(controller.signal.aborted
+                ? { text: `Download stopped after ${saved.toLocaleString()} tiles.`, isError: false }
+                : { text: `${saved.toLocaleString()} tiles are available offline${result.failed ? `; ${result.failed.toLocaleString()} could not be downloaded` : ''}.`, isError: result.failed > 0 });
+        } catch (error) {
+            setStatus({ text: messageOf(error), isError: true });
+        } finally {
+            abortRef.current = null;
+            setProgress(null);
+            getCachedTileCount().then(setCachedCount);
+        }
+    };
+
+    const handleClearCache = async () => {
+        await clearTileCache();
+        setCachedCount(0);
+        setStatus({ text: 'Offline tiles removed.', isError: false });
+    };
+
+    const setZoom = (index: 0 | 1, value: number) => {
+        const clamped = Math.max(activeBasemap.minZoom ?? 0, Math.min(basemapMaxZoom, value));
+        setZoomRange(prev => index === 0 ? [clamped, Math.max(clamped, prev[1])] : [Math.min(prev[0], clamped), clamped]);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[2999] flex items-center justify-center bg-black/10 backdrop-blur-sm" onClick={onClose}>
+            <div className="w-[30rem] max-w-[calc(100vw-2rem)] max-h-[calc(100vh-2rem)] overflow-y-auto rounded-2xl bg-white shadow-2xl ring-1 ring-black/5" onClick={(e) => e.stopPropagation()}>
+                <header className="flex items-center justify-between px-5 pt-4 pb-2">
+                    <div className="flex items-center gap-2.5">
+                        <div className="size-8 rounded-full bg-primary/10 flex items-center justify-center">
+                            <span className="material-symbols-outlined text-primary text-xl">layers</span>
+                        </div>
+                        <h2 className="text-base font-bold text-slate-800">Basemaps</h2>
+                    </div>
+                    <button onClick={onClose} className="size-7 flex items-center justify-center rounded-full text-slate-500 hover:bg-red-500/10 hover:text-red-500 transition-colors">
+                        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>close</span>
+                    </button>
+                </header>
+
+                <div className="px-5 pb-5 space-y-5">
+                    <section className="space-y-2">
+                        <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500">Add a tile server</h3>
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="block text-xs font-medium text-slate-600">
+                                Name
+                                <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Port orthophoto" className={inputClasses} />
+                            </label>
+                            <label className="block text-xs font-medium text-slate-600">
+                                Type
+                                <select value={type} onChange={(e) => setType(e.target.value as BasemapType)} className={selectClasses}>
+                                    {URL_TYPES.map(t => <option key={t} value={t}>{BASEMAP_TYPES[t].label}</option>)}
+                                </select>
+                            </label>
+                        </div>
+                        <label className="block text-xs font-medium text-slate-600">
+                            {type === 'pmtiles' ? 'Archive URL' : 'Tile URL'}
+                            <input
+                                value={url}
+                                onChange={(e) => setUrl(e.target.value)}
+                                placeholder={type === 'pmtiles' ? 'http://tiles.local/port.pmtiles' : 'http://tiles.local/{z}/{x}/{y}.png'}
+                                className={`${inputClasses} font-mono text-xs`}
+                            />
+                        </label>
+                        <div className="flex items-end gap-3">
+                            {type !== 'pmtiles' && (
+                                <>
+                                    <label className="block text-xs font-medium text-slate-600">
+                                        Max zoom
+                                        <input type="number" min={0} max={24} value={maxZoom} onChange={(e) => setMaxZoom(e.target.value)} placeholder="19" className={`${inputClasses} w-20`} />
+                                    </label>
+                                    <label className="flex items-center gap-1.5 pb-2 text-xs text-slate-600" title="Only for servers you run; public tile servers forbid bulk downloads">
+                                        <input type="checkbox" checked={allowPrefetch} onChange={(e) => setAllowPrefetch(e.target.checked)} className="form-checkbox rounded border-slate-300 text-primary focus:ring-primary/20" />
+                                        Self-hosted, allow offline downloads
+                                    </label>
+                                </>
+                            )}
+                            <button
+                                onClick={handleAddUrl}
+                                disabled={isAdding || !name.trim() || !url.trim()}
+                                className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-semibold bg-primary text-white hover:bg-primary/90 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                            >
+                                <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>add</span>
+                                Add
+                            </button>
+                        </div>
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={isAdding}
+                            className="w-full flex items-center justify-center gap-2 rounded-lg border border-dashed border-slate-300 py-2 text-sm font-semibold text-slate-600 hover:border-primary hover:text-primary disabled:opacity-50 transition-colors"
+                        >
+                            <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>folder_open</span>
+                            Open MBTiles or PMTiles file
+                        </button>
+                        <input ref={fileInputRef} type="file" accept=".mbtiles,.pmtiles" onChange={handleFile} className="hidden" />
+                    </section>
+
+                    {customBasemaps.length > 0 && (
+                        <section className="space-y-1">
+                            <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500">Added basemaps</h3>
+                            {customBasemaps.map(basemap => (
+                                <div key={basemap.id} className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm hover:bg-slate-50">
+                                    <span className="material-symbols-outlined text-slate-500" style={{ fontSize: '18px' }}>{basemap.icon}</span>
+                                    <div className="min-w-0 flex-1">
+                                        <p className="truncate font-medium text-slate-800">{basemap.name}</p>
+                                        <p className="truncate text-xs text-slate-500">{basemap.url || 'Opened from disk'}</p>
+                                    </div>
+                                    <button onClick={() => onRemoveBasemap(basemap.id)} title="Remove basemap" className="p-1 rounded-md text-slate-400 hover:bg-red-500/10 hover:text-red-500 transition-colors">
+                                        <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>delete</span>
+                                    </button>
+                                </div>
+                            ))}
+                        </section>
+                    )}
+
+                    <section className="space-y-2">
+                        <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500">Offline tiles for "{activeBasemap.name}"</h3>
+                        {!isTileCacheSupported() ? (
+                            <p className="text-xs text-slate-500">This browser cannot store tiles for offline use.</p>
+                        ) : isArchiveBasemap(activeBasemap) ? (
+                            <p className="text-xs text-slate-500">This basemap is read from a tile archive and already works offline.</p>
+                        ) : !activeBasemap.allowPrefetch ? (
+                            <p className="text-xs text-slate-500">This tile server does not allow bulk downloads. Offline tiles can only be downloaded from basemaps marked as allowing it, such as a local or self-hosted tile server.</p>
+                        ) : (
+                            <>
+                                <p className="text-xs text-slate-500">Downloads the tiles covering the current map view so they load without a network connection.</p>
+                                <div className="flex items-end gap-3">
+                                    <label className="block text-xs font-medium text-slate-600">
+                                        From zoom
+                                        <input type="number" value={zoomRange[0]} onChange={(e) => setZoom(0, Number(e.target.value))} className={`${inputClasses} w-20`} />
+                                    </label>
+                                    <label className="block text-xs font-medium text-slate-600">
+                                        To zoom
+                                        <input type="number" value={zoomRange[1]} onChange={(e) => setZoom(1, Number(e.target.value))} className={`${inputClasses} w-20`} />
+                                    </label>
+                                    <p className={`pb-2 text-xs tabular-nums ${tileCount > MAX_PREFETCH_TILES ? 'text-red-600 font-semibold' : 'text-slate-500'}`}>
+                                        {tileCount.toLocaleString()} tiles
+                                    </p>
+                                </div>
+                                {progress && (
+                                    <div className="space-y-1">
+                                        <div className="h-2 w-full overflow-hidden rounded-full bg-slate-200">
+                                            <div className="h-full bg-primary transition-all" style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }} />
+                                        </div>
+                                        <p className="text-xs text-slate-500 tabular-nums">
+                                            {progress.done.toLocaleString()} of {progress.total.toLocaleString()}{progress.failed > 0 && ` · ${progress.failed.toLocaleString()} failed`}
+                                        </p>
+                                    </div>
+                                )}
+                                <div className="flex items-center gap-2">
+                                    <span className="text-xs text-slate-500 tabular-nums">{cachedCount.toLocaleString()} tiles stored</span>
+                                    <button onClick={handleClearCache} disabled={cachedCount === 0 || isDownloading} className="text-xs font-semibold text-red-600 hover:text-red-700 disabled:text-slate-300 transition-colors">
+                                        Clear
+                                    </button>
+                                    {isDownloading ? (
+                                        <button onClick={() => abortRef.current?.abort()} className="ml-auto px-3 py-1.5 rounded-md text-sm text-slate-600 hover:bg-slate-100 transition-colors">
+                                            Stop
+                                        </button>
+                                    ) : (
+                                        <button
+                                            onClick={handleDownload}
+                                            disabled={!bounds || tileCount === 0 || tileCount > MAX_PREFETCH_TILES}
+                                            className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-semibold bg-primary text-white hover:bg-primary/90 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                                        >
+                                            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>download_for_offline</span>
+                                            Download
+                                        </button>
+                                    )}
+                                </div>
+                            </>
+                        )}
+                    </section>
+
+                    {status && (
+                        <p className={`text-xs rounded-lg p-2 ${status.isError ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-800'}`}>{status.text}</p>
+                    )}
+
+                    <div className="flex justify-end border-t border-slate-200 pt-4">
+                        <button onClick={onClose} className="px-3 py-1.5 rounded-md text-sm text-slate-600 hover:bg-slate-100 transition-colors">Close</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BasemapManager;
@@ -1,14 +1,29 @@
-import React from 'react';
-import type { GeoJsonLayer } from '../types';
+import React, { useMemo, useRef, useState } from 'react';
+import type { AttributeFilter, AuditEntry, FeatureLabelConfig, GeoJsonLayer, LayerStyle, RasterLayer, SavedQuery, StatusModel, WorkOrder, WorkOrderPriority, WorkOrderStatus } from '../types';
 import type { Feature } from 'geojson';
-import { getFeatureDisplayName, getFeatureStatus } from '../utils';
+import { getFeatureDisplayName } from '../utils';
 import LayerStatistics from './LayerStatistics';
+import LayerStylePanel from './LayerStylePanel';
+import ExportMenu from './ExportMenu';
+import QueryBuilder from './QueryBuilder';
+import WorkOrderList from './WorkOrderList';
+import AuditLog from './AuditLog';
+import RasterLayerList from './RasterLayerList';
+import { SUPPORTED_IMPORT_EXTENSIONS } from '../services/importService';
+import { describeFilter } from '../services/filterService';
+import { DEFAULT_WHERE } from '../services/arcgisService';
+import { IMAGE_OVERLAY_EXTENSIONS, WORLD_FILE_EXTENSIONS } from '../services/imageOverlayService';
+import { getFeatureStatus } from '../services/statusService';
+import { getFeatureId, isSameAsset } from '../services/featureIdService';
+import { getOpenWorkOrderPriorities, getPrioritySpec, getWorkOrderAssetKey, isWorkOrderOpen } from '../services/workOrderService';
 
 interface Asset {
     layerId: string;
     feature: Feature;
     layerName: string;
     layerColor: string;
+    labelConfig: FeatureLabelConfig;
+    statusModel: StatusModel;
 }
 
 interface LeftSidebarProps {
@@ -21,33 +36,46 @@ interface LeftSidebarProps {
     onOpenAttributeTable: (layerId: string) => void;
     onCategoryFilter: (layerId: string, key: string, value: string) => void;
     onViewFilteredTable: (key: string, value: string) => void;
+    onImportFiles: (files: File[]) => Promise<string[]>;
+    // An image plus its optional world file; resolves to an error message, or null once placement starts
+    onImportImageOverlay: (files: File[]) => Promise<string | null>;
+    onOpenOverlayAnalysis: () => void;
+    onOpenServiceDialog: () => void;
+    // Resolves to an error message, or null once the layer's features are replaced
+    onRefreshRemoteLayer: (layerId: string) => Promise<string | null>;
+    rasterLayers: RasterLayer[];
+    onRasterLayerChange: (id: string, changes: Partial<RasterLayer>) => void;
+    onRemoveRasterLayer: (id: string) => void;
+    onAdjustRasterLayer: (id: string) => void;
+    onStyleChange: (layerId: string, style: Partial<LayerStyle>) => void;
+    onResetStyle: (layerId: string) => void;
     assets: Asset[];
     selectedAssets: { layerId: string; feature: Feature }[];
     onAssetSelect: (layerId: string, feature: Feature, isCtrlPressed: boolean) => void;
     assetSearchTerm: string;
     onAssetSearchChange: (term: string) => void;
-    propertySearchKey: string;
-    propertySearchValue: string;
-    onPropertyFilterClear: () => void;
-    sidebarView: 'assets' | 'statistics';
-    setSidebarView: (view: 'assets' | 'statistics') => void;
+    queryFilter: AttributeFilter | null;
+    savedQueries: SavedQuery[];
+    onApplyQuery: (filter: AttributeFilter | null) => void;
+    onSelectQueryMatches: (filter: AttributeFilter) => void;
+    onSaveQuery: (name: string, filter: AttributeFilter) => void;
+    onDeleteQuery: (id: string) => void;
+    workOrders: WorkOrder[];
+    onWorkOrderStatusChange: (id: string, status: WorkOrderStatus) => void;
+    onDeleteWorkOrder: (id: string) => void;
+    onShowWorkOrderAssets: (order: WorkOrder) => void;
+    auditLog: AuditEntry[];
+    auditUser: string;
+    onAuditUserChange: (name: string) => void;
+    onRevertFeature: (layerId: string, version: Feature) => void;
+    onSelectAuditFeature: (layerId: string, featureId: string) => void;
+    sidebarView: 'assets' | 'statistics' | 'workOrders' | 'history';
+    setSidebarView: (view: 'assets' | 'statistics' | 'workOrders' | 'history') => void;
 }
 
-const layerIcons: Record<string, string> = {
-    'Buildings': 'apartment',
-    'Horticulture': 'local_florist',
-    'Roads': 'road',
-};
-
-const layerIconColors: Record<string, string> = {
-    'Buildings': 'text-orange-500',
-    'Horticulture': 'text-green-500',
-    'Roads': 'text-slate-500',
-};
-
-const AssetCard: React.FC<{ asset: Asset; isSelected: boolean; onSelect: (e: React.MouseEvent) => void; }> = ({ asset, isSelected, onSelect }) => {
-    const { status, color } = getFeatureStatus(asset.feature);
-    const displayName = getFeatureDisplayName(asset.feature);
+const AssetCard: React.FC<{ asset: Asset; isSelected: boolean; workOrderPriority?: WorkOrderPriority; onSelect: (e: React.MouseEvent) => void; }> = ({ asset, isSelected, workOrderPriority, onSelect }) => {
+    const status = getFeatureStatus(asset.feature, asset.statusModel);
+    const displayName = getFeatureDisplayName(asset.feature, asset.labelConfig);
     
     const borderStyle = { borderLeft: `3px solid ${asset.layerColor}` };
 
@@ -62,8 +90,19 @@ const AssetCard: React.FC<{ asset: Asset; isSelected: boolean; onSelect: (e: Rea
                 <span className="text-xs font-medium text-slate-600 bg-slate-100 px-2 py-0.5 rounded-full shrink-0">{asset.layerName}</span>
             </div>
             <div className="flex justify-between items-center text-xs">
-                <p className="text-slate-500">ID: {asset.feature.properties?.fid || 'N/A'}</p>
-                <p className={`font-medium ${color}`}>{status}</p>
+                <p className="text-slate-500">ID: {getFeatureId(asset.feature)}</p>
+                <div className="flex items-center gap-2">
+                    {workOrderPriority && (
+                        <span
+                            className="material-symbols-outlined"
+                            title={`Open work order (${getPrioritySpec(workOrderPriority).label} priority)`}
+                            style={{ fontSize: '16px', color: getPrioritySpec(workOrderPriority).color }}
+                        >
+                            construction
+                        </span>
+                    )}
+                    <p className="font-medium" style={{ color: status.color }} title={status.value ?? undefined}>{status.label}</p>
+                </div>
             </div>
         </div>
     );
@@ -71,72 +110,249 @@ const AssetCard: React.FC<{ asset: Asset; isSelected: boolean; onSelect: (e: Rea
 
 const LeftSidebar: React.FC<LeftSidebarProps> = ({ 
     layers, activeLayerTab, setActiveLayerTab, layerVisibility, onVisibilityChange, onZoomToLayer,
-    onOpenAttributeTable, onCategoryFilter, onViewFilteredTable, assets, selectedAssets, onAssetSelect, assetSearchTerm, onAssetSearchChange,
-    propertySearchKey, propertySearchValue, onPropertyFilterClear,
+    onOpenAttributeTable, onCategoryFilter, onViewFilteredTable, onImportFiles, onImportImageOverlay, onOpenOverlayAnalysis,
+    onOpenServiceDialog, onRefreshRemoteLayer, rasterLayers, onRasterLayerChange, onRemoveRasterLayer, onAdjustRasterLayer, onStyleChange, onResetStyle, assets, selectedAssets, onAssetSelect, assetSearchTerm, onAssetSearchChange,
+    queryFilter, savedQueries, onApplyQuery, onSelectQueryMatches, onSaveQuery, onDeleteQuery,
+    workOrders, onWorkOrderStatusChange, onDeleteWorkOrder, onShowWorkOrderAssets,
+    auditLog, auditUser, onAuditUserChange, onRevertFeature, onSelectAuditFeature,
     sidebarView, setSidebarView,
 }) => {
     const activeLayer = layers.find(l => l.name === activeLayerTab);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const [isDragOver, setIsDragOver] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [importErrors, setImportErrors] = useState<string[]>([]);
+    const [styleEditorLayerId, setStyleEditorLayerId] = useState<string | null>(null);
+    const [refreshingLayerIds, setRefreshingLayerIds] = useState<string[]>([]);
+    const [isQueryBuilderOpen, setQueryBuilderOpen] = useState(false);
+    const activeQuery = queryFilter && activeLayer && queryFilter.layerId === activeLayer.id ? queryFilter : null;
+    const workOrderPriorities = useMemo(() => getOpenWorkOrderPriorities(workOrders), [workOrders]);
+    const openWorkOrderCount = workOrders.filter(isWorkOrderOpen).length;
+
+    // Images and world files are placed on the map as overlays; everything else becomes a vector layer
+    const importFiles = async (fileList: FileList | null) => {
+        const files = Array.from(fileList || []);
+        if (files.length === 0) return;
+        const isImageFile = (file: File) => [...IMAGE_OVERLAY_EXTENSIONS, ...WORLD_FILE_EXTENSIONS].some(ext => file.name.toLowerCase().endsWith(ext));
+        const imageFiles = files.filter(isImageFile);
+        const layerFiles = files.filter(f => !isImageFile(f));
+        setIsImporting(true);
+        try {
+            const errors = layerFiles.length > 0 ? await onImportFiles(layerFiles) : [];
+            const imageError = imageFiles.length > 0 ? await onImportImageOverlay(imageFiles) : null;
+            setImportErrors(imageError ? [...errors, imageError] : errors);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const refreshLayer = async (layer: GeoJsonLayer) => {
+        setRefreshingLayerIds(prev => [...prev, layer.id]);
+        try {
+            const error = await onRefreshRemoteLayer(layer.id);
+            if (error) setImportErrors(prev => [...prev, `Could not refresh ${layer.name}: ${error}`]);
+        } finally {
+            setRefreshingLayerIds(prev => prev.filter(id => id !== layer.id));
+        }
+    };
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setIsDragOver(true);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        importFiles(e.dataTransfer.files);
+    };
     
     return (
         <aside className="flex w-80 shrink-0 flex-col border-r border-slate-200 bg-white z-10 shadow-xl">
-            <div className="p-4 space-y-6 shrink-0">
+            <div
+                className="relative p-4 space-y-6 shrink-0"
+                onDragOver={handleDragOver}
+                onDragLeave={(e) => {
+                    if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragOver(false);
+                }}
+                onDrop={handleDrop}
+            >
+                {isDragOver && (
+                    <div className="pointer-events-none absolute inset-2 z-20 flex flex-col items-center justify-center gap-1 rounded-xl border-2 border-dashed border-primary bg-primary/10 text-primary">
+                        <span className="material-symbols-outlined" style={{ fontSize: '32px' }}>upload_file</span>
+                        <p className="text-sm font-semibold">Drop files to add layers</p>
+                        <p className="text-xs">{SUPPORTED_IMPORT_EXTENSIONS.join(', ')}</p>
+                        <p className="text-xs">Images to place: {IMAGE_OVERLAY_EXTENSIONS.join(', ')} (+ world file)</p>
+                    </div>
+                )}
                 <div>
-                    <h3 className="text-lg font-bold leading-tight tracking-[-0.015em] px-2 text-slate-900">Layers</h3>
-                    <div className="flex flex-col gap-1 mt-3 px-2 text-slate-700">
-                        {layers.map(layer => (
-                            <div 
-                                key={layer.id}
-                                className={`group flex items-center justify-between gap-3 px-3 py-2.5 rounded-lg cursor-pointer transition-all transform hover:-translate-y-px hover:shadow-md ${activeLayerTab === layer.name ? 'bg-blue-100 text-blue-800 font-semibold' : 'hover:bg-slate-100'}`}
+                    <div className="flex items-center justify-between px-2">
+                        <h3 className="text-lg font-bold leading-tight tracking-[-0.015em] text-slate-900">Layers</h3>
+                        <div className="flex items-center">
+                            <button
+                                onClick={onOpenOverlayAnalysis}
+                                disabled={!layers.some(l => l.data.features.length > 0)}
+                                title="Overlay analysis (intersect, union, difference, buffer, spatial join)"
+                                className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-primary disabled:text-slate-300 disabled:cursor-not-allowed transition-colors"
                             >
+                                <span className="material-symbols-outlined" style={{ fontSize: '22px' }}>join</span>
+                            </button>
+                            <button
+                                onClick={onOpenServiceDialog}
+                                title="Add from a map server (WMS, WMTS, ArcGIS)"
+                                className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-primary transition-colors"
+                            >
+                                <span className="material-symbols-outlined" style={{ fontSize: '22px' }}>public</span>
+                            </button>
+                            <button
+                                onClick={() => imageInputRef.current?.click()}
+                                disabled={isImporting}
+                                title="Add image overlay (scanned plan, orthophoto: PNG, JPEG, GeoTIFF, optional world file)"
+                                className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-primary disabled:text-slate-300 disabled:cursor-wait transition-colors"
+                            >
+                                <span className="material-symbols-outlined" style={{ fontSize: '22px' }}>add_photo_alternate</span>
+                            </button>
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                disabled={isImporting}
+                                title="Import layer (GeoJSON, KML, zipped Shapefile, CSV)"
+                                className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-primary disabled:text-slate-300 disabled:cursor-wait transition-colors"
+                            >
+                                <span className={`material-symbols-outlined ${isImporting ? 'animate-spin' : ''}`} style={{ fontSize: '22px' }}>
+                                    {isImporting ? 'progress_activity' : 'add_circle'}
+                                </span>
+                            </button>
+                        </div>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            multiple
+                            accept={SUPPORTED_IMPORT_EXTENSIONS.join(',')}
+                            className="hidden"
+                            onChange={(e) => {
+                                importFiles(e.target.files);
+                                e.target.value = '';
+                            }}
+                        />
+                        <input
+                            ref={imageInputRef}
+                            type="file"
+                            multiple
+                            accept={[...IMAGE_OVERLAY_EXTENSIONS, ...WORLD_FILE_EXTENSIONS].join(',')}
+                            className="hidden"
+                            onChange={(e) => {
+                                importFiles(e.target.files);
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
+                    <div className="flex flex-col gap-1 mt-3 px-2 text-slate-700 max-h-[45vh] overflow-y-auto">
+                        {layers.map(layer => (
+                            <div key={layer.id}>
                                 <div 
-                                    className="flex items-center gap-3 flex-1"
-                                    onClick={() => {
-                                        setActiveLayerTab(layer.name);
-                                        setSidebarView('assets');
-                                    }}
+                                    className={`group flex items-center justify-between gap-3 px-3 py-2.5 rounded-lg cursor-pointer transition-all transform hover:-translate-y-px hover:shadow-md ${activeLayerTab === layer.name ? 'bg-blue-100 text-blue-800 font-semibold' : 'hover:bg-slate-100'}`}
                                 >
-                                    <span className={`material-symbols-outlined ${layerIconColors[layer.name] || 'text-slate-500'}`} style={{ fontSize: '24px' }}>{layerIcons[layer.name] || 'layers'}</span>
-                                    <p className={`text-sm leading-normal`}>{layer.name}</p>
-                                </div>
-                                <div className="flex items-center">
-                                    <button
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            onVisibilityChange(layer.name, !layerVisibility[layer.name]);
-                                        }}
-                                        title={layerVisibility[layer.name] ? "Hide layer" : "Show layer"}
-                                        className={`p-1 rounded-md ${layerVisibility[layer.name] ? 'text-slate-600' : 'text-slate-400'} hover:bg-slate-300/50 hover:text-slate-800 transition-all`}
-                                    >
-                                        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>
-                                            {layerVisibility[layer.name] ? 'visibility' : 'visibility_off'}
-                                        </span>
-                                    </button>
-                                    <button 
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            onOpenAttributeTable(layer.id);
-                                        }}
-                                        disabled={layer.data.features.length === 0}
-                                        title="Open attribute table"
-                                        className={`p-1 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 ${activeLayerTab === layer.name ? 'opacity-100' : ''} hover:bg-slate-300/50 hover:text-slate-800 disabled:text-slate-400 disabled:bg-transparent disabled:cursor-not-allowed transition-all`}
-                                    >
-                                        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>table_chart</span>
-                                    </button>
-                                    <button 
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            onZoomToLayer(layer.id);
+                                    <div 
+                                        className="flex items-center gap-3 flex-1"
+                                        onClick={() => {
+                                            setActiveLayerTab(layer.name);
+                                            setSidebarView('assets');
                                         }}
-                                        disabled={layer.data.features.length === 0}
-                                        title="Zoom to layer"
-                                        className={`p-1 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 ${activeLayerTab === layer.name ? 'opacity-100' : ''} hover:bg-slate-300/50 hover:text-slate-800 disabled:text-slate-400 disabled:bg-transparent disabled:cursor-not-allowed transition-all`}
                                     >
-                                        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>travel_explore</span>
-                                    </button>
+                                        <span className="material-symbols-outlined" style={{ fontSize: '24px', color: layer.color }}>{layer.icon || 'layers'}</span>
+                                        <p className={`text-sm leading-normal`}>{layer.name}</p>
+                                    </div>
+                                    <div className="flex items-center">
+                                        {layer.source && (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    refreshLayer(layer);
+                                                }}
+                                                disabled={refreshingLayerIds.includes(layer.id)}
+                                                title={`Refresh from server${layer.source.where !== DEFAULT_WHERE ? ` (where ${layer.source.where})` : ''}`}
+                                                className={`p-1 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 ${activeLayerTab === layer.name || refreshingLayerIds.includes(layer.id) ? 'opacity-100' : ''} hover:bg-slate-300/50 hover:text-slate-800 disabled:cursor-wait transition-all`}
+                                            >
+                                                <span className={`material-symbols-outlined ${refreshingLayerIds.includes(layer.id) ? 'animate-spin' : ''}`} style={{ fontSize: '20px' }}>
+                                                    {refreshingLayerIds.includes(layer.id) ? 'progress_activity' : 'sync'}
+                                                </span>
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onVisibilityChange(layer.name, !layerVisibility[layer.name]);
+                                            }}
+                                            title={layerVisibility[layer.name] ? "Hide layer" : "Show layer"}
+                                            className={`p-1 rounded-md ${layerVisibility[layer.name] ? 'text-slate-600' : 'text-slate-400'} hover:bg-slate-300/50 hover:text-slate-800 transition-all`}
+                                        >
+                                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>
+                                                {layerVisibility[layer.name] ? 'visibility' : 'visibility_off'}
+                                            </span>
+                                        </button>
+                                        <button 
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onOpenAttributeTable(layer.id);
+                                            }}
+                                            disabled={layer.data.features.length === 0}
+                                            title="Open attribute table"
+                                            className={`p-1 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 ${activeLayerTab === layer.name ? 'opacity-100' : ''} hover:bg-slate-300/50 hover:text-slate-800 disabled:text-slate-400 disabled:bg-transparent disabled:cursor-not-allowed transition-all`}
+                                        >
+                                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>table_chart</span>
+                                        </button>
+                                        <button 
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onZoomToLayer(layer.id);
+                                            }}
+                                            disabled={layer.data.features.length === 0}
+                                            title="Zoom to layer"
+                                            className={`p-1 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 ${activeLayerTab === layer.name ? 'opacity-100' : ''} hover:bg-slate-300/50 hover:text-slate-800 disabled:text-slate-400 disabled:bg-transparent disabled:cursor-not-allowed transition-all`}
+                                        >
+                                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>travel_explore</span>
+                                        </button>
+                                        <ExportMenu
+                                            features={layer.data.features}
+                                            name={layer.name}
+                                            labelConfig={layer}
+                                            color={layer.color}
+                                            title="Export layer"
+                                            buttonClassName={`p-1 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 ${activeLayerTab === layer.name ? 'opacity-100' : ''} hover:bg-slate-300/50 hover:text-slate-800 disabled:text-slate-400 disabled:bg-transparent disabled:cursor-not-allowed transition-all`}
+                                        />
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                setStyleEditorLayerId(prev => prev === layer.id ? null : layer.id);
+                                            }}
+                                            title="Edit layer style"
+                                            className={`p-1 rounded-md opacity-0 group-hover:opacity-100 ${activeLayerTab === layer.name || styleEditorLayerId === layer.id ? 'opacity-100' : ''} ${styleEditorLayerId === layer.id ? 'text-primary bg-white/70' : 'text-slate-500'} hover:bg-slate-300/50 hover:text-slate-800 transition-all`}
+                                        >
+                                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>palette</span>
+                                        </button>
+                                    </div>
                                 </div>
+                                {styleEditorLayerId === layer.id && (
+                                    <LayerStylePanel layer={layer} onStyleChange={onStyleChange} onResetStyle={onResetStyle} />
+                                )}
                             </div>
                         ))}
                     </div>
+                    <RasterLayerList layers={rasterLayers} onChange={onRasterLayerChange} onRemove={onRemoveRasterLayer} onAdjust={onAdjustRasterLayer} />
+                    {importErrors.length > 0 && (
+                        <div className="mt-3 mx-2 flex items-start gap-2 rounded-md bg-red-50 p-2 text-xs text-red-700">
+                            <span className="material-symbols-outlined shrink-0" style={{ fontSize: '16px' }}>error</span>
+                            <ul className="flex-1 space-y-1">
+                                {importErrors.map(message => <li key={message}>{message}</li>)}
+                            </ul>
+                            <button onClick={() => setImportErrors([])} className="p-0.5 rounded-full hover:bg-red-100" aria-label="Dismiss errors">
+                                <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>close</span>
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -146,6 +362,42 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
                         <div className="px-2 flex justify-between items-center shrink-0">
                             <h3 className="text-lg font-bold leading-tight tracking-[-0.015em] text-slate-900">Assets ({assets.length})</h3>
                             <div className="flex items-center gap-2">
+                                {selectedAssets.length > 0 && (
+                                    <ExportMenu
+                                        features={selectedAssets.map(a => a.feature)}
+                                        name={`Selection ${new Date().toISOString().slice(0, 10)}`}
+                                        labelConfig={new Set(selectedAssets.map(a => a.layerId)).size === 1 ? layers.find(l => l.id === selectedAssets[0].layerId) : undefined}
+                                        title={`Export ${selectedAssets.length} selected asset${selectedAssets.length !== 1 ? 's' : ''}`}
+                                        buttonClassName="flex items-center gap-1 p-2 rounded-lg text-sm font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 hover:text-slate-800 transition-colors"
+                                        iconSize={22}
+                                        label={String(selectedAssets.length)}
+                                    />
+                                )}
+                                <button
+                                    onClick={() => setSidebarView('workOrders')}
+                                    title="Work orders"
+                                    className="relative p-2 rounded-lg text-slate-600 bg-slate-100 hover:bg-slate-200 hover:text-slate-800 transition-colors"
+                                >
+                                    <span className="material-symbols-outlined" style={{ fontSize: '22px' }}>assignment</span>
+                                    {openWorkOrderCount > 0 && (
+                                        <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-amber-500 text-white text-[10px] font-bold leading-4 text-center">{openWorkOrderCount}</span>
+                                    )}
+                                </button>
+                                <button
+                                    onClick={() => setSidebarView('history')}
+                                    title="Change history"
+                                    className="p-2 rounded-lg text-slate-600 bg-slate-100 hover:bg-slate-200 hover:text-slate-800 transition-colors"
+                                >
+                                    <span className="material-symbols-outlined" style={{ fontSize: '22px' }}>history</span>
+                                </button>
+                                <button
+                                    onClick={() => setQueryBuilderOpen(prev => !prev)}
+                                    title="Query builder"
+                                    disabled={!activeLayer || activeLayer.data.features.length === 0}
+                                    className={`p-2 rounded-lg transition-colors disabled:text-slate-400 disabled:bg-transparent disabled:cursor-not-allowed ${isQueryBuilderOpen ? 'bg-primary/10 text-primary' : 'text-slate-600 bg-slate-100 hover:bg-slate-200 hover:text-slate-800'}`}
+                                >
+                                    <span className="material-symbols-outlined" style={{ fontSize: '22px' }}>filter_alt</span>
+                                </button>
                                 <button 
                                     onClick={() => setSidebarView('statistics')} 
                                     title="Analyze Layer"
@@ -182,23 +434,39 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
                                 )}
                             </div>
 
-                             {propertySearchKey && propertySearchValue && (
-                                <div className="flex items-center justify-between text-xs bg-primary/10 text-primary-700 p-2 rounded-md">
-                                    <span className="font-medium truncate">
-                                        Filter: {propertySearchKey} = "{propertySearchValue}"
+                            {activeQuery && (
+                                <div className="flex items-center justify-between gap-2 text-xs bg-primary/10 text-primary-700 p-2 rounded-md">
+                                    <span className="material-symbols-outlined shrink-0" style={{ fontSize: '16px' }}>filter_alt</span>
+                                    <span className="font-medium flex-1 min-w-0 break-words" title={describeFilter(activeQuery)}>
+                                        {savedQueries.find(q => q.filter === activeQuery)?.name || describeFilter(activeQuery)}
                                     </span>
-                                    <button onClick={onPropertyFilterClear} className="p-1 rounded-full hover:bg-primary/20">
+                                    <button onClick={() => onApplyQuery(null)} className="p-1 rounded-full hover:bg-primary/20" aria-label="Clear query">
                                          <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>close</span>
                                     </button>
                                 </div>
                             )}
+
+                            {isQueryBuilderOpen && activeLayer && (
+                                <div className="max-h-[40vh] overflow-y-auto">
+                                    <QueryBuilder
+                                        layer={activeLayer}
+                                        activeFilter={activeQuery}
+                                        savedQueries={savedQueries}
+                                        onApply={onApplyQuery}
+                                        onSelectMatches={onSelectQueryMatches}
+                                        onSaveQuery={onSaveQuery}
+                                        onDeleteQuery={onDeleteQuery}
+                                    />
+                                </div>
+                            )}
                         </div>
                         <div className="space-y-2 px-2 flex-1 overflow-y-auto -mr-4 pr-3 pt-2 pb-2">
                            {assets.map((asset, index) => (
                                 <AssetCard 
-                                    key={`${asset.layerId}-${asset.feature.properties?.fid || index}`} 
+                                    key={`${asset.layerId}-${getFeatureId(asset.feature)}`} 
                                     asset={asset}
-                                    isSelected={selectedAssets.some(a => a.layerId === asset.layerId && String(a.feature.properties?.fid) === String(asset.feature.properties?.fid))}
+                                    isSelected={selectedAssets.some(a => isSameAsset(a, asset))}
+                                    workOrderPriority={workOrderPriorities.get(getWorkOrderAssetKey(asset.layerId, getFeatureId(asset.feature)))}
                                     onSelect={(e) => onAssetSelect(asset.layerId, asset.feature, e.ctrlKey || e.metaKey)}
                                 />
                            ))}
@@ -219,6 +487,30 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
                         />
                     </div>
                 )}
+                {sidebarView === 'workOrders' && (
+                    <div className="p-4 h-full">
+                        <WorkOrderList
+                            orders={workOrders}
+                            onClose={() => setSidebarView('assets')}
+                            onStatusChange={onWorkOrderStatusChange}
+                            onDelete={onDeleteWorkOrder}
+                            onShowAssets={onShowWorkOrderAssets}
+                        />
+                    </div>
+                )}
+                {sidebarView === 'history' && (
+                    <div className="p-4 h-full">
+                        <AuditLog
+                            log={auditLog}
+                            layers={layers}
+                            user={auditUser}
+                            onUserChange={onAuditUserChange}
+                            onClose={() => setSidebarView('assets')}
+                            onRevertFeature={onRevertFeature}
+                            onSelectFeature={onSelectAuditFeature}
+                        />
+                    </div>
+                )}
             </div>
         </aside>
     );
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import L from 'leaflet';
+import { CoordinateError, CoordinateFormat, DEFAULT_COORDINATE_FORMAT, formatCoordinate, getCoordinateFormats, parseCoordinate } from '../services/coordinateService';
+
+interface CoordinateBarProps {
+    map: L.Map | null;
+    // Called before the bar takes over map clicks to drop a pin
+    onActivate: () => void;
+}
+
+const FORMAT_STORAGE_KEY = 'coordinateFormat';
+const GO_TO_ZOOM = 17;
+
+const pinIcon = L.divIcon({
+    className: '',
+    html: '<span class="material-symbols-outlined" style="font-size:36px;color:#ef4444;font-variation-settings:\'FILL\' 1;text-shadow:0 1px 3px rgba(0,0,0,.35)">location_on</span>',
+    iconSize: [36, 36],
+    iconAnchor: [18, 34],
+});
+
+const CopyButton: React.FC<{ text: string }> = ({ text }) => {
+    const [isCopied, setIsCopied] = useState(false);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), 2000);
+        } catch (error) {
+            console.error("Could not copy the coordinate:", error);
+        }
+    };
+
+    return (
+        <button onClick={handleCopy} title="Copy" className={`p-0.5 rounded ${isCopied ? 'text-emerald-600' : 'text-slate-400 hover:bg-slate-200 hover:text-slate-700'}`}>
+            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>{isCopied ? 'check' : 'content_copy'}</span>
+        </button>
+    );
+};
+
+// Cursor position readout along the bottom of the map, with a go-to-coordinate box and a drop pin
+const CoordinateBar: React.FC<CoordinateBarProps> = ({ map, onActivate }) => {
+    const formats = useMemo(getCoordinateFormats, []);
+    const [format, setFormat] = useState<CoordinateFormat>(() => {
+        const saved = localStorage.getItem(FORMAT_STORAGE_KEY);
+        return saved && formats.some(f => f.id === saved) ? saved : DEFAULT_COORDINATE_FORMAT;
+    });
+    const [cursor, setCursor] = useState<L.LatLng | null>(null);
+    const [query, setQuery] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [pin, setPin] = useState<{ lat: number; lng: number; note?: string } | null>(null);
+    const [isPlacingPin, setIsPlacingPin] = useState(false);
+
+    const handleFormatChange = (next: CoordinateFormat) => {
+        setFormat(next);
+        localStorage.setItem(FORMAT_STORAGE_KEY, next);
+    };
+
+    useEffect(() => {
+        if (!map) return;
+        const handleMove = (e: L.LeafletMouseEvent) => setCursor(e.latlng);
+        const handleOut = () => setCursor(null);
+        map.on('mousemove', handleMove);
+        map.on('mouseout', handleOut);
+        return () => {
+            map.off('mousemove', handleMove);
+            map.off('mouseout', handleOut);
+        };
+    }, [map]);
+
+    // The pin marker follows the pin state, and dragging it moves the pin
+    useEffect(() => {
+        if (!map || !pin) return;
+        const marker = L.marker([pin.lat, pin.lng], { icon: pinIcon, draggable: true, keyboard: false }).addTo(map);
+        marker.on('dragend', () => {
+            const { lat, lng } = marker.getLatLng();
+            setPin({ lat, lng });
+        });
+        return () => { marker.remove(); };
+    }, [map, pin]);
+
+    useEffect(() => {
+        if (!map || !isPlacingPin) return;
+        const container = map.getContainer() as HTMLElement;
+        container.style.cursor = 'crosshair';
+        const handleClick = (e: L.LeafletMouseEvent) => {
+            setPin({ lat: e.latlng.lat, lng: e.latlng.lng });
+            setIsPlacingPin(false);
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setIsPlacingPin(false);
+        };
+        map.on('click', handleClick);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            container.style.cursor = '';
+            map.off('click', handleClick);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [map, isPlacingPin]);
+
+    const handleGoTo = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!map) return;
+        try {
+            // Bare x/y pairs are read in the system the readout is showing
+            const { lat, lng, interpretation } = parseCoordinate(query, format);
+            setError(null);
+            setPin({ lat, lng, note: `Read as ${interpretation}` });
+            map.flyTo([lat, lng], Math.max(map.getZoom(), GO_TO_ZOOM));
+        } catch (err) {
+            setError(err instanceof CoordinateError ? err.message : String(err));
+        }
+    };
+
+    const togglePlacingPin = () => {
+        if (!isPlacingPin) onActivate();
+        setIsPlacingPin(prev => !prev);
+    };
+
+    return (
+        <div className="relative flex flex-col items-center gap-2">
+            {(pin || error) && (
+                <div className="w-[26rem] rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-slate-200 p-2.5 text-xs">
+                    {error && (
+                        <div className="flex items-start gap-1.5 rounded-lg bg-red-50 p-2 text-red-700">
+                            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>error</span>
+                            <span className="flex-1">{error}</span>
+                            <button onClick={() => setError(null)} title="Dismiss" className="p-0.5 rounded hover:bg-red-100">
+                                <span className="material-symbols-outlined" style={{ fontSize: '14px' }}>close</span>
+                            </button>
+                        </div>
+                    )}
+                    {pin && !error && (
+                        <>
+                            <div className="flex items-center justify-between mb-1">
+                                <p className="flex items-center gap-1 font-semibold text-slate-700">
+                                    <span className="material-symbols-outlined text-red-500" style={{ fontSize: '16px' }}>location_on</span>
+                                    Dropped pin
+                                    {pin.note && <span className="font-normal text-slate-400">· {pin.note}</span>}
+                                </p>
+                                <div className="flex items-center">
+                                    <button onClick={() => map?.flyTo([pin.lat, pin.lng], Math.max(map.getZoom(), GO_TO_ZOOM))} title="Zoom to pin" className="p-0.5 rounded text-slate-400 hover:bg-slate-200 hover:text-slate-700">
+                                        <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>zoom_in_map</span>
+                                    </button>
+                                    <button onClick={() => setPin(null)} title="Remove pin" className="p-0.5 rounded text-slate-400 hover:bg-red-500/10 hover:text-red-500">
+                                        <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>close</span>
+                                    </button>
+                                </div>
+                            </div>
+                            <table className="w-full">
+                                <tbody>
+                                    {formats.map(option => {
+                                        const text = formatCoordinate(pin.lat, pin.lng, option.id);
+                                        return (
+                                            <tr key={option.id}>
+                                                <td className="pr-2 py-0.5 text-slate-500 whitespace-nowrap">{option.label}</td>
+                                                <td className="py-0.5 font-mono text-slate-800 whitespace-nowrap">{text}</td>
+                                                <td className="pl-1 py-0.5 text-right"><CopyButton text={text} /></td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </>
+                    )}
+                </div>
+            )}
+            <div className="flex items-center gap-2 h-9 pl-3 pr-1 rounded-xl bg-white/90 backdrop-blur-lg shadow-md shadow-black/5 ring-2 ring-slate-900/10 text-xs text-slate-700">
+                <span className="material-symbols-outlined text-slate-400" style={{ fontSize: '18px' }}>my_location</span>
+                <span className="w-52 font-mono truncate" title="Cursor position">
+                    {cursor ? formatCoordinate(cursor.lat, cursor.lng, format) : '—'}
+                </span>
+                <select
+                    value={format}
+                    onChange={(e) => handleFormatChange(e.target.value)}
+                    title="Coordinate system"
+                    className="form-select h-7 max-w-[9rem] rounded-md border-slate-200 bg-white py-0 pl-1.5 pr-6 text-xs text-slate-700 focus:border-primary focus:ring-primary/20"
+                >
+                    {formats.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                </select>
+                <div className="w-px h-5 bg-slate-200" />
+                <form onSubmit={handleGoTo} className="flex items-center">
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => { setQuery(e.target.value); setError(null); }}
+                        placeholder="Go to coordinate…"
+                        title='e.g. 13.2671, 80.3294 · 13°16′01.6″N 80°19′45.8″E · 44N 427362 1466774'
+                        className={`form-input h-7 w-44 rounded-md bg-white py-0 px-2 text-xs text-slate-800 focus:ring-primary/20 ${error ? 'border-red-400 focus:border-red-400' : 'border-slate-200 focus:border-primary'}`}
+                    />
+                    <button type="submit" disabled={!map || !query.trim()} title="Go to coordinate" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 hover:text-primary disabled:text-slate-300">
+                        <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>travel_explore</span>
+                    </button>
+                </form>
+                <button
+                    onClick={togglePlacingPin}
+                    disabled={!map}
+                    title={isPlacingPin ? 'Click the map to drop the pin (Esc cancels)' : 'Drop a pin'}
+                    className={`p-1 rounded-md transition-colors ${isPlacingPin ? 'bg-red-100 text-red-600' : 'text-slate-500 hover:bg-slate-100 hover:text-red-500'}`}
+                >
+                    <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>push_pin</span>
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CoordinateBar;
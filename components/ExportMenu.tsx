@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { Feature } from 'geojson';
+import type { FeatureLabelConfig } from '../types';
+import { CsvGeometryColumns, EXPORT_FORMATS, ExportFormat, exportFeatures } from '../services/exportService';
+
+interface ExportMenuProps {
+    features: Feature[];
+    name: string;
+    labelConfig?: FeatureLabelConfig;
+    color?: string;
+    title?: string;
+    buttonClassName: string;
+    iconSize?: number;
+    label?: string;
+}
+
+const CSV_GEOMETRY_OPTIONS: { key: CsvGeometryColumns; label: string }[] = [
+    { key: 'none', label: 'Attributes only' },
+    { key: 'wkt', label: 'WKT geometry' },
+    { key: 'centroid', label: 'Centroid lat/lon' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ features, name, labelConfig, color, title = 'Export', buttonClassName, iconSize = 20, label }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [position, setPosition] = useState({ top: 0, left: 0 });
+    const [csvGeometry, setCsvGeometry] = useState<CsvGeometryColumns>('none');
+    const [error, setError] = useState<string | null>(null);
+    const buttonRef = useRef<HTMLButtonElement>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (event: MouseEvent) => {
+            const target = event.target as Node;
+            if (!menuRef.current?.contains(target) && !buttonRef.current?.contains(target)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const toggleMenu = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        // The menu is portalled and fixed-positioned so scrolling or transformed containers don't clip it.
+        const rect = buttonRef.current?.getBoundingClientRect();
+        if (rect) setPosition({ top: rect.bottom + 4, left: Math.max(8, Math.min(rect.left, window.innerWidth - 232)) });
+        setError(null);
+        setIsOpen(prev => !prev);
+    };
+
+    const handleExport = (format: ExportFormat) => {
+        try {
+            exportFeatures(features, name, { format, csvGeometry, labelConfig, color });
+            setIsOpen(false);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    return (
+        <>
+            <button
+                ref={buttonRef}
+                onClick={toggleMenu}
+                disabled={features.length === 0}
+                title={title}
+                className={buttonClassName}
+            >
+                <span className="material-symbols-outlined" style={{ fontSize: `${iconSize}px` }}>download</span>
+                {label}
+            </button>
+            {isOpen && createPortal(
+                <div
+                    ref={menuRef}
+                    onClick={(e) => e.stopPropagation()}
+                    className="fixed z-[3000] w-56 rounded-lg bg-white shadow-xl border border-slate-200 p-2 space-y-1"
+                    style={{ top: position.top, left: position.left }}
+                >
+                    <p className="px-2 pt-1 pb-2 text-xs text-slate-500">
+                        Export {features.length} feature{features.length !== 1 ? 's' : ''}
+                    </p>
+                    {EXPORT_FORMATS.map(format => (
+                        <button
+                            key={format.key}
+                            onClick={() => handleExport(format.key)}
+                            className="w-full flex items-center justify-between px-2 py-1.5 rounded-md text-sm text-slate-700 hover:bg-slate-100 transition-colors"
+                        >
+                            <span className="font-medium">{format.label}</span>
+                            <span className="text-xs text-slate-400">{format.extension}</span>
+                        </button>
+                    ))}
+                    <div className="border-t border-slate-200 mt-1 pt-2 px-2">
+                        <label className="block text-xs font-medium text-slate-600">
+                            CSV geometry
+                            <select
+                                value={csvGeometry}
+                                onChange={(e) => setCsvGeometry(e.target.value as CsvGeometryColumns)}
+                                className="form-select mt-1 w-full rounded-md border-slate-300 bg-white py-1 pl-2 pr-8 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+                            >
+                                {CSV_GEOMETRY_OPTIONS.map(option => <option key={option.key} value={option.key}>{option.label}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    {error && <p className="px-2 pt-1 text-xs text-red-600">{error}</p>}
+                </div>,
+                document.body
+            )}
+        </>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Feature, LineString, MultiLineString } from 'geojson';
+import { area as turfArea, length as turfLength, centroid as turfCentroid, polygonToLine } from '@turf/turf';
+import type { AuditEntry, GeoJsonLayer, WorkOrder } from '../types';
+import { getFeatureDisplayName } from '../utils';
+import { getFeatureStatus, getLayerStatusModel } from '../services/statusService';
+import { getPrioritySpec, getStatusSpec, getWorkOrderAssetKey, sortWorkOrders } from '../services/workOrderService';
+import { getFeatureId } from '../services/featureIdService';
+import { getFeatureHistory } from '../services/auditService';
+import AuditTimeline from './AuditTimeline';
+
+interface FeatureInspectorProps {
+    assets: { layer: GeoJsonLayer; feature: Feature }[];
+    onClose: () => void;
+    onZoomToFeature: (feature: Feature) => void;
+    workOrders: WorkOrder[];
+    onCreateWorkOrder: () => void;
+    onOpenWorkOrders: () => void;
+    auditLog: AuditEntry[];
+    onRevertFeature: (layerId: string, version: Feature) => void;
+    onOpenAuditLog: () => void;
+}
+
+// Known asset fields grouped for display; anything not listed lands in "Other".
+const ATTRIBUTE_GROUPS: { title: string; icon: string; fields: string[] }[] = [
+    { title: 'Identification', icon: 'badge', fields: ['fid', 'Id', 'Bldg_Id', 'Name', 'Location', 'POLY_TYPE', 'Use_Purpos', 'Owner', 'Incharge'] },
+    { title: 'Construction', icon: 'construction', fields: ['Floor', 'Cons_Year', 'Matrial', 'Area_In_Sq', 'Area'] },
+    { title: 'Services & Safety', icon: 'health_and_safety', fields: ['Ele_Supply', 'Water_Supp', 'Fire_Safet', 'Secu_Sys', 'Rain_Water', 'Drainage_N', 'Lighting_A'] },
+    { title: 'Condition', icon: 'fact_check', fields: ['Status', 'Occupancy', 'Cust_Bound', 'App_Requir', 'Remarks'] },
+    { title: 'Shape', icon: 'square_foot', fields: ['Shape_Area', 'Shape_Length'] },
+];
+
+const LINK_FIELD = 'Link';
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+const formatValue = (value: unknown) => {
+    if (isBlank(value)) return '—';
+    if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+    return String(value);
+};
+
+const formatArea = (sqMeters: number) => sqMeters >= 10000
+    ? `${(sqMeters / 10000).toLocaleString(undefined, { maximumFractionDigits: 2 })} ha`
+    : `${sqMeters.toLocaleString(undefined, { maximumFractionDigits: 1 })} m²`;
+
+const formatLength = (meters: number) => meters >= 1000
+    ? `${(meters / 1000).toLocaleString(undefined, { maximumFractionDigits: 2 })} km`
+    : `${meters.toLocaleString(undefined, { maximumFractionDigits: 1 })} m`;
+
+// Helper to compute area, perimeter (or length) and centroid of a feature's geometry
+const getGeometryMetrics = (feature: Feature) => {
+    const metrics: { label: string; value: string }[] = [];
+    const geometry = feature.geometry;
+    if (!geometry) return metrics;
+    try {
+        if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+            const outline = polygonToLine(feature as Feature<typeof geometry>);
+            const lines: Feature<LineString | MultiLineString>[] = outline.type === 'FeatureCollection' ? outline.features : [outline];
+            metrics.push({ label: 'Area', value: formatArea(turfArea(feature)) });
+            metrics.push({ label: 'Perimeter', value: formatLength(lines.reduce((sum, line) => sum + turfLength(line, { units: 'meters' }), 0)) });
+        } else if (geometry.type === 'LineString' || geometry.type === 'MultiLineString') {
+            metrics.push({ label: 'Length', value: formatLength(turfLength(feature, { units: 'meters' })) });
+        }
+        const [lon, lat] = turfCentroid(feature).geometry.coordinates;
+        metrics.push({ label: geometry.type === 'Point' ? 'Location' : 'Centroid', value: `${lat.toFixed(6)}, ${lon.toFixed(6)}` });
+    } catch (error) {
+        console.warn('Could not compute geometry metrics for feature:', error);
+    }
+    return metrics;
+};
+
+// Accepts absolute URLs and server-relative paths; anything else is shown as plain text
+const getLinkHref = (value: unknown): string | null => {
+    if (isBlank(value)) return null;
+    const text = String(value).trim();
+    return /^(https?:\/\/|\/)/i.test(text) ? text : null;
+};
+
+const AttributeGroup: React.FC<{ title: string; icon: string; entries: [string, unknown][] }> = ({ title, icon, entries }) => {
+    const [isOpen, setIsOpen] = useState(true);
+    return (
+        <section className="border-t border-slate-200">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className="w-full flex items-center justify-between px-4 py-2.5 text-xs font-bold uppercase tracking-wide text-slate-500 hover:bg-slate-50 transition-colors"
+            >
+                <span className="flex items-center gap-2">
+                    <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>{icon}</span>
+                    {title}
+                </span>
+                <span className="material-symbols-outlined transition-transform" style={{ fontSize: '18px', transform: isOpen ? 'rotate(180deg)' : 'none' }}>expand_more</span>
+            </button>
+            {isOpen && (
+                <dl className="px-4 pb-3 space-y-1.5 text-sm">
+                    {entries.map(([key, value]) => (
+                        <div key={key} className="flex justify-between items-start gap-4">
+                            <dt className="font-medium text-slate-500 shrink-0">{key}</dt>
+                            <dd className={`text-right break-words ${isBlank(value) ? 'text-slate-400' : 'font-semibold text-slate-800'}`}>{formatValue(value)}</dd>
+                        </div>
+                    ))}
+                </dl>
+            )}
+        </section>
+    );
+};
+
+const FeatureInspector: React.FC<FeatureInspectorProps> = ({ assets, onClose, onZoomToFeature, workOrders, onCreateWorkOrder, onOpenWorkOrders, auditLog, onRevertFeature, onOpenAuditLog }) => {
+    const [index, setIndex] = useState(0);
+
+    // Show the most recently added asset whenever the selection grows or shrinks
+    useEffect(() => {
+        setIndex(Math.max(0, assets.length - 1));
+    }, [assets.length]);
+
+    const current = assets[Math.min(index, assets.length - 1)];
+    const feature = current?.feature;
+    const layer = current?.layer;
+
+    const metrics = useMemo(() => feature ? getGeometryMetrics(feature) : [], [feature]);
+
+    const groups = useMemo(() => {
+        const properties = feature?.properties || {};
+        const grouped = new Set<string>([LINK_FIELD]);
+        const result = ATTRIBUTE_GROUPS.map(group => {
+            const entries = group.fields.filter(f => f in properties).map((f): [string, unknown] => [f, properties[f]]);
+            entries.forEach(([key]) => grouped.add(key));
+            return { ...group, entries };
+        });
+        const other = Object.entries(properties).filter(([key]) => !grouped.has(key)).sort(([a], [b]) => a.localeCompare(b));
+        return [...result, { title: 'Other', icon: 'more_horiz', entries: other }].filter(group => group.entries.length > 0);
+    }, [feature]);
+
+    const assetWorkOrders = useMemo(() => {
+        if (!feature || !layer) return [];
+        const key = getWorkOrderAssetKey(layer.id, getFeatureId(feature));
+        return sortWorkOrders(workOrders.filter(order => order.assets.some(a => getWorkOrderAssetKey(a.layerId, a.fid) === key)));
+    }, [workOrders, feature, layer]);
+
+    const history = useMemo(() => feature && layer ? getFeatureHistory(auditLog, layer.id, getFeatureId(feature)).reverse() : [], [auditLog, feature, layer]);
+
+    if (!feature || !layer) return null;
+
+    const status = getFeatureStatus(feature, getLayerStatusModel(layer));
+    const linkValue = feature.properties?.[LINK_FIELD];
+    const linkHref = getLinkHref(linkValue);
+
+    return (
+        <aside className="w-80 shrink-0 h-full flex flex-col bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <header className="p-4 border-b border-slate-200 shrink-0">
+                <div className="flex items-start justify-between gap-2">
+                    <span className="flex items-center gap-1.5 text-xs font-medium text-slate-600 bg-slate-100 px-2 py-0.5 rounded-full">
+                        <span className="size-2 rounded-full" style={{ backgroundColor: layer.color }}></span>
+                        {layer.name}
+                    </span>
+                    <div className="flex items-center -mt-1 -mr-1">
+                        <button
+                            onClick={onCreateWorkOrder}
+                            title={`New work order for ${assets.length} selected asset${assets.length !== 1 ? 's' : ''}`}
+                            className="p-1 rounded-md text-slate-500 hover:bg-slate-100 hover:text-slate-800 transition-colors"
+                        >
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>assignment_add</span>
+                        </button>
+                        <button onClick={() => onZoomToFeature(feature)} title="Zoom to asset" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 hover:text-slate-800 transition-colors">
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>center_focus_strong</span>
+                        </button>
+                        <button onClick={onClose} title="Close and clear selection" className="p-1 rounded-md text-slate-500 hover:bg-red-500/10 hover:text-red-500 transition-colors">
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>close</span>
+                        </button>
+                    </div>
+                </div>
+                <h2 className="mt-2 text-lg font-bold text-slate-900 leading-tight break-words">{getFeatureDisplayName(feature, layer)}</h2>
+                <span
+                    className="mt-2 inline-flex items-center gap-1.5 rounded-full px-2.5 py-0.5 text-xs font-semibold"
+                    style={{ color: status.color, backgroundColor: `${status.color}1a` }}
+                    title={status.value ? `${getLayerStatusModel(layer).field}: ${status.value}` : undefined}
+                >
+                    <span className="size-1.5 rounded-full bg-current"></span>
+                    {status.label}
+                </span>
+
+                {assets.length > 1 && (
+                    <div className="mt-3 flex items-center justify-between rounded-lg bg-slate-100 p-1">
+                        <button
+                            onClick={() => setIndex(i => (i - 1 + assets.length) % assets.length)}
+                            title="Previous selected asset"
+                            className="p-1 rounded-md text-slate-600 hover:bg-white hover:shadow-sm transition-all"
+                        >
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>chevron_left</span>
+                        </button>
+                        <span className="text-xs font-medium text-slate-600 tabular-nums">{index + 1} of {assets.length} selected</span>
+                        <button
+                            onClick={() => setIndex(i => (i + 1) % assets.length)}
+                            title="Next selected asset"
+                            className="p-1 rounded-md text-slate-600 hover:bg-white hover:shadow-sm transition-all"
+                        >
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>chevron_right</span>
+                        </button>
+                    </div>
+                )}
+            </header>
+
+            <div className="flex-1 overflow-y-auto">
+                {metrics.length > 0 && (
+                    <div className="grid grid-cols-2 gap-2 p-4">
+                        {metrics.map(metric => (
+                            <div key={metric.label} className={`rounded-lg bg-slate-50 border border-slate-200 p-2 ${metric.label === 'Centroid' || metric.label === 'Location' ? 'col-span-2' : ''}`}>
+                                <p className="text-xs text-slate-500">{metric.label}</p>
+                                <p className="text-sm font-semibold text-slate-800 tabular-nums">{metric.value}</p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {!isBlank(linkValue) && (
+                    <div className="px-4 pb-4">
+                        {linkHref ? (
+                            <a
+                                href={linkHref}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-2 rounded-lg border border-primary/30 bg-primary/5 px-3 py-2 text-sm font-semibold text-primary hover:bg-primary/10 transition-colors"
+                            >
+                                <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>description</span>
+                                <span className="truncate">Open document</span>
+                                <span className="material-symbols-outlined ml-auto" style={{ fontSize: '16px' }}>open_in_new</span>
+                            </a>
+                        ) : (
+                            <p className="text-sm text-slate-600 break-words"><span className="font-medium text-slate-500">Document: </span>{String(linkValue)}</p>
+                        )}
+                    </div>
+                )}
+
+                {assetWorkOrders.length > 0 && (
+                    <div className="px-4 pb-4">
+                        <button onClick={onOpenWorkOrders} className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-slate-500 hover:text-primary transition-colors">
+                            <span className="flex items-center gap-2">
+                                <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>assignment</span>
+                                Work orders
+                            </span>
+                            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>open_in_new</span>
+                        </button>
+                        <ul className="mt-2 space-y-1">
+                            {assetWorkOrders.map(order => (
+                                <li key={order.id} className="flex items-center justify-between gap-2 rounded-md bg-slate-50 border border-slate-200 px-2 py-1.5" style={{ borderLeft: `3px solid ${getPrioritySpec(order.priority).color}` }}>
+                                    <span className="text-sm text-slate-800 truncate" title={order.title}>{order.title}</span>
+                                    <span className="text-xs font-semibold shrink-0" style={{ color: getStatusSpec(order.status).color }}>{getStatusSpec(order.status).label}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {groups.map(group => (
+                    <AttributeGroup key={group.title} title={group.title} icon={group.icon} entries={group.entries} />
+                ))}
+
+                {history.length > 0 && (
+                    <section className="border-t border-slate-200 px-4 py-3">
+                        <button onClick={onOpenAuditLog} className="w-full flex items-center justify-between text-xs font-bold uppercase tracking-wide text-slate-500 hover:text-primary transition-colors">
+                            <span className="flex items-center gap-2">
+                                <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>history</span>
+                                History
+                            </span>
+                            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>open_in_new</span>
+                        </button>
+                        <div className="mt-3">
+                            <AuditTimeline entries={history} onRevert={(entry, version) => onRevertFeature(entry.layerId, version)} />
+                        </div>
+                    </section>
+                )}
+            </div>
+        </aside>
+    );
+};
+
+export default FeatureInspector;
@@ -0,0 +1,340 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import type { Feature, Position } from 'geojson';
+import type { FeatureEdits, GeoJsonLayer } from '../types';
+import { editRingsToGeometry, geometryToEditRings, getLinework, getNextFid, isPolygonFeature, splitPolygonFeature, withShapeMetrics } from '../services/geometryEditService';
+
+export type GeometryEditMode = 'draw' | 'reshape' | 'split' | null;
+
+const SNAP_TOLERANCE_PX = 10;
+const EDIT_COLOR = '#f59e0b';
+
+const vertexIcon = L.divIcon({ className: 'geometry-vertex', iconSize: [12, 12] });
+const midpointIcon = L.divIcon({ className: 'geometry-midpoint', iconSize: [10, 10] });
+
+const toLatLng = (p: Position) => L.latLng(p[1], p[0]);
+const toPosition = (ll: L.LatLng): Position => [ll.lng, ll.lat];
+
+const EditGeometryIcon = () => (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M4 18L7 6L17 4L20 15L11 20L4 18Z" fill="#F59E0B" fillOpacity="0.2" stroke="#F59E0B" strokeWidth="2" strokeLinejoin="round"/>
+        <rect x="2.5" y="16.5" width="3" height="3" fill="white" stroke="#B45309" strokeWidth="1.5"/>
+        <rect x="15.5" y="2.5" width="3" height="3" fill="white" stroke="#B45309" strokeWidth="1.5"/>
+        <rect x="18.5" y="13.5" width="3" height="3" fill="white" stroke="#B45309" strokeWidth="1.5"/>
+    </svg>
+);
+
+const MODE_INSTRUCTIONS: Record<Exclude<GeometryEditMode, null>, string> = {
+    draw: 'Click to add vertices. Click the first vertex or double-click to finish. Backspace removes the last vertex.',
+    reshape: 'Drag vertices to move them, click a midpoint to insert one, right-click a vertex to delete it.',
+    split: 'Draw a line across the polygon. Double-click to split it.',
+};
+
+interface GeometryEditorProps {
+    map: L.Map | null;
+    layers: GeoJsonLayer[];
+    selectedAssets: { layer: GeoJsonLayer; feature: Feature }[];
+    editMode: GeometryEditMode;
+    setEditMode: (mode: GeometryEditMode) => void;
+    onEditingFeatureChange: (feature: Feature | null) => void;
+    onEditFeatures: (layerId: string, edits: FeatureEdits) => void;
+    onOpen: () => void;
+}
+
+const GeometryEditor: React.FC<GeometryEditorProps> = ({ map, layers, selectedAssets, editMode, setEditMode, onEditingFeatureChange, onEditFeatures, onOpen }) => {
+    const [isPanelOpen, setPanelOpen] = useState(false);
+    const [targetLayerId, setTargetLayerId] = useState<string>('');
+    const [isSnapping, setIsSnapping] = useState(true);
+    const [message, setMessage] = useState<string | null>(null);
+    const finishRef = useRef<(() => void) | null>(null);
+
+    const selectedPolygon = selectedAssets.length === 1 && isPolygonFeature(selectedAssets[0].feature) ? selectedAssets[0] : null;
+    const editingFeature = editMode === 'reshape' || editMode === 'split' ? selectedPolygon?.feature : null;
+
+    useEffect(() => {
+        if (!targetLayerId && layers.length > 0) setTargetLayerId(layers[0].id);
+    }, [layers, targetLayerId]);
+
+    const snapLines = useMemo(() => layers
+        .filter(l => l.isVisible)
+        .flatMap(l => l.data.features.filter(f => f !== editingFeature).flatMap(f => getLinework(f.geometry)))
+        .map(line => line.map(toLatLng)),
+    [layers, editingFeature]);
+
+    // Handlers registered on the map read the latest props through this ref so sessions aren't reset on re-render.
+    const latest = useRef({ layers, selectedPolygon, targetLayerId, isSnapping, snapLines, onEditFeatures, onEditingFeatureChange });
+    latest.current = { layers, selectedPolygon, targetLayerId, isSnapping, snapLines, onEditFeatures, onEditingFeatureChange };
+
+    const snap = (latlng: L.LatLng): L.LatLng => {
+        if (!map || !latest.current.isSnapping) return latlng;
+        const point = map.latLngToLayerPoint(latlng);
+        let best: L.LatLng | null = null;
+        let bestDistance = SNAP_TOLERANCE_PX;
+
+        for (const line of latest.current.snapLines) {
+            for (const vertex of line) {
+                const distance = point.distanceTo(map.latLngToLayerPoint(vertex));
+                if (distance < bestDistance) { best = vertex; bestDistance = distance; }
+            }
+        }
+        if (best) return best;
+
+        for (const line of latest.current.snapLines) {
+            for (let i = 0; i < line.length - 1; i++) {
+                const a = map.latLngToLayerPoint(line[i]);
+                const b = map.latLngToLayerPoint(line[i + 1]);
+                const closest = L.LineUtil.closestPointOnSegment(point, a, b);
+                const distance = point.distanceTo(closest);
+                if (distance < bestDistance) { best = map.layerPointToLatLng(closest); bestDistance = distance; }
+            }
+        }
+        return best || latlng;
+    };
+
+    // Draw and split sessions: collect clicked vertices into a sketch
+    useEffect(() => {
+        if (!map || (editMode !== 'draw' && editMode !== 'split')) return;
+
+        const group = L.layerGroup().addTo(map);
+        const points: L.LatLng[] = [];
+        map.getContainer().style.cursor = 'crosshair';
+
+        const redraw = (cursor?: L.LatLng) => {
+            group.clearLayers();
+            const all = cursor ? [...points, cursor] : points;
+            if (editMode === 'draw' && all.length >= 3) {
+                L.polygon(all, { color: EDIT_COLOR, weight: 2, dashArray: '6, 4', fillOpacity: 0.2 }).addTo(group);
+            } else if (all.length >= 2) {
+                L.polyline(all, { color: editMode === 'split' ? '#ef4444' : EDIT_COLOR, weight: 2, dashArray: '6, 4' }).addTo(group);
+            }
+            points.forEach((p, i) => {
+                L.circleMarker(p, { radius: i === 0 && editMode === 'draw' ? 6 : 4, color: EDIT_COLOR, fillColor: '#ffffff', fillOpacity: 1, weight: 2 }).addTo(group);
+            });
+        };
+
+        const dedupedPositions = () => points
+            .filter((p, i) => i === 0 || map.latLngToLayerPoint(p).distanceTo(map.latLngToLayerPoint(points[i - 1])) >= 1)
+            .map(toPosition);
+
+        const finish = () => {
+            const positions = dedupedPositions();
+            const { layers: currentLayers, selectedPolygon: target, targetLayerId: layerId, onEditFeatures: emit } = latest.current;
+
+            if (editMode === 'draw') {
+                const layer = currentLayers.find(l => l.id === layerId);
+                if (!layer || positions.length < 3) return;
+                const asMulti = layer.data.features.some(f => f.geometry?.type === 'MultiPolygon');
+                const feature = withShapeMetrics({
+                    type: 'Feature',
+                    properties: { fid: getNextFid(layer.data.features) },
+                    geometry: editRingsToGeometry([[positions]], asMulti),
+                });
+                emit(layer.id, { added: [feature] });
+                setMessage(null);
+                setEditMode(null);
+            } else if (target && isPolygonFeature(target.feature)) {
+                const pieces = positions.length >= 2 ? splitPolygonFeature(target.feature, positions) : null;
+                if (!pieces) {
+                    setMessage('The split line must cross the polygon boundary twice. Try again.');
+                    points.length = 0;
+                    redraw();
+                    return;
+                }
+                const [first, second] = pieces;
+                const added = { ...second, properties: { ...second.properties, fid: getNextFid(target.layer.data.features) } };
+                emit(target.layer.id, { updated: [{ before: target.feature, after: first }], added: [added] });
+                setMessage(null);
+                setEditMode(null);
+            }
+        };
+        finishRef.current = finish;
+
+        const handleClick = (e: L.LeafletMouseEvent) => {
+            const latlng = snap(e.latlng);
+            if (editMode === 'draw' && points.length >= 3 &&
+                map.latLngToLayerPoint(latlng).distanceTo(map.latLngToLayerPoint(points[0])) <= SNAP_TOLERANCE_PX) {
+                finish();
+                return;
+            }
+            points.push(latlng);
+            redraw();
+        };
+        const handleMouseMove = (e: L.LeafletMouseEvent) => { if (points.length > 0) redraw(snap(e.latlng)); };
+        const handleDoubleClick = (e: L.LeafletMouseEvent) => { L.DomEvent.stop(e); finish(); };
+        const handleRightClick = (e: L.LeafletMouseEvent) => { L.DomEvent.stop(e); setEditMode(null); };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setEditMode(null);
+            if (e.key === 'Backspace' && points.length > 0) {
+                points.pop();
+                redraw();
+            }
+        };
+
+        map.on('click', handleClick).on('mousemove', handleMouseMove).on('dblclick', handleDoubleClick).on('contextmenu', handleRightClick);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            map.off('click', handleClick).off('mousemove', handleMouseMove).off('dblclick', handleDoubleClick).off('contextmenu', handleRightClick);
+            document.removeEventListener('keydown', handleKeyDown);
+            map.removeLayer(group);
+            map.getContainer().style.cursor = '';
+            finishRef.current = null;
+        };
+    }, [map, editMode]);
+
+    // Reshape session: draggable vertex handles on the selected polygon
+    useEffect(() => {
+        if (!map || editMode !== 'reshape') return;
+        const target = latest.current.selectedPolygon;
+        if (!target || !isPolygonFeature(target.feature)) {
+            setEditMode(null);
+            return;
+        }
+
+        const rings = geometryToEditRings(target.feature.geometry).map(polygon => polygon.map(ring => ring.map(toLatLng)));
+        const group = L.layerGroup().addTo(map);
+        const shape = L.polygon(rings, { color: EDIT_COLOR, weight: 2, dashArray: '6, 4', fillOpacity: 0.25 }).addTo(group);
+        const handles = L.layerGroup().addTo(group);
+        latest.current.onEditingFeatureChange(target.feature);
+
+        const renderHandles = () => {
+            handles.clearLayers();
+            rings.forEach(polygon => polygon.forEach(ring => ring.forEach((vertex, vi) => {
+                const marker = L.marker(vertex, { draggable: true, icon: vertexIcon, title: 'Drag to move, right-click to delete' }).addTo(handles);
+                marker.on('drag', () => {
+                    ring[vi] = snap(marker.getLatLng());
+                    shape.setLatLngs(rings);
+                });
+                marker.on('dragend', renderHandles);
+                marker.on('contextmenu', (e: L.LeafletMouseEvent) => {
+                    L.DomEvent.stop(e);
+                    if (ring.length <= 3) {
+                        setMessage('A ring needs at least three vertices.');
+                        return;
+                    }
+                    ring.splice(vi, 1);
+                    shape.setLatLngs(rings);
+                    renderHandles();
+                });
+
+                const next = ring[(vi + 1) % ring.length];
+                const midpoint = L.latLng((vertex.lat + next.lat) / 2, (vertex.lng + next.lng) / 2);
+                const midMarker = L.marker(midpoint, { icon: midpointIcon, title: 'Click to insert a vertex' }).addTo(handles);
+                midMarker.on('click', (e: L.LeafletMouseEvent) => {
+                    L.DomEvent.stop(e);
+                    ring.splice(vi + 1, 0, midpoint);
+                    shape.setLatLngs(rings);
+                    renderHandles();
+                });
+            })));
+        };
+        renderHandles();
+
+        finishRef.current = () => {
+            const geometry = editRingsToGeometry(rings.map(polygon => polygon.map(ring => ring.map(toPosition))), target.feature.geometry.type === 'MultiPolygon');
+            latest.current.onEditFeatures(target.layer.id, {
+                updated: [{ before: target.feature, after: withShapeMetrics({ ...target.feature, geometry }) }],
+            });
+            setMessage(null);
+            setEditMode(null);
+        };
+
+        return () => {
+            map.removeLayer(group);
+            latest.current.onEditingFeatureChange(null);
+            finishRef.current = null;
+        };
+    }, [map, editMode]);
+
+    const startMode = (mode: Exclude<GeometryEditMode, null>) => {
+        setMessage(null);
+        setEditMode(editMode === mode ? null : mode);
+    };
+
+    const handleDelete = () => {
+        if (selectedAssets.length === 0) return;
+        if (!window.confirm(`Delete ${selectedAssets.length} selected feature${selectedAssets.length !== 1 ? 's' : ''}? This cannot be undone.`)) return;
+        const byLayer = new Map<string, Feature[]>();
+        selectedAssets.forEach(({ layer, feature }) => byLayer.set(layer.id, [...(byLayer.get(layer.id) || []), feature]));
+        byLayer.forEach((removed, layerId) => onEditFeatures(layerId, { removed }));
+        setEditMode(null);
+    };
+
+    const togglePanel = () => {
+        if (isPanelOpen) {
+            setEditMode(null);
+            setMessage(null);
+        } else {
+            onOpen();
+        }
+        setPanelOpen(!isPanelOpen);
+    };
+
+    const controlButtonClasses = "flex size-10 items-center justify-center rounded-xl bg-white/90 backdrop-blur-lg shadow-md shadow-black/5 ring-2 ring-slate-900/10 hover:shadow-lg hover:shadow-sky-500/20 hover:bg-sky-50/90 hover:ring-sky-500/50 transition-all duration-300 ease-in-out";
+    const modeButtonClasses = (active: boolean) => `flex flex-col items-center gap-0.5 rounded-lg py-2 text-xs font-semibold transition-all disabled:text-slate-400 disabled:cursor-not-allowed disabled:hover:bg-transparent ${active ? 'bg-amber-100 text-amber-800 ring-2 ring-amber-400' : 'text-slate-600 hover:bg-slate-200'}`;
+
+    return (
+        <div className="relative">
+            <button onClick={togglePanel} title="Edit Geometry" className={`${controlButtonClasses} ${isPanelOpen ? '!bg-amber-100 !ring-amber-400' : ''}`}>
+                <EditGeometryIcon />
+            </button>
+            {isPanelOpen && (
+                <div className="absolute right-full top-0 mr-3 w-64 rounded-xl bg-white/95 backdrop-blur-md shadow-xl border border-slate-200 p-3 space-y-3">
+                    <h3 className="text-sm font-bold text-slate-800">Edit Geometry</h3>
+
+                    <label className="block text-xs font-medium text-slate-600">
+                        New polygons go to
+                        <select
+                            value={targetLayerId}
+                            onChange={(e) => setTargetLayerId(e.target.value)}
+                            className="form-select mt-1 w-full rounded-md border-slate-300 bg-white py-1 pl-2 pr-8 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+                        >
+                            {layers.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                        </select>
+                    </label>
+
+                    <div className="grid grid-cols-4 gap-1 p-1 bg-slate-100 rounded-lg">
+                        <button onClick={() => startMode('draw')} disabled={!targetLayerId} className={modeButtonClasses(editMode === 'draw')} title="Draw a new polygon">
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>pentagon</span>
+                            Draw
+                        </button>
+                        <button onClick={() => startMode('reshape')} disabled={!selectedPolygon} className={modeButtonClasses(editMode === 'reshape')} title="Reshape the selected polygon">
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>polyline</span>
+                            Reshape
+                        </button>
+                        <button onClick={() => startMode('split')} disabled={!selectedPolygon} className={modeButtonClasses(editMode === 'split')} title="Split the selected polygon with a line">
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>content_cut</span>
+                            Split
+                        </button>
+                        <button onClick={handleDelete} disabled={selectedAssets.length === 0} className={`${modeButtonClasses(false)} enabled:hover:bg-red-100 enabled:hover:text-red-600`} title="Delete the selected features">
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>delete</span>
+                            Delete
+                        </button>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-xs text-slate-600">
+                        <input type="checkbox" className="form-checkbox rounded text-primary focus:ring-primary/20" checked={isSnapping} onChange={(e) => setIsSnapping(e.target.checked)} />
+                        Snap to neighbouring features
+                    </label>
+
+                    {!editMode && !selectedPolygon && (
+                        <p className="text-xs text-slate-500">Select a single polygon on the map to reshape or split it.</p>
+                    )}
+
+                    {editMode && (
+                        <div className="space-y-2 rounded-lg bg-amber-50 p-2">
+                            <p className="text-xs text-amber-900">{MODE_INSTRUCTIONS[editMode]}</p>
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setEditMode(null)} className="px-2 py-1 rounded-md text-xs text-slate-600 hover:bg-slate-200 transition-colors">Cancel</button>
+                                <button onClick={() => finishRef.current?.()} className="px-3 py-1 rounded-md text-xs font-semibold bg-amber-500 text-white hover:bg-amber-600 transition-colors">Finish</button>
+                            </div>
+                        </div>
+                    )}
+
+                    {message && <p className="text-xs text-red-600">{message}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GeometryEditor;
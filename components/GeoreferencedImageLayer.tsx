@@ -0,0 +1,115 @@
+import React, { useEffect, useRef } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import type { ImageCorners } from '../types';
+
+interface GeoreferencedImageOptions {
+    opacity: number;
+    zIndex: number;
+}
+
+export interface GeoreferencedImage {
+    addTo(map: L.Map): this;
+    remove(): this;
+    setCorners(corners: ImageCorners): this;
+    setOpacity(opacity: number): this;
+    setZIndex(zIndex: number): this;
+}
+
+// L.ImageOverlay only stretches an image over an upright rectangle. This places it by three corners with a CSS
+// matrix, so rotated and sheared placements draw as well. It sits among the tile layers, below vector layers.
+const GeoreferencedImageClass = L.Layer.extend({
+    initialize(url: string, corners: ImageCorners, options: GeoreferencedImageOptions) {
+        this._url = url;
+        this._corners = corners;
+        L.setOptions(this, options);
+    },
+
+    onAdd() {
+        const image = L.DomUtil.create('img', 'leaflet-image-layer leaflet-zoom-hide') as HTMLImageElement;
+        image.alt = '';
+        image.style.transformOrigin = '0 0';
+        image.style.pointerEvents = 'none';
+        image.onload = () => this._reset();
+        image.src = this._url;
+        this._image = image;
+        this._applyStyle();
+        this.getPane('tilePane').appendChild(image);
+        this._reset();
+    },
+
+    onRemove() {
+        L.DomUtil.remove(this._image);
+    },
+
+    getEvents() {
+        return { zoom: this._reset, viewreset: this._reset };
+    },
+
+    setCorners(corners: ImageCorners) {
+        this._corners = corners;
+        if (this._map) this._reset();
+        return this;
+    },
+
+    setOpacity(opacity: number) {
+        this.options.opacity = opacity;
+        if (this._image) this._applyStyle();
+        return this;
+    },
+
+    setZIndex(zIndex: number) {
+        this.options.zIndex = zIndex;
+        if (this._image) this._applyStyle();
+        return this;
+    },
+
+    _applyStyle() {
+        this._image.style.opacity = String(this.options.opacity);
+        this._image.style.zIndex = String(this.options.zIndex);
+    },
+
+    // Maps the image's own pixels onto the layer points of its corners
+    _reset() {
+        const image: HTMLImageElement = this._image;
+        if (!this._map || !image.naturalWidth) return;
+        const [topLeft, topRight, bottomLeft] = (this._corners as ImageCorners).map(c => this._map.latLngToLayerPoint(c));
+        const width = image.naturalWidth;
+        const height = image.naturalHeight;
+        image.style.width = `${width}px`;
+        image.style.height = `${height}px`;
+        image.style.transform = `matrix(${(topRight.x - topLeft.x) / width}, ${(topRight.y - topLeft.y) / width}, ${(bottomLeft.x - topLeft.x) / height}, ${(bottomLeft.y - topLeft.y) / height}, ${topLeft.x}, ${topLeft.y})`;
+    },
+}) as new (url: string, corners: ImageCorners, options: GeoreferencedImageOptions) => GeoreferencedImage;
+
+export const createGeoreferencedImage = (url: string, corners: ImageCorners, options: GeoreferencedImageOptions): GeoreferencedImage =>
+    new GeoreferencedImageClass(url, corners, options);
+
+interface GeoreferencedImageLayerProps {
+    url: string;
+    corners: ImageCorners;
+    opacity: number;
+    zIndex: number;
+}
+
+const GeoreferencedImageLayer: React.FC<GeoreferencedImageLayerProps> = ({ url, corners, opacity, zIndex }) => {
+    const map = useMap();
+    const layerRef = useRef<GeoreferencedImage | null>(null);
+
+    useEffect(() => {
+        const layer = createGeoreferencedImage(url, corners, { opacity, zIndex }).addTo(map);
+        layerRef.current = layer;
+        return () => {
+            layer.remove();
+            layerRef.current = null;
+        };
+    }, [map, url]);
+
+    useEffect(() => { layerRef.current?.setCorners(corners); }, [corners]);
+    useEffect(() => { layerRef.current?.setOpacity(opacity); }, [opacity]);
+    useEffect(() => { layerRef.current?.setZIndex(zIndex); }, [zIndex]);
+
+    return null;
+};
+
+export default GeoreferencedImageLayer;
@@ -0,0 +1,343 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import type { ImageCorners } from '../types';
+import { ControlPoint, ControlPointFit, fitControlPoints, fitCornersToView, GeoreferenceSession, latLngToPixel, pixelToLatLng, transformToCorners } from '../services/imageOverlayService';
+import { getProjection, listProjections, Projection } from '../services/projectionService';
+import { createGeoreferencedImage, GeoreferencedImage } from './GeoreferencedImageLayer';
+
+interface ImageGeoreferencerProps {
+    map: L.Map | null;
+    session: GeoreferenceSession;
+    onSave: (corners: ImageCorners, opacity: number) => void;
+    onCancel: () => void;
+}
+
+type PlacementMode = 'corners' | 'points';
+
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom left'];
+const SOURCE_COLOR = '#F97316';
+const TARGET_COLOR = '#10B981';
+// Above the other overlays while it is being placed
+const PREVIEW_Z_INDEX = 500;
+
+const handleIcon = (label: string) => L.divIcon({
+    className: '',
+    html: `<div style="width:14px;height:14px;border-radius:9999px;background:#fff;border:3px solid #3b82f6;box-shadow:0 1px 3px rgba(0,0,0,.4)" title="${label}"></div>`,
+    iconSize: [14, 14],
+    iconAnchor: [7, 7],
+});
+
+const formatCoordinate = (value: number, projection: Projection) => projection.isGeographic ? value.toFixed(7) : value.toFixed(2);
+
+const ImageGeoreferencer: React.FC<ImageGeoreferencerProps> = ({ map, session, onSave, onCancel }) => {
+    const { image } = session;
+    const size = useMemo<[number, number]>(() => [image.width, image.height], [image]);
+    const [corners, setCorners] = useState<ImageCorners>(() => {
+        if (session.corners) return session.corners;
+        const projection = image.transform && image.projectionCode ? getProjection(image.projectionCode) : null;
+        if (image.transform && projection) return transformToCorners(image.transform, size, projection);
+        const bounds = map?.getBounds();
+        return fitCornersToView(size, bounds
+            ? [[bounds.getSouth(), bounds.getWest()], [bounds.getNorth(), bounds.getEast()]]
+            : [[13.25, 80.31], [13.28, 80.35]]);
+    });
+    const [mode, setMode] = useState<PlacementMode>('corners');
+    const [opacity, setOpacity] = useState(session.opacity);
+    const [projectionCode, setProjectionCode] = useState(image.projectionCode || listProjections()[0].code);
+    const [drafts, setDrafts] = useState<string[]>([]);
+    const [points, setPoints] = useState<ControlPoint[]>([]);
+    const [pendingPixel, setPendingPixel] = useState<[number, number] | null>(null);
+    const [fit, setFit] = useState<ControlPointFit | null>(null);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(
+        image.warning ? { text: image.warning, isError: true } : null,
+    );
+
+    const projections = useMemo(() => {
+        const registered = listProjections();
+        const fromFile = image.projectionCode ? getProjection(image.projectionCode) : null;
+        return fromFile && !registered.some(p => p.code === fromFile.code) ? [...registered, fromFile] : registered;
+    }, [image]);
+    const projection = projections.find(p => p.code === projectionCode) || projections[0];
+
+    // Map handlers read the latest state through this ref so they aren't re-registered on every change
+    const latest = useRef({ corners, pendingPixel });
+    latest.current = { corners, pendingPixel };
+    const previewRef = useRef<GeoreferencedImage | null>(null);
+    const syncHandlesRef = useRef<(() => void) | null>(null);
+
+    useEffect(() => {
+        if (!map) return;
+        const preview = createGeoreferencedImage(image.url, latest.current.corners, { opacity, zIndex: PREVIEW_Z_INDEX }).addTo(map);
+        previewRef.current = preview;
+        return () => {
+            preview.remove();
+            previewRef.current = null;
+        };
+    }, [map, image]);
+
+    useEffect(() => { previewRef.current?.setCorners(corners); }, [corners]);
+    useEffect(() => { previewRef.current?.setOpacity(opacity); }, [opacity]);
+
+    useEffect(() => {
+        setDrafts(corners.flatMap(([lat, lng]) => projection.fromWgs84([lng, lat]).map(v => formatCoordinate(v, projection))));
+    }, [corners, projection]);
+
+    // Corner handles, dragged to stretch, rotate or move the image
+    useEffect(() => {
+        if (!map || mode !== 'corners') return;
+        const handles = latest.current.corners.map((corner, index) => {
+            const handle = L.marker(corner, { draggable: true, icon: handleIcon(CORNER_LABELS[index]), keyboard: false }).addTo(map);
+            handle.on('drag', () => {
+                const { lat, lng } = handle.getLatLng();
+                setCorners(prev => prev.map((c, i) => i === index ? [lat, lng] : c) as ImageCorners);
+            });
+            return handle;
+        });
+        const sync = () => handles.forEach((handle, index) => handle.setLatLng(latest.current.corners[index]));
+        syncHandlesRef.current = sync;
+        return () => {
+            handles.forEach(handle => handle.remove());
+            syncHandlesRef.current = null;
+        };
+    }, [map, mode]);
+    useEffect(() => { syncHandlesRef.current?.(); }, [corners]);
+
+    // Control points: a click on the image, then a click where that spot belongs on the map
+    useEffect(() => {
+        if (!map || mode !== 'points') return;
+        const container = map.getContainer() as HTMLElement;
+        container.style.cursor = 'crosshair';
+        const handleClick = (e: L.LeafletMouseEvent) => {
+            const { corners: current, pendingPixel: pending } = latest.current;
+            const latLng: [number, number] = [e.latlng.lat, e.latlng.lng];
+            if (!pending) {
+                const [col, row] = latLngToPixel(current, size, latLng);
+                if (col < 0 || row < 0 || col > size[0] || row > size[1]) {
+                    setMessage({ text: 'Click a recognisable spot on the image first.', isError: true });
+                    return;
+                }
+                setPendingPixel([col, row]);
+                setMessage(null);
+                return;
+            }
+            setPoints(prev => [...prev, { id: `point-${Date.now()}`, pixel: pending, latLng }]);
+            setPendingPixel(null);
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setPendingPixel(null);
+        };
+        map.on('click', handleClick);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            container.style.cursor = '';
+            map.off('click', handleClick);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [map, mode, size]);
+
+    // Each change to the points refits the image
+    useEffect(() => {
+        if (points.length === 0) {
+            setFit(null);
+            return;
+        }
+        try {
+            const result = fitControlPoints(points, size, latest.current.corners);
+            setFit(result);
+            setCorners(result.corners);
+            setMessage(null);
+        } catch (error) {
+            setFit(null);
+            setMessage({ text: error instanceof Error ? error.message : String(error), isError: true });
+        }
+    }, [points, size]);
+
+    // Where each point's image spot sits now, linked to its target
+    useEffect(() => {
+        if (!map || mode !== 'points') return;
+        const group = L.layerGroup().addTo(map);
+        points.forEach((point, index) => {
+            const source = pixelToLatLng(corners, size, point.pixel);
+            L.polyline([source, point.latLng], { color: SOURCE_COLOR, weight: 2, dashArray: '4, 4', interactive: false }).addTo(group);
+            L.circleMarker(source, { radius: 5, color: '#fff', weight: 2, fillColor: SOURCE_COLOR, fillOpacity: 1, interactive: false }).addTo(group);
+            L.circleMarker(point.latLng, { radius: 6, color: '#fff', weight: 2, fillColor: TARGET_COLOR, fillOpacity: 1, interactive: false })
+                .bindTooltip(String(index + 1), { permanent: true, direction: 'top', offset: [0, -6] })
+                .addTo(group);
+        });
+        if (pendingPixel) {
+            L.circleMarker(pixelToLatLng(corners, size, pendingPixel), { radius: 7, color: SOURCE_COLOR, weight: 3, fillOpacity: 0, interactive: false }).addTo(group);
+        }
+        return () => { group.remove(); };
+    }, [map, mode, points, pendingPixel, corners, size]);
+
+    const commitDrafts = () => {
+        const values = drafts.map(Number);
+        if (values.length !== 6 || values.some(v => !Number.isFinite(v))) {
+            setMessage({ text: 'Enter a number in every corner field.', isError: true });
+            return;
+        }
+        const next = [0, 2, 4].map(i => {
+            const [lng, lat] = projection.toWgs84([values[i], values[i + 1]]);
+            return [lat, lng];
+        });
+        if (next.some(([lat, lng]) => !Number.isFinite(lat) || Math.abs(lat) > 90 || Math.abs(lng) > 180)) {
+            setMessage({ text: `Those coordinates are not valid in ${projection.name}.`, isError: true });
+            return;
+        }
+        setMessage(null);
+        setCorners(next as ImageCorners);
+    };
+
+    const handleFitToView = () => {
+        if (!map) return;
+        const bounds = map.getBounds();
+        setPoints([]);
+        setCorners(fitCornersToView(size, [[bounds.getSouth(), bounds.getWest()], [bounds.getNorth(), bounds.getEast()]]));
+    };
+
+    const handleReadFileAs = (code: string) => {
+        const fileProjection = getProjection(code);
+        if (!image.transform || !fileProjection) return;
+        setProjectionCode(code);
+        setPoints([]);
+        setCorners(transformToCorners(image.transform, size, fileProjection));
+    };
+
+    const inputClasses = "form-input w-full rounded-md border-slate-300 bg-white py-1 px-1.5 text-xs font-mono text-slate-800 focus:border-primary focus:ring-primary/20";
+
+    return (
+        <div className="w-80 rounded-2xl bg-white/95 backdrop-blur-lg shadow-2xl ring-1 ring-black/5">
+            <header className="flex items-center justify-between px-4 pt-3 pb-2">
+                <div className="flex items-center gap-2.5 min-w-0">
+                    <div className="size-8 shrink-0 rounded-full bg-primary/10 flex items-center justify-center">
+                        <span className="material-symbols-outlined text-primary text-xl">add_photo_alternate</span>
+                    </div>
+                    <div className="min-w-0">
+                        <h2 className="text-sm font-bold text-slate-800">Place Image</h2>
+                        <p className="text-xs text-slate-500 truncate" title={image.fileName}>{image.fileName}</p>
+                    </div>
+                </div>
+                <button onClick={onCancel} className="size-7 flex items-center justify-center rounded-full text-slate-500 hover:bg-red-500/10 hover:text-red-500 transition-colors">
+                    <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>close</span>
+                </button>
+            </header>
+
+            <div className="px-4 pb-4 space-y-3">
+                <div className="grid grid-cols-2 gap-1 p-0.5 bg-slate-200/70 rounded-md">
+                    {([['corners', 'Corners'], ['points', 'Control points']] as [PlacementMode, string][]).map(([key, label]) => (
+                        <button
+                            key={key}
+                            onClick={() => { setMode(key); setPendingPixel(null); }}
+                            className={`px-1 py-1 rounded text-xs font-semibold transition-all ${mode === key ? 'bg-white shadow-sm text-primary' : 'text-slate-600 hover:bg-white/60'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {mode === 'corners' && (
+                    <>
+                        <p className="text-xs text-slate-500">Drag the handles on the map, or type the corner coordinates.</p>
+                        {image.transform && (
+                            <label className="flex items-center gap-2 text-xs text-slate-600">
+                                <span className="shrink-0">{image.isProjectionGuessed ? 'World file read as' : 'Placed from the GeoTIFF in'}</span>
+                                <select
+                                    value={projectionCode}
+                                    onChange={(e) => handleReadFileAs(e.target.value)}
+                                    disabled={!image.isProjectionGuessed}
+                                    className="form-select flex-1 min-w-0 rounded-md border-slate-300 bg-white py-0.5 pl-1.5 pr-7 text-xs text-slate-800 focus:border-primary focus:ring-primary/20 disabled:bg-slate-50"
+                                >
+                                    {projections.map(p => <option key={p.code} value={p.code}>{p.name}</option>)}
+                                </select>
+                            </label>
+                        )}
+                        <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+                            Coordinates in
+                            <select
+                                value={projection.code}
+                                onChange={(e) => setProjectionCode(e.target.value)}
+                                className="form-select flex-1 min-w-0 rounded-md border-slate-300 bg-white py-0.5 pl-1.5 pr-7 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+                            >
+                                {projections.map(p => <option key={p.code} value={p.code}>{p.name}</option>)}
+                            </select>
+                        </label>
+                        <div className="grid grid-cols-[4.5rem_1fr_1fr] gap-x-1.5 gap-y-1 items-center">
+                            <span />
+                            {projection.axes.map(axis => <span key={axis} className="text-[11px] font-medium text-slate-500">{axis}</span>)}
+                            {CORNER_LABELS.map((label, corner) => (
+                                <React.Fragment key={label}>
+                                    <span className="text-xs text-slate-600">{label}</span>
+                                    {[0, 1].map(axis => (
+                                        <input
+                                            key={axis}
+                                            type="text"
+                                            inputMode="decimal"
+                                            value={drafts[corner * 2 + axis] ?? ''}
+                                            onChange={(e) => setDrafts(prev => prev.map((d, i) => i === corner * 2 + axis ? e.target.value : d))}
+                                            onBlur={commitDrafts}
+                                            onKeyDown={(e) => { if (e.key === 'Enter') commitDrafts(); }}
+                                            className={inputClasses}
+                                        />
+                                    ))}
+                                </React.Fragment>
+                            ))}
+                        </div>
+                        <button onClick={handleFitToView} className="flex items-center gap-1 text-xs font-semibold text-primary hover:underline">
+                            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>fit_screen</span>
+                            Fit to current view
+                        </button>
+                    </>
+                )}
+
+                {mode === 'points' && (
+                    <>
+                        <p className="text-xs text-slate-500">
+                            {pendingPixel
+                                ? 'Now click where that spot belongs on the map. Esc cancels.'
+                                : 'Click a recognisable spot on the image (a building corner, a road junction), then the same spot on the basemap. One point moves the image, two also turn and scale it, three or more also correct distortion.'}
+                        </p>
+                        {points.length > 0 && (
+                            <ul className="max-h-36 overflow-y-auto rounded-md border border-slate-200 divide-y divide-slate-100">
+                                {points.map((point, index) => (
+                                    <li key={point.id} className="flex items-center gap-2 px-2 py-1 text-xs text-slate-700">
+                                        <span className="size-4 shrink-0 rounded-full text-[10px] font-bold text-white flex items-center justify-center" style={{ backgroundColor: TARGET_COLOR }}>{index + 1}</span>
+                                        <span className="flex-1 font-mono text-slate-500 truncate">{point.latLng[0].toFixed(6)}, {point.latLng[1].toFixed(6)}</span>
+                                        {fit && <span className="shrink-0 text-slate-500" title="Distance between the target and where the fit puts it">{fit.residuals[index].toFixed(2)} m</span>}
+                                        <button onClick={() => setPoints(prev => prev.filter(p => p.id !== point.id))} title="Remove point" className="p-0.5 rounded text-slate-400 hover:bg-red-500/10 hover:text-red-500">
+                                            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>close</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {fit && points.length > 2 && (
+                            <p className="text-xs text-slate-600">RMS error <span className="font-semibold">{fit.rms.toFixed(2)} m</span></p>
+                        )}
+                    </>
+                )}
+
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+                    Opacity
+                    <input type="range" min={0.1} max={1} step={0.05} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} className="flex-1 h-1 accent-primary" />
+                    <span className="w-8 text-right text-slate-500">{Math.round(opacity * 100)}%</span>
+                </label>
+
+                {message && (
+                    <p className={`text-xs rounded-lg p-2 ${message.isError ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-800'}`}>{message.text}</p>
+                )}
+
+                <div className="flex justify-end gap-2 border-t border-slate-200 pt-3">
+                    <button onClick={onCancel} className="px-3 py-1.5 rounded-md text-sm text-slate-600 hover:bg-slate-100 transition-colors">Cancel</button>
+                    <button
+                        onClick={() => onSave(corners, opacity)}
+                        className="px-4 py-1.5 rounded-md text-sm font-semibold bg-primary text-white hover:bg-primary/90 transition-colors"
+                    >
+                        {session.layerId ? 'Save placement' : 'Add overlay'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImageGeoreferencer;
@@ -1,7 +1,8 @@
 import React, { useMemo } from 'react';
-import { area } from '@turf/turf';
 import type { GeoJsonLayer } from '../types';
 import { Feature } from 'geojson';
+import { getFeatureArea, getFeatureDisplayName } from '../utils';
+import { getLayerStatusModel, summarizeStatuses } from '../services/statusService';
 
 interface LayerStatisticsProps {
   layer: GeoJsonLayer;
@@ -28,17 +29,10 @@ const LayerStatistics: React.FC<LayerStatisticsProps> = ({ layer, onClose, onCat
     const categorical: { [key: string]: CategoricalStats } = {};
 
     let totalArea = 0;
-    const featuresWithArea = layer.data.features.map((feature, index) => {
-        let featureArea = 0;
-        try {
-            if (feature.geometry && (feature.geometry.type === "Polygon" || feature.geometry.type === "MultiPolygon")) {
-                featureArea = area(feature);
-            }
-        } catch (e) {
-            console.warn("Could not calculate area for a feature:", e);
-        }
+    const featuresWithArea = layer.data.features.map((feature) => {
+        const featureArea = getFeatureArea(feature);
         totalArea += featureArea;
-        const featureName = feature.properties?.Name || feature.properties?.name || `Feature ${feature.properties?.fid || index + 1}`;
+        const featureName = getFeatureDisplayName(feature, layer);
         return { name: featureName, area: featureArea, feature };
     }).filter(f => f.area > 0).sort((a, b) => b.area - a.area);
 
@@ -71,9 +65,12 @@ const LayerStatistics: React.FC<LayerStatisticsProps> = ({ layer, onClose, onCat
         categoricalStats: categorical,
         areaStats: { totalArea, featuresWithArea },
     };
-  }, [layer.data]);
+  }, [layer.data, layer.labelTemplate, layer.displayNameField]);
 
   const categoricalEntries = Object.entries(categoricalStats);
+  const statusModel = getLayerStatusModel(layer);
+  const statusSummary = useMemo(() => summarizeStatuses(layer), [layer.data, layer.statusModel]);
+  const hasStatusData = statusSummary.some(entry => entry.category);
 
   return (
     <div className="h-full flex flex-col text-slate-700">
@@ -127,6 +124,35 @@ const LayerStatistics: React.FC<LayerStatisticsProps> = ({ layer, onClose, onCat
             </div>
         )}
 
+        {hasStatusData && (
+          <div>
+            <h3 className="text-sm font-bold text-slate-800 mb-3">Condition</h3>
+            <div className="space-y-1 text-xs">
+              {statusSummary.map(({ category, label, color, count }) => {
+                 const percentage = Math.max(1, (count / layer.data.features.length) * 100);
+                 return (
+                    <button
+                      key={category?.value ?? 'unknown'}
+                      onClick={() => category && onCategoryFilter(statusModel.field, category.value)}
+                      disabled={!category}
+                      className="grid grid-cols-5 items-center gap-3 w-full text-left p-1 rounded-md hover:bg-slate-100/70 disabled:hover:bg-transparent disabled:cursor-default transition-colors"
+                      title={category ? `Filter assets where ${statusModel.field} is "${category.value}"` : `No recognised ${statusModel.field} value`}
+                    >
+                      <span className="col-span-2 flex items-center gap-1.5 font-medium text-slate-700 truncate" title={label}>
+                        <span className="size-2 shrink-0 rounded-full" style={{ backgroundColor: color }}></span>
+                        {label}
+                      </span>
+                      <div className="col-span-2 bg-slate-200 rounded-full h-2">
+                        <div className="h-2 rounded-full transition-all duration-300" style={{ width: `${percentage}%`, backgroundColor: color }}></div>
+                      </div>
+                      <span className="font-semibold text-slate-800 text-right tabular-nums">{count.toLocaleString()}</span>
+                    </button>
+                 )
+              })}
+            </div>
+          </div>
+        )}
+
         {categoricalEntries.length > 0 && (
           <div>
             <h3 className="text-sm font-bold text-slate-800 mb-3">Categorical Fields</h3>
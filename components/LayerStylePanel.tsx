@@ -0,0 +1,291 @@
+import React, { useMemo } from 'react';
+import type { ClassificationMethod, GeoJsonLayer, LayerStyle, StatusCategory, StatusModel } from '../types';
+import { DASH_PRESETS } from '../services/layerStyleService';
+import { buildCategorizedRenderer, buildGraduatedRenderer, buildStatusRenderer, CLASSIFICATION_METHODS, COLOR_RAMPS, getThematicFields, interpolateRamp } from '../services/thematicService';
+import { getFeatureDisplayName } from '../utils';
+import { detectStatusCategories, getLayerStatusModel } from '../services/statusService';
+
+interface LayerStylePanelProps {
+    layer: GeoJsonLayer;
+    onStyleChange: (layerId: string, style: Partial<LayerStyle>) => void;
+    onResetStyle: (layerId: string) => void;
+}
+
+const SliderRow: React.FC<{ label: string; value: number; min: number; max: number; step: number; format: (v: number) => string; onChange: (v: number) => void }> = ({ label, value, min, max, step, format, onChange }) => (
+    <label className="block">
+        <div className="flex justify-between text-xs text-slate-600 mb-1">
+            <span className="font-medium">{label}</span>
+            <span className="tabular-nums text-slate-800 font-semibold">{format(value)}</span>
+        </div>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="w-full accent-primary"
+        />
+    </label>
+);
+
+const selectClasses = "form-select w-full rounded-md border-slate-300 bg-white py-1 pl-2 pr-8 text-xs text-slate-800 focus:border-primary focus:ring-primary/20";
+
+const SymbologySection: React.FC<LayerStylePanelProps> = ({ layer, onStyleChange }) => {
+    const fields = useMemo(() => getThematicFields(layer), [layer.data]);
+    const renderer = layer.renderer;
+    const mode = renderer?.type || 'single';
+
+    const graduatedOptions = renderer?.type === 'graduated'
+        ? { field: renderer.field, method: renderer.method, classCount: renderer.breaks.length, ramp: renderer.ramp }
+        : { field: fields.numeric[0], method: 'quantile' as ClassificationMethod, classCount: 5, ramp: 'YlOrRd' };
+
+    const setGraduated = (changes: Partial<typeof graduatedOptions>) => {
+        const options = { ...graduatedOptions, ...changes };
+        if (!options.field) return;
+        onStyleChange(layer.id, { renderer: buildGraduatedRenderer(layer, options.field, options.method, options.classCount, options.ramp) });
+    };
+
+    const setMode = (next: string) => {
+        if (next === 'single') onStyleChange(layer.id, { renderer: undefined });
+        else if (next === 'categorized' && fields.categorical[0]) onStyleChange(layer.id, { renderer: buildCategorizedRenderer(layer, fields.categorical[0]) });
+        else if (next === 'graduated') setGraduated({});
+        else if (next === 'status') onStyleChange(layer.id, { renderer: buildStatusRenderer(layer) });
+    };
+
+    return (
+        <div className="space-y-2 border-t border-slate-200 pt-3">
+            <p className="text-xs font-medium text-slate-600">Symbology</p>
+            <div className="grid grid-cols-4 gap-1 p-1 bg-slate-200/70 rounded-lg">
+                {[
+                    { key: 'single', label: 'Single', disabled: false },
+                    { key: 'categorized', label: 'Categories', disabled: fields.categorical.length === 0 },
+                    { key: 'graduated', label: 'Graduated', disabled: fields.numeric.length === 0 },
+                    { key: 'status', label: 'Status', disabled: false },
+                ].map(option => (
+                    <button
+                        key={option.key}
+                        onClick={() => setMode(option.key)}
+                        disabled={option.disabled}
+                        className={`px-2 py-1 rounded-md text-xs font-semibold transition-all disabled:text-slate-400 disabled:cursor-not-allowed ${mode === option.key ? 'bg-white shadow-sm text-primary' : 'text-slate-600 hover:bg-white/60'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            {renderer?.type === 'categorized' && (
+                <>
+                    <select
+                        className={selectClasses}
+                        value={renderer.field}
+                        onChange={(e) => onStyleChange(layer.id, { renderer: buildCategorizedRenderer(layer, e.target.value) })}
+                    >
+                        {fields.categorical.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                    <ul className="max-h-40 overflow-y-auto space-y-1">
+                        {renderer.categories.map((category, idx) => (
+                            <li key={category.value} className="flex items-center gap-2 text-xs text-slate-700">
+                                <input
+                                    type="color"
+                                    value={category.color}
+                                    onChange={(e) => onStyleChange(layer.id, {
+                                        renderer: { ...renderer, categories: renderer.categories.map((c, i) => i === idx ? { ...c, color: e.target.value } : c) },
+                                    })}
+                                    className="h-5 w-6 cursor-pointer rounded border border-slate-300 bg-white p-0"
+                                />
+                                <span className="truncate" title={category.value}>{category.value}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+
+            {renderer?.type === 'graduated' && (
+                <div className="grid grid-cols-2 gap-2">
+                    <select className={`${selectClasses} col-span-2`} value={renderer.field} onChange={(e) => setGraduated({ field: e.target.value })}>
+                        {fields.numeric.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                    <select className={`${selectClasses} col-span-2`} value={renderer.method} onChange={(e) => setGraduated({ method: e.target.value as ClassificationMethod })}>
+                        {CLASSIFICATION_METHODS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+                    </select>
+                    <select className={selectClasses} value={graduatedOptions.classCount} onChange={(e) => setGraduated({ classCount: Number(e.target.value) })} title="Number of classes">
+                        {[2, 3, 4, 5, 6, 7].map(n => <option key={n} value={n}>{n} classes</option>)}
+                    </select>
+                    <select className={selectClasses} value={renderer.ramp} onChange={(e) => setGraduated({ ramp: e.target.value })} title="Color ramp">
+                        {Object.entries(COLOR_RAMPS).map(([key, ramp]) => <option key={key} value={key}>{ramp.label}</option>)}
+                    </select>
+                    <div className="col-span-2 flex h-2 overflow-hidden rounded-full">
+                        {interpolateRamp(renderer.ramp, 7).map(color => <span key={color} className="flex-1" style={{ backgroundColor: color }}></span>)}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const LabelSection: React.FC<LayerStylePanelProps> = ({ layer, onStyleChange }) => {
+    const sample = layer.data.features[0];
+    return (
+        <div className="space-y-1 border-t border-slate-200 pt-3">
+            <p className="text-xs font-medium text-slate-600">Label</p>
+            <input
+                value={layer.labelTemplate || ''}
+                onChange={(e) => onStyleChange(layer.id, { labelTemplate: e.target.value })}
+                placeholder={layer.displayNameField ? `{${layer.displayNameField}}` : 'e.g. {Name} ({fid})'}
+                title="Fields in braces are replaced by the feature's values"
+                className="form-input w-full rounded-md border-slate-300 bg-white py-1 px-2 font-mono text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+            />
+            {sample && <p className="text-xs text-slate-500 truncate">e.g. {getFeatureDisplayName(sample, layer)}</p>}
+        </div>
+    );
+};
+
+const StatusModelSection: React.FC<LayerStylePanelProps> = ({ layer, onStyleChange }) => {
+    const model = getLayerStatusModel(layer);
+    const fieldNames = useMemo(() => Array.from(new Set(layer.data.features.flatMap(f => Object.keys(f.properties || {})))).sort(), [layer.data]);
+    const hasField = fieldNames.includes(model.field);
+
+    // A status-colored map follows the model's field
+    const setModel = (next: StatusModel) => onStyleChange(layer.id, {
+        statusModel: next,
+        ...(layer.renderer?.type === 'status' ? { renderer: { type: 'status', field: next.field } } : {}),
+    });
+    const setCategory = (index: number, changes: Partial<StatusCategory>) =>
+        setModel({ ...model, categories: model.categories.map((c, i) => i === index ? { ...c, ...changes } : c) });
+    const detected = useMemo(() => detectStatusCategories(layer, model), [layer.data, model]);
+
+    return (
+        <div className="space-y-2 border-t border-slate-200 pt-3">
+            <div className="flex items-center justify-between">
+                <p className="text-xs font-medium text-slate-600">Status</p>
+                <span className="text-[10px] uppercase tracking-wide text-slate-400">value · label · severity</span>
+            </div>
+            <input
+                list={`status-fields-${layer.id}`}
+                value={model.field}
+                onChange={(e) => setModel({ ...model, field: e.target.value })}
+                placeholder="Status field"
+                title="Field holding the condition of each feature"
+                className="form-input w-full rounded-md border-slate-300 bg-white py-1 px-2 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+            />
+            <datalist id={`status-fields-${layer.id}`}>
+                {fieldNames.map(f => <option key={f} value={f} />)}
+            </datalist>
+            {model.field && !hasField && <p className="text-xs text-slate-500">No feature has a "{model.field}" value yet; edit it in the attribute table.</p>}
+            <ul className="max-h-48 overflow-y-auto space-y-1">
+                {model.categories.map((category, idx) => (
+                    <li key={idx} className="flex items-center gap-1">
+                        <input
+                            type="color"
+                            value={category.color}
+                            onChange={(e) => setCategory(idx, { color: e.target.value })}
+                            className="h-6 w-6 shrink-0 cursor-pointer rounded border border-slate-300 bg-white p-0"
+                        />
+                        <input
+                            value={category.value}
+                            onChange={(e) => setCategory(idx, { value: e.target.value })}
+                            placeholder="Value"
+                            className="form-input w-20 min-w-0 rounded border-slate-300 bg-white py-0.5 px-1 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+                        />
+                        <input
+                            value={category.label}
+                            onChange={(e) => setCategory(idx, { label: e.target.value })}
+                            placeholder="Label"
+                            className="form-input flex-1 min-w-0 rounded border-slate-300 bg-white py-0.5 px-1 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+                        />
+                        <input
+                            type="number"
+                            value={category.severity}
+                            onChange={(e) => setCategory(idx, { severity: Number(e.target.value) })}
+                            title="Severity (higher is worse)"
+                            className="form-input w-10 shrink-0 rounded border-slate-300 bg-white py-0.5 px-1 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+                        />
+                        <button
+                            onClick={() => setModel({ ...model, categories: model.categories.filter((_, i) => i !== idx) })}
+                            title="Remove value"
+                            className="p-0.5 rounded text-slate-400 hover:text-red-600 transition-colors"
+                        >
+                            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>close</span>
+                        </button>
+                    </li>
+                ))}
+            </ul>
+            <div className="flex gap-2">
+                <button
+                    onClick={() => setModel({ ...model, categories: [...model.categories, { value: '', label: '', color: '#64748b', severity: model.categories.length }] })}
+                    className="flex items-center gap-1 rounded-md px-2 py-1 text-xs text-slate-600 hover:bg-slate-200 transition-colors"
+                >
+                    <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>add</span>
+                    Add value
+                </button>
+                <button
+                    onClick={() => setModel({ ...model, categories: [...model.categories, ...detected] })}
+                    disabled={detected.length === 0}
+                    title="Add the values found in the data that aren't listed yet"
+                    className="flex items-center gap-1 rounded-md px-2 py-1 text-xs text-slate-600 hover:bg-slate-200 disabled:text-slate-400 disabled:hover:bg-transparent disabled:cursor-not-allowed transition-colors"
+                >
+                    <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>manage_search</span>
+                    Detect values{detected.length > 0 ? ` (${detected.length})` : ''}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const LayerStylePanel: React.FC<LayerStylePanelProps> = ({ layer, onStyleChange, onResetStyle }) => {
+    const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+    return (
+        <div className="mx-1 mb-1 mt-1 space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+                    <input
+                        type="color"
+                        value={layer.color}
+                        onChange={(e) => onStyleChange(layer.id, { color: e.target.value })}
+                        className="h-7 w-9 cursor-pointer rounded border border-slate-300 bg-white p-0.5"
+                    />
+                    Color
+                    <span className="font-mono text-slate-500">{layer.color}</span>
+                </label>
+                <button
+                    onClick={() => onResetStyle(layer.id)}
+                    title="Reset to default style"
+                    className="flex items-center gap-1 rounded-md px-2 py-1 text-xs text-slate-500 hover:bg-slate-200 hover:text-slate-800 transition-colors"
+                >
+                    <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>restart_alt</span>
+                    Reset
+                </button>
+            </div>
+
+            <SliderRow label="Stroke opacity" value={layer.strokeOpacity} min={0} max={1} step={0.05} format={percent} onChange={(v) => onStyleChange(layer.id, { strokeOpacity: v })} />
+            <SliderRow label="Fill opacity" value={layer.fillOpacity} min={0} max={1} step={0.05} format={percent} onChange={(v) => onStyleChange(layer.id, { fillOpacity: v })} />
+            <SliderRow label="Stroke weight" value={layer.weight} min={0.5} max={8} step={0.5} format={(v) => `${v} px`} onChange={(v) => onStyleChange(layer.id, { weight: v })} />
+
+            <div>
+                <p className="text-xs font-medium text-slate-600 mb-1">Line style</p>
+                <div className="grid grid-cols-4 gap-1 p-1 bg-slate-200/70 rounded-lg">
+                    {DASH_PRESETS.map(preset => (
+                        <button
+                            key={preset.label}
+                            onClick={() => onStyleChange(layer.id, { dashArray: preset.value })}
+                            title={preset.label}
+                            className={`flex h-7 items-center justify-center rounded-md transition-all ${layer.dashArray === preset.value ? 'bg-white shadow-sm' : 'hover:bg-white/60'}`}
+                        >
+                            <svg width="32" height="6" viewBox="0 0 32 6">
+                                <line x1="0" y1="3" x2="32" y2="3" stroke={layer.color} strokeWidth="2" strokeDasharray={preset.value || undefined} />
+                            </svg>
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <LabelSection layer={layer} onStyleChange={onStyleChange} onResetStyle={onResetStyle} />
+            <SymbologySection layer={layer} onStyleChange={onStyleChange} onResetStyle={onResetStyle} />
+            <StatusModelSection layer={layer} onStyleChange={onStyleChange} onResetStyle={onResetStyle} />
+        </div>
+    );
+};
+
+export default LayerStylePanel;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import type { GeoJsonLayer, WorkOrderPriority } from '../types';
+import { getLegendEntries } from '../services/thematicService';
+import { WORK_ORDER_PRIORITIES } from '../services/workOrderService';
+
+const MapLegend: React.FC<{ layers: GeoJsonLayer[]; workOrderPriorities?: Map<string, WorkOrderPriority> }> = ({ layers, workOrderPriorities }) => {
+    const [isCollapsed, setIsCollapsed] = useState(false);
+    const visibleLayers = layers.filter(l => l.isVisible && l.data.features.length > 0);
+    const openPriorities = new Set(workOrderPriorities?.values());
+
+    if (visibleLayers.length === 0) return null;
+
+    return (
+        <div className="w-56 rounded-xl bg-white/90 backdrop-blur-lg shadow-md shadow-black/5 ring-2 ring-slate-900/10 overflow-hidden">
+            <button
+                onClick={() => setIsCollapsed(prev => !prev)}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm font-bold text-slate-800 hover:bg-slate-50 transition-colors"
+            >
+                <span className="flex items-center gap-2">
+                    <span className="material-symbols-outlined text-slate-500" style={{ fontSize: '18px' }}>legend_toggle</span>
+                    Legend
+                </span>
+                <span className="material-symbols-outlined text-slate-500" style={{ fontSize: '20px' }}>{isCollapsed ? 'expand_less' : 'expand_more'}</span>
+            </button>
+            {!isCollapsed && (
+                <div className="max-h-64 overflow-y-auto px-3 pb-3 space-y-3 border-t border-slate-200 pt-2">
+                    {visibleLayers.map(layer => (
+                        <div key={layer.id}>
+                            <p className="text-xs font-semibold text-slate-700 truncate" title={layer.name}>
+                                {layer.name}
+                                {layer.renderer && <span className="font-normal text-slate-500"> · {layer.renderer.field}</span>}
+                            </p>
+                            <ul className="mt-1 space-y-0.5">
+                                {getLegendEntries(layer).map(entry => (
+                                    <li key={entry.label} className="flex items-center gap-2 text-xs text-slate-600">
+                                        <span
+                                            className="inline-block size-3.5 shrink-0 rounded-sm"
+                                            style={{ backgroundColor: entry.color, opacity: Math.max(layer.fillOpacity, 0.3), border: `1px solid ${entry.color}` }}
+                                        ></span>
+                                        <span className="truncate" title={entry.label}>{entry.label}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                    {openPriorities.size > 0 && (
+                        <div>
+                            <p className="text-xs font-semibold text-slate-700">Open work orders</p>
+                            <ul className="mt-1 space-y-0.5">
+                                {WORK_ORDER_PRIORITIES.filter(p => openPriorities.has(p.key)).map(p => (
+                                    <li key={p.key} className="flex items-center gap-2 text-xs text-slate-600">
+                                        <span className="inline-block size-3.5 shrink-0 rounded-sm border-2 border-dashed" style={{ borderColor: p.color }}></span>
+                                        {p.label} priority
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MapLegend;
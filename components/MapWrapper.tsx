@@ -1,10 +1,29 @@
 import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
-import { MapContainer, TileLayer, GeoJSON, useMap, useMapEvents } from 'react-leaflet';
+import { MapContainer, GeoJSON, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import type { GeoJsonLayer } from '../types';
-import type { Feature } from 'geojson';
-import { area as turfArea, length as turfLength } from '@turf/turf';
+import type { AttributeFilter, BasemapDefinition, FeatureEdits, GeoJsonLayer, ImageCorners, MapSessionState, MapViewState, RasterLayer, TimeFilter, WorkOrderPriority } from '../types';
+import type { Feature, FeatureCollection, Position } from 'geojson';
 import { getFeatureDisplayName } from '../utils';
+import { getFeatureColor, getRendererKey } from '../services/thematicService';
+import { describeFilter, matchesFilter } from '../services/filterService';
+import { getPrioritySpec, getWorkOrderAssetKey } from '../services/workOrderService';
+import { getAssetKey, getFeatureId, isSameAsset } from '../services/featureIdService';
+import { matchesTimeFilter } from '../services/timeSliderService';
+import { getLinework } from '../services/geometryEditService';
+import { createMeasurement, formatBearing, getMeasurementKind, getMeasurementPositions, measurementsToFeatureCollection, normalizeMeasurements, summarizeMeasurement, withMeasurementPositions } from '../services/measurementService';
+import type { GeoreferenceSession } from '../services/imageOverlayService';
+import { closeBasemapArchive, DEFAULT_BASEMAPS, loadBasemapRegistry, loadCustomBasemaps, storeCustomBasemaps } from '../services/basemapService';
+import MapLegend from './MapLegend';
+import GeometryEditor, { GeometryEditMode } from './GeometryEditor';
+import SpatialSelectTool, { SpatialSelectMode } from './SpatialSelectTool';
+import PrintComposer from './PrintComposer';
+import TimeSlider from './TimeSlider';
+import BasemapLayer from './BasemapLayer';
+import BasemapManager from './BasemapManager';
+import RasterOverlay from './RasterOverlay';
+import ImageGeoreferencer from './ImageGeoreferencer';
+import MeasurementList from './MeasurementList';
+import CoordinateBar from './CoordinateBar';
 
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
@@ -13,41 +32,33 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
 });
 
-const BASEMAPS = {
-    street: {
-        name: 'Street',
-        url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
-        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-        icon: 'map'
-    },
-    satellite: {
-        name: 'Satellite',
-        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
-        attribution: 'Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community',
-        icon: 'satellite_alt'
-    },
-    topo: {
-        name: 'Topographic',
-        url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
-        attribution: 'Map data: &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, <a href="http://viewfinderpanoramas.org">SRTM</a> | Map style: &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (<a href="https://creativecommons.org/licenses/by-sa/3.0/">CC-BY-SA</a>)',
-        icon: 'terrain'
-    }
-};
-
 interface GeoJsonRendererProps {
   layers: GeoJsonLayer[];
   onFeatureSelect: (layer: GeoJsonLayer, feature: Feature, isCtrlPressed: boolean) => void;
   selectedAssets: { layer: GeoJsonLayer; feature: Feature }[];
   isToolActive: boolean;
+  hiddenFeature: Feature | null;
+  queryFilter: AttributeFilter | null;
+  workOrderPriorities: Map<string, WorkOrderPriority>;
+  timeFilter: TimeFilter | null;
 }
 
-const GeoJsonRenderer: React.FC<GeoJsonRendererProps> = ({ layers, onFeatureSelect, selectedAssets, isToolActive }) => {
-  const map = useMap();
-  
+// GeoJSON layers don't react to new data, so each data object gets a version used in the render key
+const dataVersions = new WeakMap<FeatureCollection, number>();
+let nextDataVersion = 0;
+const getDataVersion = (data: FeatureCollection) => {
+  if (!dataVersions.has(data)) dataVersions.set(data, nextDataVersion++);
+  return dataVersions.get(data);
+};
+
+const GeoJsonRenderer: React.FC<GeoJsonRendererProps> = ({ layers, onFeatureSelect, selectedAssets, isToolActive, hiddenFeature, queryFilter, workOrderPriorities, timeFilter }) => {
+  const workOrderKey = Array.from(workOrderPriorities.entries()).join(',');
   return (
     <>
       {layers.map(layer => {
         if (!layer.isVisible) return null;
+        const layerFilter = queryFilter?.layerId === layer.id ? queryFilter : null;
+        const layerTimeFilter = timeFilter?.layerId === layer.id ? timeFilter : null;
 
         const onEachFeature = (feature: Feature, mapLayer: L.Layer) => {
            if (!isToolActive) {
@@ -56,46 +67,11 @@ const GeoJsonRenderer: React.FC<GeoJsonRendererProps> = ({ layers, onFeatureSele
                         L.DomEvent.stop(e);
                         const isCtrlPressed = e.originalEvent.ctrlKey || e.originalEvent.metaKey;
                         onFeatureSelect(layer, feature, isCtrlPressed);
-                        
-                        const displayName = getFeatureDisplayName(feature);
-                        const container = L.DomUtil.create('div', 'font-display text-slate-800');
-                        const header = L.DomUtil.create('h3', 'text-lg font-bold text-slate-900 mb-2 border-b border-slate-200 pb-2', container);
-                        header.innerText = displayName;
-
-                        const detailsContainerWrapper = L.DomUtil.create('div', 'space-y-2 text-sm max-h-64 overflow-y-auto pr-2 -mr-2 pt-2', container);
-                        const createDetailRow = (label: string, value: string, valueClass = 'text-slate-800') => {
-                            const row = L.DomUtil.create('div', 'flex justify-between items-start gap-4', detailsContainerWrapper);
-                            const labelEl = L.DomUtil.create('span', 'font-medium text-slate-500 shrink-0', row);
-                            labelEl.innerText = label;
-                            const valueEl = L.DomUtil.create('span', `font-semibold ${valueClass} text-right break-words`, row);
-                            valueEl.innerText = value;
-                        };
-                        
-                        if (feature.properties) {
-                            const propertiesToShow = Object.entries(feature.properties)
-                                .filter(([key]) => !['Name', 'name', 'fid', 'Shape_Length', 'Shape_Area', 'Bldg_Id', 'Link'].includes(key))
-                                .sort(([keyA], [keyB]) => keyA.localeCompare(keyB));
-
-                            for (const [key, value] of propertiesToShow) {
-                                if (value !== null && value !== undefined && String(value).trim() !== "" && String(value).trim() !== " ") {
-                                    createDetailRow(key, String(value));
-                                }
-                            }
-                        }
-
-                        L.popup({
-                            className: 'custom-leaflet-popup',
-                            minWidth: 300,
-                            maxWidth: 350,
-                        })
-                        .setLatLng(e.latlng)
-                        .setContent(container)
-                        .openOn(map);
                     }
                 });
            }
 
-          const displayName = getFeatureDisplayName(feature);
+          const displayName = getFeatureDisplayName(feature, layer);
           mapLayer.bindTooltip(displayName, {
             permanent: false,
             direction: 'top',
@@ -105,28 +81,49 @@ const GeoJsonRenderer: React.FC<GeoJsonRendererProps> = ({ layers, onFeatureSele
         };
 
         const style = (feature?: Feature): L.PathOptions => {
-          const isSelected = selectedAssets.some(
-            asset => asset.layer.id === layer.id &&
-                     feature?.properties &&
-                     String(asset.feature.properties?.fid) === String(feature.properties?.fid)
-          );
+          const isSelected = !!feature && selectedAssets.some(asset => isSameAsset({ layerId: asset.layer.id, feature: asset.feature }, { layerId: layer.id, feature }));
+          const featureColor = getFeatureColor(layer, feature);
+          // Features outside the active query stay visible for context, but faded
+          if (!isSelected && layerFilter && feature && !matchesFilter(feature, layerFilter)) {
+            return {
+              color: featureColor,
+              weight: layer.weight,
+              opacity: layer.strokeOpacity * 0.25,
+              dashArray: layer.dashArray,
+              fillColor: featureColor,
+              fillOpacity: layer.fillOpacity * 0.2,
+            };
+          }
+          // Assets with open work orders get a dashed outline in the colour of their most pressing priority
+          const workOrderPriority = feature && workOrderPriorities.get(getWorkOrderAssetKey(layer.id, getFeatureId(feature)));
+          if (!isSelected && workOrderPriority) {
+            return {
+              color: getPrioritySpec(workOrderPriority).color,
+              weight: layer.weight + 2,
+              opacity: 1,
+              dashArray: '6, 4',
+              fillColor: featureColor,
+              fillOpacity: layer.fillOpacity,
+            };
+          }
           return {
-            color: isSelected ? '#3b82f6' : layer.color,
-            weight: isSelected ? 3 : 2,
+            color: isSelected ? '#3b82f6' : featureColor,
+            weight: isSelected ? layer.weight + 1 : layer.weight,
             opacity: layer.strokeOpacity,
             dashArray: layer.dashArray,
-            fillColor: isSelected ? '#3b82f6' : layer.color,
+            fillColor: isSelected ? '#3b82f6' : featureColor,
             fillOpacity: isSelected ? 0.7 : layer.fillOpacity,
           };
         };
         
-        const selectedIds = selectedAssets.map(a => `${a.layer.id}-${a.feature.properties?.fid}`).join(',');
-        const key = `${layer.id}-${layer.isVisible}-${layer.color}-${layer.strokeOpacity}-${layer.fillOpacity}-${layer.dashArray}-${layer.data.features.length}-${selectedIds}-${isToolActive}`;
+        const selectedIds = selectedAssets.map(a => getAssetKey(a.layer.id, a.feature)).join(',');
+        const key = `${layer.id}-${layer.isVisible}-${layer.color}-${layer.strokeOpacity}-${layer.fillOpacity}-${layer.dashArray}-${layer.weight}-${getRendererKey(layer.renderer, layer.statusModel)}-${getDataVersion(layer.data)}-${selectedIds}-${isToolActive}-${!!hiddenFeature}-${layerFilter ? describeFilter(layerFilter) : ''}-${workOrderKey}-${layerTimeFilter ? `${layerTimeFilter.field}${layerTimeFilter.mode}${layerTimeFilter.year}` : ''}`;
 
         return (
           <GeoJSON
             key={key}
             data={layer.data}
+            filter={(feature) => feature !== hiddenFeature && (!layerTimeFilter || matchesTimeFilter(feature, layerTimeFilter))}
             style={style}
             onEachFeature={onEachFeature}
           />
@@ -138,15 +135,22 @@ const GeoJsonRenderer: React.FC<GeoJsonRendererProps> = ({ layers, onFeatureSele
 
 interface MapUpdaterProps {
   boundsToFit: L.LatLngBounds | null;
+  extentToShow: L.LatLngBounds | null;
 }
 
-const MapUpdater: React.FC<MapUpdaterProps> = ({ boundsToFit }) => {
+const MapUpdater: React.FC<MapUpdaterProps> = ({ boundsToFit, extentToShow }) => {
   const map = useMap();
   useEffect(() => {
     if (boundsToFit && boundsToFit.isValid()) {
       map.flyToBounds(boundsToFit, { padding: [50, 50], maxZoom: 18, duration: 1 });
     }
   }, [boundsToFit, map]);
+  // Saved extents (bookmarks) are shown as they were, without the padding used around data
+  useEffect(() => {
+    if (extentToShow && extentToShow.isValid()) {
+      map.flyToBounds(extentToShow, { duration: 1 });
+    }
+  }, [extentToShow, map]);
   return null;
 };
 
@@ -221,14 +225,6 @@ const ZoomWindowIcon = () => (
         <rect x="6" y="6" width="8" height="8" fill="#3B82F6" fillOpacity="0.2" stroke="#3B82F6" strokeWidth="1.5" strokeDasharray="2 2"/>
     </svg>
 );
-const SelectFeaturesIcon = () => (
-    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-        <path d="M9.6875 9.6875L4 12.5V4L12.5 4L9.6875 9.6875Z" stroke="#8B5CF6" strokeWidth="2" strokeLinejoin="round"/>
-        <path d="M13 4H20V11" stroke="#8B5CF6" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" strokeDasharray="3 3"/>
-        <path d="M11 20H4V13" stroke="#8B5CF6" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" strokeDasharray="3 3"/>
-        <path d="M20 13V20H13" stroke="#8B5CF6" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" strokeDasharray="3 3"/>
-    </svg>
-);
 const MeasureToolIcon = () => (
     <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
         {/* Ruler */}
@@ -255,11 +251,24 @@ const CalculateIcon = () => (
         <path d="M12 16V12" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
     </svg>
 );
+const SnapIcon = () => (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M4 20L10 8L20 4" stroke="#64748B" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+        <rect x="7.5" y="5.5" width="5" height="5" fill="white" stroke="#0891B2" strokeWidth="2"/>
+        <circle cx="10" cy="8" r="7" stroke="#0891B2" strokeWidth="1.5" strokeDasharray="2 2"/>
+    </svg>
+);
 // --- End Icons ---
 
+const SNAP_TOLERANCE_PX = 10;
+const measureVertexIcon = L.divIcon({ className: 'measure-vertex', iconSize: [12, 12] });
 
 interface MapControlsProps {
     map: L.Map | null;
+    layers: GeoJsonLayer[];
+    // Vertices only snap to features the filters leave on the map
+    queryFilter: AttributeFilter | null;
+    timeFilter: TimeFilter | null;
     measureMode: 'distance' | 'area' | null;
     setMeasureMode: (mode: 'distance' | 'area' | null) => void;
     distanceUnit: DistanceUnit;
@@ -267,19 +276,51 @@ interface MapControlsProps {
     areaUnit: AreaUnit;
     setAreaUnit: (unit: AreaUnit) => void;
     setIsZooming: (isZooming: boolean) => void;
-    setIsSelecting: (isSelecting: boolean) => void;
+    setSelectMode: (mode: SpatialSelectMode) => void;
+    initialMeasurements?: Feature[];
+    onMeasurementsChange: (measurements: Feature[]) => void;
+    onCreateLayer: (name: string, data: FeatureCollection) => void;
 }
 
-const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureMode, distanceUnit, setDistanceUnit, areaUnit, setAreaUnit, setIsZooming, setIsSelecting }) => {
+const MapControls: React.FC<MapControlsProps> = ({ map, layers, queryFilter, timeFilter, measureMode, setMeasureMode, distanceUnit, setDistanceUnit, areaUnit, setAreaUnit, setIsZooming, setSelectMode, initialMeasurements, onMeasurementsChange, onCreateLayer }) => {
     const [isMeasurePanelOpen, setMeasurePanelOpen] = useState(false);
     const [points, setPoints] = useState<L.LatLng[]>([]);
     const pointsRef = useRef<L.LatLng[]>([]);
     const [isUnitSelectorOpen, setUnitSelectorOpen] = useState(false);
     const unitDropdownRef = useRef<HTMLDivElement>(null);
+    const [measurements, setMeasurements] = useState<Feature[]>(() => normalizeMeasurements(initialMeasurements || []));
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    // Vertices of the measurement being dragged, shown live and saved when the drag ends
+    const [draft, setDraft] = useState<{ id: string; positions: Position[] } | null>(null);
+    const [isSnapping, setIsSnapping] = useState(true);
     
     const measureLayersRef = useRef<L.FeatureGroup>(new L.FeatureGroup());
+    // Finished measurements live in their own group so redrawing the sketch doesn't wipe them
+    const resultLayersRef = useRef<L.FeatureGroup>(new L.FeatureGroup());
     const tempLayerRef = useRef<L.Layer | null>(null);
     const tooltipRef = useRef<L.Tooltip | null>(null);
+    const snapMarkerRef = useRef<L.CircleMarker | null>(null);
+
+    const snapVertices = useMemo(() => layers
+        .filter(l => l.isVisible)
+        .flatMap(l => {
+            const layerFilter = queryFilter?.layerId === l.id ? queryFilter : null;
+            const layerTimeFilter = timeFilter?.layerId === l.id ? timeFilter : null;
+            return l.data.features
+                .filter(f => (!layerFilter || matchesFilter(f, layerFilter)) && (!layerTimeFilter || matchesTimeFilter(f, layerTimeFilter)))
+                .flatMap(f => getLinework(f.geometry).flat());
+        })
+        .map(([lng, lat]) => L.latLng(lat, lng)),
+    [layers, queryFilter, timeFilter]);
+
+    // Map handlers read these through a ref so they aren't re-registered when assets change
+    const latest = useRef({ isSnapping, snapVertices, measurements });
+    latest.current = { isSnapping, snapVertices, measurements };
+
+    useEffect(() => {
+        onMeasurementsChange(measurements);
+    }, [measurements, onMeasurementsChange]);
     
     const formatDistance = useCallback((meters: number) => {
         const unitConfig = DISTANCE_UNITS[distanceUnit];
@@ -293,6 +334,33 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
         return unitConfig.format(convertedValue);
     }, [areaUnit]);
 
+    // Pulls a point onto the nearest asset vertex on screen within a few pixels
+    const snap = useCallback((latlng: L.LatLng): L.LatLng => {
+        if (!map || !latest.current.isSnapping) return latlng;
+        const point = map.latLngToLayerPoint(latlng);
+        const view = map.getBounds();
+        let best: L.LatLng | null = null;
+        let bestDistance = SNAP_TOLERANCE_PX;
+        for (const vertex of latest.current.snapVertices) {
+            if (!view.contains(vertex)) continue;
+            const distance = point.distanceTo(map.latLngToLayerPoint(vertex));
+            if (distance < bestDistance) { best = vertex; bestDistance = distance; }
+        }
+        return best || latlng;
+    }, [map]);
+
+    const showSnapMarker = useCallback((latlng: L.LatLng | null) => {
+        if (!map) return;
+        if (!latlng) {
+            snapMarkerRef.current?.remove();
+            snapMarkerRef.current = null;
+        } else if (snapMarkerRef.current) {
+            snapMarkerRef.current.setLatLng(latlng);
+        } else {
+            snapMarkerRef.current = L.circleMarker(latlng, { radius: 7, color: '#0891b2', weight: 2, fill: false, interactive: false }).addTo(map);
+        }
+    }, [map]);
+
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
             if (unitDropdownRef.current && !unitDropdownRef.current.contains(event.target as Node)) {
@@ -306,15 +374,88 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
     useEffect(() => {
         if (!map) return;
         const layerGroup = measureLayersRef.current;
+        const resultGroup = resultLayersRef.current;
         map.addLayer(layerGroup);
+        map.addLayer(resultGroup);
         return () => {
             map.removeLayer(layerGroup);
+            map.removeLayer(resultGroup);
         };
     }, [map]);
+
+    // Saved measurements, with segment labels on the one selected or being edited
+    useEffect(() => {
+        const group = resultLayersRef.current;
+        group.clearLayers();
+        measurements.forEach(measurement => {
+            const id = measurement.properties?.id;
+            const kind = getMeasurementKind(measurement);
+            const positions = draft?.id === id ? draft.positions : getMeasurementPositions(measurement);
+            if (positions.length < (kind === 'area' ? 3 : 2)) return;
+            const summary = summarizeMeasurement(kind, positions);
+            const latlngs = positions.map(([lng, lat]) => L.latLng(lat, lng));
+            const isActive = id === selectedId || id === editingId;
+            const style = { color: isActive ? '#0891b2' : '#3b82f6', weight: 3, interactive: !measureMode };
+            const shape = kind === 'area' ? L.polygon(latlngs, { ...style, fillOpacity: 0.2 }) : L.polyline(latlngs, style);
+            const measurementText = kind === 'area'
+                ? `${measurement.properties?.name}: ${formatArea(summary.area || 0)} · ${formatDistance(summary.length)} perimeter`
+                : `${measurement.properties?.name}: ${formatDistance(summary.length)}`;
+            shape.addTo(group).bindTooltip(measurementText, {
+                permanent: true,
+                direction: 'center',
+                className: 'measure-result-tooltip'
+            }).openTooltip();
+            shape.on('click', (e: L.LeafletMouseEvent) => {
+                L.DomEvent.stop(e);
+                setSelectedId(id);
+            });
+            if (!isActive) return;
+            const path = kind === 'area' ? [...latlngs, latlngs[0]] : latlngs;
+            summary.segments.forEach((segment, i) => {
+                const midpoint = L.latLng((path[i].lat + path[i + 1].lat) / 2, (path[i].lng + path[i + 1].lng) / 2);
+                L.tooltip({ permanent: true, direction: 'center', className: 'measure-segment-tooltip' })
+                    .setLatLng(midpoint)
+                    .setContent(`${formatDistance(segment.length)}<br>${formatBearing(segment.bearing)}`)
+                    .addTo(group);
+            });
+        });
+    }, [measurements, draft, selectedId, editingId, measureMode, formatDistance, formatArea]);
+
+    // Draggable vertices for the measurement being edited; each drag re-measures it live
+    useEffect(() => {
+        if (!map || !editingId) return;
+        const measurement = latest.current.measurements.find(m => m.properties?.id === editingId);
+        if (!measurement) return;
+        const positions = getMeasurementPositions(measurement).map(p => [...p]);
+        const group = L.layerGroup().addTo(map);
+        positions.forEach((position, index) => {
+            const marker = L.marker(L.latLng(position[1], position[0]), { draggable: true, icon: measureVertexIcon, keyboard: false }).addTo(group);
+            marker.on('drag', () => {
+                const latlng = snap(marker.getLatLng());
+                showSnapMarker(latlng.equals(marker.getLatLng()) ? null : latlng);
+                positions[index] = [latlng.lng, latlng.lat];
+                setDraft({ id: editingId, positions: positions.slice() });
+            });
+            marker.on('dragend', () => {
+                const latlng = snap(marker.getLatLng());
+                marker.setLatLng(latlng);
+                showSnapMarker(null);
+                positions[index] = [latlng.lng, latlng.lat];
+                setDraft(null);
+                setMeasurements(prev => prev.map(m => m.properties?.id === editingId ? withMeasurementPositions(m, positions.slice()) : m));
+            });
+        });
+        return () => {
+            group.remove();
+            showSnapMarker(null);
+            setDraft(null);
+        };
+    }, [map, editingId, snap, showSnapMarker]);
     
     const clearInProgressMeasurement = useCallback(() => {
         pointsRef.current = [];
         setPoints([]);
+        showSnapMarker(null);
         if (map && tempLayerRef.current) {
             map.removeLayer(tempLayerRef.current);
             tempLayerRef.current = null;
@@ -332,7 +473,7 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
                 tooltipRef.current = null;
             }
         }
-    }, [map, measureMode]);
+    }, [map, measureMode, showSnapMarker]);
 
     const finalizeMeasurement = useCallback((finalPoints: L.LatLng[]) => {
         if (!map || !measureMode) return;
@@ -349,57 +490,68 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
         if (measureMode === 'distance' && pointsToUse.length < 2) return;
         if (measureMode === 'area' && pointsToUse.length < 3) return;
 
-        let finalShape: L.Polyline | L.Polygon;
-        let measurementText = '';
-
-        if (measureMode === 'distance') {
-            finalShape = L.polyline(pointsToUse, { color: '#3b82f6', weight: 3 }).addTo(measureLayersRef.current);
-            const line = { type: 'LineString', coordinates: pointsToUse.map(p => [p.lng, p.lat]) };
-            const length = turfLength(line as any, { units: 'meters' });
-            measurementText = formatDistance(length);
-        } else if (measureMode === 'area') {
-            finalShape = L.polygon(pointsToUse, { color: '#3b82f6', weight: 3, fillOpacity: 0.2 }).addTo(measureLayersRef.current);
-            const polyCoords = [...pointsToUse.map(p => [p.lng, p.lat]), [pointsToUse[0].lng, pointsToUse[0].lat]];
-            const polygon = { type: 'Polygon', coordinates: [polyCoords] };
-            const area = turfArea(polygon as any);
-            measurementText = formatArea(area);
-        } else {
-            return;
-        }
+        const measurement = createMeasurement(measureMode, pointsToUse.map(p => [p.lng, p.lat]), latest.current.measurements);
+        setMeasurements(prev => [...prev, measurement]);
+        setSelectedId(measurement.properties?.id);
 
-        finalShape.bindTooltip(measurementText, {
-            permanent: true,
-            direction: 'center',
-            className: 'measure-result-tooltip'
-        }).openTooltip();
-        
         clearInProgressMeasurement();
-    }, [map, measureMode, formatDistance, formatArea, clearInProgressMeasurement]);
+    }, [map, measureMode, clearInProgressMeasurement]);
     
     const clearAllMeasurements = useCallback(() => {
+        if (latest.current.measurements.length > 0 && !window.confirm(`Delete all ${latest.current.measurements.length} saved measurements?`)) return;
         measureLayersRef.current.clearLayers();
         clearInProgressMeasurement();
+        setEditingId(null);
+        setSelectedId(null);
+        setMeasurements(prev => prev.length > 0 ? [] : prev);
     }, [clearInProgressMeasurement]);
 
+    const handleDeleteMeasurement = (id: string) => {
+        setMeasurements(prev => prev.filter(m => m.properties?.id !== id));
+        if (editingId === id) setEditingId(null);
+        if (selectedId === id) setSelectedId(null);
+    };
+
+    const handleRenameMeasurement = (id: string, name: string) => {
+        setMeasurements(prev => prev.map(m => m.properties?.id === id ? { ...m, properties: { ...m.properties, name } } : m));
+    };
+
+    const handleZoomToMeasurement = (id: string) => {
+        const measurement = measurements.find(m => m.properties?.id === id);
+        if (!map || !measurement) return;
+        const latlngs = getMeasurementPositions(measurement).map(([lng, lat]) => L.latLng(lat, lng));
+        map.flyToBounds(L.latLngBounds(latlngs), { padding: [60, 60], maxZoom: 19 });
+        setSelectedId(id);
+    };
+
+    const handleEditMeasurement = (id: string | null) => {
+        if (id) setMeasureMode(null);
+        setEditingId(id);
+        if (id) setSelectedId(id);
+    };
+
     const startMeasure = useCallback((mode: 'distance' | 'area') => {
-        clearAllMeasurements();
+        clearInProgressMeasurement();
+        setEditingId(null);
         setIsZooming(false);
-        setIsSelecting(false);
+        setSelectMode(null);
         setMeasureMode(mode);
-    }, [clearAllMeasurements, setMeasureMode, setIsZooming, setIsSelecting]);
+    }, [clearInProgressMeasurement, setMeasureMode, setIsZooming, setSelectMode]);
     
     const toggleMeasurePanel = useCallback(() => {
         setMeasurePanelOpen(prev => {
-            if (prev) { // When closing the panel
-                clearAllMeasurements();
+            if (prev) { // When closing the panel; saved measurements stay on the map
+                clearInProgressMeasurement();
                 setMeasureMode(null);
+                setEditingId(null);
+                setSelectedId(null);
             } else {
                 setIsZooming(false);
-                setIsSelecting(false);
+                setSelectMode(null);
             }
             return !prev;
         });
-    }, [clearAllMeasurements, setMeasureMode, setIsZooming, setIsSelecting]);
+    }, [clearInProgressMeasurement, setMeasureMode, setIsZooming, setSelectMode]);
 
     const handleMeasureButtonClick = (mode: 'distance' | 'area') => {
         if (measureMode === mode) {
@@ -420,6 +572,8 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
         (map.getContainer().style.cursor = 'crosshair');
 
         const handleMouseMove = (e: L.LeafletMouseEvent) => {
+            const latlng = snap(e.latlng);
+            showSnapMarker(latlng === e.latlng ? null : latlng);
             if(tooltipRef.current) {
                  tooltipRef.current.setLatLng(e.latlng);
             } else if (map) {
@@ -441,25 +595,23 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
                 let currentText = '';
                 const instructionsHTML = `<span class="measure-instructions"><strong>Double-click</strong> to finish<br><strong>ESC</strong> or <strong>Right-click</strong> to cancel</span>`;
                 const separatorHTML = '<hr class="measure-separator">';
+                const allPoints = [...pointsRef.current, latlng];
+                const summary = summarizeMeasurement(measureMode, allPoints.map(p => [p.lng, p.lat]));
+                const lastSegment = summary.segments[pointsRef.current.length - 1];
+                const segmentHTML = `<span class="measure-instructions">Segment ${formatDistance(lastSegment.length)} · ${formatBearing(lastSegment.bearing)}</span>`;
 
                 if (measureMode === 'distance') {
-                    tempLayerRef.current = L.polyline([lastPoint, e.latlng], { color: '#0891b2', dashArray: '5, 5' }).addTo(map);
-                    const allPoints = [...pointsRef.current, e.latlng];
-                    const line = { type: 'LineString', coordinates: allPoints.map(p => [p.lng, p.lat]) };
-                    const length = turfLength(line as any, { units: 'meters' });
-                    const valueHTML = `<span class="measure-value">${formatDistance(length)}</span>`;
-                    currentText = `${valueHTML}${separatorHTML}${instructionsHTML}`;
+                    tempLayerRef.current = L.polyline([lastPoint, latlng], { color: '#0891b2', dashArray: '5, 5' }).addTo(map);
+                    const valueHTML = `<span class="measure-value">${formatDistance(summary.length)}</span>`;
+                    currentText = `${valueHTML}${segmentHTML}${separatorHTML}${instructionsHTML}`;
                 } else {
-                    const polyPoints = [...pointsRef.current, e.latlng];
-                    tempLayerRef.current = L.polygon(polyPoints, { color: '#0891b2', dashArray: '5, 5', fill: false }).addTo(map);
-                    if (polyPoints.length > 2) {
-                         const polyCoords = [...polyPoints.map(p => [p.lng, p.lat]), [polyPoints[0].lng, polyPoints[0].lat]];
-                         const polygon = { type: 'Polygon', coordinates: [polyCoords] };
-                         const area = turfArea(polygon as any);
-                         const valueHTML = `<span class="measure-value">${formatArea(area)}</span>`;
-                         currentText = `${valueHTML}${separatorHTML}${instructionsHTML}`;
+                    tempLayerRef.current = L.polygon(allPoints, { color: '#0891b2', dashArray: '5, 5', fill: false }).addTo(map);
+                    if (allPoints.length > 2) {
+                         const valueHTML = `<span class="measure-value">${formatArea(summary.area || 0)}</span>`;
+                         const perimeterHTML = `<span class="measure-instructions">Perimeter ${formatDistance(summary.length)}</span>`;
+                         currentText = `${valueHTML}${perimeterHTML}${segmentHTML}${separatorHTML}${instructionsHTML}`;
                     } else {
-                        currentText = `<span class="measure-instructions">Click to add more points...</span>`;
+                        currentText = `${segmentHTML}<span class="measure-instructions">Click to add more points...</span>`;
                     }
                 }
                 if (tooltipRef.current) tooltipRef.current.setContent(currentText);
@@ -467,7 +619,7 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
         };
 
         const handleSingleClick = (e: L.LeafletMouseEvent) => {
-            pointsRef.current.push(e.latlng);
+            pointsRef.current.push(snap(e.latlng));
             setPoints([...pointsRef.current]);
         };
 
@@ -508,7 +660,7 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
             clearInProgressMeasurement();
         };
 
-    }, [map, measureMode, finalizeMeasurement, clearInProgressMeasurement, formatDistance, formatArea]);
+    }, [map, measureMode, finalizeMeasurement, clearInProgressMeasurement, formatDistance, formatArea, snap, showSnapMarker]);
     
     useEffect(() => {
         measureLayersRef.current.clearLayers();
@@ -532,6 +684,21 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
     return (
          <div className="flex items-end gap-3">
              <div className="flex flex-col items-end gap-2">
+                {isMeasurePanelOpen && measurements.length > 0 && (
+                    <MeasurementList
+                        measurements={measurements}
+                        formatDistance={formatDistance}
+                        formatArea={formatArea}
+                        selectedId={selectedId}
+                        onSelect={setSelectedId}
+                        editingId={editingId}
+                        onEdit={handleEditMeasurement}
+                        onRename={handleRenameMeasurement}
+                        onZoom={handleZoomToMeasurement}
+                        onDelete={handleDeleteMeasurement}
+                        onConvertToLayer={() => onCreateLayer('Measurements', measurementsToFeatureCollection(measurements))}
+                    />
+                )}
                 {isMeasurePanelOpen && (
                     <div className="flex items-center gap-2">
                          <div className="flex gap-1 bg-white/95 backdrop-blur-md p-1 rounded-xl shadow-lg border border-slate-200">
@@ -550,6 +717,13 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
                                 <MeasureAreaIcon />
                             </button>
                             <div className="w-px bg-slate-200 my-1"></div>
+                            <button
+                                title={isSnapping ? "Snapping to asset vertices (click to turn off)" : "Snap to asset vertices"}
+                                className={`flex items-center justify-center size-9 rounded-lg transition-all ${isSnapping ? 'bg-cyan-100 ring-2 ring-cyan-400' : 'text-slate-600 hover:bg-slate-200'}`}
+                                onClick={() => setIsSnapping(prev => !prev)}
+                            >
+                                <SnapIcon />
+                            </button>
                             <button 
                                 title="Clear All Measurements" 
                                 className="flex items-center justify-center size-9 rounded-lg text-slate-600 hover:bg-red-100 transition-colors" 
@@ -605,7 +779,7 @@ const MapControls: React.FC<MapControlsProps> = ({ map, measureMode, setMeasureM
     )
 }
 
-const BasemapControl: React.FC<{ onBasemapChange: (key: string) => void, activeBasemapKey: string }> = ({ onBasemapChange, activeBasemapKey }) => {
+const BasemapControl: React.FC<{ basemaps: BasemapDefinition[], onBasemapChange: (key: string) => void, activeBasemapKey: string, onManage: () => void }> = ({ basemaps, onBasemapChange, activeBasemapKey, onManage }) => {
     const [isOpen, setIsOpen] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
     const controlButtonClasses = "flex size-10 items-center justify-center rounded-xl bg-white/90 backdrop-blur-lg shadow-md shadow-black/5 ring-2 ring-slate-900/10 hover:shadow-lg hover:shadow-sky-500/20 hover:bg-sky-50/90 hover:ring-sky-500/50 transition-all duration-300 ease-in-out";
@@ -631,20 +805,30 @@ const BasemapControl: React.FC<{ onBasemapChange: (key: string) => void, activeB
                 <LayersIcon />
             </button>
             {isOpen && (
-                <div className="absolute top-full right-0 mt-2 w-48 rounded-xl bg-white/95 backdrop-blur-md shadow-xl border border-slate-200 p-2">
-                    {Object.entries(BASEMAPS).map(([key, basemap]) => (
+                <div className="absolute top-full right-0 mt-2 w-56 rounded-xl bg-white/95 backdrop-blur-md shadow-xl border border-slate-200 p-2">
+                    {basemaps.map(basemap => (
                         <button
-                            key={key}
+                            key={basemap.id}
                             onClick={() => {
-                                onBasemapChange(key);
+                                onBasemapChange(basemap.id);
                                 setIsOpen(false);
                             }}
-                            className={`w-full flex items-center gap-3 p-2 rounded-lg text-left text-sm transition-colors ${activeBasemapKey === key ? 'bg-primary/10 text-slate-800' : 'text-slate-600 hover:bg-slate-200/50'}`}
+                            className={`w-full flex items-center gap-3 p-2 rounded-lg text-left text-sm transition-colors ${activeBasemapKey === basemap.id ? 'bg-primary/10 text-slate-800' : 'text-slate-600 hover:bg-slate-200/50'}`}
                         >
                             <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>{basemap.icon}</span>
-                            <span>{basemap.name}</span>
+                            <span className="truncate">{basemap.name}</span>
                         </button>
                     ))}
+                    <button
+                        onClick={() => {
+                            onManage();
+                            setIsOpen(false);
+                        }}
+                        className="w-full flex items-center gap-3 mt-1 p-2 rounded-lg border-t border-slate-200 text-left text-sm text-primary hover:bg-primary/5 transition-colors"
+                    >
+                        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>tune</span>
+                        <span>Manage basemaps…</span>
+                    </button>
                 </div>
             )}
         </div>
@@ -794,23 +978,47 @@ interface MapWrapperProps {
   center: [number, number];
   zoom: number;
   layers: GeoJsonLayer[];
+  rasterLayers: RasterLayer[];
   boundsToFit: L.LatLngBounds | null;
+  extentToShow: L.LatLngBounds | null;
   onFeatureSelect: (layerId: string, feature: Feature, isCtrlPressed: boolean) => void;
   selectedAssets: { layer: GeoJsonLayer; feature: Feature }[];
   onClearSelection: () => void;
   onAreaSelect: (assets: { layerId: string; feature: Feature }[], isCtrlPressed: boolean) => void;
   onCalculateArea: () => void;
+  onEditFeatures: (layerId: string, edits: FeatureEdits) => void;
+  queryFilter: AttributeFilter | null;
+  initialBasemapKey?: string;
+  onViewChange?: (view: MapViewState) => void;
+  initialSession?: MapSessionState;
+  onSessionChange?: (session: MapSessionState) => void;
+  workOrderPriorities: Map<string, WorkOrderPriority>;
+  georeferenceSession: GeoreferenceSession | null;
+  onGeoreferenceSave: (corners: ImageCorners, opacity: number) => void;
+  onGeoreferenceCancel: () => void;
+  onCreateLayer: (name: string, data: FeatureCollection) => void;
 }
 
-const MapWrapper: React.FC<MapWrapperProps> = ({ center, zoom, layers, boundsToFit, onFeatureSelect, selectedAssets, onClearSelection, onAreaSelect, onCalculateArea }) => {
+const MapWrapper: React.FC<MapWrapperProps> = ({ center, zoom, layers, rasterLayers, boundsToFit, extentToShow, onFeatureSelect, selectedAssets, onClearSelection, onAreaSelect, onCalculateArea, onEditFeatures, queryFilter, initialBasemapKey, onViewChange, initialSession, onSessionChange, workOrderPriorities, georeferenceSession, onGeoreferenceSave, onGeoreferenceCancel, onCreateLayer }) => {
   const [map, setMap] = useState<L.Map | null>(null);
-  const [activeBasemapKey, setActiveBasemapKey] = useState<string>('street');
+  const [registryBasemaps, setRegistryBasemaps] = useState<BasemapDefinition[]>(DEFAULT_BASEMAPS);
+  const [customBasemaps, setCustomBasemaps] = useState<BasemapDefinition[]>(loadCustomBasemaps);
+  // Kept as given until the registry has loaded, since the saved basemap may come from the manifest
+  const [activeBasemapKey, setActiveBasemapKey] = useState<string>(() => initialBasemapKey || DEFAULT_BASEMAPS[0].id);
+  const [isBasemapManagerOpen, setIsBasemapManagerOpen] = useState(false);
+  const [basemapError, setBasemapError] = useState<string | null>(null);
   const [measureMode, setMeasureMode] = useState<'distance' | 'area' | null>(null);
-  const [distanceUnit, setDistanceUnit] = useState<DistanceUnit>('m');
-  const [areaUnit, setAreaUnit] = useState<AreaUnit>('m²');
+  const [distanceUnit, setDistanceUnit] = useState<DistanceUnit>(() => initialSession && initialSession.distanceUnit in DISTANCE_UNITS ? initialSession.distanceUnit as DistanceUnit : 'm');
+  const [areaUnit, setAreaUnit] = useState<AreaUnit>(() => initialSession && initialSession.areaUnit in AREA_UNITS ? initialSession.areaUnit as AreaUnit : 'm²');
+  const [measurements, setMeasurements] = useState<Feature[]>(() => initialSession?.measurements || []);
   const [northArrowIcon, setNorthArrowIcon] = useState<string>(NORTH_ARROW_SVGS[0].name);
   const [isZooming, setIsZooming] = useState(false);
-  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectMode, setSelectMode] = useState<SpatialSelectMode>(null);
+  const [editMode, setEditMode] = useState<GeometryEditMode>(null);
+  const [editingFeature, setEditingFeature] = useState<Feature | null>(null);
+  const [isPrintOpen, setIsPrintOpen] = useState(false);
+  const [isTimeSliderOpen, setIsTimeSliderOpen] = useState(false);
+  const [timeFilter, setTimeFilter] = useState<TimeFilter | null>(null);
 
   const selectedPolygons = useMemo(() => selectedAssets.filter(
     a => a.feature.geometry?.type === 'Polygon' || a.feature.geometry?.type === 'MultiPolygon'
@@ -819,8 +1027,6 @@ const MapWrapper: React.FC<MapWrapperProps> = ({ center, zoom, layers, boundsToF
   const toolStateRef = useRef({
       zoomRect: null as L.Rectangle | null,
       zoomStartPoint: null as L.LatLng | null,
-      selectRect: null as L.Rectangle | null,
-      selectStartPoint: null as L.LatLng | null,
   });
 
   useEffect(() => {
@@ -836,7 +1042,30 @@ const MapWrapper: React.FC<MapWrapperProps> = ({ center, zoom, layers, boundsToF
     localStorage.setItem('northArrowIcon', iconName);
   }
 
-  const activeBasemap = BASEMAPS[activeBasemapKey as keyof typeof BASEMAPS];
+  useEffect(() => {
+    loadBasemapRegistry().then(setRegistryBasemaps);
+  }, []);
+
+  const basemaps = useMemo(() => [...registryBasemaps, ...customBasemaps], [registryBasemaps, customBasemaps]);
+  const activeBasemap = basemaps.find(b => b.id === activeBasemapKey) || basemaps[0];
+
+  useEffect(() => {
+    setBasemapError(null);
+  }, [activeBasemap]);
+
+  const handleAddBasemap = (basemap: BasemapDefinition) => {
+    const next = [...customBasemaps, basemap];
+    setCustomBasemaps(next);
+    storeCustomBasemaps(next);
+    setActiveBasemapKey(basemap.id);
+  };
+
+  const handleRemoveBasemap = (id: string) => {
+    const next = customBasemaps.filter(b => b.id !== id);
+    setCustomBasemaps(next);
+    storeCustomBasemaps(next);
+    closeBasemapArchive(id);
+  };
   
   const handleResetView = () => {
     if (map) {
@@ -847,21 +1076,54 @@ const MapWrapper: React.FC<MapWrapperProps> = ({ center, zoom, layers, boundsToF
   const deactivateAllTools = () => {
     setMeasureMode(null);
     setIsZooming(false);
-    setIsSelecting(false);
+    setSelectMode(null);
+    setEditMode(null);
   };
 
+  useEffect(() => {
+    if (measureMode) setEditMode(null);
+  }, [measureMode]);
+
+  // Placing an image takes over map clicks
+  useEffect(() => {
+    if (georeferenceSession) deactivateAllTools();
+  }, [georeferenceSession]);
+
+  useEffect(() => {
+    if (!map || !onViewChange) return;
+    const report = () => {
+      const { lat, lng } = map.getCenter();
+      const bounds = map.getBounds();
+      onViewChange({
+        center: [lat, lng],
+        zoom: map.getZoom(),
+        basemap: activeBasemap.id,
+        bounds: [[bounds.getSouth(), bounds.getWest()], [bounds.getNorth(), bounds.getEast()]],
+      });
+    };
+    report();
+    map.on('moveend', report);
+    return () => { map.off('moveend', report); };
+  }, [map, activeBasemap, onViewChange]);
+
+  useEffect(() => {
+    onSessionChange?.({ distanceUnit, areaUnit, measurements });
+  }, [distanceUnit, areaUnit, measurements, onSessionChange]);
+
+  // Docked panels (e.g. the feature inspector) resize the map without a window resize event
+  useEffect(() => {
+    if (!map) return;
+    const observer = new ResizeObserver(() => map.invalidateSize());
+    observer.observe(map.getContainer());
+    return () => observer.disconnect();
+  }, [map]);
+
   const toggleZoomWindow = useCallback(() => {
     const nextState = !isZooming;
     deactivateAllTools();
     setIsZooming(nextState);
   }, [isZooming]);
 
-  const toggleSelectMode = useCallback(() => {
-    const nextState = !isSelecting;
-    deactivateAllTools();
-    setIsSelecting(nextState);
-  }, [isSelecting]);
-
   // Effect for Zoom Window Tool
   useEffect(() => {
       if (!map) return;
@@ -901,80 +1163,17 @@ const MapWrapper: React.FC<MapWrapperProps> = ({ center, zoom, layers, boundsToF
       return () => { map.off('mousedown', handleMouseDown).off('mousemove', handleMouseMove).off('mouseup', handleMouseUp); };
   }, [map, isZooming]);
 
-  // Effect for Select by Rectangle Tool
-  useEffect(() => {
-    if (!map) return;
-
-    if (!isSelecting) {
-        map.dragging.enable();
-        (map.getContainer() as HTMLElement).style.cursor = '';
-        return;
-    }
-
-    map.dragging.disable();
-    (map.getContainer() as HTMLElement).style.cursor = 'crosshair';
-
-    const handleMouseDown = (e: L.LeafletMouseEvent) => {
-        toolStateRef.current.selectStartPoint = e.latlng;
-        toolStateRef.current.selectRect = L.rectangle([e.latlng, e.latlng], {
-            color: '#8B5CF6', weight: 2, fillOpacity: 0.1, dashArray: '5, 5'
-        }).addTo(map);
-    };
-
-    const handleMouseMove = (e: L.LeafletMouseEvent) => {
-        if (toolStateRef.current.selectRect && toolStateRef.current.selectStartPoint) {
-            toolStateRef.current.selectRect.setBounds(L.latLngBounds(toolStateRef.current.selectStartPoint, e.latlng));
-        }
-    };
-
-    const handleMouseUp = (e: L.LeafletMouseEvent) => {
-        if (toolStateRef.current.selectRect) {
-            const selectionBounds = toolStateRef.current.selectRect.getBounds();
-            const foundAssets: { layerId: string, feature: Feature }[] = [];
-            
-            layers.forEach(layer => {
-                if (layer.isVisible && layer.data.features) {
-                    layer.data.features.forEach(feature => {
-                        try {
-                            if (feature.geometry) {
-                                const featureBounds = L.geoJSON(feature.geometry).getBounds();
-                                if (featureBounds.isValid() && selectionBounds.intersects(featureBounds)) {
-                                    foundAssets.push({ layerId: layer.id, feature });
-                                }
-                            }
-                        } catch (err) {
-                            // Ignore features with invalid geometry for bounds calculation
-                        }
-                    });
-                }
-            });
-
-            onAreaSelect(foundAssets, e.originalEvent.ctrlKey || e.originalEvent.metaKey);
-            map.removeLayer(toolStateRef.current.selectRect);
-        }
-        toolStateRef.current.selectRect = null;
-        toolStateRef.current.selectStartPoint = null;
-        setIsSelecting(false);
-    };
-    
-    map.on('mousedown', handleMouseDown).on('mousemove', handleMouseMove).on('mouseup', handleMouseUp);
-    return () => { map.off('mousedown', handleMouseDown).off('mousemove', handleMouseMove).off('mouseup', handleMouseUp); };
-  }, [map, isSelecting, layers, onAreaSelect]);
-  
   const controlButtonClasses = "flex size-10 items-center justify-center rounded-xl bg-white/90 backdrop-blur-lg shadow-md shadow-black/5 ring-2 ring-slate-900/10 hover:shadow-lg hover:shadow-sky-500/20 hover:bg-sky-50/90 hover:ring-sky-500/50 transition-all duration-300 ease-in-out";
 
 
   return (
     <div className="relative flex-1 h-full rounded-xl overflow-hidden shadow-sm border border-slate-200">
       <MapContainer center={center} zoom={zoom} scrollWheelZoom={true} zoomControl={false} ref={setMap} doubleClickZoom={false}>
-        <TileLayer
-          key={activeBasemapKey}
-          attribution={activeBasemap.attribution}
-          url={activeBasemap.url}
-        />
-        <MapUpdater boundsToFit={boundsToFit} />
-        <GeoJsonRenderer layers={layers} onFeatureSelect={(layer, feature, isCtrl) => onFeatureSelect(layer.id, feature, isCtrl)} selectedAssets={selectedAssets} isToolActive={!!measureMode || isZooming || isSelecting} />
-        <MapEventsHandler onClearSelection={onClearSelection} />
+        <BasemapLayer key={activeBasemap.id} basemap={activeBasemap} onError={setBasemapError} />
+        {rasterLayers.map((layer, index) => layer.isVisible && layer.id !== georeferenceSession?.layerId && <RasterOverlay key={layer.id} layer={layer} order={index} />)}
+        <MapUpdater boundsToFit={boundsToFit} extentToShow={extentToShow} />
+        <GeoJsonRenderer layers={layers} onFeatureSelect={(layer, feature, isCtrl) => onFeatureSelect(layer.id, feature, isCtrl)} selectedAssets={selectedAssets} isToolActive={!!measureMode || isZooming || !!selectMode || !!editMode} hiddenFeature={editingFeature} queryFilter={queryFilter} workOrderPriorities={workOrderPriorities} timeFilter={timeFilter} />
+        {!editMode && !selectMode && !georeferenceSession && <MapEventsHandler onClearSelection={onClearSelection} />}
       </MapContainer>
         
         <div className="absolute top-4 right-4 z-[1000] flex flex-col gap-3">
@@ -991,13 +1190,15 @@ const MapWrapper: React.FC<MapWrapperProps> = ({ center, zoom, layers, boundsToF
             >
                 <ZoomWindowIcon />
             </button>
-             <button 
-                onClick={toggleSelectMode} 
-                title="Select Features" 
-                className={`${controlButtonClasses} ${isSelecting ? '!bg-purple-100 !ring-purple-400' : ''}`}
-            >
-                <SelectFeaturesIcon />
-            </button>
+            <SpatialSelectTool
+                map={map}
+                layers={layers}
+                selectedAssets={selectedAssets}
+                selectMode={selectMode}
+                setSelectMode={setSelectMode}
+                onAreaSelect={onAreaSelect}
+                onOpen={deactivateAllTools}
+            />
              <button
                 onClick={onCalculateArea}
                 disabled={selectedPolygons.length === 0}
@@ -1006,12 +1207,98 @@ const MapWrapper: React.FC<MapWrapperProps> = ({ center, zoom, layers, boundsToF
             >
                 <CalculateIcon />
             </button>
-            <BasemapControl activeBasemapKey={activeBasemapKey} onBasemapChange={setActiveBasemapKey} />
+            <GeometryEditor
+                map={map}
+                layers={layers}
+                selectedAssets={selectedAssets}
+                editMode={editMode}
+                setEditMode={setEditMode}
+                onEditingFeatureChange={setEditingFeature}
+                onEditFeatures={onEditFeatures}
+                onOpen={deactivateAllTools}
+            />
+            <BasemapControl basemaps={basemaps} activeBasemapKey={activeBasemap.id} onBasemapChange={setActiveBasemapKey} onManage={() => { deactivateAllTools(); setIsBasemapManagerOpen(true); }} />
+            <button
+                onClick={() => { deactivateAllTools(); setIsPrintOpen(true); }}
+                disabled={!map}
+                title="Print Map"
+                className={`${controlButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+                <span className="material-symbols-outlined text-slate-700" style={{ fontSize: '22px' }}>print</span>
+            </button>
+            <button
+                onClick={() => setIsTimeSliderOpen(prev => !prev)}
+                title="Time Slider"
+                className={`${controlButtonClasses} ${isTimeSliderOpen ? '!bg-sky-100 !ring-sky-400' : ''}`}
+            >
+                <span className="material-symbols-outlined text-slate-700" style={{ fontSize: '22px' }}>timelapse</span>
+            </button>
+        </div>
+
+        {basemapError && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-2 max-w-md rounded-lg bg-red-50 px-3 py-2 text-xs text-red-700 shadow-md ring-1 ring-red-200">
+                <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>error</span>
+                <span className="flex-1">{basemapError}</span>
+                <button onClick={() => setBasemapError(null)} title="Dismiss" className="p-0.5 rounded hover:bg-red-100">
+                    <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>close</span>
+                </button>
+            </div>
+        )}
+
+        {georeferenceSession && (
+            <div className="absolute top-4 right-20 z-[1000]">
+                <ImageGeoreferencer
+                    key={georeferenceSession.layerId || georeferenceSession.image.url}
+                    map={map}
+                    session={georeferenceSession}
+                    onSave={onGeoreferenceSave}
+                    onCancel={onGeoreferenceCancel}
+                />
+            </div>
+        )}
+
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000]">
+            <CoordinateBar map={map} onActivate={deactivateAllTools} />
         </div>
+
+        {isTimeSliderOpen && (
+            <div className="absolute bottom-16 left-1/2 -translate-x-1/2 z-[1000]">
+                <TimeSlider layers={layers} onChange={setTimeFilter} onClose={() => setIsTimeSliderOpen(false)} />
+            </div>
+        )}
         
+        <div className="absolute bottom-4 left-4 z-[1000]">
+            <MapLegend layers={layers} workOrderPriorities={workOrderPriorities} />
+        </div>
+
+        <BasemapManager
+            isOpen={isBasemapManagerOpen}
+            onClose={() => setIsBasemapManagerOpen(false)}
+            map={map}
+            activeBasemap={activeBasemap}
+            customBasemaps={customBasemaps}
+            onAddBasemap={handleAddBasemap}
+            onRemoveBasemap={handleRemoveBasemap}
+        />
+
+        <PrintComposer
+            isOpen={isPrintOpen}
+            onClose={() => setIsPrintOpen(false)}
+            map={map}
+            layers={layers}
+            selectedAssets={selectedAssets}
+            queryFilter={queryFilter}
+            timeFilter={timeFilter}
+            basemap={activeBasemap}
+            northArrow={(NORTH_ARROW_SVGS.find(icon => icon.name === northArrowIcon) || NORTH_ARROW_SVGS[0]).svg}
+        />
+
         <div className="absolute bottom-4 right-4 z-[1000]">
             <MapControls 
                 map={map}
+                layers={layers}
+                queryFilter={queryFilter}
+                timeFilter={timeFilter}
                 measureMode={measureMode} 
                 setMeasureMode={setMeasureMode}
                 distanceUnit={distanceUnit}
@@ -1019,7 +1306,10 @@ const MapWrapper: React.FC<MapWrapperProps> = ({ center, zoom, layers, boundsToF
                 areaUnit={areaUnit}
                 setAreaUnit={setAreaUnit}
                 setIsZooming={setIsZooming}
-                setIsSelecting={setIsSelecting}
+                setSelectMode={setSelectMode}
+                initialMeasurements={initialSession?.measurements}
+                onMeasurementsChange={setMeasurements}
+                onCreateLayer={onCreateLayer}
             />
         </div>
     </div>
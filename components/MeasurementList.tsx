@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import type { Feature } from 'geojson';
+import { formatBearing, getMeasurementKind, getMeasurementPositions, summarizeMeasurement } from '../services/measurementService';
+
+interface MeasurementListProps {
+    measurements: Feature[];
+    formatDistance: (meters: number) => string;
+    formatArea: (sqMeters: number) => string;
+    // The measurement whose segments are listed and labelled on the map
+    selectedId: string | null;
+    onSelect: (id: string | null) => void;
+    // The measurement whose vertices can be dragged
+    editingId: string | null;
+    onEdit: (id: string | null) => void;
+    onRename: (id: string, name: string) => void;
+    onZoom: (id: string) => void;
+    onDelete: (id: string) => void;
+    onConvertToLayer: () => void;
+}
+
+const MeasurementList: React.FC<MeasurementListProps> = ({ measurements, formatDistance, formatArea, selectedId, onSelect, editingId, onEdit, onRename, onZoom, onDelete, onConvertToLayer }) => {
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const commitRename = () => {
+        if (renamingId && draftName.trim()) onRename(renamingId, draftName.trim());
+        setRenamingId(null);
+    };
+
+    return (
+        <div className="w-80 rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-slate-200">
+            <div className="flex items-center justify-between px-3 pt-2.5 pb-1.5">
+                <h3 className="text-sm font-bold text-slate-800">Saved measurements</h3>
+                <button
+                    onClick={onConvertToLayer}
+                    title="Add all measurements to the map as a new layer"
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold text-primary hover:bg-primary/10 transition-colors"
+                >
+                    <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>add_circle</span>
+                    Convert to layer
+                </button>
+            </div>
+            <ul className="max-h-72 overflow-y-auto px-1.5 pb-1.5">
+                {measurements.map(measurement => {
+                    const id: string = measurement.properties?.id;
+                    const kind = getMeasurementKind(measurement);
+                    const summary = summarizeMeasurement(kind, getMeasurementPositions(measurement));
+                    const isSelected = id === selectedId;
+                    const isEditing = id === editingId;
+                    return (
+                        <li key={id} className={`group rounded-lg ${isSelected ? 'bg-sky-50' : 'hover:bg-slate-100'}`}>
+                            <div className="flex items-center gap-2 px-1.5 py-1.5">
+                                <button
+                                    onClick={() => onSelect(isSelected ? null : id)}
+                                    title={isSelected ? 'Hide segments' : 'Show segment lengths and bearings'}
+                                    className="p-0.5 rounded text-slate-500 hover:bg-slate-200"
+                                >
+                                    <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>{isSelected ? 'expand_less' : 'expand_more'}</span>
+                                </button>
+                                <span className="material-symbols-outlined text-slate-400" style={{ fontSize: '18px' }}>{kind === 'area' ? 'square_foot' : 'straighten'}</span>
+                                <div className="flex-1 min-w-0">
+                                    {renamingId === id ? (
+                                        <input
+                                            autoFocus
+                                            value={draftName}
+                                            onChange={(e) => setDraftName(e.target.value)}
+                                            onBlur={commitRename}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') commitRename();
+                                                if (e.key === 'Escape') setRenamingId(null);
+                                            }}
+                                            className="form-input w-full rounded border-slate-300 py-0 px-1 text-sm text-slate-800 focus:border-primary focus:ring-primary/20"
+                                        />
+                                    ) : (
+                                        <p
+                                            onDoubleClick={() => { setRenamingId(id); setDraftName(measurement.properties?.name || ''); }}
+                                            title="Double-click to rename"
+                                            className="text-sm text-slate-700 truncate"
+                                        >
+                                            {measurement.properties?.name}
+                                        </p>
+                                    )}
+                                    <p className="text-xs text-slate-500 truncate">
+                                        {kind === 'area'
+                                            ? `${formatArea(summary.area || 0)} · perimeter ${formatDistance(summary.length)}`
+                                            : formatDistance(summary.length)}
+                                    </p>
+                                </div>
+                                <div className="flex items-center">
+                                    <button
+                                        onClick={() => onEdit(isEditing ? null : id)}
+                                        title={isEditing ? 'Stop editing vertices' : 'Drag vertices to adjust'}
+                                        className={`p-1 rounded-md transition-colors ${isEditing ? 'bg-cyan-100 text-cyan-700' : 'text-slate-500 hover:bg-slate-200 hover:text-slate-800'}`}
+                                    >
+                                        <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>edit</span>
+                                    </button>
+                                    <button onClick={() => onZoom(id)} title="Zoom to measurement" className="p-1 rounded-md text-slate-500 hover:bg-slate-200 hover:text-slate-800 transition-colors">
+                                        <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>zoom_in_map</span>
+                                    </button>
+                                    <button onClick={() => onDelete(id)} title="Delete measurement" className="p-1 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 hover:bg-red-500/10 hover:text-red-500 transition-all">
+                                        <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>delete</span>
+                                    </button>
+                                </div>
+                            </div>
+                            {isSelected && (
+                                <table className="w-full mb-1.5 text-xs text-slate-600">
+                                    <thead>
+                                        <tr className="text-slate-400">
+                                            <th className="pl-9 pr-1 py-0.5 text-left font-medium">Segment</th>
+                                            <th className="px-1 py-0.5 text-right font-medium">Length</th>
+                                            <th className="pl-1 pr-3 py-0.5 text-right font-medium">Bearing</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {summary.segments.map((segment, index) => (
+                                            <tr key={index}>
+                                                <td className="pl-9 pr-1 py-0.5">{index + 1} → {(index + 1) % (kind === 'area' ? summary.segments.length : summary.segments.length + 1) + 1}</td>
+                                                <td className="px-1 py-0.5 text-right font-mono">{formatDistance(segment.length)}</td>
+                                                <td className="pl-1 pr-3 py-0.5 text-right font-mono">{formatBearing(segment.bearing)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default MeasurementList;
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import type { GeoJsonLayer } from '../types';
+import { OVERLAY_OPERATIONS, OverlayOperation, OverlayResult, runOverlay } from '../services/overlayService';
+import type { SpatialPredicate } from '../services/spatialSelectionService';
+
+interface OverlayAnalysisPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    layers: GeoJsonLayer[];
+    onCreateLayer: (result: OverlayResult) => void;
+}
+
+// Join predicates read from the input layer's side: "keep plots that lie within a building"
+const JOIN_PREDICATE_LABELS: Record<SpatialPredicate, string> = { intersects: 'Intersect', within: 'Lie within', contains: 'Contain' };
+
+const selectClasses = "form-select mt-1 w-full rounded-md border-slate-300 bg-white py-1.5 pl-2 pr-8 text-sm text-slate-800 focus:border-primary focus:ring-primary/20";
+
+const OverlayAnalysisPanel: React.FC<OverlayAnalysisPanelProps> = ({ isOpen, onClose, layers, onCreateLayer }) => {
+    const layersWithData = layers.filter(l => l.data.features.length > 0);
+    const [operation, setOperation] = useState<OverlayOperation>('intersect');
+    const [inputId, setInputId] = useState('');
+    const [overlayId, setOverlayId] = useState('');
+    const [distance, setDistance] = useState(20);
+    const [predicate, setPredicate] = useState<SpatialPredicate>('intersects');
+    const [keepUnmatched, setKeepUnmatched] = useState(false);
+    const [isRunning, setIsRunning] = useState(false);
+    const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setStatus(null);
+        if (!layersWithData.some(l => l.id === inputId)) setInputId(layersWithData[0]?.id || '');
+        if (!layersWithData.some(l => l.id === overlayId)) setOverlayId(layersWithData[1]?.id || layersWithData[0]?.id || '');
+    }, [isOpen, layers]);
+
+    if (!isOpen) return null;
+
+    const spec = OVERLAY_OPERATIONS.find(o => o.key === operation)!;
+    const input = layersWithData.find(l => l.id === inputId);
+    const overlay = layersWithData.find(l => l.id === overlayId);
+
+    const handleRun = () => {
+        if (!input) return;
+        setIsRunning(true);
+        setStatus(null);
+        // Let the spinner paint before the (synchronous) geometry work starts
+        setTimeout(() => {
+            try {
+                const result = runOverlay({
+                    operation,
+                    input,
+                    overlay: spec.needsOverlay ? overlay : undefined,
+                    distance,
+                    predicate,
+                    keepUnmatched,
+                });
+                onCreateLayer(result);
+                setStatus({ text: `Added "${result.name}": ${result.summary}.`, isError: false });
+            } catch (error) {
+                setStatus({ text: error instanceof Error ? error.message : String(error), isError: true });
+            } finally {
+                setIsRunning(false);
+            }
+        }, 20);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[2999] flex items-center justify-center bg-black/10 backdrop-blur-sm" onClick={onClose}>
+            <div className="w-[28rem] max-w-[calc(100vw-2rem)] rounded-2xl bg-white shadow-2xl ring-1 ring-black/5" onClick={(e) => e.stopPropagation()}>
+                <header className="flex items-center justify-between px-5 pt-4 pb-2">
+                    <div className="flex items-center gap-2.5">
+                        <div className="size-8 rounded-full bg-primary/10 flex items-center justify-center">
+                            <span className="material-symbols-outlined text-primary text-xl">join</span>
+                        </div>
+                        <h2 className="text-base font-bold text-slate-800">Overlay Analysis</h2>
+                    </div>
+                    <button onClick={onClose} className="size-7 flex items-center justify-center rounded-full text-slate-500 hover:bg-red-500/10 hover:text-red-500 transition-colors">
+                        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>close</span>
+                    </button>
+                </header>
+
+                <div className="px-5 pb-5 space-y-4">
+                    <div className="grid grid-cols-5 gap-1 p-1 bg-slate-100 rounded-lg">
+                        {OVERLAY_OPERATIONS.map(op => (
+                            <button
+                                key={op.key}
+                                onClick={() => { setOperation(op.key); setStatus(null); }}
+                                title={op.description}
+                                className={`flex flex-col items-center gap-0.5 rounded-lg py-2 text-xs font-semibold transition-all ${operation === op.key ? 'bg-white shadow-sm text-primary ring-1 ring-primary/30' : 'text-slate-600 hover:bg-slate-200'}`}
+                            >
+                                <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>{op.icon}</span>
+                                {op.label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-slate-500">{spec.description}</p>
+
+                    <div className={`grid gap-3 ${spec.needsOverlay ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                        <label className="block text-xs font-medium text-slate-600">
+                            Input layer
+                            <select value={inputId} onChange={(e) => setInputId(e.target.value)} className={selectClasses}>
+                                {layersWithData.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                            </select>
+                        </label>
+                        {spec.needsOverlay && (
+                            <label className="block text-xs font-medium text-slate-600">
+                                Overlay layer
+                                <select value={overlayId} onChange={(e) => setOverlayId(e.target.value)} className={selectClasses}>
+                                    {layersWithData.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                                </select>
+                            </label>
+                        )}
+                    </div>
+
+                    {operation === 'spatial_join' && (
+                        <div>
+                            <p className="text-xs font-medium text-slate-600 mb-1">Keep input features that</p>
+                            <div className="grid grid-cols-3 gap-1 p-0.5 bg-slate-200/70 rounded-md">
+                                {(Object.keys(JOIN_PREDICATE_LABELS) as SpatialPredicate[]).map(key => (
+                                    <button
+                                        key={key}
+                                        onClick={() => setPredicate(key)}
+                                        className={`px-1 py-1 rounded text-xs font-semibold transition-all ${predicate === key ? 'bg-white shadow-sm text-primary' : 'text-slate-600 hover:bg-white/60'}`}
+                                    >
+                                        {JOIN_PREDICATE_LABELS[key]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {(operation === 'buffer' || operation === 'spatial_join') && (
+                        <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+                            {operation === 'buffer' ? 'Buffer distance' : 'Search distance'}
+                            <input
+                                type="number"
+                                min={0}
+                                value={distance}
+                                onChange={(e) => setDistance(Number(e.target.value))}
+                                className="form-input w-24 rounded-md border-slate-300 bg-white py-1 px-2 text-sm text-slate-800 focus:border-primary focus:ring-primary/20"
+                            />
+                            m
+                        </label>
+                    )}
+
+                    {operation === 'spatial_join' && (
+                        <label className="flex items-center gap-2 text-xs text-slate-600">
+                            <input type="checkbox" className="form-checkbox rounded text-primary focus:ring-primary/20" checked={keepUnmatched} onChange={(e) => setKeepUnmatched(e.target.checked)} />
+                            Keep input features without a match
+                        </label>
+                    )}
+
+                    {status && (
+                        <p className={`text-xs rounded-lg p-2 ${status.isError ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-800'}`}>{status.text}</p>
+                    )}
+
+                    <div className="flex justify-end gap-2 border-t border-slate-200 pt-4">
+                        <button onClick={onClose} className="px-3 py-1.5 rounded-md text-sm text-slate-600 hover:bg-slate-100 transition-colors">Close</button>
+                        <button
+                            onClick={handleRun}
+                            disabled={isRunning || !input || (spec.needsOverlay && !overlay)}
+                            className="flex items-center gap-1.5 px-4 py-1.5 rounded-md text-sm font-semibold bg-primary text-white hover:bg-primary/90 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {isRunning && <span className="material-symbols-outlined animate-spin" style={{ fontSize: '16px' }}>progress_activity</span>}
+                            Run
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default OverlayAnalysisPanel;
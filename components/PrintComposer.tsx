@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type L from 'leaflet';
+import type { Feature } from 'geojson';
+import type { AttributeFilter, BasemapDefinition, GeoJsonLayer, TimeFilter } from '../types';
+import {
+    exportPrintLayout, PAPER_SIZES, PaperOrientation, PaperSize, PrintContent, PrintFormat, PrintLayout, PRINT_DPIS, renderPrintLayout,
+} from '../services/printService';
+
+interface PrintComposerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    map: L.Map | null;
+    layers: GeoJsonLayer[];
+    selectedAssets: { layer: GeoJsonLayer; feature: Feature }[];
+    queryFilter: AttributeFilter | null;
+    timeFilter: TimeFilter | null;
+    basemap: BasemapDefinition;
+    northArrow: React.ReactNode;
+}
+
+// Low enough that the preview redraws quickly while the settings change
+const PREVIEW_DPI = 40;
+
+const selectClasses = "form-select mt-1 w-full rounded-md border-slate-300 bg-white py-1.5 pl-2 pr-8 text-sm text-slate-800 focus:border-primary focus:ring-primary/20";
+
+// The north arrow icons are JSX; the page needs them as standalone SVG markup
+const serializeNorthArrow = (container: HTMLElement | null): string => {
+    const svg = container?.querySelector('svg')?.cloneNode(true) as SVGElement | undefined;
+    if (!svg) return '<svg xmlns="http://www.w3.org/2000/svg"/>';
+    svg.removeAttribute('class');
+    svg.setAttribute('width', '128');
+    svg.setAttribute('height', '128');
+    return new XMLSerializer().serializeToString(svg).replace(/currentColor/g, '#1e293b');
+};
+
+const PrintComposer: React.FC<PrintComposerProps> = ({ isOpen, onClose, map, layers, selectedAssets, queryFilter, timeFilter, basemap, northArrow }) => {
+    const [title, setTitle] = useState('Asset Map');
+    const [paper, setPaper] = useState<PaperSize>('A4');
+    const [orientation, setOrientation] = useState<PaperOrientation>('landscape');
+    const [dpi, setDpi] = useState(150);
+    const [includeTable, setIncludeTable] = useState(false);
+    const [format, setFormat] = useState<PrintFormat>('pdf');
+    const [bounds, setBounds] = useState<PrintContent['bounds'] | null>(null);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+    const arrowRef = useRef<HTMLDivElement>(null);
+    const previewRequest = useRef(0);
+
+    // The page shows the extent that was on screen when the composer opened
+    useEffect(() => {
+        if (!isOpen || !map) return;
+        const extent = map.getBounds();
+        setBounds([[extent.getSouth(), extent.getWest()], [extent.getNorth(), extent.getEast()]]);
+        setIncludeTable(selectedAssets.length > 0);
+        setStatus(null);
+    }, [isOpen, map]);
+
+    const buildContent = (): PrintContent | null => bounds && {
+        bounds,
+        basemap,
+        layers,
+        selectedAssets,
+        queryFilter,
+        timeFilter,
+        northArrowSvg: serializeNorthArrow(arrowRef.current),
+    };
+
+    const layout: PrintLayout = { title, paper, orientation, dpi, includeTable };
+
+    useEffect(() => {
+        if (!isOpen || !bounds) return;
+        const request = ++previewRequest.current;
+        setIsPreviewing(true);
+        const timer = setTimeout(async () => {
+            const content = buildContent();
+            if (!content) return;
+            try {
+                const { canvas } = await renderPrintLayout({ ...layout, dpi: PREVIEW_DPI }, content);
+                if (request === previewRequest.current) setPreviewUrl(canvas.toDataURL('image/png'));
+            } catch (error) {
+                if (request === previewRequest.current) setStatus({ text: error instanceof Error ? error.message : String(error), isError: true });
+            } finally {
+                if (request === previewRequest.current) setIsPreviewing(false);
+            }
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [isOpen, bounds, title, paper, orientation, includeTable, layers, selectedAssets, queryFilter, timeFilter, basemap.url, northArrow]);
+
+    if (!isOpen) return null;
+
+    const handleExport = async () => {
+        const content = buildContent();
+        if (!content) return;
+        setIsExporting(true);
+        setStatus(null);
+        try {
+            const { missingTiles } = await exportPrintLayout(layout, content, format);
+            setStatus(missingTiles > 0
+                ? { text: `Exported, but ${missingTiles} basemap tile${missingTiles !== 1 ? 's' : ''} could not be loaded and ${missingTiles !== 1 ? 'are' : 'is'} left blank.`, isError: true }
+                : { text: `Exported ${PAPER_SIZES[paper].label} ${format.toUpperCase()} at ${dpi} DPI.`, isError: false });
+        } catch (error) {
+            setStatus({ text: error instanceof Error ? error.message : String(error), isError: true });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const toggleClasses = (isActive: boolean) => `px-2 py-1 rounded text-xs font-semibold transition-all ${isActive ? 'bg-white shadow-sm text-primary' : 'text-slate-600 hover:bg-white/60'}`;
+
+    return createPortal(
+        <div className="fixed inset-0 z-[2999] flex items-center justify-center bg-black/10 backdrop-blur-sm" onClick={onClose}>
+            <div className="flex flex-col w-[56rem] max-w-[calc(100vw-2rem)] max-h-[calc(100vh-2rem)] rounded-2xl bg-white shadow-2xl ring-1 ring-black/5" onClick={(e) => e.stopPropagation()}>
+                <header className="flex items-center justify-between px-5 pt-4 pb-2">
+                    <div className="flex items-center gap-2.5">
+                        <div className="size-8 rounded-full bg-primary/10 flex items-center justify-center">
+                            <span className="material-symbols-outlined text-primary text-xl">print</span>
+                        </div>
+                        <h2 className="text-base font-bold text-slate-800">Print Map</h2>
+                    </div>
+                    <button onClick={onClose} className="size-7 flex items-center justify-center rounded-full text-slate-500 hover:bg-red-500/10 hover:text-red-500 transition-colors">
+                        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>close</span>
+                    </button>
+                </header>
+
+                <div className="flex flex-1 min-h-0 gap-5 px-5 pb-5">
+                    <div className="w-64 shrink-0 space-y-4 overflow-y-auto">
+                        <label className="block text-xs font-medium text-slate-600">
+                            Title
+                            <input
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                                className="form-input mt-1 w-full rounded-md border-slate-300 bg-white py-1.5 px-2 text-sm text-slate-800 focus:border-primary focus:ring-primary/20"
+                            />
+                        </label>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="block text-xs font-medium text-slate-600">
+                                Paper
+                                <select value={paper} onChange={(e) => setPaper(e.target.value as PaperSize)} className={selectClasses}>
+                                    {(Object.keys(PAPER_SIZES) as PaperSize[]).map(key => <option key={key} value={key}>{PAPER_SIZES[key].label}</option>)}
+                                </select>
+                            </label>
+                            <label className="block text-xs font-medium text-slate-600">
+                                Resolution
+                                <select value={dpi} onChange={(e) => setDpi(Number(e.target.value))} className={selectClasses}>
+                                    {PRINT_DPIS.map(value => <option key={value} value={value}>{value} DPI</option>)}
+                                </select>
+                            </label>
+                        </div>
+
+                        <div>
+                            <p className="text-xs font-medium text-slate-600 mb-1">Orientation</p>
+                            <div className="grid grid-cols-2 gap-1 p-0.5 bg-slate-200/70 rounded-md">
+                                <button onClick={() => setOrientation('portrait')} className={toggleClasses(orientation === 'portrait')}>Portrait</button>
+                                <button onClick={() => setOrientation('landscape')} className={toggleClasses(orientation === 'landscape')}>Landscape</button>
+                            </div>
+                        </div>
+
+                        <label className={`flex items-center gap-2 text-xs ${selectedAssets.length > 0 ? 'text-slate-600' : 'text-slate-400'}`}>
+                            <input
+                                type="checkbox"
+                                className="form-checkbox rounded text-primary focus:ring-primary/20"
+                                checked={includeTable}
+                                disabled={selectedAssets.length === 0}
+                                onChange={(e) => setIncludeTable(e.target.checked)}
+                            />
+                            Attribute table of {selectedAssets.length} selected asset{selectedAssets.length !== 1 ? 's' : ''}
+                        </label>
+
+                        <div>
+                            <p className="text-xs font-medium text-slate-600 mb-1">Format</p>
+                            <div className="grid grid-cols-2 gap-1 p-0.5 bg-slate-200/70 rounded-md">
+                                <button onClick={() => setFormat('pdf')} className={toggleClasses(format === 'pdf')}>PDF</button>
+                                <button onClick={() => setFormat('png')} className={toggleClasses(format === 'png')}>PNG</button>
+                            </div>
+                        </div>
+
+                        <p className="text-xs text-slate-500">The page shows the map extent from when this dialog was opened. Basemap tiles are downloaded again at print resolution.</p>
+
+                        {status && (
+                            <p className={`text-xs rounded-lg p-2 ${status.isError ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-800'}`}>{status.text}</p>
+                        )}
+
+                        <div className="flex justify-end gap-2 border-t border-slate-200 pt-4">
+                            <button onClick={onClose} className="px-3 py-1.5 rounded-md text-sm text-slate-600 hover:bg-slate-100 transition-colors">Close</button>
+                            <button
+                                onClick={handleExport}
+                                disabled={isExporting || !bounds}
+                                className="flex items-center gap-1.5 px-4 py-1.5 rounded-md text-sm font-semibold bg-primary text-white hover:bg-primary/90 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                            >
+                                {isExporting && <span className="material-symbols-outlined animate-spin" style={{ fontSize: '16px' }}>progress_activity</span>}
+                                Export
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="relative flex flex-1 min-w-0 min-h-[24rem] items-center justify-center rounded-xl bg-slate-100 p-4">
+                        {previewUrl && (
+                            <img src={previewUrl} alt="Print preview" className="max-w-full max-h-[calc(100vh-10rem)] object-contain bg-white shadow-lg ring-1 ring-slate-900/10" />
+                        )}
+                        {isPreviewing && (
+                            <span className="absolute top-3 right-3 material-symbols-outlined animate-spin text-slate-400" style={{ fontSize: '20px' }}>progress_activity</span>
+                        )}
+                    </div>
+                </div>
+                <div ref={arrowRef} className="hidden">{northArrow}</div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default PrintComposer;
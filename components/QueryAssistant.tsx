@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { AttributeFilter, GeoJsonLayer } from '../types';
+import { getDefaultQueryProvider, QueryTranslation, translateQuestion } from '../services/geminiService';
+import { describeFilter } from '../services/filterService';
+
+interface QueryAssistantProps {
+    layers: GeoJsonLayer[];
+    onApplyFilter: (filter: AttributeFilter) => number;
+}
+
+interface ChatMessage {
+    id: number;
+    role: 'user' | 'assistant';
+    text: string;
+    translation?: QueryTranslation;
+    matchCount?: number;
+    isError?: boolean;
+}
+
+const EXAMPLE_QUESTIONS = [
+    'Which RCC buildings without fire safety were built after 2015?',
+    'Office buildings with water supply',
+];
+
+const QueryAssistant: React.FC<QueryAssistantProps> = ({ layers, onApplyFilter }) => {
+    const provider = useMemo(() => getDefaultQueryProvider(), []);
+    const [isOpen, setIsOpen] = useState(false);
+    const [question, setQuestion] = useState('');
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [isThinking, setIsThinking] = useState(false);
+    const nextId = useRef(0);
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+    }, [messages, isThinking]);
+
+    const addMessage = (message: Omit<ChatMessage, 'id'>) =>
+        setMessages(prev => [...prev, { ...message, id: nextId.current++ }]);
+
+    const applyTranslation = (translation: QueryTranslation) => onApplyFilter(translation.filter);
+
+    const ask = async (text: string) => {
+        const trimmed = text.trim();
+        if (!trimmed || isThinking) return;
+        setQuestion('');
+        addMessage({ role: 'user', text: trimmed });
+        setIsThinking(true);
+        try {
+            const translation = await translateQuestion(provider, trimmed, layers);
+            const matchCount = applyTranslation(translation);
+            addMessage({ role: 'assistant', text: translation.explanation, translation, matchCount });
+        } catch (error) {
+            addMessage({ role: 'assistant', text: (error as Error).message || 'Something went wrong translating that question.', isError: true });
+        } finally {
+            setIsThinking(false);
+        }
+    };
+
+    if (!isOpen) {
+        return (
+            <button
+                onClick={() => setIsOpen(true)}
+                title="Ask a question about your assets"
+                className="flex items-center gap-2 h-10 px-4 rounded-xl bg-white/90 backdrop-blur-lg shadow-md shadow-black/5 ring-2 ring-slate-900/10 text-sm font-semibold text-slate-700 hover:bg-indigo-50/90 hover:ring-indigo-500/50 transition-all"
+            >
+                <span className="material-symbols-outlined text-indigo-500" style={{ fontSize: '20px' }}>auto_awesome</span>
+                Ask the map
+            </button>
+        );
+    }
+
+    return (
+        <div className="w-96 max-h-[60vh] flex flex-col rounded-xl bg-white/95 backdrop-blur-md shadow-xl border border-slate-200 overflow-hidden">
+            <header className="flex items-center justify-between px-4 py-3 border-b border-slate-200 shrink-0">
+                <div>
+                    <h3 className="text-sm font-bold text-transparent bg-clip-text bg-gradient-to-r from-indigo-500 to-purple-500">Query Assistant</h3>
+                    <p className="text-xs text-slate-500">{provider.name}</p>
+                </div>
+                <div className="flex items-center">
+                    {messages.length > 0 && (
+                        <button onClick={() => setMessages([])} title="Clear conversation" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 hover:text-slate-800 transition-colors">
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>delete_sweep</span>
+                        </button>
+                    )}
+                    <button onClick={() => setIsOpen(false)} title="Minimize" className="p-1 rounded-md text-slate-500 hover:bg-slate-100 hover:text-slate-800 transition-colors">
+                        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>remove</span>
+                    </button>
+                </div>
+            </header>
+
+            <div ref={scrollRef} className="flex-1 overflow-y-auto p-3 space-y-3 min-h-[8rem]">
+                {messages.length === 0 && (
+                    <div className="space-y-2">
+                        <p className="text-xs text-slate-500">Ask about asset attributes in plain language. Try:</p>
+                        {EXAMPLE_QUESTIONS.map(example => (
+                            <button
+                                key={example}
+                                onClick={() => ask(example)}
+                                className="block w-full text-left rounded-lg bg-slate-100 px-3 py-2 text-xs text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 transition-colors"
+                            >
+                                {example}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {messages.map(message => (
+                    <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${message.role === 'user' ? 'bg-indigo-500 text-white' : message.isError ? 'bg-red-50 text-red-700' : 'bg-slate-100 text-slate-800'}`}>
+                            <p>{message.text}</p>
+                            {message.translation && (
+                                <div className="mt-2 space-y-1.5">
+                                    <p className="text-xs text-slate-500">
+                                        Layer: <span className="font-semibold text-slate-700">{layers.find(l => l.id === message.translation!.filter.layerId)?.name}</span>
+                                    </p>
+                                    <code className="block rounded bg-white border border-slate-200 px-2 py-1 text-xs text-slate-700 break-words">
+                                        {describeFilter(message.translation.filter)}
+                                    </code>
+                                    <div className="flex items-center justify-between text-xs">
+                                        <span className="text-slate-500">{message.matchCount} match{message.matchCount !== 1 ? 'es' : ''}</span>
+                                        <button
+                                            onClick={() => applyTranslation(message.translation!)}
+                                            className="font-semibold text-indigo-600 hover:text-indigo-800"
+                                        >
+                                            Re-apply
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                {isThinking && (
+                    <div className="flex items-center gap-2 text-xs text-slate-500">
+                        <span className="material-symbols-outlined animate-spin" style={{ fontSize: '16px' }}>progress_activity</span>
+                        Translating question…
+                    </div>
+                )}
+            </div>
+
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    ask(question);
+                }}
+                className="flex items-center gap-2 p-3 border-t border-slate-200 shrink-0"
+            >
+                <input
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    placeholder="e.g. buildings built after 2015"
+                    className="form-input flex-1 rounded-lg border-slate-200 bg-slate-100 px-3 py-2 text-sm text-slate-800 placeholder:text-slate-500 focus:border-indigo-500 focus:ring-indigo-500/20"
+                />
+                <button
+                    type="submit"
+                    disabled={!question.trim() || isThinking}
+                    className="flex size-9 items-center justify-center rounded-lg bg-indigo-500 text-white hover:bg-indigo-600 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                    aria-label="Send question"
+                >
+                    <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>send</span>
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default QueryAssistant;
@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AttributeFilter, FilterClause, FilterOperator, GeoJsonLayer, SavedQuery } from '../types';
+import { FieldType, inferFieldType } from '../utils';
+import { applyFilter, FILTER_OPERATORS, validateFilter } from '../services/filterService';
+
+interface QueryBuilderProps {
+    layer: GeoJsonLayer;
+    activeFilter: AttributeFilter | null;
+    savedQueries: SavedQuery[];
+    onApply: (filter: AttributeFilter | null) => void;
+    onSelectMatches: (filter: AttributeFilter) => void;
+    onSaveQuery: (name: string, filter: AttributeFilter) => void;
+    onDeleteQuery: (id: string) => void;
+}
+
+// Ordering and comparison operators only make sense for numbers
+const TEXT_OPERATORS: FilterOperator[] = ['=', '!=', 'contains', 'starts_with', 'is_empty', 'in_list'];
+const BOOLEAN_OPERATORS: FilterOperator[] = ['=', '!=', 'is_empty'];
+
+const getOperatorsForType = (type: FieldType) => FILTER_OPERATORS.filter(o =>
+    type === 'number' ? true : type === 'boolean' ? BOOLEAN_OPERATORS.includes(o.key) : TEXT_OPERATORS.includes(o.key)
+);
+
+const selectClasses = "form-select w-full rounded-md border-slate-300 bg-white py-1 pl-2 pr-7 text-xs text-slate-800 focus:border-primary focus:ring-primary/20";
+const inputClasses = "form-input w-full rounded-md border-slate-300 bg-white py-1 px-2 text-xs text-slate-800 focus:border-primary focus:ring-primary/20";
+
+const QueryBuilder: React.FC<QueryBuilderProps> = ({ layer, activeFilter, savedQueries, onApply, onSelectMatches, onSaveQuery, onDeleteQuery }) => {
+    const fields = useMemo(() => {
+        const names = Array.from(new Set<string>(layer.data.features.flatMap(f => Object.keys(f.properties || {})))).sort();
+        return names.map(name => {
+            const values = layer.data.features.map(f => f.properties?.[name]);
+            const distinct = Array.from(new Set<string>(values.filter(v => v !== null && v !== undefined && String(v).trim() !== '').map(v => String(v).trim())));
+            return { name, type: inferFieldType(values), distinct: distinct.sort().slice(0, 100) };
+        });
+    }, [layer.data]);
+
+    const emptyClause = (): FilterClause => ({ field: fields[0]?.name || '', operator: '=', value: '' });
+    const emptyDraft = (): AttributeFilter => ({ layerId: layer.id, combinator: 'and', clauses: [emptyClause()] });
+
+    const [draft, setDraft] = useState<AttributeFilter>(() => activeFilter?.layerId === layer.id ? activeFilter : emptyDraft());
+    const [queryName, setQueryName] = useState('');
+
+    useEffect(() => {
+        setDraft(activeFilter?.layerId === layer.id ? activeFilter : emptyDraft());
+    }, [layer.id, activeFilter]);
+
+    const problems = useMemo(() => validateFilter(draft, [layer]), [draft, layer]);
+    const matchCount = useMemo(() => problems.length === 0 ? applyFilter(layer, draft).length : null, [draft, layer, problems]);
+    const layerQueries = savedQueries.filter(q => q.filter.layerId === layer.id);
+
+    const updateClause = (index: number, changes: Partial<FilterClause>) => {
+        setDraft(prev => ({ ...prev, clauses: prev.clauses.map((c, i) => i === index ? { ...c, ...changes } : c) }));
+    };
+
+    const changeField = (index: number, fieldName: string) => {
+        const type = fields.find(f => f.name === fieldName)?.type || 'text';
+        const operator = draft.clauses[index].operator;
+        const allowed = getOperatorsForType(type).map(o => o.key);
+        updateClause(index, { field: fieldName, operator: allowed.includes(operator) ? operator : '=', value: '', valueTo: undefined, values: undefined });
+    };
+
+    const handleSave = () => {
+        if (!queryName.trim() || problems.length > 0) return;
+        onSaveQuery(queryName.trim(), draft);
+        setQueryName('');
+    };
+
+    return (
+        <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3">
+            <div className="flex items-center justify-between">
+                <p className="text-xs font-medium text-slate-600">Match</p>
+                <div className="grid grid-cols-2 gap-1 p-0.5 bg-slate-200/70 rounded-md">
+                    {(['and', 'or'] as const).map(combinator => (
+                        <button
+                            key={combinator}
+                            onClick={() => setDraft(prev => ({ ...prev, combinator }))}
+                            className={`px-2 py-0.5 rounded text-xs font-semibold transition-all ${draft.combinator === combinator ? 'bg-white shadow-sm text-primary' : 'text-slate-600 hover:bg-white/60'}`}
+                        >
+                            {combinator === 'and' ? 'All (AND)' : 'Any (OR)'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <ul className="space-y-2">
+                {draft.clauses.map((clause, index) => {
+                    const field = fields.find(f => f.name === clause.field);
+                    const operator = FILTER_OPERATORS.find(o => o.key === clause.operator);
+                    const listId = `query-values-${layer.id}-${index}`;
+                    return (
+                        <li key={index} className="rounded-md bg-white border border-slate-200 p-2 space-y-1.5">
+                            <div className="flex items-center gap-1.5">
+                                <select className={selectClasses} value={clause.field} onChange={(e) => changeField(index, e.target.value)}>
+                                    {fields.map(f => <option key={f.name} value={f.name}>{f.name}{f.type === 'number' ? ' (#)' : ''}</option>)}
+                                </select>
+                                <button
+                                    onClick={() => setDraft(prev => ({ ...prev, clauses: prev.clauses.filter((_, i) => i !== index) }))}
+                                    title="Remove condition"
+                                    className="p-0.5 rounded-md text-slate-400 hover:bg-red-100 hover:text-red-600 transition-colors"
+                                >
+                                    <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>close</span>
+                                </button>
+                            </div>
+                            <select className={selectClasses} value={clause.operator} onChange={(e) => updateClause(index, { operator: e.target.value as FilterOperator })}>
+                                {getOperatorsForType(field?.type || 'text').map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+                            </select>
+                            <datalist id={listId}>
+                                {field?.distinct.map(v => <option key={v} value={v} />)}
+                            </datalist>
+                            {operator?.input === 'single' && (
+                                <input
+                                    className={inputClasses}
+                                    type={field?.type === 'number' ? 'number' : 'text'}
+                                    list={listId}
+                                    value={clause.value ?? ''}
+                                    onChange={(e) => updateClause(index, { value: e.target.value })}
+                                    placeholder="Value"
+                                />
+                            )}
+                            {operator?.input === 'range' && (
+                                <div className="flex items-center gap-1.5 text-xs text-slate-500">
+                                    <input className={inputClasses} type={field?.type === 'number' ? 'number' : 'text'} list={listId} value={clause.value ?? ''} onChange={(e) => updateClause(index, { value: e.target.value })} placeholder="From" />
+                                    and
+                                    <input className={inputClasses} type={field?.type === 'number' ? 'number' : 'text'} list={listId} value={clause.valueTo ?? ''} onChange={(e) => updateClause(index, { valueTo: e.target.value })} placeholder="To" />
+                                </div>
+                            )}
+                            {operator?.input === 'list' && (
+                                <input
+                                    className={inputClasses}
+                                    value={(clause.values || []).join(', ')}
+                                    onChange={(e) => updateClause(index, { values: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                                    placeholder="Comma-separated values"
+                                />
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <button
+                onClick={() => setDraft(prev => ({ ...prev, clauses: [...prev.clauses, emptyClause()] }))}
+                disabled={fields.length === 0}
+                className="flex items-center gap-1 text-xs font-semibold text-primary hover:text-primary/80 disabled:text-slate-400"
+            >
+                <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>add</span>
+                Add condition
+            </button>
+
+            {problems.length > 0 && draft.clauses.length > 0 && (
+                <p className="text-xs text-amber-700">{problems[0]}</p>
+            )}
+
+            <div className="flex items-center justify-between gap-2 border-t border-slate-200 pt-3">
+                <span className="text-xs text-slate-500 tabular-nums">
+                    {matchCount !== null ? `${matchCount} of ${layer.data.features.length} match` : ''}
+                </span>
+                <div className="flex items-center gap-1.5">
+                    <button onClick={() => onApply(null)} className="px-2 py-1 rounded-md text-xs text-slate-600 hover:bg-slate-200 transition-colors">Clear</button>
+                    <button
+                        onClick={() => onSelectMatches(draft)}
+                        disabled={problems.length > 0}
+                        title="Select matching features on the map"
+                        className="px-2 py-1 rounded-md text-xs font-semibold text-slate-700 bg-white border border-slate-200 hover:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Select
+                    </button>
+                    <button
+                        onClick={() => onApply(draft)}
+                        disabled={problems.length > 0}
+                        className="px-3 py-1 rounded-md text-xs font-semibold bg-primary text-white hover:bg-primary/90 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+
+            <div className="space-y-2 border-t border-slate-200 pt-3">
+                <p className="text-xs font-medium text-slate-600">Saved queries</p>
+                <div className="flex items-center gap-1.5">
+                    <input
+                        className={inputClasses}
+                        value={queryName}
+                        onChange={(e) => setQueryName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                        placeholder="Name this query"
+                    />
+                    <button
+                        onClick={handleSave}
+                        disabled={!queryName.trim() || problems.length > 0}
+                        title="Save query"
+                        className="p-1 rounded-md text-slate-600 hover:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>bookmark_add</span>
+                    </button>
+                </div>
+                {layerQueries.length > 0 && (
+                    <ul className="space-y-1">
+                        {layerQueries.map(query => (
+                            <li key={query.id} className="group/query flex items-center justify-between gap-2 rounded-md px-2 py-1 text-xs hover:bg-white transition-colors">
+                                <button onClick={() => onApply(query.filter)} className="flex-1 min-w-0 text-left font-medium text-slate-700 truncate" title={`Apply "${query.name}"`}>
+                                    {query.name}
+                                </button>
+                                <button
+                                    onClick={() => onDeleteQuery(query.id)}
+                                    title="Delete saved query"
+                                    className="p-0.5 rounded text-slate-400 opacity-0 group-hover/query:opacity-100 hover:text-red-600 transition-all"
+                                >
+                                    <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>delete</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default QueryBuilder;
@@ -0,0 +1,74 @@
+import React from 'react';
+import type { RasterLayer } from '../types';
+
+interface RasterLayerListProps {
+    layers: RasterLayer[];
+    onChange: (id: string, changes: Partial<RasterLayer>) => void;
+    onRemove: (id: string) => void;
+    // Reopens an image overlay's placement on the map
+    onAdjust: (id: string) => void;
+}
+
+const KIND_ICONS: Record<RasterLayer['kind'], string> = { wms: 'map', wmts: 'grid_view', image: 'image' };
+
+// Image overlays from map services and placed images, listed under the vector layers. They have no
+// features, so only visibility, opacity, placement and removal apply.
+const RasterLayerList: React.FC<RasterLayerListProps> = ({ layers, onChange, onRemove, onAdjust }) => {
+    if (layers.length === 0) return null;
+
+    return (
+        <div className="mt-3 px-2">
+            <p className="px-3 text-xs font-semibold uppercase tracking-wide text-slate-400">Map overlays</p>
+            <div className="flex flex-col gap-1 mt-1 text-slate-700">
+                {layers.map(layer => (
+                    <div key={layer.id} className="group flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-slate-100 transition-colors">
+                        <span className={`material-symbols-outlined ${layer.isVisible ? 'text-slate-500' : 'text-slate-300'}`} style={{ fontSize: '22px' }}>{KIND_ICONS[layer.kind]}</span>
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm leading-normal truncate" title={layer.kind === 'image' ? `${layer.name} (${layer.layer})` : `${layer.name} (${layer.kind.toUpperCase()}: ${layer.layer})`}>{layer.name}</p>
+                            <input
+                                type="range"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={layer.opacity}
+                                onChange={(e) => onChange(layer.id, { opacity: Number(e.target.value) })}
+                                disabled={!layer.isVisible}
+                                title={`Opacity ${Math.round(layer.opacity * 100)}%`}
+                                className="w-full h-1 accent-primary disabled:opacity-40"
+                            />
+                        </div>
+                        <div className="flex items-center">
+                            {layer.kind === 'image' && (
+                                <button
+                                    onClick={() => onAdjust(layer.id)}
+                                    title="Adjust placement"
+                                    className="p-1 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 hover:bg-slate-300/50 hover:text-slate-800 transition-all"
+                                >
+                                    <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>transform</span>
+                                </button>
+                            )}
+                            <button
+                                onClick={() => onChange(layer.id, { isVisible: !layer.isVisible })}
+                                title={layer.isVisible ? "Hide overlay" : "Show overlay"}
+                                className={`p-1 rounded-md ${layer.isVisible ? 'text-slate-600' : 'text-slate-400'} hover:bg-slate-300/50 hover:text-slate-800 transition-all`}
+                            >
+                                <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>
+                                    {layer.isVisible ? 'visibility' : 'visibility_off'}
+                                </span>
+                            </button>
+                            <button
+                                onClick={() => onRemove(layer.id)}
+                                title="Remove overlay"
+                                className="p-1 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 hover:bg-red-500/10 hover:text-red-500 transition-all"
+                            >
+                                <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>delete</span>
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default RasterLayerList;
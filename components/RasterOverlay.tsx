@@ -0,0 +1,33 @@
+import React from 'react';
+import { TileLayer, WMSTileLayer } from 'react-leaflet';
+import type { RasterLayer } from '../types';
+import GeoreferencedImageLayer from './GeoreferencedImageLayer';
+
+interface RasterOverlayProps {
+    layer: RasterLayer;
+    // Stacking order among the overlays; all of them sit above the basemap and below vector layers
+    order: number;
+}
+
+// The basemap tile layer keeps Leaflet's default z-index of 1
+const BASE_Z_INDEX = 10;
+
+const RasterOverlay: React.FC<RasterOverlayProps> = ({ layer, order }) => {
+    if (layer.kind === 'image') {
+        return layer.corners ? <GeoreferencedImageLayer url={layer.url} corners={layer.corners} opacity={layer.opacity} zIndex={BASE_Z_INDEX + order} /> : null;
+    }
+    if (layer.kind === 'wmts') {
+        return <TileLayer url={layer.url} opacity={layer.opacity} zIndex={BASE_Z_INDEX + order} attribution={layer.attribution} />;
+    }
+    return (
+        <WMSTileLayer
+            url={layer.url}
+            params={{ layers: layer.layer, format: layer.format, transparent: true }}
+            opacity={layer.opacity}
+            zIndex={BASE_Z_INDEX + order}
+            attribution={layer.attribution}
+        />
+    );
+};
+
+export default RasterOverlay;
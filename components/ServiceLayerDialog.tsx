@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import type { RasterLayer, RemoteLayerSource } from '../types';
+import { createRasterLayer, fetchServiceCapabilities, OgcServiceKind, ServiceCapabilities } from '../services/ogcService';
+import { ArcGisLayerInfo, ArcGisQueryResult, DEFAULT_WHERE, fetchArcGisLayers, queryArcGisLayer } from '../services/arcgisService';
+
+type ServiceKind = OgcServiceKind | 'arcgis';
+
+interface ServiceLayerDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onAddRasterLayers: (layers: RasterLayer[]) => void;
+    onAddRemoteLayers: (layers: { result: ArcGisQueryResult; source: RemoteLayerSource }[]) => void;
+}
+
+const SERVICE_KINDS: { key: ServiceKind; label: string; icon: string; placeholder: string; description: string }[] = [
+    { key: 'wms', label: 'WMS', icon: 'map', placeholder: 'https://example.com/geoserver/wms', description: 'Map images drawn by the server, shown as an overlay.' },
+    { key: 'wmts', label: 'WMTS', icon: 'grid_view', placeholder: 'https://example.com/wmts/1.0.0/WMTSCapabilities.xml', description: 'Pre-rendered map tiles, shown as an overlay.' },
+    { key: 'arcgis', label: 'ArcGIS', icon: 'cloud', placeholder: 'https://example.com/arcgis/rest/services/Port/FeatureServer', description: 'Features from a FeatureServer or MapServer, loaded as a layer you can query, style and refresh.' },
+];
+
+const inputClasses = "form-input mt-1 w-full rounded-md border-slate-300 bg-white py-1.5 px-2 text-sm text-slate-800 focus:border-primary focus:ring-primary/20";
+const selectClasses = "form-select mt-1 w-full rounded-md border-slate-300 bg-white py-1.5 pl-2 pr-8 text-sm text-slate-800 focus:border-primary focus:ring-primary/20";
+
+const ServiceLayerDialog: React.FC<ServiceLayerDialogProps> = ({ isOpen, onClose, onAddRasterLayers, onAddRemoteLayers }) => {
+    const [kind, setKind] = useState<ServiceKind>('wms');
+    const [url, setUrl] = useState('');
+    const [capabilities, setCapabilities] = useState<ServiceCapabilities | null>(null);
+    const [arcGisLayers, setArcGisLayers] = useState<ArcGisLayerInfo[] | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [format, setFormat] = useState('');
+    const [where, setWhere] = useState(DEFAULT_WHERE);
+    const [isBusy, setIsBusy] = useState(false);
+    const [progress, setProgress] = useState<string | null>(null);
+    const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+
+    useEffect(() => {
+        if (isOpen) setStatus(null);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const spec = SERVICE_KINDS.find(k => k.key === kind)!;
+    const options: { id: string; title: string; detail?: string }[] = kind === 'arcgis'
+        ? (arcGisLayers || []).map(l => ({ id: String(l.id), title: l.name, detail: l.geometryType?.replace('esriGeometry', '') }))
+        : (capabilities?.layers || []).map(l => ({ id: l.id, title: l.title, detail: l.title !== l.id ? l.id : undefined }));
+    const formats = kind === 'wms' ? capabilities?.layers[0]?.formats || [] : [];
+
+    const resetResults = () => {
+        setCapabilities(null);
+        setArcGisLayers(null);
+        setSelectedIds([]);
+        setStatus(null);
+    };
+
+    const handleKindChange = (next: ServiceKind) => {
+        setKind(next);
+        resetResults();
+    };
+
+    const handleConnect = async () => {
+        resetResults();
+        setIsBusy(true);
+        try {
+            if (kind === 'arcgis') {
+                const layers = await fetchArcGisLayers(url);
+                if (layers.length === 0) throw new Error('The service has no queryable layers.');
+                setArcGisLayers(layers);
+                setSelectedIds(layers.length === 1 ? [String(layers[0].id)] : []);
+            } else {
+                const caps = await fetchServiceCapabilities(kind, url);
+                setCapabilities(caps);
+                setFormat(caps.layers[0].formats[0] || 'image/png');
+                setSelectedIds(caps.layers.length === 1 ? [caps.layers[0].id] : []);
+            }
+        } catch (error) {
+            setStatus({ text: error instanceof Error ? error.message : String(error), isError: true });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+    };
+
+    const handleAdd = async () => {
+        setStatus(null);
+        if (kind !== 'arcgis') {
+            if (!capabilities) return;
+            const layers = capabilities.layers
+                .filter(l => selectedIds.includes(l.id))
+                .map(l => createRasterLayer(kind, capabilities, l, kind === 'wms' ? format : l.formats[0] || 'image/png'));
+            onAddRasterLayers(layers);
+            setStatus({ text: `Added ${layers.length} overlay${layers.length === 1 ? '' : 's'} from ${capabilities.title}.`, isError: false });
+            return;
+        }
+
+        // Layers are fetched one at a time so a large service doesn't flood the server with parallel paging.
+        // Whatever loaded before a failure is still added.
+        setIsBusy(true);
+        const results: { result: ArcGisQueryResult; source: RemoteLayerSource }[] = [];
+        const added: string[] = [];
+        try {
+            for (const layer of (arcGisLayers || []).filter(l => selectedIds.includes(String(l.id)))) {
+                setProgress(`Loading ${layer.name}…`);
+                const source: RemoteLayerSource = { type: 'arcgis', url: layer.url, where: where.trim() || DEFAULT_WHERE };
+                const result = await queryArcGisLayer(source, count => setProgress(`Loading ${layer.name}: ${count.toLocaleString()} features…`));
+                results.push({ result, source });
+                added.push(`${result.name} (${result.data.features.length.toLocaleString()} features)`);
+            }
+            setStatus({ text: `Added ${added.join(', ')}.`, isError: false });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            setStatus({ text: added.length > 0 ? `Added ${added.join(', ')}, then stopped: ${message}` : message, isError: true });
+        } finally {
+            onAddRemoteLayers(results);
+            setIsBusy(false);
+            setProgress(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[2999] flex items-center justify-center bg-black/10 backdrop-blur-sm" onClick={isBusy ? undefined : onClose}>
+            <div className="w-[30rem] max-w-[calc(100vw-2rem)] rounded-2xl bg-white shadow-2xl ring-1 ring-black/5" onClick={(e) => e.stopPropagation()}>
+                <header className="flex items-center justify-between px-5 pt-4 pb-2">
+                    <div className="flex items-center gap-2.5">
+                        <div className="size-8 rounded-full bg-primary/10 flex items-center justify-center">
+                            <span className="material-symbols-outlined text-primary text-xl">public</span>
+                        </div>
+                        <h2 className="text-base font-bold text-slate-800">Add from Server</h2>
+                    </div>
+                    <button onClick={onClose} disabled={isBusy} className="size-7 flex items-center justify-center rounded-full text-slate-500 hover:bg-red-500/10 hover:text-red-500 disabled:opacity-40 transition-colors">
+                        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>close</span>
+                    </button>
+                </header>
+
+                <div className="px-5 pb-5 space-y-4">
+                    <div className="grid grid-cols-3 gap-1 p-1 bg-slate-100 rounded-lg">
+                        {SERVICE_KINDS.map(k => (
+                            <button
+                                key={k.key}
+                                onClick={() => handleKindChange(k.key)}
+                                disabled={isBusy}
+                                className={`flex flex-col items-center gap-0.5 rounded-lg py-2 text-xs font-semibold transition-all ${kind === k.key ? 'bg-white shadow-sm text-primary ring-1 ring-primary/30' : 'text-slate-600 hover:bg-slate-200'}`}
+                            >
+                                <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>{k.icon}</span>
+                                {k.label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-slate-500">{spec.description}</p>
+
+                    <label className="block text-xs font-medium text-slate-600">
+                        Service URL
+                        <div className="flex gap-2">
+                            <input
+                                type="url"
+                                value={url}
+                                onChange={(e) => setUrl(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter' && url.trim() && !isBusy) handleConnect(); }}
+                                placeholder={spec.placeholder}
+                                className={inputClasses}
+                            />
+                            <button
+                                onClick={handleConnect}
+                                disabled={isBusy || !url.trim()}
+                                className="mt-1 shrink-0 px-3 rounded-md text-sm font-semibold bg-primary/10 text-primary hover:bg-primary/20 disabled:bg-slate-100 disabled:text-slate-400 transition-colors"
+                            >
+                                Connect
+                            </button>
+                        </div>
+                    </label>
+
+                    {options.length > 0 && (
+                        <div>
+                            <div className="flex items-center justify-between mb-1">
+                                <p className="text-xs font-medium text-slate-600">
+                                    {capabilities ? `Layers in ${capabilities.title}` : 'Layers'}
+                                </p>
+                                <button
+                                    onClick={() => setSelectedIds(selectedIds.length === options.length ? [] : options.map(o => o.id))}
+                                    className="text-xs font-semibold text-primary hover:underline"
+                                >
+                                    {selectedIds.length === options.length ? 'Select none' : 'Select all'}
+                                </button>
+                            </div>
+                            <ul className="max-h-48 overflow-y-auto rounded-md border border-slate-200 divide-y divide-slate-100">
+                                {options.map(option => (
+                                    <li key={option.id}>
+                                        <label className="flex items-center gap-2 px-2 py-1.5 text-sm text-slate-700 hover:bg-slate-50 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                className="form-checkbox rounded text-primary focus:ring-primary/20"
+                                                checked={selectedIds.includes(option.id)}
+                                                onChange={() => toggleSelected(option.id)}
+                                            />
+                                            <span className="truncate flex-1">{option.title}</span>
+                                            {option.detail && <span className="text-xs text-slate-400 truncate max-w-[40%]">{option.detail}</span>}
+                                        </label>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {formats.length > 1 && (
+                        <label className="block text-xs font-medium text-slate-600">
+                            Image format
+                            <select value={format} onChange={(e) => setFormat(e.target.value)} className={selectClasses}>
+                                {formats.map(f => <option key={f} value={f}>{f}</option>)}
+                            </select>
+                        </label>
+                    )}
+
+                    {arcGisLayers && (
+                        <label className="block text-xs font-medium text-slate-600">
+                            Where clause
+                            <input
+                                type="text"
+                                value={where}
+                                onChange={(e) => setWhere(e.target.value)}
+                                placeholder={DEFAULT_WHERE}
+                                className={`${inputClasses} font-mono`}
+                            />
+                            <span className="mt-1 block font-normal text-slate-400">Filters features on the server, e.g. Status = 'Comp'. Kept for refreshes.</span>
+                        </label>
+                    )}
+
+                    {progress && (
+                        <p className="flex items-center gap-1.5 text-xs text-slate-600">
+                            <span className="material-symbols-outlined animate-spin" style={{ fontSize: '16px' }}>progress_activity</span>
+                            {progress}
+                        </p>
+                    )}
+
+                    {status && (
+                        <p className={`text-xs rounded-lg p-2 ${status.isError ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-800'}`}>{status.text}</p>
+                    )}
+
+                    <div className="flex justify-end gap-2 border-t border-slate-200 pt-4">
+                        <button onClick={onClose} disabled={isBusy} className="px-3 py-1.5 rounded-md text-sm text-slate-600 hover:bg-slate-100 disabled:opacity-40 transition-colors">Close</button>
+                        <button
+                            onClick={handleAdd}
+                            disabled={isBusy || selectedIds.length === 0}
+                            className="flex items-center gap-1.5 px-4 py-1.5 rounded-md text-sm font-semibold bg-primary text-white hover:bg-primary/90 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {isBusy && !progress && <span className="material-symbols-outlined animate-spin" style={{ fontSize: '16px' }}>progress_activity</span>}
+                            Add {selectedIds.length > 1 ? `${selectedIds.length} layers` : 'layer'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ServiceLayerDialog;
@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import type { Feature } from 'geojson';
+import type { GeoJsonLayer } from '../types';
+import { createBufferShape, createCircleShape, createPolygonShape, selectFeaturesByShape, SelectionShape, SPATIAL_PREDICATES, SpatialPredicate } from '../services/spatialSelectionService';
+
+export type SpatialSelectMode = 'box' | 'polygon' | 'lasso' | 'circle' | null;
+
+const SELECT_COLOR = '#8B5CF6';
+const sketchStyle: L.PathOptions = { color: SELECT_COLOR, weight: 2, fillOpacity: 0.1, dashArray: '5, 5' };
+
+const SelectFeaturesIcon = () => (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M9.6875 9.6875L4 12.5V4L12.5 4L9.6875 9.6875Z" stroke="#8B5CF6" strokeWidth="2" strokeLinejoin="round"/>
+        <path d="M13 4H20V11" stroke="#8B5CF6" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" strokeDasharray="3 3"/>
+        <path d="M11 20H4V13" stroke="#8B5CF6" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" strokeDasharray="3 3"/>
+        <path d="M20 13V20H13" stroke="#8B5CF6" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" strokeDasharray="3 3"/>
+    </svg>
+);
+
+const MODES: { key: Exclude<SpatialSelectMode, null>; label: string; icon: string; instructions: string }[] = [
+    { key: 'box', label: 'Box', icon: 'crop_square', instructions: 'Drag a rectangle on the map.' },
+    { key: 'polygon', label: 'Polygon', icon: 'pentagon', instructions: 'Click to add vertices, double-click to finish. Backspace removes the last vertex.' },
+    { key: 'lasso', label: 'Lasso', icon: 'gesture', instructions: 'Hold the mouse button and draw around the features.' },
+    { key: 'circle', label: 'Radius', icon: 'radio_button_unchecked', instructions: 'Press at the centre and drag out the radius.' },
+];
+
+const formatRadius = (meters: number) => meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${meters.toFixed(0)} m`;
+
+interface SpatialSelectToolProps {
+    map: L.Map | null;
+    layers: GeoJsonLayer[];
+    selectedAssets: { layer: GeoJsonLayer; feature: Feature }[];
+    selectMode: SpatialSelectMode;
+    setSelectMode: (mode: SpatialSelectMode) => void;
+    onAreaSelect: (assets: { layerId: string; feature: Feature }[], isCtrlPressed: boolean) => void;
+    onOpen: () => void;
+}
+
+const SpatialSelectTool: React.FC<SpatialSelectToolProps> = ({ map, layers, selectedAssets, selectMode, setSelectMode, onAreaSelect, onOpen }) => {
+    const [isPanelOpen, setPanelOpen] = useState(false);
+    const [predicate, setPredicate] = useState<SpatialPredicate>('intersects');
+    const [bufferDistance, setBufferDistance] = useState(50);
+    const [message, setMessage] = useState<string | null>(null);
+
+    // Handlers registered on the map read the latest props through this ref so sketches aren't reset on re-render.
+    const latest = useRef({ layers, predicate, onAreaSelect });
+    latest.current = { layers, predicate, onAreaSelect };
+
+    const selectWithShape = (shape: SelectionShape | null, isCtrlPressed: boolean) => {
+        if (!shape) {
+            setMessage('That shape is too small to select with.');
+            return;
+        }
+        const found = selectFeaturesByShape(latest.current.layers, shape, latest.current.predicate);
+        latest.current.onAreaSelect(found, isCtrlPressed);
+        setMessage(`${found.length} feature${found.length !== 1 ? 's' : ''} ${isCtrlPressed ? 'added to the selection' : 'selected'}.`);
+    };
+
+    // One sketch session per mode; the mode ends after a shape is completed, like the original box tool
+    useEffect(() => {
+        if (!map || !selectMode) return;
+
+        const group = L.layerGroup().addTo(map);
+        const points: L.LatLng[] = [];
+        let start: L.LatLng | null = null;
+        map.dragging.disable();
+        map.getContainer().style.cursor = 'crosshair';
+
+        const isCtrl = (e: L.LeafletMouseEvent) => e.originalEvent.ctrlKey || e.originalEvent.metaKey;
+        const complete = (shape: SelectionShape | null, e: L.LeafletMouseEvent) => {
+            selectWithShape(shape, isCtrl(e));
+            setSelectMode(null);
+        };
+        const toPositions = (latlngs: L.LatLng[]) => latlngs.map(ll => [ll.lng, ll.lat]);
+
+        const handleMouseDown = (e: L.LeafletMouseEvent) => {
+            if (selectMode === 'polygon') return;
+            start = e.latlng;
+            points.length = 0;
+            points.push(e.latlng);
+        };
+
+        const handleMouseMove = (e: L.LeafletMouseEvent) => {
+            group.clearLayers();
+            if (selectMode === 'polygon') {
+                if (points.length > 0) L.polygon([...points, e.latlng], sketchStyle).addTo(group);
+                return;
+            }
+            if (!start) return;
+            if (selectMode === 'box') {
+                L.rectangle(L.latLngBounds(start, e.latlng), sketchStyle).addTo(group);
+            } else if (selectMode === 'lasso') {
+                const last = points[points.length - 1];
+                if (map.latLngToLayerPoint(last).distanceTo(map.latLngToLayerPoint(e.latlng)) >= 3) points.push(e.latlng);
+                L.polygon(points, sketchStyle).addTo(group);
+            } else if (selectMode === 'circle') {
+                const radius = start.distanceTo(e.latlng);
+                L.circle(start, { ...sketchStyle, radius }).addTo(group)
+                    .bindTooltip(formatRadius(radius), { permanent: true, direction: 'center', className: 'measure-tooltip' }).openTooltip();
+            }
+        };
+
+        const handleMouseUp = (e: L.LeafletMouseEvent) => {
+            if (selectMode === 'polygon' || !start) return;
+            const isClick = map.latLngToLayerPoint(start).distanceTo(map.latLngToLayerPoint(e.latlng)) < 3;
+            if (isClick) {
+                start = null;
+                group.clearLayers();
+                return;
+            }
+            if (selectMode === 'box') {
+                const bounds = L.latLngBounds(start, e.latlng);
+                complete(createPolygonShape(toPositions([bounds.getSouthWest(), bounds.getSouthEast(), bounds.getNorthEast(), bounds.getNorthWest()])), e);
+            } else if (selectMode === 'lasso') {
+                complete(createPolygonShape(toPositions(points)), e);
+            } else if (selectMode === 'circle') {
+                complete(createCircleShape([start.lng, start.lat], start.distanceTo(e.latlng)), e);
+            }
+            start = null;
+        };
+
+        const handleClick = (e: L.LeafletMouseEvent) => {
+            if (selectMode !== 'polygon') return;
+            points.push(e.latlng);
+        };
+        const handleDoubleClick = (e: L.LeafletMouseEvent) => {
+            if (selectMode !== 'polygon') return;
+            L.DomEvent.stop(e);
+            // The double-click's own clicks add a duplicate final vertex
+            const deduped = points.filter((p, i) => i === 0 || map.latLngToLayerPoint(p).distanceTo(map.latLngToLayerPoint(points[i - 1])) >= 1);
+            complete(createPolygonShape(toPositions(deduped)), e);
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setSelectMode(null);
+            if (e.key === 'Backspace' && selectMode === 'polygon' && points.length > 0) {
+                points.pop();
+                group.clearLayers();
+                if (points.length > 1) L.polygon(points, sketchStyle).addTo(group);
+            }
+        };
+
+        map.on('mousedown', handleMouseDown).on('mousemove', handleMouseMove).on('mouseup', handleMouseUp)
+            .on('click', handleClick).on('dblclick', handleDoubleClick);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            map.off('mousedown', handleMouseDown).off('mousemove', handleMouseMove).off('mouseup', handleMouseUp)
+                .off('click', handleClick).off('dblclick', handleDoubleClick);
+            document.removeEventListener('keydown', handleKeyDown);
+            map.removeLayer(group);
+            map.dragging.enable();
+            map.getContainer().style.cursor = '';
+        };
+    }, [map, selectMode]);
+
+    const handleBufferSelect = (e: React.MouseEvent) => {
+        if (selectedAssets.length === 0) return;
+        const shape = createBufferShape(selectedAssets.map(a => a.feature), Math.max(0, bufferDistance));
+        selectWithShape(shape, e.ctrlKey || e.metaKey);
+        setSelectMode(null);
+    };
+
+    const startMode = (mode: Exclude<SpatialSelectMode, null>) => {
+        setMessage(null);
+        setSelectMode(selectMode === mode ? null : mode);
+    };
+
+    const togglePanel = () => {
+        if (isPanelOpen) {
+            setSelectMode(null);
+        } else {
+            onOpen();
+            setMessage(null);
+            setSelectMode('box');
+        }
+        setPanelOpen(!isPanelOpen);
+    };
+
+    const controlButtonClasses = "flex size-10 items-center justify-center rounded-xl bg-white/90 backdrop-blur-lg shadow-md shadow-black/5 ring-2 ring-slate-900/10 hover:shadow-lg hover:shadow-sky-500/20 hover:bg-sky-50/90 hover:ring-sky-500/50 transition-all duration-300 ease-in-out";
+    const modeButtonClasses = (active: boolean) => `flex flex-col items-center gap-0.5 rounded-lg py-2 text-xs font-semibold transition-all ${active ? 'bg-purple-100 text-purple-800 ring-2 ring-purple-400' : 'text-slate-600 hover:bg-slate-200'}`;
+    const activeMode = MODES.find(m => m.key === selectMode);
+
+    return (
+        <div className="relative">
+            <button onClick={togglePanel} title="Select Features" className={`${controlButtonClasses} ${isPanelOpen ? '!bg-purple-100 !ring-purple-400' : ''}`}>
+                <SelectFeaturesIcon />
+            </button>
+            {isPanelOpen && (
+                <div className="absolute right-full top-0 mr-3 w-64 rounded-xl bg-white/95 backdrop-blur-md shadow-xl border border-slate-200 p-3 space-y-3">
+                    <h3 className="text-sm font-bold text-slate-800">Select Features</h3>
+
+                    <div className="grid grid-cols-4 gap-1 p-1 bg-slate-100 rounded-lg">
+                        {MODES.map(mode => (
+                            <button key={mode.key} onClick={() => startMode(mode.key)} className={modeButtonClasses(selectMode === mode.key)} title={mode.instructions}>
+                                <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>{mode.icon}</span>
+                                {mode.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div>
+                        <p className="text-xs font-medium text-slate-600 mb-1">Select features that</p>
+                        <div className="grid grid-cols-3 gap-1 p-0.5 bg-slate-200/70 rounded-md">
+                            {SPATIAL_PREDICATES.map(p => (
+                                <button
+                                    key={p.key}
+                                    onClick={() => setPredicate(p.key)}
+                                    title={p.description}
+                                    className={`px-1 py-1 rounded text-xs font-semibold transition-all ${predicate === p.key ? 'bg-white shadow-sm text-purple-700' : 'text-slate-600 hover:bg-white/60'}`}
+                                >
+                                    {p.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-1.5 border-t border-slate-200 pt-3">
+                        <p className="text-xs font-medium text-slate-600">Near the current selection</p>
+                        <div className="flex items-center gap-1.5">
+                            <input
+                                type="number"
+                                min={0}
+                                value={bufferDistance}
+                                onChange={(e) => setBufferDistance(Number(e.target.value))}
+                                className="form-input w-20 rounded-md border-slate-300 bg-white py-1 px-2 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+                            />
+                            <span className="text-xs text-slate-500">m</span>
+                            <button
+                                onClick={handleBufferSelect}
+                                disabled={selectedAssets.length === 0}
+                                title="Select features within this distance of the selected assets"
+                                className="ml-auto px-2 py-1 rounded-md text-xs font-semibold bg-purple-500 text-white hover:bg-purple-600 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                            >
+                                Select within
+                            </button>
+                        </div>
+                    </div>
+
+                    {activeMode && (
+                        <p className="text-xs text-purple-900 rounded-lg bg-purple-50 p-2">{activeMode.instructions}</p>
+                    )}
+                    <p className="text-xs text-slate-500">Hold Ctrl (⌘ on Mac) while finishing to add to the current selection.</p>
+                    {message && <p className="text-xs text-slate-700 font-medium">{message}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SpatialSelectTool;
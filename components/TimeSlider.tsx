@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { GeoJsonLayer, TimeFilter } from '../types';
+import { getAreaByYear, getTemporalFields } from '../services/timeSliderService';
+
+interface TimeSliderProps {
+    layers: GeoJsonLayer[];
+    onChange: (filter: TimeFilter | null) => void;
+    onClose: () => void;
+}
+
+const PLAY_INTERVAL_MS = 800;
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 64;
+
+const formatArea = (sqMeters: number) => sqMeters >= 10000
+    ? `${(sqMeters / 10000).toLocaleString(undefined, { maximumFractionDigits: 2 })} ha`
+    : `${sqMeters.toLocaleString(undefined, { maximumFractionDigits: 0 })} m²`;
+
+const AreaChart: React.FC<{ stats: ReturnType<typeof getAreaByYear>; year: number; onYearChange: (year: number) => void }> = ({ stats, year, onYearChange }) => {
+    const maxCumulative = stats[stats.length - 1]?.cumulativeArea || 0;
+    const maxYearly = Math.max(...stats.map(s => s.area), 0);
+    const step = CHART_WIDTH / stats.length;
+    const y = (value: number, max: number) => CHART_HEIGHT - (max > 0 ? (value / max) * (CHART_HEIGHT - 4) : 0);
+    const line = stats.map((s, i) => `${i === 0 ? 'M' : 'L'}${(i + 0.5) * step},${y(s.cumulativeArea, maxCumulative)}`).join(' ');
+    const index = stats.findIndex(s => s.year === year);
+
+    const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const i = Math.min(stats.length - 1, Math.max(0, Math.floor(((e.clientX - rect.left) / rect.width) * stats.length)));
+        onYearChange(stats[i].year);
+    };
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-16 cursor-pointer" onClick={handleClick}>
+            {stats.map((s, i) => s.area > 0 && (
+                <rect
+                    key={s.year}
+                    x={i * step + step * 0.15}
+                    y={y(s.area, maxYearly)}
+                    width={step * 0.7}
+                    height={CHART_HEIGHT - y(s.area, maxYearly)}
+                    className={s.year <= year ? 'fill-sky-200' : 'fill-slate-100'}
+                >
+                    <title>{`${s.year}: ${s.count} added, ${formatArea(s.area)}`}</title>
+                </rect>
+            ))}
+            <path d={line} fill="none" strokeWidth={2} vectorEffect="non-scaling-stroke" className="stroke-primary" />
+            {index >= 0 && (
+                <line x1={(index + 0.5) * step} x2={(index + 0.5) * step} y1={0} y2={CHART_HEIGHT} strokeWidth={1.5} strokeDasharray="3 2" vectorEffect="non-scaling-stroke" className="stroke-slate-700" />
+            )}
+        </svg>
+    );
+};
+
+const TimeSlider: React.FC<TimeSliderProps> = ({ layers, onChange, onClose }) => {
+    const candidates = useMemo(() => layers
+        .map(layer => ({ layer, fields: getTemporalFields(layer) }))
+        .filter(c => c.fields.length > 0), [layers]);
+    const [layerId, setLayerId] = useState(() => candidates[0]?.layer.id || '');
+    const candidate = candidates.find(c => c.layer.id === layerId) || candidates[0];
+    const [field, setField] = useState(() => candidate?.fields[0] || '');
+    const activeField = candidate?.fields.includes(field) ? field : candidate?.fields[0] || '';
+    const [mode, setMode] = useState<TimeFilter['mode']>('cumulative');
+    const [isPlaying, setIsPlaying] = useState(false);
+
+    const stats = useMemo(() => candidate ? getAreaByYear(candidate.layer, activeField) : [], [candidate?.layer, activeField]);
+    const minYear = stats[0]?.year ?? 0;
+    const maxYear = stats[stats.length - 1]?.year ?? 0;
+    const [year, setYear] = useState(maxYear);
+    const currentYear = Math.min(maxYear, Math.max(minYear, year));
+    const current = stats.find(s => s.year === currentYear);
+
+    // A new layer or field starts out showing everything
+    useEffect(() => {
+        setYear(maxYear);
+        setIsPlaying(false);
+    }, [candidate?.layer.id, activeField]);
+
+    useEffect(() => {
+        onChange(candidate && activeField ? { layerId: candidate.layer.id, field: activeField, year: currentYear, mode } : null);
+    }, [candidate?.layer.id, activeField, currentYear, mode]);
+
+    useEffect(() => () => onChange(null), []);
+
+    useEffect(() => {
+        if (!isPlaying) return;
+        const timer = window.setInterval(() => setYear(prev => Math.min(prev + 1, maxYear)), PLAY_INTERVAL_MS);
+        return () => window.clearInterval(timer);
+    }, [isPlaying, maxYear]);
+
+    // Playback stops on the last year
+    useEffect(() => {
+        if (isPlaying && currentYear >= maxYear) setIsPlaying(false);
+    }, [isPlaying, currentYear, maxYear]);
+
+    const togglePlay = () => {
+        if (!isPlaying && currentYear >= maxYear) setYear(minYear);
+        setIsPlaying(prev => !prev);
+    };
+
+    const buttonClasses = "p-1 rounded-md text-slate-600 hover:bg-slate-100 hover:text-slate-900 disabled:text-slate-300 disabled:hover:bg-transparent transition-colors";
+
+    return (
+        <div className="w-[30rem] max-w-[calc(100vw-2rem)] rounded-xl bg-white/95 backdrop-blur-lg shadow-lg ring-1 ring-slate-900/10 p-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center gap-2">
+                <span className="material-symbols-outlined text-primary" style={{ fontSize: '20px' }}>timelapse</span>
+                {candidates.length === 0 ? (
+                    <p className="flex-1 text-xs text-slate-500">No layer has a date or year field.</p>
+                ) : (
+                    <>
+                        <select
+                            value={candidate?.layer.id}
+                            onChange={(e) => setLayerId(e.target.value)}
+                            className="form-select flex-1 min-w-0 rounded-md border-slate-300 bg-white py-1 pl-2 pr-7 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+                        >
+                            {candidates.map(c => <option key={c.layer.id} value={c.layer.id}>{c.layer.name}</option>)}
+                        </select>
+                        <select
+                            value={activeField}
+                            onChange={(e) => setField(e.target.value)}
+                            className="form-select flex-1 min-w-0 rounded-md border-slate-300 bg-white py-1 pl-2 pr-7 text-xs text-slate-800 focus:border-primary focus:ring-primary/20"
+                        >
+                            {candidate?.fields.map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                    </>
+                )}
+                <button onClick={onClose} title="Close time slider" className="p-1 rounded-md text-slate-500 hover:bg-red-500/10 hover:text-red-500 transition-colors">
+                    <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>close</span>
+                </button>
+            </div>
+
+            {stats.length > 0 && (
+                <>
+                    <AreaChart stats={stats} year={currentYear} onYearChange={(y) => { setIsPlaying(false); setYear(y); }} />
+
+                    <div className="flex items-center gap-2">
+                        <button onClick={() => { setIsPlaying(false); setYear(currentYear - 1); }} disabled={currentYear <= minYear} title="Previous year" className={buttonClasses}>
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>skip_previous</span>
+                        </button>
+                        <button onClick={togglePlay} title={isPlaying ? 'Pause' : 'Play'} className="p-1 rounded-full bg-primary text-white hover:bg-primary/90 transition-colors">
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>{isPlaying ? 'pause' : 'play_arrow'}</span>
+                        </button>
+                        <button onClick={() => { setIsPlaying(false); setYear(currentYear + 1); }} disabled={currentYear >= maxYear} title="Next year" className={buttonClasses}>
+                            <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>skip_next</span>
+                        </button>
+                        <input
+                            type="range"
+                            min={minYear}
+                            max={maxYear}
+                            step={1}
+                            value={currentYear}
+                            onChange={(e) => { setIsPlaying(false); setYear(Number(e.target.value)); }}
+                            className="flex-1 accent-primary"
+                        />
+                        <span className="w-12 text-right text-lg font-bold text-slate-900 tabular-nums">{currentYear}</span>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-2 text-xs text-slate-600">
+                        <div className="grid grid-cols-2 gap-0.5 p-0.5 bg-slate-200/70 rounded-md">
+                            {([['cumulative', 'Up to year'], ['year', 'Only this year']] as const).map(([key, label]) => (
+                                <button
+                                    key={key}
+                                    onClick={() => setMode(key)}
+                                    className={`px-2 py-0.5 rounded text-xs font-semibold transition-all ${mode === key ? 'bg-white shadow-sm text-slate-800' : 'text-slate-600 hover:bg-white/60'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        {current && (
+                            <span className="tabular-nums">
+                                {mode === 'cumulative'
+                                    ? `${current.cumulativeCount} features · ${formatArea(current.cumulativeArea)}`
+                                    : `${current.count} added · ${formatArea(current.area)}`}
+                            </span>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TimeSlider;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import type { Feature } from 'geojson';
+import type { GeoJsonLayer, WorkOrderPriority } from '../types';
+import { getFeatureDisplayName } from '../utils';
+import { getAssetKey } from '../services/featureIdService';
+import { getDefaultAssignee, WORK_ORDER_PRIORITIES, WorkOrderDraft } from '../services/workOrderService';
+
+interface WorkOrderFormProps {
+    isOpen: boolean;
+    onClose: () => void;
+    assets: { layer: GeoJsonLayer; feature: Feature }[];
+    onCreate: (draft: WorkOrderDraft) => string | null;
+}
+
+const inputClasses = "form-input mt-1 w-full rounded-md border-slate-300 bg-white py-1.5 px-2 text-sm text-slate-800 focus:border-primary focus:ring-primary/20";
+
+const WorkOrderForm: React.FC<WorkOrderFormProps> = ({ isOpen, onClose, assets, onCreate }) => {
+    const [title, setTitle] = useState('');
+    const [description, setDescription] = useState('');
+    const [priority, setPriority] = useState<WorkOrderPriority>('medium');
+    const [assignee, setAssignee] = useState('');
+    const [dueDate, setDueDate] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setTitle('');
+        setDescription('');
+        setPriority('medium');
+        setAssignee(getDefaultAssignee(assets));
+        setDueDate('');
+        setError(null);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleCreate = () => {
+        const message = onCreate({ title, description, priority, assignee, dueDate: dueDate || null });
+        if (message) setError(message);
+        else onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[2999] flex items-center justify-center bg-black/10 backdrop-blur-sm" onClick={onClose}>
+            <div className="w-[28rem] max-w-[calc(100vw-2rem)] rounded-2xl bg-white shadow-2xl ring-1 ring-black/5" onClick={(e) => e.stopPropagation()}>
+                <header className="flex items-center justify-between px-5 pt-4 pb-2">
+                    <div className="flex items-center gap-2.5">
+                        <div className="size-8 rounded-full bg-primary/10 flex items-center justify-center">
+                            <span className="material-symbols-outlined text-primary text-xl">assignment_add</span>
+                        </div>
+                        <h2 className="text-base font-bold text-slate-800">New Work Order</h2>
+                    </div>
+                    <button onClick={onClose} className="size-7 flex items-center justify-center rounded-full text-slate-500 hover:bg-red-500/10 hover:text-red-500 transition-colors">
+                        <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>close</span>
+                    </button>
+                </header>
+
+                <div className="px-5 pb-5 space-y-4">
+                    <div>
+                        <p className="text-xs font-medium text-slate-600">For {assets.length} asset{assets.length !== 1 ? 's' : ''}</p>
+                        <ul className="mt-1 max-h-24 overflow-y-auto flex flex-wrap gap-1">
+                            {assets.map(({ layer, feature }) => (
+                                <li key={getAssetKey(layer.id, feature)} className="flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-700">
+                                    <span className="size-2 rounded-full" style={{ backgroundColor: layer.color }}></span>
+                                    {getFeatureDisplayName(feature, layer)}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+
+                    <label className="block text-xs font-medium text-slate-600">
+                        Title
+                        <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Repair roof leak" className={inputClasses} autoFocus />
+                    </label>
+
+                    <label className="block text-xs font-medium text-slate-600">
+                        Description
+                        <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={3} className={`${inputClasses} resize-none`} />
+                    </label>
+
+                    <div>
+                        <p className="text-xs font-medium text-slate-600 mb-1">Priority</p>
+                        <div className="grid grid-cols-4 gap-1 p-0.5 bg-slate-200/70 rounded-md">
+                            {WORK_ORDER_PRIORITIES.map(spec => (
+                                <button
+                                    key={spec.key}
+                                    onClick={() => setPriority(spec.key)}
+                                    className={`flex items-center justify-center gap-1.5 px-1 py-1 rounded text-xs font-semibold transition-all ${priority === spec.key ? 'bg-white shadow-sm text-slate-800' : 'text-slate-600 hover:bg-white/60'}`}
+                                >
+                                    <span className="size-2 rounded-full" style={{ backgroundColor: spec.color }}></span>
+                                    {spec.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="block text-xs font-medium text-slate-600">
+                            Assignee
+                            <input value={assignee} onChange={(e) => setAssignee(e.target.value)} placeholder="Unassigned" className={inputClasses} />
+                        </label>
+                        <label className="block text-xs font-medium text-slate-600">
+                            Due date
+                            <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className={inputClasses} />
+                        </label>
+                    </div>
+
+                    {error && <p className="text-xs rounded-lg p-2 bg-red-50 text-red-700">{error}</p>}
+
+                    <div className="flex justify-end gap-2 border-t border-slate-200 pt-4">
+                        <button onClick={onClose} className="px-3 py-1.5 rounded-md text-sm text-slate-600 hover:bg-slate-100 transition-colors">Cancel</button>
+                        <button
+                            onClick={handleCreate}
+                            disabled={!title.trim()}
+                            className="px-4 py-1.5 rounded-md text-sm font-semibold bg-primary text-white hover:bg-primary/90 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                        >
+                            Create
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WorkOrderForm;
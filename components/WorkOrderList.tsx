@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import type { WorkOrder, WorkOrderStatus } from '../types';
+import {
+    getPrioritySpec, getStatusSpec, isWorkOrderOpen, isWorkOrderOverdue, sortWorkOrders, WORK_ORDER_STATUSES, WORK_ORDER_TRANSITIONS,
+} from '../services/workOrderService';
+
+interface WorkOrderListProps {
+    orders: WorkOrder[];
+    onClose: () => void;
+    onStatusChange: (id: string, status: WorkOrderStatus) => void;
+    onDelete: (id: string) => void;
+    onShowAssets: (order: WorkOrder) => void;
+}
+
+type StatusFilter = 'active' | 'all' | WorkOrderStatus;
+
+const formatDate = (date: string) => new Date(date.length === 10 ? `${date}T00:00:00` : date).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+const StatusBadge: React.FC<{ status: WorkOrderStatus }> = ({ status }) => {
+    const spec = getStatusSpec(status);
+    return (
+        <span className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-semibold" style={{ color: spec.color, backgroundColor: `${spec.color}1a` }}>
+            <span className="material-symbols-outlined" style={{ fontSize: '14px' }}>{spec.icon}</span>
+            {spec.label}
+        </span>
+    );
+};
+
+const WorkOrderCard: React.FC<{ order: WorkOrder } & Omit<WorkOrderListProps, 'orders' | 'onClose'>> = ({ order, onStatusChange, onDelete, onShowAssets }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const priority = getPrioritySpec(order.priority);
+    const isOverdue = isWorkOrderOverdue(order);
+
+    return (
+        <div className={`rounded-md border border-slate-200 bg-white transition-shadow hover:shadow-md ${isWorkOrderOpen(order) ? '' : 'opacity-75'}`} style={{ borderLeft: `3px solid ${priority.color}` }}>
+            <button onClick={() => setIsExpanded(prev => !prev)} className="w-full text-left p-3 space-y-1.5">
+                <div className="flex items-start justify-between gap-2">
+                    <p className="text-sm font-semibold text-slate-800 break-words">{order.title}</p>
+                    <StatusBadge status={order.status} />
+                </div>
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-500">
+                    <span className="font-semibold" style={{ color: priority.color }}>{priority.label}</span>
+                    <span className="flex items-center gap-1">
+                        <span className="material-symbols-outlined" style={{ fontSize: '14px' }}>person</span>
+                        {order.assignee || 'Unassigned'}
+                    </span>
+                    {order.dueDate && (
+                        <span className={`flex items-center gap-1 ${isOverdue ? 'font-semibold text-red-600' : ''}`}>
+                            <span className="material-symbols-outlined" style={{ fontSize: '14px' }}>event</span>
+                            {isOverdue ? 'Overdue · ' : ''}{formatDate(order.dueDate)}
+                        </span>
+                    )}
+                </div>
+                <p className="text-xs text-slate-500 truncate">
+                    {order.assets.slice(0, 2).map(a => a.name).join(', ')}
+                    {order.assets.length > 2 ? ` +${order.assets.length - 2} more` : ''}
+                </p>
+            </button>
+
+            {isExpanded && (
+                <div className="border-t border-slate-200 p-3 space-y-3">
+                    {order.description && <p className="text-sm text-slate-700 whitespace-pre-wrap">{order.description}</p>}
+                    <div className="flex flex-wrap gap-1">
+                        {WORK_ORDER_TRANSITIONS[order.status].map(next => {
+                            const spec = getStatusSpec(next);
+                            return (
+                                <button
+                                    key={next}
+                                    onClick={() => onStatusChange(order.id, next)}
+                                    className="flex items-center gap-1 rounded-md border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100 transition-colors"
+                                >
+                                    <span className="material-symbols-outlined" style={{ fontSize: '14px', color: spec.color }}>{spec.icon}</span>
+                                    {next === 'open' ? 'Reopen' : spec.label}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    <ol className="space-y-0.5 text-xs text-slate-500">
+                        {order.statusHistory.map((entry, i) => (
+                            <li key={i} className="flex justify-between gap-2">
+                                <span>{getStatusSpec(entry.status).label}</span>
+                                <span className="tabular-nums">{new Date(entry.at).toLocaleString()}</span>
+                            </li>
+                        ))}
+                    </ol>
+                    <div className="flex items-center justify-between">
+                        <button onClick={() => onShowAssets(order)} className="flex items-center gap-1 text-xs font-semibold text-primary hover:text-blue-600 transition-colors">
+                            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>location_on</span>
+                            Select {order.assets.length} asset{order.assets.length !== 1 ? 's' : ''} on map
+                        </button>
+                        <button
+                            onClick={() => { if (window.confirm(`Delete work order "${order.title}"?`)) onDelete(order.id); }}
+                            title="Delete work order"
+                            className="p-1 rounded text-slate-400 hover:bg-red-50 hover:text-red-600 transition-colors"
+                        >
+                            <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>delete</span>
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const WorkOrderList: React.FC<WorkOrderListProps> = ({ orders, onClose, onStatusChange, onDelete, onShowAssets }) => {
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+
+    const filters = useMemo(() => [
+        { key: 'active' as StatusFilter, label: 'Active', count: orders.filter(isWorkOrderOpen).length },
+        ...WORK_ORDER_STATUSES.map(spec => ({ key: spec.key as StatusFilter, label: spec.label, count: orders.filter(o => o.status === spec.key).length })),
+        { key: 'all' as StatusFilter, label: 'All', count: orders.length },
+    ], [orders]);
+
+    const visibleOrders = useMemo(() => sortWorkOrders(orders.filter(order =>
+        statusFilter === 'all' || (statusFilter === 'active' ? isWorkOrderOpen(order) : order.status === statusFilter)
+    )), [orders, statusFilter]);
+
+    return (
+        <div className="h-full flex flex-col text-slate-700">
+            <div className="flex-shrink-0 flex items-center justify-between pb-3 border-b border-slate-200">
+                <button onClick={onClose} className="flex items-center gap-1 text-sm text-primary hover:text-blue-600 transition-colors group">
+                    <span className="material-symbols-outlined transition-transform group-hover:-translate-x-1" style={{ fontSize: '20px' }}>arrow_back</span>
+                    Back to Assets
+                </button>
+            </div>
+
+            <div className="mt-4 flex-shrink-0">
+                <h2 className="text-2xl font-bold text-slate-900">Work Orders</h2>
+                <div className="mt-3 flex flex-wrap gap-1">
+                    {filters.map(filter => (
+                        <button
+                            key={filter.key}
+                            onClick={() => setStatusFilter(filter.key)}
+                            className={`rounded-full px-2.5 py-1 text-xs font-semibold transition-colors ${statusFilter === filter.key ? 'bg-primary text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                        >
+                            {filter.label} <span className="opacity-70">{filter.count}</span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="mt-4 flex-grow overflow-y-auto -mr-4 pr-3 space-y-2 pb-2">
+                {visibleOrders.length === 0 ? (
+                    <p className="text-sm text-slate-500 px-1">
+                        {orders.length === 0 ? 'No work orders yet. Select assets and create one from the asset details.' : 'No work orders with this status.'}
+                    </p>
+                ) : visibleOrders.map(order => (
+                    <WorkOrderCard key={order.id} order={order} onStatusChange={onStatusChange} onDelete={onDelete} onShowAssets={onShowAssets} />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default WorkOrderList;
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { SpatialBookmark } from '../types';
+import { WORKSPACE_FILE_EXTENSION } from '../services/workspaceService';
+
+interface WorkspaceMenuProps {
+    bookmarks: SpatialBookmark[];
+    lastSavedAt: string | null;
+    onAddBookmark: (name: string) => void;
+    onGoToBookmark: (bookmark: SpatialBookmark) => void;
+    onDeleteBookmark: (id: string) => void;
+    onExportWorkspace: () => void;
+    onImportWorkspace: (file: File) => Promise<string | null>;
+    onResetWorkspace: () => void;
+}
+
+const WorkspaceMenu: React.FC<WorkspaceMenuProps> = ({ bookmarks, lastSavedAt, onAddBookmark, onGoToBookmark, onDeleteBookmark, onExportWorkspace, onImportWorkspace, onResetWorkspace }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [bookmarkName, setBookmarkName] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const handleAdd = () => {
+        if (!bookmarkName.trim()) return;
+        onAddBookmark(bookmarkName.trim());
+        setBookmarkName('');
+    };
+
+    const handleImport = async (files: FileList | null) => {
+        if (!files?.length) return;
+        setImportError(await onImportWorkspace(files[0]));
+    };
+
+    const actionClasses = "flex items-center gap-2 w-full rounded-md px-2 py-1.5 text-left text-sm text-slate-700 hover:bg-slate-100 transition-colors";
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                title="Bookmarks and workspace"
+                className={`flex items-center gap-1.5 h-9 px-3 rounded-lg text-sm font-semibold text-slate-800 transition-colors ${isOpen ? 'bg-white' : 'bg-white/60 hover:bg-white/90'}`}
+            >
+                <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>bookmarks</span>
+                Workspace
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-2 w-72 rounded-xl bg-white shadow-xl border border-slate-200 p-3 space-y-3 whitespace-normal">
+                    <div className="space-y-2">
+                        <p className="text-xs font-semibold uppercase tracking-wider text-slate-500">Bookmarks</p>
+                        <div className="flex items-center gap-1.5">
+                            <input
+                                value={bookmarkName}
+                                onChange={(e) => setBookmarkName(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                                placeholder="Name the current view"
+                                className="form-input flex-1 min-w-0 rounded-md border-slate-300 bg-white py-1 px-2 text-sm text-slate-800 focus:border-primary focus:ring-primary/20"
+                            />
+                            <button
+                                onClick={handleAdd}
+                                disabled={!bookmarkName.trim()}
+                                title="Bookmark the current view"
+                                className="p-1 rounded-md text-slate-600 hover:bg-slate-100 disabled:text-slate-300 disabled:cursor-not-allowed transition-colors"
+                            >
+                                <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>bookmark_add</span>
+                            </button>
+                        </div>
+                        {bookmarks.length === 0 ? (
+                            <p className="text-xs text-slate-500">No bookmarks yet.</p>
+                        ) : (
+                            <ul className="max-h-48 overflow-y-auto space-y-0.5">
+                                {bookmarks.map(bookmark => (
+                                    <li key={bookmark.id} className="group/bookmark flex items-center gap-1 rounded-md hover:bg-slate-100">
+                                        <button
+                                            onClick={() => { onGoToBookmark(bookmark); setIsOpen(false); }}
+                                            className="flex flex-1 min-w-0 items-center gap-2 px-2 py-1.5 text-left text-sm text-slate-700"
+                                        >
+                                            <span className="material-symbols-outlined text-slate-400" style={{ fontSize: '18px' }}>location_on</span>
+                                            <span className="truncate">{bookmark.name}</span>
+                                        </button>
+                                        <button
+                                            onClick={() => onDeleteBookmark(bookmark.id)}
+                                            title="Delete bookmark"
+                                            className="p-1 mr-1 rounded text-slate-400 opacity-0 group-hover/bookmark:opacity-100 hover:text-red-600 transition-all"
+                                        >
+                                            <span className="material-symbols-outlined" style={{ fontSize: '16px' }}>delete</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    <div className="space-y-1 border-t border-slate-200 pt-3">
+                        <p className="text-xs font-semibold uppercase tracking-wider text-slate-500">Workspace</p>
+                        <p className="text-xs text-slate-500 pb-1">
+                            {lastSavedAt ? `Saved automatically at ${new Date(lastSavedAt).toLocaleTimeString()}` : 'Changes are saved automatically in this browser.'}
+                        </p>
+                        <button onClick={onExportWorkspace} className={actionClasses}>
+                            <span className="material-symbols-outlined text-slate-500" style={{ fontSize: '18px' }}>download</span>
+                            Export workspace file
+                        </button>
+                        <button onClick={() => fileInputRef.current?.click()} className={actionClasses}>
+                            <span className="material-symbols-outlined text-slate-500" style={{ fontSize: '18px' }}>upload</span>
+                            Import workspace file
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept={`${WORKSPACE_FILE_EXTENSION},.json`}
+                            className="hidden"
+                            onChange={(e) => {
+                                handleImport(e.target.files);
+                                e.target.value = '';
+                            }}
+                        />
+                        <button
+                            onClick={() => {
+                                if (window.confirm('Reset the workspace? Imported layers, bookmarks and saved map settings will be removed.')) onResetWorkspace();
+                            }}
+                            className={`${actionClasses} hover:!bg-red-50 hover:!text-red-600`}
+                        >
+                            <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>restart_alt</span>
+                            Reset workspace
+                        </button>
+                        {importError && <p className="text-xs text-red-600">{importError}</p>}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WorkspaceMenu;
@@ -0,0 +1,19 @@
+// Answers map tile requests from the tiles saved for offline use, falling back to the network. Opaque tiles may be
+// a stored error, so they are only used when the network fails.
+// TILE_CACHE_NAME must match the one in services/tileCacheService.ts, which fills the cache.
+const TILE_CACHE_NAME = 'geoasset-tiles-v1';
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET' || request.destination !== 'image') return;
+    event.respondWith(
+        caches.open(TILE_CACHE_NAME)
+            .then((cache) => cache.match(request.url))
+            .then((cached) => cached && cached.type !== 'opaque'
+                ? cached
+                : fetch(request).catch((error) => cached || Promise.reject(error)))
+    );
+});
@@ -0,0 +1,239 @@
+// A stand-in for the port's GIS server, for trying out service layers without one:
+//   npm run mock-gis            (listens on http://localhost:8090, or PORT)
+//
+//   WMS      http://localhost:8090/wms
+//   WMTS     http://localhost:8090/wmts/WMTSCapabilities.xml
+//   ArcGIS   http://localhost:8090/arcgis/rest/services/Port/FeatureServer   (GeoJSON, paged by offset)
+//            http://localhost:8090/arcgis/rest/services/Port/MapServer       (Esri JSON, paged by object id)
+//
+// Feature layers serve the sample data in data/, 10 records per page so paging is exercised on every layer.
+// Map images are translucent tinted tiles with a grid, enough to check placement and opacity.
+import http from 'node:http';
+import { readFileSync } from 'node:fs';
+import { deflateSync } from 'node:zlib';
+
+const PORT = Number(process.env.PORT) || 8090;
+const PAGE_SIZE = 10;
+const ROOT = new URL('../data/', import.meta.url);
+
+const LAYERS = [
+    { id: 0, name: 'Buildings', file: 'Building.json', color: [249, 115, 22] },
+    { id: 1, name: 'Horticulture', file: 'horticulture-area.json', color: [34, 197, 94] },
+].map(layer => {
+    const data = JSON.parse(readFileSync(new URL(layer.file, ROOT), 'utf8'));
+    const features = data.features.map((f, i) => ({ ...f, properties: { OBJECTID: i + 1, ...f.properties } }));
+    return { ...layer, key: layer.name.toLowerCase(), features };
+});
+
+// --- PNG tiles ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+const crc32 = (bytes) => {
+    let c = 0xffffffff;
+    for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+};
+const chunk = (type, data) => {
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const out = Buffer.alloc(body.length + 8);
+    out.writeUInt32BE(data.length, 0);
+    body.copy(out, 4);
+    out.writeUInt32BE(crc32(body), body.length + 4);
+    return out;
+};
+const tilePng = ([r, g, b], size = 256) => {
+    const raw = Buffer.alloc((size * 4 + 1) * size);
+    for (let y = 0; y < size; y++) {
+        raw[y * (size * 4 + 1)] = 0;
+        for (let x = 0; x < size; x++) {
+            const onGrid = x % 32 === 0 || y % 32 === 0;
+            const i = y * (size * 4 + 1) + 1 + x * 4;
+            raw[i] = r; raw[i + 1] = g; raw[i + 2] = b;
+            raw[i + 3] = onGrid ? 200 : 60;
+        }
+    }
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(size, 0);
+    header.writeUInt32BE(size, 4);
+    header.set([8, 6, 0, 0, 0], 8);
+    return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), chunk('IHDR', header), chunk('IDAT', deflateSync(raw)), chunk('IEND', Buffer.alloc(0))]);
+};
+const tiles = new Map(LAYERS.map(l => [l.key, tilePng(l.color)]));
+
+// --- OGC capabilities ---
+
+const wmsCapabilities = (base) => `<?xml version="1.0" encoding="UTF-8"?>
+<WMS_Capabilities version="1.3.0" xmlns="http://www.opengis.net/wms" xmlns:xlink="http://www.w3.org/1999/xlink">
+  <Service><Name>WMS</Name><Title>Mock Port WMS</Title></Service>
+  <Capability>
+    <Request>
+      <GetMap>
+        <Format>image/jpeg</Format><Format>image/png</Format>
+        <DCPType><HTTP><Get><OnlineResource xlink:href="${base}/wms?"/></Get></HTTP></DCPType>
+      </GetMap>
+    </Request>
+    <Layer>
+      <Title>Port</Title>
+      <CRS>EPSG:4326</CRS><CRS>EPSG:3857</CRS>
+${LAYERS.map(l => `      <Layer queryable="0"><Name>${l.key}</Name><Title>${l.name} (WMS)</Title></Layer>`).join('\n')}
+    </Layer>
+  </Capability>
+</WMS_Capabilities>`;
+
+const wmtsCapabilities = (base) => `<?xml version="1.0" encoding="UTF-8"?>
+<Capabilities version="1.0.0" xmlns="http://www.opengis.net/wmts/1.0" xmlns:ows="http://www.opengis.net/ows/1.1" xmlns:xlink="http://www.w3.org/1999/xlink">
+  <ows:ServiceIdentification><ows:Title>Mock Port WMTS</ows:Title></ows:ServiceIdentification>
+  <Contents>
+${LAYERS.map(l => `    <Layer>
+      <ows:Title>${l.name} (WMTS)</ows:Title>
+      <ows:Identifier>${l.key}</ows:Identifier>
+      <Style isDefault="true"><ows:Identifier>default</ows:Identifier></Style>
+      <Format>image/png</Format>
+      <TileMatrixSetLink><TileMatrixSet>GoogleMapsCompatible</TileMatrixSet></TileMatrixSetLink>
+      <ResourceURL format="image/png" resourceType="tile" template="${base}/wmts/${l.key}/{Style}/{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.png"/>
+    </Layer>`).join('\n')}
+    <TileMatrixSet>
+      <ows:Identifier>GoogleMapsCompatible</ows:Identifier>
+      <ows:SupportedCRS>urn:ogc:def:crs:EPSG::3857</ows:SupportedCRS>
+${Array.from({ length: 21 }, (_, z) => `      <TileMatrix><ows:Identifier>${z}</ows:Identifier><ScaleDenominator>${559082264.0287178 / 2 ** z}</ScaleDenominator><TopLeftCorner>-20037508.3427892 20037508.3427892</TopLeftCorner><TileWidth>256</TileWidth><TileHeight>256</TileHeight><MatrixWidth>${2 ** z}</MatrixWidth><MatrixHeight>${2 ** z}</MatrixHeight></TileMatrix>`).join('\n')}
+    </TileMatrixSet>
+  </Contents>
+</Capabilities>`;
+
+// --- ArcGIS REST ---
+
+const geometryType = (features) => {
+    const type = features.find(f => f.geometry)?.geometry.type || 'Polygon';
+    return { Point: 'esriGeometryPoint', MultiPoint: 'esriGeometryMultipoint', LineString: 'esriGeometryPolyline', MultiLineString: 'esriGeometryPolyline' }[type] || 'esriGeometryPolygon';
+};
+
+const signedArea = (ring) => ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + (x2 - x1) * (y2 + y1);
+}, 0);
+// Esri wants outer rings clockwise and holes counter-clockwise
+const orient = (ring, clockwise) => (signedArea(ring) > 0) === clockwise ? ring : [...ring].reverse();
+
+const toEsriGeometry = (geometry) => {
+    if (!geometry) return null;
+    const { type, coordinates } = geometry;
+    if (type === 'Point') return { x: coordinates[0], y: coordinates[1] };
+    if (type === 'MultiPoint') return { points: coordinates };
+    if (type === 'LineString') return { paths: [coordinates] };
+    if (type === 'MultiLineString') return { paths: coordinates };
+    const polygons = type === 'Polygon' ? [coordinates] : coordinates;
+    return { rings: polygons.flatMap(rings => rings.map((ring, i) => orient(ring, i === 0))) };
+};
+
+// Understands "1=1" and single comparisons such as Status = 'Comp' or Cons_Year >= 2010
+const matchesWhere = (where) => {
+    if (!where || /^\s*1\s*=\s*1\s*$/.test(where)) return () => true;
+    const match = where.match(/^\s*(\w+)\s*(=|<>|>=|<=|>|<)\s*(?:'([^']*)'|(-?[\d.]+))\s*$/);
+    if (!match) return null;
+    const [, field, operator, text, number] = match;
+    const value = text ?? Number(number);
+    return (feature) => {
+        const actual = feature.properties[field];
+        switch (operator) {
+            case '=': return actual == value;
+            case '<>': return actual != value;
+            case '>': return actual > value;
+            case '<': return actual < value;
+            case '>=': return actual >= value;
+            default: return actual <= value;
+        }
+    };
+};
+
+const layerInfo = (layer, isFeatureServer) => ({
+    id: layer.id,
+    name: layer.name,
+    type: 'Feature Layer',
+    geometryType: geometryType(layer.features),
+    objectIdField: 'OBJECTID',
+    maxRecordCount: PAGE_SIZE,
+    supportedQueryFormats: isFeatureServer ? 'JSON, geoJSON' : 'JSON',
+    advancedQueryCapabilities: { supportsPagination: isFeatureServer },
+    fields: [{ name: 'OBJECTID', type: 'esriFieldTypeOID' }],
+});
+
+const query = (layer, params) => {
+    const filter = matchesWhere(params.get('where'));
+    if (!filter) return { error: { code: 400, message: 'Unable to complete operation.', details: [`Unsupported where clause: ${params.get('where')}`] } };
+    let features = layer.features.filter(filter);
+    if (params.get('returnIdsOnly') === 'true') return { objectIdFieldName: 'OBJECTID', objectIds: features.map(f => f.properties.OBJECTID) };
+    if (params.get('objectIds')) {
+        const ids = new Set(params.get('objectIds').split(',').map(Number));
+        features = features.filter(f => ids.has(f.properties.OBJECTID));
+    }
+    const offset = Number(params.get('resultOffset') || 0);
+    const count = Math.min(Number(params.get('resultRecordCount') || PAGE_SIZE), PAGE_SIZE);
+    const page = features.slice(offset, offset + count);
+    const exceededTransferLimit = offset + page.length < features.length;
+    if (params.get('f') === 'geojson') {
+        return { type: 'FeatureCollection', features: page.map(f => ({ ...f, id: f.properties.OBJECTID })), properties: { exceededTransferLimit } };
+    }
+    return {
+        objectIdFieldName: 'OBJECTID',
+        geometryType: geometryType(layer.features),
+        spatialReference: { wkid: 4326 },
+        features: page.map(f => ({ attributes: f.properties, geometry: toEsriGeometry(f.geometry) })),
+        exceededTransferLimit,
+    };
+};
+
+const arcgis = (path, params) => {
+    const match = path.match(/^\/arcgis\/rest\/services\/Port\/(FeatureServer|MapServer)(?:\/(\d+))?(\/query)?$/);
+    if (!match) return null;
+    const [, kind, id, isQuery] = match;
+    const isFeatureServer = kind === 'FeatureServer';
+    if (id === undefined) return { layers: LAYERS.map(l => ({ id: l.id, name: l.name, geometryType: geometryType(l.features) })) };
+    const layer = LAYERS.find(l => l.id === Number(id));
+    if (!layer) return { error: { code: 400, message: 'Invalid or missing input parameters.' } };
+    if (!isQuery) return layerInfo(layer, isFeatureServer);
+    if (!isFeatureServer && params.get('resultOffset')) return { error: { code: 400, message: 'Pagination is not supported.' } };
+    return query(layer, params);
+};
+
+// --- Server ---
+
+const readBody = (req) => new Promise(resolve => {
+    let body = '';
+    req.on('data', data => { body += data; });
+    req.on('end', () => resolve(body));
+});
+
+http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', '*');
+    if (req.method === 'OPTIONS') return res.end();
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const base = `http://${req.headers.host}`;
+    const params = new URLSearchParams(url.search);
+    if (req.method === 'POST') new URLSearchParams(await readBody(req)).forEach((value, key) => params.set(key, value));
+    // OGC parameter names are case-insensitive
+    const ogc = (name) => [...params.entries()].find(([key]) => key.toLowerCase() === name)?.[1] || '';
+    const send = (status, type, body) => { res.writeHead(status, { 'Content-Type': type }); res.end(body); };
+
+    if (url.pathname === '/wms') {
+        if (ogc('request') === 'GetCapabilities') return send(200, 'text/xml', wmsCapabilities(base));
+        if (ogc('request') === 'GetMap') {
+            const tile = tiles.get(ogc('layers').split(',')[0]);
+            return tile ? send(200, 'image/png', tile) : send(400, 'text/xml', '<ServiceExceptionReport><ServiceException>Unknown layer</ServiceException></ServiceExceptionReport>');
+        }
+    }
+    if (url.pathname === '/wmts/WMTSCapabilities.xml' || (url.pathname === '/wmts' && ogc('request') === 'GetCapabilities')) {
+        return send(200, 'text/xml', wmtsCapabilities(base));
+    }
+    const wmtsTile = url.pathname.match(/^\/wmts\/(\w+)\/.+\.png$/);
+    if (wmtsTile && tiles.has(wmtsTile[1])) return send(200, 'image/png', tiles.get(wmtsTile[1]));
+
+    const json = arcgis(url.pathname, params);
+    if (json) return send(200, 'application/json', JSON.stringify(json));
+    send(404, 'text/plain', 'Not found');
+}).listen(PORT, () => console.log(`Mock GIS server on http://localhost:${PORT}`));
@@ -0,0 +1,215 @@
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { booleanPointInPolygon } from '@turf/turf';
+import type { RemoteLayerSource } from '../types';
+
+// Queries ArcGIS FeatureServer and MapServer layers into GeoJSON, a page at a time
+
+export interface ArcGisLayerInfo {
+    id: number;
+    name: string;
+    // The layer endpoint, ending in /FeatureServer/<id> or /MapServer/<id>
+    url: string;
+    geometryType?: string;
+}
+
+export interface ArcGisQueryResult {
+    name: string;
+    data: FeatureCollection;
+    // The layer's object id field, which identifies features across refreshes
+    idField: string;
+}
+
+// --- The parts of the REST API's JSON responses used here ---
+
+interface ArcGisField {
+    name: string;
+    type: string;
+}
+
+// A service's or a layer's description, as returned by its URL
+interface ArcGisLayerJson {
+    id: number;
+    name: string;
+    type?: string;
+    geometryType?: string;
+    subLayerIds?: number[] | null;
+    objectIdField?: string;
+    fields?: ArcGisField[];
+    maxRecordCount?: number;
+    supportedQueryFormats?: string;
+    advancedQueryCapabilities?: { supportsPagination?: boolean };
+}
+
+interface ArcGisServiceJson {
+    layers?: ArcGisLayerJson[];
+}
+
+interface EsriGeometry {
+    x?: number;
+    y?: number;
+    points?: Position[];
+    paths?: Position[][];
+    rings?: Position[][];
+}
+
+interface EsriFeature {
+    attributes?: Record<string, unknown>;
+    geometry?: EsriGeometry | null;
+}
+
+// Query results with f=geojson; some server versions report the limit inside "properties"
+interface GeoJsonQueryJson {
+    type: 'FeatureCollection';
+    features: Feature[];
+    exceededTransferLimit?: boolean;
+    properties?: { exceededTransferLimit?: boolean };
+}
+
+// Query results with f=json
+interface EsriQueryJson {
+    features?: EsriFeature[];
+    exceededTransferLimit?: boolean;
+}
+
+type ArcGisQueryJson = GeoJsonQueryJson | EsriQueryJson;
+
+const isGeoJsonQueryJson = (json: ArcGisQueryJson): json is GeoJsonQueryJson => 'type' in json && json.type === 'FeatureCollection';
+
+interface ArcGisIdsJson {
+    objectIds?: number[] | null;
+}
+
+interface ArcGisErrorJson {
+    error?: { code?: number; message?: string; details?: string[] };
+}
+
+export class ArcGisError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ArcGisError';
+    }
+}
+
+export const DEFAULT_WHERE = '1=1';
+// More than this is better served as a tile or WMS layer than as features in the browser
+export const MAX_REMOTE_FEATURES = 50000;
+const DEFAULT_PAGE_SIZE = 1000;
+
+const LAYER_URL_PATTERN = /\/(FeatureServer|MapServer)\/\d+$/i;
+const SERVICE_URL_PATTERN = /\/(FeatureServer|MapServer)$/i;
+
+const normalizeUrl = (url: string) => url.trim().replace(/\?.*$/, '').replace(/\/+$/, '').replace(/\/query$/i, '');
+
+// ArcGIS reports most failures as HTTP 200 with an "error" object
+const requestJson = async <T>(url: string, params: Record<string, string>): Promise<T> => {
+    let response: Response;
+    try {
+        // POST keeps long object id lists out of the URL
+        response = await fetch(url, { method: 'POST', body: new URLSearchParams({ ...params, f: params.f || 'json' }) });
+    } catch {
+        throw new ArcGisError(`Could not reach ${url}. Check the address and that the server allows cross-origin requests.`);
+    }
+    if (!response.ok) throw new ArcGisError(`The server answered HTTP ${response.status} for ${url}.`);
+    const json: unknown = await response.json().catch(() => null);
+    if (!json || typeof json !== 'object') throw new ArcGisError(`${url} did not return JSON.`);
+    const { error } = json as ArcGisErrorJson;
+    if (error) throw new ArcGisError(`The server reported an error: ${error.message || error.code}${error.details?.length ? ` (${error.details.join('; ')})` : ''}`);
+    return json as T;
+};
+
+// The queryable layers behind a service URL, or the single layer a layer URL points at
+export const fetchArcGisLayers = async (serviceUrl: string): Promise<ArcGisLayerInfo[]> => {
+    const url = normalizeUrl(serviceUrl);
+    if (LAYER_URL_PATTERN.test(url)) {
+        const info = await requestJson<ArcGisLayerJson>(url, {});
+        return [{ id: info.id, name: info.name, url, geometryType: info.geometryType }];
+    }
+    if (!SERVICE_URL_PATTERN.test(url)) throw new ArcGisError('Enter the URL of a FeatureServer or MapServer, or of one of its layers.');
+    const info = await requestJson<ArcGisServiceJson>(url, {});
+    // Group layers only organise the layers under them and can't be queried
+    return (info.layers || [])
+        .filter(layer => !layer.subLayerIds?.length && layer.type !== 'Group Layer')
+        .map(layer => ({ id: layer.id, name: layer.name, url: `${url}/${layer.id}`, geometryType: layer.geometryType }));
+};
+
+// --- Esri JSON geometry, for servers too old to answer in GeoJSON ---
+
+// Esri outer rings run clockwise, holes counter-clockwise
+const isClockwise = (ring: Position[]) => ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + (x2 - x1) * (y2 + y1);
+}, 0) > 0;
+
+const esriGeometryToGeoJson = (geometry: EsriGeometry | null | undefined): Geometry | null => {
+    if (!geometry) return null;
+    if (typeof geometry.x === 'number' && typeof geometry.y === 'number') return { type: 'Point', coordinates: [geometry.x, geometry.y] };
+    if (Array.isArray(geometry.points)) return { type: 'MultiPoint', coordinates: geometry.points };
+    if (Array.isArray(geometry.paths)) {
+        return geometry.paths.length === 1
+            ? { type: 'LineString', coordinates: geometry.paths[0] }
+            : { type: 'MultiLineString', coordinates: geometry.paths };
+    }
+    if (Array.isArray(geometry.rings)) {
+        const polygons: Position[][][] = [];
+        const holes: Position[][] = [];
+        geometry.rings.forEach(ring => (isClockwise(ring) ? polygons.push([ring]) : holes.push(ring)));
+        holes.forEach(hole => {
+            const owner = polygons.find(p => booleanPointInPolygon(hole[0], { type: 'Polygon', coordinates: [p[0]] })) || polygons[polygons.length - 1];
+            // A lone counter-clockwise ring is a wrongly wound outer ring rather than a hole
+            if (owner) owner.push(hole);
+            else polygons.push([[...hole].reverse()]);
+        });
+        return polygons.length === 1 ? { type: 'Polygon', coordinates: polygons[0] } : { type: 'MultiPolygon', coordinates: polygons };
+    }
+    return null;
+};
+
+const toFeatures = (json: ArcGisQueryJson): Feature[] => isGeoJsonQueryJson(json)
+    ? json.features
+    : (json.features || []).map((f): Feature => ({ type: 'Feature', properties: f.attributes || {}, geometry: esriGeometryToGeoJson(f.geometry) as Geometry }));
+
+// GeoJSON responses report the limit inside "properties" on some server versions
+const exceededLimit = (json: ArcGisQueryJson) =>
+    !!(json.exceededTransferLimit || (isGeoJsonQueryJson(json) && json.properties?.exceededTransferLimit));
+
+// Fetches every feature matching `where`, in pages of the server's maximum record count. Servers that can't page
+// by offset are asked for the matching object ids first and then queried by id.
+export const queryArcGisLayer = async (source: RemoteLayerSource, onProgress?: (count: number) => void): Promise<ArcGisQueryResult> => {
+    const url = normalizeUrl(source.url);
+    if (!LAYER_URL_PATTERN.test(url)) throw new ArcGisError('Enter the URL of a FeatureServer or MapServer layer, ending in its layer number.');
+    const info = await requestJson<ArcGisLayerJson>(url, {});
+    const idField = info.objectIdField || info.fields?.find(f => f.type === 'esriFieldTypeOID')?.name || 'OBJECTID';
+    const pageSize = Math.min(info.maxRecordCount || DEFAULT_PAGE_SIZE, DEFAULT_PAGE_SIZE * 2);
+    const format = String(info.supportedQueryFormats || '').toLowerCase().includes('geojson') ? 'geojson' : 'json';
+    const where = source.where.trim() || DEFAULT_WHERE;
+    const query = (params: Record<string, string>) => requestJson<ArcGisQueryJson>(`${url}/query`, { where, outFields: '*', outSR: '4326', returnGeometry: 'true', f: format, ...params });
+
+    const features: Feature[] = [];
+    const addPage = (page: Feature[]) => {
+        features.push(...page);
+        if (features.length > MAX_REMOTE_FEATURES) {
+            throw new ArcGisError(`The query returns more than ${MAX_REMOTE_FEATURES.toLocaleString()} features; narrow it down with a where clause.`);
+        }
+        onProgress?.(features.length);
+    };
+
+    if (info.advancedQueryCapabilities?.supportsPagination) {
+        for (;;) {
+            const json = await query({ resultOffset: String(features.length), resultRecordCount: String(pageSize), orderByFields: idField });
+            const page = toFeatures(json);
+            addPage(page);
+            if (!exceededLimit(json) || page.length === 0) break;
+        }
+    } else {
+        const { objectIds } = await requestJson<ArcGisIdsJson>(`${url}/query`, { where, returnIdsOnly: 'true' });
+        const ids = [...(objectIds || [])].sort((a, b) => a - b);
+        if (ids.length > MAX_REMOTE_FEATURES) {
+            throw new ArcGisError(`The query returns more than ${MAX_REMOTE_FEATURES.toLocaleString()} features; narrow it down with a where clause.`);
+        }
+        for (let i = 0; i < ids.length; i += pageSize) {
+            addPage(toFeatures(await query({ objectIds: ids.slice(i, i + pageSize).join(',') })));
+        }
+    }
+
+    return { name: info.name || url.split('/').slice(-3).join(' '), data: { type: 'FeatureCollection', features }, idField };
+};
@@ -0,0 +1,167 @@
+import type { Feature } from 'geojson';
+import type { AuditAction, AuditEntry, AuditFieldChange, GeoJsonLayer } from '../types';
+import { getFeatureDisplayName } from '../utils';
+import { getFeatureId } from './featureIdService';
+import { downloadBlob, formatCsvValue, geometryToWkt } from './exportService';
+
+export const GEOMETRY_FIELD = '(geometry)';
+export const UNKNOWN_AUDIT_USER = 'Anonymous';
+
+const DB_NAME = 'geoasset-audit';
+const STORE_NAME = 'entries';
+const USER_STORAGE_KEY = 'auditUser';
+
+export const AUDIT_ACTIONS: Record<AuditAction, { label: string; icon: string; color: string }> = {
+    created: { label: 'Created', icon: 'add_circle', color: '#16a34a' },
+    updated: { label: 'Edited', icon: 'edit', color: '#2563eb' },
+    deleted: { label: 'Deleted', icon: 'delete', color: '#dc2626' },
+    reverted: { label: 'Reverted', icon: 'history', color: '#7c3aed' },
+};
+
+// Where the audit log is kept. Entries can be added but never changed or removed; a server-backed log can be
+// swapped in with setAuditStore.
+export interface AuditStore {
+    load: () => Promise<AuditEntry[]>;
+    append: (entries: AuditEntry[]) => Promise<void>;
+}
+
+export class AuditError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuditError';
+    }
+}
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDbAuditStore = (): AuditStore => ({
+    load: async () => {
+        const db = await openDatabase();
+        try {
+            const entries = await new Promise<AuditEntry[]>((resolve, reject) => {
+                const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            return entries.sort((a, b) => a.at.localeCompare(b.at) || a.id.localeCompare(b.id));
+        } finally {
+            db.close();
+        }
+    },
+    append: async (entries) => {
+        const db = await openDatabase();
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const transaction = db.transaction(STORE_NAME, 'readwrite');
+                // add() rather than put(), so an existing entry can't be overwritten
+                entries.forEach(entry => transaction.objectStore(STORE_NAME).add(entry));
+                transaction.oncomplete = () => resolve();
+                transaction.onerror = () => reject(transaction.error);
+            });
+        } finally {
+            db.close();
+        }
+    },
+});
+
+let store: AuditStore = createIndexedDbAuditStore();
+
+export const setAuditStore = (next: AuditStore) => {
+    store = next;
+};
+
+export const loadAuditLog = (): Promise<AuditEntry[]> => store.load();
+export const appendAuditEntries = (entries: AuditEntry[]): Promise<void> => entries.length > 0 ? store.append(entries) : Promise.resolve();
+
+// The name recorded against changes made in this browser
+export const getAuditUser = (): string => localStorage.getItem(USER_STORAGE_KEY) || '';
+export const setAuditUser = (name: string) => {
+    if (name.trim()) localStorage.setItem(USER_STORAGE_KEY, name.trim());
+    else localStorage.removeItem(USER_STORAGE_KEY);
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Property and geometry differences between two versions of a feature; either side may be missing
+export const diffFeatures = (before: Feature | null, after: Feature | null): AuditFieldChange[] => {
+    const beforeProps = before?.properties || {};
+    const afterProps = after?.properties || {};
+    const fields = Array.from(new Set([...Object.keys(beforeProps), ...Object.keys(afterProps)]));
+    const changes = fields
+        .filter(field => !sameValue(beforeProps[field], afterProps[field]))
+        .map(field => ({ field, before: beforeProps[field] ?? null, after: afterProps[field] ?? null }));
+    if (!sameValue(before?.geometry, after?.geometry)) {
+        changes.push({ field: GEOMETRY_FIELD, before: before?.geometry ?? null, after: after?.geometry ?? null });
+    }
+    return changes;
+};
+
+let sequence = 0;
+
+// Builds the entry for one feature going from `before` to `after` (null for created or deleted features).
+// Returns null when nothing actually changed.
+export const createAuditEntry = (
+    layer: Pick<GeoJsonLayer, 'id' | 'name' | 'labelTemplate' | 'displayNameField' | 'idField'>,
+    before: Feature | null,
+    after: Feature | null,
+    action?: AuditAction,
+): AuditEntry | null => {
+    const feature = after || before;
+    if (!feature) throw new AuditError('An audit entry needs the feature before or after the change.');
+    const changes = diffFeatures(before, after);
+    if (changes.length === 0) return null;
+    const at = new Date().toISOString();
+    return {
+        id: `audit-${Date.now()}-${String(sequence++).padStart(6, '0')}`,
+        layerId: layer.id,
+        layerName: layer.name,
+        featureId: getFeatureId(feature),
+        featureName: getFeatureDisplayName(feature, layer),
+        action: action || (!before ? 'created' : !after ? 'deleted' : 'updated'),
+        user: getAuditUser() || UNKNOWN_AUDIT_USER,
+        at,
+        changes,
+        before,
+        after,
+    };
+};
+
+// Oldest first
+export const getFeatureHistory = (log: AuditEntry[], layerId: string, featureId: string): AuditEntry[] =>
+    log.filter(entry => entry.layerId === layerId && entry.featureId === featureId);
+
+// Features whose latest entry is a deletion, so they can be brought back
+export const getDeletedFeatures = (log: AuditEntry[]): AuditEntry[] => {
+    const latest = new Map<string, AuditEntry>();
+    log.forEach(entry => latest.set(`${entry.layerId}:${entry.featureId}`, entry));
+    return Array.from(latest.values()).filter(entry => entry.action === 'deleted');
+};
+
+const formatAuditValue = (field: string, value: unknown) =>
+    field === GEOMETRY_FIELD ? geometryToWkt((value as Feature['geometry']) ?? null) : value;
+
+// One row per changed field; geometry is written as WKT
+export const auditLogToCsv = (log: AuditEntry[]): string => {
+    const header = ['Timestamp', 'User', 'Layer', 'Feature ID', 'Feature', 'Action', 'Field', 'Before', 'After'];
+    const rows = log.flatMap(entry => {
+        const base = [entry.at, entry.user, entry.layerName, entry.featureId, entry.featureName, AUDIT_ACTIONS[entry.action].label];
+        const changes: (AuditFieldChange | null)[] = entry.changes.length > 0 ? entry.changes : [null];
+        return changes.map(change => [
+            ...base,
+            change?.field ?? '',
+            change ? formatAuditValue(change.field, change.before) : '',
+            change ? formatAuditValue(change.field, change.after) : '',
+        ].map(formatCsvValue).join(','));
+    });
+    return '\uFEFF' + [header.join(','), ...rows].join('\r\n');
+};
+
+export const exportAuditLog = (log: AuditEntry[]) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([auditLogToCsv(log)], { type: 'text/csv;charset=utf-8' }), `audit-log-${date}.csv`);
+};
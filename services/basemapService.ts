@@ -0,0 +1,158 @@
+import type { BasemapDefinition, BasemapManifest, BasemapType } from '../types';
+import { openTileArchive, TileArchive } from './tileArchiveService';
+
+// Deployments on a closed network can point BASEMAP_MANIFEST_URL in .env.local at their own tile servers
+export const BASEMAP_MANIFEST_URL = process.env.BASEMAP_MANIFEST_URL || '/data/basemaps.json';
+
+const STORAGE_KEY = 'customBasemaps';
+
+// Used when the manifest can't be loaded
+export const DEFAULT_BASEMAPS: BasemapDefinition[] = [
+    {
+        id: 'street',
+        name: 'Street',
+        type: 'xyz',
+        url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+        icon: 'map',
+        maxZoom: 19,
+    },
+    {
+        id: 'satellite',
+        name: 'Satellite',
+        type: 'xyz',
+        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+        attribution: 'Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community',
+        icon: 'satellite_alt',
+        maxZoom: 19,
+    },
+    {
+        id: 'topo',
+        name: 'Topographic',
+        type: 'xyz',
+        url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+        attribution: 'Map data: &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, <a href="http://viewfinderpanoramas.org">SRTM</a> | Map style: &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (<a href="https://creativecommons.org/licenses/by-sa/3.0/">CC-BY-SA</a>)',
+        icon: 'terrain',
+        maxZoom: 17,
+    },
+];
+
+export const BASEMAP_TYPES: Record<BasemapType, { label: string; icon: string }> = {
+    xyz: { label: 'XYZ tile URL', icon: 'map' },
+    tms: { label: 'TMS tile URL', icon: 'map' },
+    pmtiles: { label: 'PMTiles archive', icon: 'inventory_2' },
+    mbtiles: { label: 'MBTiles archive', icon: 'inventory_2' },
+};
+
+export class BasemapError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BasemapError';
+    }
+}
+
+export const isArchiveBasemap = (basemap: BasemapDefinition) => basemap.type === 'mbtiles' || basemap.type === 'pmtiles';
+
+// Throws when a URL basemap can't work, e.g. a template without {z}/{x}/{y}
+export const validateBasemap = (basemap: BasemapDefinition) => {
+    if (!basemap.id || !basemap.name) throw new BasemapError('A basemap needs an id and a name.');
+    if (!(basemap.type in BASEMAP_TYPES)) throw new BasemapError(`Basemap "${basemap.name}" has unknown type "${basemap.type}".`);
+    if (basemap.type === 'xyz' || basemap.type === 'tms') {
+        if (!basemap.url || !/\{z\}/.test(basemap.url) || !/\{x\}/.test(basemap.url) || !/\{-?y\}/.test(basemap.url)) {
+            throw new BasemapError(`The URL of basemap "${basemap.name}" must contain {z}, {x} and {y}.`);
+        }
+    }
+    if (basemap.type === 'mbtiles' && basemap.url) throw new BasemapError('MBTiles basemaps can only be opened from a file.');
+};
+
+const isBasemapObject = (value: unknown): value is BasemapDefinition => !!value && typeof value === 'object';
+
+const validateManifest = (json: unknown): BasemapManifest => {
+    const basemaps = json && typeof json === 'object' && 'basemaps' in json ? json.basemaps : null;
+    if (!Array.isArray(basemaps) || basemaps.length === 0) {
+        throw new BasemapError('Basemap manifest must be an object with a non-empty "basemaps" array');
+    }
+    const ids = new Set<string>();
+    basemaps.forEach((basemap: unknown, idx: number) => {
+        if (!isBasemapObject(basemap)) throw new BasemapError(`Basemap entry at index ${idx} is not an object`);
+        validateBasemap(basemap);
+        if (ids.has(basemap.id)) throw new BasemapError(`Basemap id "${basemap.id}" is used twice`);
+        ids.add(basemap.id);
+    });
+    return { basemaps };
+};
+
+// Tile servers added in the basemap manager. Archives opened from disk aren't kept, as files can't be reopened
+// without the user picking them again.
+export const loadCustomBasemaps = (): BasemapDefinition[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(saved) ? saved.filter(b => b?.url && b.type !== 'mbtiles') : [];
+    } catch {
+        return [];
+    }
+};
+
+export const storeCustomBasemaps = (basemaps: BasemapDefinition[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(basemaps.filter(b => b.url)));
+};
+
+// The manifest's basemaps; falls back to the public defaults when it is missing or invalid
+export const loadBasemapRegistry = async (manifestUrl: string = BASEMAP_MANIFEST_URL): Promise<BasemapDefinition[]> => {
+    try {
+        const response = await fetch(manifestUrl);
+        if (!response.ok) throw new BasemapError(`Failed to fetch basemap manifest from ${manifestUrl}`);
+        return validateManifest(await response.json()).basemaps;
+    } catch (error) {
+        console.error(error);
+        return DEFAULT_BASEMAPS;
+    }
+};
+
+// Same substitutions as Leaflet's TileLayer, so cached and printed tiles use the exact URLs the map requests
+export const formatTileUrl = (basemap: BasemapDefinition, x: number, y: number, z: number): string => {
+    const subdomains = basemap.subdomains || 'abc';
+    const flippedY = 2 ** z - 1 - y;
+    return (basemap.url || '')
+        .replace('{s}', subdomains[Math.abs(x + y) % subdomains.length])
+        .replace('{z}', String(z))
+        .replace('{x}', String(x))
+        .replace('{-y}', String(flippedY))
+        .replace('{y}', String(basemap.type === 'tms' ? flippedY : y))
+        .replace('{r}', '');
+};
+
+const archives = new Map<string, Promise<TileArchive>>();
+
+// Opens a tile archive picked from disk and describes it as a basemap; it stays available until the page reloads
+export const openBasemapFile = async (file: File): Promise<BasemapDefinition> => {
+    const archive = await openTileArchive(file);
+    const id = `file-${Date.now()}`;
+    archives.set(id, Promise.resolve(archive));
+    return {
+        id,
+        name: archive.name || file.name.replace(/\.(mbtiles|pmtiles)$/i, ''),
+        type: archive.format,
+        attribution: archive.attribution || file.name,
+        icon: BASEMAP_TYPES[archive.format].icon,
+        minZoom: archive.minZoom,
+        maxZoom: archive.maxZoom,
+    };
+};
+
+export const getBasemapArchive = (basemap: BasemapDefinition): Promise<TileArchive> => {
+    const archive = archives.get(basemap.id);
+    if (archive) return archive;
+    if (basemap.type !== 'pmtiles' || !basemap.url) {
+        return Promise.reject(new BasemapError(`The file for basemap "${basemap.name}" is no longer open; add it again.`));
+    }
+    const opened = openTileArchive(basemap.url);
+    archives.set(basemap.id, opened);
+    // A failed open is retried next time rather than remembered
+    opened.catch(() => archives.delete(basemap.id));
+    return opened;
+};
+
+export const closeBasemapArchive = (id: string) => {
+    archives.delete(id);
+};
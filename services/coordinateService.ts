@@ -0,0 +1,162 @@
+import { getProjection, listProjections, Projection } from './projectionService';
+
+// Shows positions as text in the formats surveyors quote them in, and reads them back: decimal degrees,
+// degrees-minutes-seconds, or x/y in any registered projection.
+
+// 'dd', 'dms', or the code of a projected system such as "EPSG:32644"
+export type CoordinateFormat = string;
+
+export interface CoordinateFormatOption {
+    id: CoordinateFormat;
+    label: string;
+}
+
+export interface ParsedCoordinate {
+    lat: number;
+    lng: number;
+    // How the text was read, e.g. "Degrees, minutes, seconds"
+    interpretation: string;
+}
+
+export class CoordinateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CoordinateError';
+    }
+}
+
+export const DEFAULT_COORDINATE_FORMAT: CoordinateFormat = 'dd';
+// Bare x/y pairs that are too large to be degrees are read in this system, unless another is given
+const DEFAULT_GRID_CODE = 'EPSG:32644';
+
+export const getCoordinateFormats = (): CoordinateFormatOption[] => [
+    { id: 'dd', label: 'Decimal degrees' },
+    { id: 'dms', label: 'Degrees, minutes, seconds' },
+    ...listProjections().filter(p => !p.isGeographic).map(p => ({ id: p.code, label: p.name })),
+];
+
+const formatDms = (value: number, [positive, negative]: [string, string]) => {
+    const totalSeconds = Math.round(Math.abs(value) * 36000) / 10;
+    const degrees = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds - degrees * 3600) / 60);
+    const seconds = totalSeconds - degrees * 3600 - minutes * 60;
+    return `${degrees}°${String(minutes).padStart(2, '0')}′${seconds.toFixed(1).padStart(4, '0')}″${value < 0 ? negative : positive}`;
+};
+
+const formatProjected = (lat: number, lng: number, projection: Projection) => {
+    const [x, y] = projection.fromWgs84([lng, lat]);
+    return `${projection.axes[0].charAt(0)} ${x.toFixed(2)}, ${projection.axes[1].charAt(0)} ${y.toFixed(2)}`;
+};
+
+export const formatCoordinate = (lat: number, lng: number, format: CoordinateFormat): string => {
+    if (format === 'dms') return `${formatDms(lat, ['N', 'S'])} ${formatDms(lng, ['E', 'W'])}`;
+    const projection = format === 'dd' ? null : getProjection(format);
+    if (!projection || projection.isGeographic) return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+    return formatProjected(lat, lng, projection);
+};
+
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?/g;
+
+// Splits "13°16′1″N 80°19′44″E", "13.26, 80.33" or "13 16 01 80 19 44" into its two halves
+const splitPair = (text: string): [string, string] | null => {
+    const separated = text.split(/[,;]/).map(s => s.trim()).filter(Boolean);
+    if (separated.length === 2) return [separated[0], separated[1]];
+    if (separated.length > 2) return null;
+
+    // Hemisphere letters either lead both values or follow both
+    const prefixed = text.match(/^([NSEW].*?)\s+([NSEW].+)$/i);
+    if (prefixed) return [prefixed[1], prefixed[2]];
+    const suffixed = text.match(/^(.*?\d\s*["″'′°]?\s*[NSEW])\s+(.+)$/i);
+    if (suffixed) return [suffixed[1], suffixed[2]];
+
+    const tokens = text.split(/\s+/).filter(Boolean);
+    if (tokens.length % 2 !== 0 || tokens.length > 6) return null;
+    return [tokens.slice(0, tokens.length / 2).join(' '), tokens.slice(tokens.length / 2).join(' ')];
+};
+
+interface Part {
+    value: number;
+    // 'lat' or 'lng' when a hemisphere letter says so
+    axis: 'lat' | 'lng' | null;
+    isSexagesimal: boolean;
+}
+
+const parsePart = (text: string): Part | null => {
+    const letters = text.match(/[A-Z]/gi) || [];
+    if (letters.length > 1 || (letters.length === 1 && !/^[NSEW]$/i.test(letters[0]))) return null;
+    const hemisphere = letters[0]?.toUpperCase();
+    const numbers = (text.match(NUMBER_PATTERN) || []).map(Number);
+    if (numbers.length === 0 || numbers.length > 3) return null;
+    if (numbers.slice(1).some(n => n < 0 || n >= 60)) return null;
+    const [degrees, minutes = 0, seconds = 0] = numbers;
+    const isNegative = degrees < 0 || text.trim().startsWith('-') || hemisphere === 'S' || hemisphere === 'W';
+    const value = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+    return {
+        value: isNegative ? -value : value,
+        axis: hemisphere === 'N' || hemisphere === 'S' ? 'lat' : hemisphere === 'E' || hemisphere === 'W' ? 'lng' : null,
+        isSexagesimal: numbers.length > 1 || /[°′″'"]/.test(text),
+    };
+};
+
+const fromProjected = (x: number, y: number, projection: Projection): ParsedCoordinate => {
+    const [lng, lat] = projection.toWgs84([x, y]);
+    if (!Number.isFinite(lat) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        throw new CoordinateError(`${x}, ${y} is not a valid position in ${projection.name}.`);
+    }
+    return { lat, lng, interpretation: projection.name };
+};
+
+// Two bare numbers, optionally marked E/N (easting, northing) or X/Y
+const parseGridPair = (text: string): [number, number] | null => {
+    const match = text.trim().match(/^([ENXY])?\s*(-?\d+(?:\.\d+)?)\s*([ENXY])?\s*[,;\s]\s*([ENXY])?\s*(-?\d+(?:\.\d+)?)\s*([ENXY])?$/i);
+    if (!match) return null;
+    const first = Number(match[2]);
+    const second = Number(match[5]);
+    const firstAxis = (match[1] || match[3] || '').toUpperCase();
+    return firstAxis === 'N' || firstAxis === 'Y' ? [second, first] : [first, second];
+};
+
+// Reads "13.2671, 80.3294", "13°16′01.6″N 80°19′45.8″E", "N 13 16 1.6 E 80 19 45.8", "44N 431234 1466789",
+// "EPSG:3857 8942000 1490000" and bare eastings/northings (read in gridCode, UTM 44N by default).
+// Latitude comes first unless hemisphere letters say otherwise.
+export const parseCoordinate = (input: string, gridCode: string = DEFAULT_GRID_CODE): ParsedCoordinate => {
+    const text = input.trim().replace(/[’]/g, '′').replace(/[”]/g, '″');
+    if (!text) throw new CoordinateError('Enter a coordinate.');
+
+    const withCode = text.match(/^(EPSG:\d+)\s*[,;\s]\s*(.+)$/i);
+    if (withCode) {
+        const projection = getProjection(withCode[1]);
+        if (!projection) throw new CoordinateError(`${withCode[1].toUpperCase()} is not a supported coordinate system.`);
+        const pair = parseGridPair(withCode[2]);
+        if (!pair) throw new CoordinateError(`Enter two numbers after ${withCode[1].toUpperCase()}.`);
+        return projection.isGeographic ? parseCoordinate(`${pair[1]}, ${pair[0]}`) : fromProjected(pair[0], pair[1], projection);
+    }
+
+    const withZone = text.match(/^(\d{1,2})\s*([NS])\s*[,;\s]\s*(.+)$/i);
+    const zonePair = withZone && parseGridPair(withZone[3]);
+    if (withZone && zonePair) {
+        const zone = Number(withZone[1]);
+        if (zone < 1 || zone > 60) throw new CoordinateError(`UTM zone ${zone} does not exist; zones run from 1 to 60.`);
+        return fromProjected(zonePair[0], zonePair[1], getProjection((withZone[2].toUpperCase() === 'S' ? 32700 : 32600) + zone)!);
+    }
+
+    const gridPair = parseGridPair(text);
+    if (gridPair && (Math.abs(gridPair[0]) > 360 || Math.abs(gridPair[1]) > 360)) {
+        const projection = getProjection(gridCode);
+        return fromProjected(gridPair[0], gridPair[1], projection && !projection.isGeographic ? projection : getProjection(DEFAULT_GRID_CODE)!);
+    }
+
+    const halves = splitPair(text);
+    const parts = halves?.map(parsePart);
+    if (!parts || !parts[0] || !parts[1]) {
+        throw new CoordinateError('Could not read that coordinate. Try "13.2671, 80.3294", 13°16′01.6″N 80°19′45.8″E or "44N 431234 1466789".');
+    }
+    const [first, second] = parts as [Part, Part];
+    if (first.axis && first.axis === second.axis) throw new CoordinateError('Both values are marked as the same axis.');
+    const isLngFirst = first.axis === 'lng' || second.axis === 'lat';
+    const lat = isLngFirst ? second.value : first.value;
+    const lng = isLngFirst ? first.value : second.value;
+    if (Math.abs(lat) > 90) throw new CoordinateError(`Latitude ${lat} is out of range; it must be between -90 and 90.`);
+    if (Math.abs(lng) > 180) throw new CoordinateError(`Longitude ${lng} is out of range; it must be between -180 and 180.`);
+    return { lat, lng, interpretation: first.isSexagesimal || second.isSexagesimal ? 'Degrees, minutes, seconds' : 'Decimal degrees' };
+};
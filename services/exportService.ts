@@ -0,0 +1,441 @@
+import type { Feature, Geometry, Position } from 'geojson';
+import type { FeatureLabelConfig } from '../types';
+import { centroid as turfCentroid } from '@turf/turf';
+import { getFeatureDisplayName } from '../utils';
+import { ringArea } from './importService';
+
+export type ExportFormat = 'geojson' | 'csv' | 'kml' | 'shapefile';
+export type CsvGeometryColumns = 'none' | 'wkt' | 'centroid';
+
+export const EXPORT_FORMATS: { key: ExportFormat; label: string; extension: string }[] = [
+    { key: 'geojson', label: 'GeoJSON', extension: '.geojson' },
+    { key: 'csv', label: 'CSV', extension: '.csv' },
+    { key: 'kml', label: 'KML', extension: '.kml' },
+    { key: 'shapefile', label: 'Shapefile (zip)', extension: '.zip' },
+];
+
+export interface ExportOptions {
+    format: ExportFormat;
+    csvGeometry?: CsvGeometryColumns;
+    labelConfig?: FeatureLabelConfig;
+    color?: string;
+}
+
+export class ExportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExportError';
+    }
+}
+
+const WGS84_PRJ = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const encoder = new TextEncoder();
+
+// Helper to turn a layer or selection name into a safe download file name
+export const toExportFileName = (name: string): string =>
+    name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '_') || 'export';
+
+// Collects property keys across all features, in first-seen order
+const getPropertyKeys = (features: Feature[]): string[] => {
+    const keys = new Set<string>();
+    features.forEach(f => Object.keys(f.properties || {}).forEach(k => keys.add(k)));
+    return Array.from(keys);
+};
+
+export const featuresToGeoJson = (features: Feature[]): string =>
+    JSON.stringify({ type: 'FeatureCollection', features });
+
+const formatPosition = (p: Position) => `${p[0]} ${p[1]}`;
+const formatPath = (path: Position[]) => `(${path.map(formatPosition).join(', ')})`;
+
+export const geometryToWkt = (geometry: Geometry | null): string => {
+    if (!geometry) return '';
+    switch (geometry.type) {
+        case 'Point': return `POINT (${formatPosition(geometry.coordinates)})`;
+        case 'MultiPoint': return `MULTIPOINT (${geometry.coordinates.map(p => `(${formatPosition(p)})`).join(', ')})`;
+        case 'LineString': return `LINESTRING ${formatPath(geometry.coordinates)}`;
+        case 'MultiLineString': return `MULTILINESTRING (${geometry.coordinates.map(formatPath).join(', ')})`;
+        case 'Polygon': return `POLYGON (${geometry.coordinates.map(formatPath).join(', ')})`;
+        case 'MultiPolygon': return `MULTIPOLYGON (${geometry.coordinates.map(p => `(${p.map(formatPath).join(', ')})`).join(', ')})`;
+        case 'GeometryCollection': return `GEOMETRYCOLLECTION (${geometry.geometries.map(geometryToWkt).join(', ')})`;
+        default: return '';
+    }
+};
+
+export const formatCsvValue = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const featuresToCsv = (features: Feature[], geometryColumns: CsvGeometryColumns = 'none'): string => {
+    const keys = getPropertyKeys(features);
+    const header = [...keys];
+    if (geometryColumns === 'wkt') header.push('WKT');
+    if (geometryColumns === 'centroid') header.push('Latitude', 'Longitude');
+
+    const rows = features.map(feature => {
+        const values: unknown[] = keys.map(k => feature.properties?.[k]);
+        if (geometryColumns === 'wkt') values.push(geometryToWkt(feature.geometry));
+        if (geometryColumns === 'centroid') {
+            const [lon, lat] = feature.geometry ? turfCentroid(feature).geometry.coordinates : [null, null];
+            values.push(lat, lon);
+        }
+        return values.map(formatCsvValue).join(',');
+    });
+    // The BOM makes spreadsheet apps pick UTF-8 for non-ASCII attribute values.
+    return '\uFEFF' + [header.map(formatCsvValue).join(','), ...rows].join('\r\n');
+};
+
+const escapeXml = (value: unknown) => String(value)
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const kmlCoordinates = (path: Position[]) => `<coordinates>${path.map(p => `${p[0]},${p[1]}`).join(' ')}</coordinates>`;
+
+const kmlPolygon = (rings: Position[][]) => {
+    const [outer, ...holes] = rings;
+    return `<Polygon><outerBoundaryIs><LinearRing>${kmlCoordinates(outer)}</LinearRing></outerBoundaryIs>${holes.map(h => `<innerBoundaryIs><LinearRing>${kmlCoordinates(h)}</LinearRing></innerBoundaryIs>`).join('')}</Polygon>`;
+};
+
+const geometryToKml = (geometry: Geometry): string => {
+    switch (geometry.type) {
+        case 'Point': return `<Point>${kmlCoordinates([geometry.coordinates])}</Point>`;
+        case 'MultiPoint': return `<MultiGeometry>${geometry.coordinates.map(p => `<Point>${kmlCoordinates([p])}</Point>`).join('')}</MultiGeometry>`;
+        case 'LineString': return `<LineString>${kmlCoordinates(geometry.coordinates)}</LineString>`;
+        case 'MultiLineString': return `<MultiGeometry>${geometry.coordinates.map(l => `<LineString>${kmlCoordinates(l)}</LineString>`).join('')}</MultiGeometry>`;
+        case 'Polygon': return kmlPolygon(geometry.coordinates);
+        case 'MultiPolygon': return `<MultiGeometry>${geometry.coordinates.map(kmlPolygon).join('')}</MultiGeometry>`;
+        case 'GeometryCollection': return `<MultiGeometry>${geometry.geometries.map(geometryToKml).join('')}</MultiGeometry>`;
+        default: return '';
+    }
+};
+
+// KML colors are aabbggrr
+const toKmlColor = (hex: string, alpha: string) => `${alpha}${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`;
+
+export const featuresToKml = (features: Feature[], name: string, options: Pick<ExportOptions, 'labelConfig' | 'color'> = {}): string => {
+    const style = options.color && /^#[0-9a-f]{6}$/i.test(options.color)
+        ? `<Style id="layer"><LineStyle><color>${toKmlColor(options.color, 'ff')}</color><width>2</width></LineStyle><PolyStyle><color>${toKmlColor(options.color, '80')}</color></PolyStyle></Style>`
+        : '';
+    const placemarks = features.filter(f => f.geometry).map(feature => {
+        const data = Object.entries(feature.properties || {})
+            .filter(([, value]) => value !== null && value !== undefined)
+            .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+            .join('');
+        return `<Placemark><name>${escapeXml(getFeatureDisplayName(feature, options.labelConfig))}</name>${style ? '<styleUrl>#layer</styleUrl>' : ''}<ExtendedData>${data}</ExtendedData>${geometryToKml(feature.geometry!)}</Placemark>`;
+    });
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>${escapeXml(name)}</name>${style}\n${placemarks.join('\n')}\n</Document></kml>`;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+export const crc32 = (data: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const concatBytes = (parts: Uint8Array[]) => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+// Writes an uncompressed (stored) zip archive
+export const writeZip = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const crc = crc32(file.data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, 0x0800, true); // UTF-8 file names
+        local.setUint32(14, crc, true);
+        local.setUint32(18, file.data.length, true);
+        local.setUint32(22, file.data.length, true);
+        local.setUint16(26, name.length, true);
+        localParts.push(new Uint8Array(local.buffer), name, file.data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, file.data.length, true);
+        central.setUint32(24, file.data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        centralParts.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + file.data.length;
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return concatBytes([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+};
+
+type ShapeFamily = 'points' | 'multipoints' | 'lines' | 'polygons';
+
+const SHAPE_TYPES: Record<ShapeFamily, number> = { points: 1, multipoints: 8, lines: 3, polygons: 5 };
+
+const getShapeFamily = (geometry: Geometry | null): ShapeFamily | null => {
+    switch (geometry?.type) {
+        case 'Point': return 'points';
+        case 'MultiPoint': return 'multipoints';
+        case 'LineString':
+        case 'MultiLineString': return 'lines';
+        case 'Polygon':
+        case 'MultiPolygon': return 'polygons';
+        default: return null;
+    }
+};
+
+// Shapefile parts: outer rings clockwise, holes counter-clockwise
+const getShapeParts = (geometry: Geometry): Position[][] => {
+    const orient = (ring: Position[], clockwise: boolean) => (ringArea(ring) >= 0) === clockwise ? ring : ring.slice().reverse();
+    switch (geometry.type) {
+        case 'Point': return [[geometry.coordinates]];
+        case 'MultiPoint': return [geometry.coordinates];
+        case 'LineString': return [geometry.coordinates];
+        case 'MultiLineString': return geometry.coordinates;
+        case 'Polygon': return geometry.coordinates.map((ring, i) => orient(ring, i === 0));
+        case 'MultiPolygon': return geometry.coordinates.flatMap(polygon => polygon.map((ring, i) => orient(ring, i === 0)));
+        default: return [];
+    }
+};
+
+const getExtent = (points: Position[]) => points.reduce(
+    ([minX, minY, maxX, maxY], [x, y]) => [Math.min(minX, x), Math.min(minY, y), Math.max(maxX, x), Math.max(maxY, y)],
+    [Infinity, Infinity, -Infinity, -Infinity]
+);
+
+const writeShapeRecord = (shapeType: number, parts: Position[][]): Uint8Array => {
+    const points = parts.flat();
+    if (shapeType === 1) {
+        const view = new DataView(new ArrayBuffer(20));
+        view.setInt32(0, 1, true);
+        view.setFloat64(4, points[0][0], true);
+        view.setFloat64(12, points[0][1], true);
+        return new Uint8Array(view.buffer);
+    }
+
+    const hasParts = shapeType !== 8;
+    const headerSize = hasParts ? 44 + parts.length * 4 : 40;
+    const view = new DataView(new ArrayBuffer(headerSize + points.length * 16));
+    view.setInt32(0, shapeType, true);
+    getExtent(points).forEach((value, i) => view.setFloat64(4 + i * 8, value, true));
+    if (hasParts) {
+        view.setInt32(36, parts.length, true);
+        view.setInt32(40, points.length, true);
+        let index = 0;
+        parts.forEach((part, i) => {
+            view.setInt32(44 + i * 4, index, true);
+            index += part.length;
+        });
+    } else {
+        view.setInt32(36, points.length, true);
+    }
+    points.forEach((p, i) => {
+        view.setFloat64(headerSize + i * 16, p[0], true);
+        view.setFloat64(headerSize + i * 16 + 8, p[1], true);
+    });
+    return new Uint8Array(view.buffer);
+};
+
+const writeShpAndShx = (shapeType: number, geometries: Geometry[]): { shp: Uint8Array; shx: Uint8Array } => {
+    const records = geometries.map(g => writeShapeRecord(shapeType, getShapeParts(g)));
+    const shpLength = 100 + records.reduce((sum, r) => sum + 8 + r.length, 0);
+    const shxLength = 100 + records.length * 8;
+    const extent = getExtent(geometries.flatMap(g => getShapeParts(g).flat()));
+
+    const writeHeader = (view: DataView, byteLength: number) => {
+        view.setInt32(0, 9994, false);
+        view.setInt32(24, byteLength / 2, false);
+        view.setInt32(28, 1000, true);
+        view.setInt32(32, shapeType, true);
+        extent.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+    };
+
+    const shp = new Uint8Array(shpLength);
+    const shx = new Uint8Array(shxLength);
+    const shpView = new DataView(shp.buffer);
+    const shxView = new DataView(shx.buffer);
+    writeHeader(shpView, shpLength);
+    writeHeader(shxView, shxLength);
+
+    let offset = 100;
+    records.forEach((record, i) => {
+        shxView.setInt32(100 + i * 8, offset / 2, false);
+        shxView.setInt32(104 + i * 8, record.length / 2, false);
+        shpView.setInt32(offset, i + 1, false);
+        shpView.setInt32(offset + 4, record.length / 2, false);
+        shp.set(record, offset + 8);
+        offset += 8 + record.length;
+    });
+    return { shp, shx };
+};
+
+// Truncates a string so its UTF-8 encoding fits in `maxBytes`
+const encodeWithin = (text: string, maxBytes: number) => {
+    let bytes = encoder.encode(text);
+    while (bytes.length > maxBytes) {
+        text = text.slice(0, -1);
+        bytes = encoder.encode(text);
+    }
+    return bytes;
+};
+
+interface DbfField {
+    key: string;
+    name: string;
+    type: 'N' | 'L' | 'C';
+    length: number;
+    decimals: number;
+}
+
+// Nested values are stored as JSON; field widths are measured on the same text
+const toDbfText = (value: unknown) => typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const writeDbf = (properties: Record<string, unknown>[]): Uint8Array => {
+    const keys = getPropertyKeys(properties.map(p => ({ type: 'Feature', properties: p, geometry: null })));
+    const usedNames = new Set<string>();
+    const fields = keys.map((key): DbfField => {
+        const values = properties.map(p => p[key]).filter(v => v !== null && v !== undefined && v !== '');
+        // DBF field names are at most 10 ASCII characters and must stay unique once truncated
+        const baseName = key.replace(/[^A-Za-z0-9_]/g, '_').slice(0, 10) || 'FIELD';
+        let name = baseName;
+        for (let n = 1; usedNames.has(name.toUpperCase()); n++) name = `${baseName.slice(0, 10 - String(n).length)}${n}`;
+        usedNames.add(name.toUpperCase());
+
+        if (values.length > 0 && values.every(v => typeof v === 'number' && isFinite(v))) {
+            const decimals = values.every(v => Number.isInteger(v)) ? 0 : 8;
+            return { key, name, type: 'N', length: 19, decimals };
+        }
+        if (values.length > 0 && values.every(v => typeof v === 'boolean')) {
+            return { key, name, type: 'L', length: 1, decimals: 0 };
+        }
+        const longest = values.reduce<number>((max, v) => Math.max(max, encodeWithin(toDbfText(v), 254).length), 1);
+        return { key, name, type: 'C', length: longest, decimals: 0 };
+    });
+
+    const headerLength = 32 + fields.length * 32 + 1;
+    const recordLength = 1 + fields.reduce((sum, f) => sum + f.length, 0);
+    const bytes = new Uint8Array(headerLength + properties.length * recordLength + 1).fill(0x20, headerLength);
+    const view = new DataView(bytes.buffer);
+    const today = new Date();
+
+    view.setUint8(0, 0x03);
+    view.setUint8(1, today.getFullYear() - 1900);
+    view.setUint8(2, today.getMonth() + 1);
+    view.setUint8(3, today.getDate());
+    view.setUint32(4, properties.length, true);
+    view.setUint16(8, headerLength, true);
+    view.setUint16(10, recordLength, true);
+    fields.forEach((field, i) => {
+        const offset = 32 + i * 32;
+        bytes.set(encoder.encode(field.name), offset);
+        bytes[offset + 11] = field.type.charCodeAt(0);
+        bytes[offset + 16] = field.length;
+        bytes[offset + 17] = field.decimals;
+    });
+    bytes[headerLength - 1] = 0x0d;
+
+    properties.forEach((record, r) => {
+        let offset = headerLength + r * recordLength + 1;
+        for (const field of fields) {
+            const value = record[field.key];
+            let encoded: Uint8Array | null = null;
+            if (value !== null && value !== undefined) {
+                if (field.type === 'N') {
+                    encoded = encoder.encode(Number(value).toFixed(field.decimals).slice(0, field.length).padStart(field.length, ' '));
+                } else if (field.type === 'L') {
+                    encoded = encoder.encode(value ? 'T' : 'F');
+                } else {
+                    encoded = encodeWithin(toDbfText(value), field.length);
+                }
+            } else if (field.type === 'L') {
+                encoded = encoder.encode('?');
+            }
+            if (encoded) bytes.set(encoded, offset);
+            offset += field.length;
+        }
+    });
+    bytes[bytes.length - 1] = 0x1a;
+    return bytes;
+};
+
+// Builds a zipped shapefile. Shapefiles hold a single geometry type, so mixed input yields one set of files per type.
+export const featuresToShapefileZip = (features: Feature[], baseName: string): Uint8Array => {
+    const groups = new Map<ShapeFamily, Feature[]>();
+    features.forEach(feature => {
+        const family = getShapeFamily(feature.geometry);
+        if (family) groups.set(family, [...(groups.get(family) || []), feature]);
+    });
+    if (groups.size === 0) throw new ExportError('None of the features have a geometry that can be written to a shapefile.');
+
+    const files: { name: string; data: Uint8Array }[] = [];
+    groups.forEach((groupFeatures, family) => {
+        const name = groups.size === 1 ? baseName : `${baseName}_${family}`;
+        const { shp, shx } = writeShpAndShx(SHAPE_TYPES[family], groupFeatures.map(f => f.geometry!));
+        files.push(
+            { name: `${name}.shp`, data: shp },
+            { name: `${name}.shx`, data: shx },
+            { name: `${name}.dbf`, data: writeDbf(groupFeatures.map(f => f.properties || {})) },
+            { name: `${name}.prj`, data: encoder.encode(WGS84_PRJ) },
+            { name: `${name}.cpg`, data: encoder.encode('UTF-8') },
+        );
+    });
+    return writeZip(files);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Serializes the features in the requested format and starts a download
+export const exportFeatures = (features: Feature[], name: string, options: ExportOptions) => {
+    const baseName = toExportFileName(name);
+    switch (options.format) {
+        case 'geojson':
+            downloadBlob(new Blob([featuresToGeoJson(features)], { type: 'application/geo+json' }), `${baseName}.geojson`);
+            break;
+        case 'csv':
+            downloadBlob(new Blob([featuresToCsv(features, options.csvGeometry)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+            break;
+        case 'kml':
+            downloadBlob(new Blob([featuresToKml(features, name, options)], { type: 'application/vnd.google-earth.kml+xml' }), `${baseName}.kml`);
+            break;
+        case 'shapefile':
+            downloadBlob(new Blob([featuresToShapefileZip(features, baseName)], { type: 'application/zip' }), `${baseName}.zip`);
+            break;
+    }
+};
@@ -0,0 +1,51 @@
+import type { Feature, FeatureCollection } from 'geojson';
+import type { GeoJsonLayer } from '../types';
+
+export const DEFAULT_ID_FIELD = 'fid';
+
+export const getLayerIdField = (layer: Pick<GeoJsonLayer, 'idField'>): string => layer.idField || DEFAULT_ID_FIELD;
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+// FNV-1a over the geometry, so a feature without an id gets the same one on every load
+const hashGeometry = (feature: Feature): string => {
+    const text = JSON.stringify(feature.geometry ?? null);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `g${(hash >>> 0).toString(36)}`;
+};
+
+const getOwnId = (feature: Feature, idField: string): string => {
+    const value = feature.properties?.[idField];
+    if (!isBlank(value)) return String(value).trim();
+    return isBlank(feature.id) ? hashGeometry(feature) : String(feature.id);
+};
+
+// Sets a unique GeoJSON `id` on every feature: the value of the id field where there is one, otherwise the
+// feature's own id or one derived from its geometry. Repeated ids get a numbered suffix. Ids already in
+// `taken` are avoided, which is how features added to an existing layer are kept apart from the rest.
+export const assignFeatureIds = (features: Feature[], idField: string = DEFAULT_ID_FIELD, taken: Set<string> = new Set()): Feature[] =>
+    features.map(feature => {
+        const base = getOwnId(feature, idField);
+        let id = base;
+        for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+        taken.add(id);
+        return feature.id === id ? feature : { ...feature, id };
+    });
+
+export const withFeatureIds = <T extends Pick<GeoJsonLayer, 'data' | 'idField'>>(layer: T): T => {
+    const features = assignFeatureIds(layer.data.features, getLayerIdField(layer));
+    return features.every((f, i) => f === layer.data.features[i]) ? layer : { ...layer, data: { ...layer.data, features } as FeatureCollection };
+};
+
+// The id selection, links and work orders refer to a feature by; only unique within its layer
+export const getFeatureId = (feature: Feature, idField: string = DEFAULT_ID_FIELD): string =>
+    isBlank(feature.id) ? getOwnId(feature, idField) : String(feature.id);
+
+export const isSameAsset = (a: { layerId: string; feature: Feature }, b: { layerId: string; feature: Feature }): boolean =>
+    a.layerId === b.layerId && (a.feature === b.feature || getFeatureId(a.feature) === getFeatureId(b.feature));
+
+export const getAssetKey = (layerId: string, feature: Feature): string => `${layerId}:${getFeatureId(feature)}`;
@@ -0,0 +1,110 @@
+import type { Feature } from 'geojson';
+import type { AttributeFilter, FilterClause, FilterOperator, GeoJsonLayer, SavedQuery } from '../types';
+
+const STORAGE_KEY = 'savedQueries';
+
+export const FILTER_OPERATORS: { key: FilterOperator; label: string; input: 'none' | 'single' | 'range' | 'list' }[] = [
+    { key: '=', label: '=', input: 'single' },
+    { key: '!=', label: '≠', input: 'single' },
+    { key: 'contains', label: 'contains', input: 'single' },
+    { key: 'starts_with', label: 'starts with', input: 'single' },
+    { key: '<', label: '<', input: 'single' },
+    { key: '>', label: '>', input: 'single' },
+    { key: 'between', label: 'between', input: 'range' },
+    { key: 'is_empty', label: 'is empty', input: 'none' },
+    { key: 'in_list', label: 'in list', input: 'list' },
+];
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (isBlank(value)) return null;
+    const n = Number(String(value).trim());
+    return isFinite(n) ? n : null;
+};
+
+// Compares numerically when both sides are numbers, otherwise case-insensitively as text
+const compareValues = (actual: unknown, expected: unknown): number => {
+    const a = toNumber(actual);
+    const b = toNumber(expected);
+    if (a !== null && b !== null) return a - b;
+    return String(actual).trim().toLowerCase().localeCompare(String(expected).trim().toLowerCase());
+};
+
+export const matchesClause = (feature: Feature, clause: FilterClause): boolean => {
+    const actual = feature.properties?.[clause.field];
+    if (clause.operator === 'is_empty') return isBlank(actual);
+    if (isBlank(actual)) return clause.operator === '!=';
+
+    const text = String(actual).trim().toLowerCase();
+    const expected = String(clause.value ?? '').trim().toLowerCase();
+    switch (clause.operator) {
+        case '=': return compareValues(actual, clause.value) === 0;
+        case '!=': return compareValues(actual, clause.value) !== 0;
+        case 'contains': return text.includes(expected);
+        case 'starts_with': return text.startsWith(expected);
+        case '<': return compareValues(actual, clause.value) < 0;
+        case '>': return compareValues(actual, clause.value) > 0;
+        case 'between': return compareValues(actual, clause.value) >= 0 && compareValues(actual, clause.valueTo) <= 0;
+        case 'in_list': return (clause.values || []).some(v => compareValues(actual, v) === 0);
+        default: return false;
+    }
+};
+
+export const matchesFilter = (feature: Feature, filter: AttributeFilter): boolean => {
+    if (filter.clauses.length === 0) return true;
+    return filter.combinator === 'or'
+        ? filter.clauses.some(clause => matchesClause(feature, clause))
+        : filter.clauses.every(clause => matchesClause(feature, clause));
+};
+
+export const applyFilter = (layer: GeoJsonLayer, filter: AttributeFilter): Feature[] =>
+    layer.data.features.filter(feature => matchesFilter(feature, filter));
+
+const quote = (value: unknown) => toNumber(value) !== null ? String(value) : `"${value ?? ''}"`;
+
+export const describeClause = (clause: FilterClause): string => {
+    const operator = FILTER_OPERATORS.find(o => o.key === clause.operator);
+    switch (operator?.input) {
+        case 'none': return `${clause.field} ${operator.label}`;
+        case 'range': return `${clause.field} between ${quote(clause.value)} and ${quote(clause.valueTo)}`;
+        case 'list': return `${clause.field} in (${(clause.values || []).map(quote).join(', ')})`;
+        default: return `${clause.field} ${operator?.label || clause.operator} ${quote(clause.value)}`;
+    }
+};
+
+export const describeFilter = (filter: AttributeFilter): string =>
+    filter.clauses.length === 0
+        ? 'All features'
+        : filter.clauses.map(describeClause).join(filter.combinator === 'or' ? ' OR ' : ' AND ');
+
+// Checks a filter against the layers it targets; returns human-readable problems (empty when valid)
+export const validateFilter = (filter: AttributeFilter, layers: GeoJsonLayer[]): string[] => {
+    const layer = layers.find(l => l.id === filter.layerId);
+    if (!layer) return [`Unknown layer "${filter.layerId}".`];
+    const fields = new Set<string>(layer.data.features.flatMap(f => Object.keys(f.properties || {})));
+    const problems: string[] = [];
+    filter.clauses.forEach(clause => {
+        const operator = FILTER_OPERATORS.find(o => o.key === clause.operator);
+        if (!fields.has(clause.field)) problems.push(`Layer "${layer.name}" has no field "${clause.field}".`);
+        if (!operator) problems.push(`Unsupported operator "${clause.operator}".`);
+        else if (operator.input === 'single' && isBlank(clause.value)) problems.push(`${clause.field} ${operator.label} needs a value.`);
+        else if (operator.input === 'range' && (isBlank(clause.value) || isBlank(clause.valueTo))) problems.push(`${clause.field} between needs two values.`);
+        else if (operator.input === 'list' && !(clause.values || []).length) problems.push(`${clause.field} in list needs at least one value.`);
+    });
+    return problems;
+};
+
+export const loadSavedQueries = (): SavedQuery[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(saved) ? saved : [];
+    } catch {
+        return [];
+    }
+};
+
+export const storeSavedQueries = (queries: SavedQuery[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queries));
+};
@@ -0,0 +1,235 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import type { AttributeFilter, FilterClause, FilterOperator, GeoJsonLayer } from '../types';
+import { FieldType, inferFieldType } from '../utils';
+import { FILTER_OPERATORS, validateFilter } from './filterService';
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export interface LayerSchema {
+    layerId: string;
+    layerName: string;
+    fields: { name: string; type: FieldType; sampleValues: string[] }[];
+}
+
+export interface QueryTranslation {
+    filter: AttributeFilter;
+    explanation: string;
+}
+
+// Anything that can turn a question into a filter: the Gemini API, or the offline mock below.
+export interface QueryModelProvider {
+    readonly name: string;
+    translate: (question: string, schemas: LayerSchema[]) => Promise<QueryTranslation>;
+}
+
+export class QueryTranslationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QueryTranslationError';
+    }
+}
+
+const MAX_SAMPLE_VALUES = 12;
+
+// Describes each layer's fields (with inferred types and common values) so a model can reference them by name
+export const buildLayerSchemas = (layers: GeoJsonLayer[]): LayerSchema[] => layers
+    .filter(layer => layer.data.features.length > 0)
+    .map(layer => {
+        const names = Array.from(new Set<string>(layer.data.features.flatMap(f => Object.keys(f.properties || {}))));
+        return {
+            layerId: layer.id,
+            layerName: layer.name,
+            fields: names.map(name => {
+                const values = layer.data.features.map(f => f.properties?.[name]);
+                const type = inferFieldType(values);
+                const counts = new Map<string, number>();
+                values.forEach(v => {
+                    if (v === null || v === undefined || String(v).trim() === '') return;
+                    const key = String(v).trim();
+                    counts.set(key, (counts.get(key) || 0) + 1);
+                });
+                const sampleValues = Array.from(counts.entries())
+                    .sort(([, a], [, b]) => b - a)
+                    .slice(0, MAX_SAMPLE_VALUES)
+                    .map(([value]) => value);
+                return { name, type, sampleValues };
+            }),
+        };
+    });
+
+const SYSTEM_INSTRUCTION = `You translate questions about GIS asset layers into a structured attribute filter.
+Pick the single layer the question is about, then express the conditions as clauses over that layer's fields.
+Only use field names exactly as listed. Prefer values exactly as they appear in the sample values.
+Operators: ${FILTER_OPERATORS.map(o => o.key).join(', ')}.
+Use "between" with value and valueTo, "in_list" with values, and "is_empty" without a value.
+Use combinator "and" unless the question clearly asks for alternatives.
+Write a one-sentence explanation of the filter for the user.`;
+
+const RESPONSE_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        layerId: { type: Type.STRING },
+        combinator: { type: Type.STRING, enum: ['and', 'or'] },
+        clauses: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    field: { type: Type.STRING },
+                    operator: { type: Type.STRING, enum: FILTER_OPERATORS.map(o => o.key) },
+                    value: { type: Type.STRING },
+                    valueTo: { type: Type.STRING },
+                    values: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['field', 'operator'],
+            },
+        },
+        explanation: { type: Type.STRING },
+    },
+    required: ['layerId', 'combinator', 'clauses', 'explanation'],
+};
+
+export const createGeminiQueryProvider = (apiKey: string, model = GEMINI_MODEL): QueryModelProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        name: `Gemini (${model})`,
+        translate: async (question, schemas) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: `Layers:\n${JSON.stringify(schemas)}\n\nQuestion: ${question}`,
+                config: {
+                    systemInstruction: SYSTEM_INSTRUCTION,
+                    responseMimeType: 'application/json',
+                    responseSchema: RESPONSE_SCHEMA,
+                    temperature: 0,
+                },
+            });
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(response.text || '');
+            } catch {
+                throw new QueryTranslationError('The model returned a response that is not valid JSON.');
+            }
+            if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                throw new QueryTranslationError('The model returned a response that is not a filter object.');
+            }
+            // The filter's contents are checked against the layers in translateQuestion
+            const { explanation, ...filter } = parsed as AttributeFilter & { explanation?: unknown };
+            return { filter, explanation: String(explanation || '') };
+        },
+    };
+};
+
+const STOP_VALUES = new Set(['yes', 'no', 'na', 'n/a', 'true', 'false', 'none', '']);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word (optionally plural) mention of a phrase in the lower-cased question
+const mentions = (question: string, phrase: string) =>
+    new RegExp(`(^|[^a-z0-9])${escapeRegExp(phrase.toLowerCase())}(e?s)?([^a-z0-9]|$)`).test(question);
+
+// True when every part of a field name (split on _ and case changes) starts one of the words
+const fieldMatchesWords = (field: string, words: string[]) => {
+    const parts = field.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase().split(/[_\s]+/).filter(p => p.length > 1);
+    return parts.length > 0 && parts.every(part => words.some(word => word.startsWith(part) || part.startsWith(word) && word.length >= 3));
+};
+
+// Keyword-based stand-in for a language model, used offline and in tests. Handles value mentions
+// ("RCC"), with/without yes-no fields ("without fire safety") and year/number comparisons ("after 2015").
+export const createMockQueryProvider = (): QueryModelProvider => ({
+    name: 'Offline keyword model',
+    translate: async (rawQuestion, schemas) => {
+        const question = rawQuestion.toLowerCase();
+        if (schemas.length === 0) throw new QueryTranslationError('There are no layers with data to query.');
+
+        const singular = (name: string) => name.toLowerCase().replace(/s$/, '');
+        const schema = schemas.find(s => question.includes(singular(s.layerName))) || schemas[0];
+        const clauses: FilterClause[] = [];
+        // Several conditions on one field are kept ("since 2020 or before 1990"); only exact repeats are dropped
+        const used = new Set<string>();
+        const addClause = (clause: FilterClause) => {
+            const key = JSON.stringify([clause.field, clause.operator, clause.value, clause.valueTo, clause.values]);
+            if (used.has(key)) return;
+            used.add(key);
+            clauses.push(clause);
+        };
+
+        // "with/without/no <field words>" on yes/no fields
+        const flagPattern = /\b(without|with|no|has|have|having|lacking)\s+([a-z ]+?)(?=\s+(?:and|or|that|which|were|was|built|after|before|since|in)\b|[,.?]|$)/g;
+        for (const match of question.matchAll(flagPattern)) {
+            const negative = ['without', 'no', 'lacking'].includes(match[1]);
+            const words = match[2].split(/\s+/).filter(Boolean);
+            const field = schema.fields.find(f => f.sampleValues.some(v => ['yes', 'no'].includes(v.toLowerCase())) && fieldMatchesWords(f.name, words));
+            if (!field) continue;
+            const value = field.sampleValues.find(v => v.toLowerCase() === (negative ? 'no' : 'yes')) || (negative ? 'No' : 'Yes');
+            addClause({ field: field.name, operator: '=', value });
+        }
+
+        // Category values mentioned verbatim, e.g. "RCC" or "Office"
+        for (const field of schema.fields) {
+            if (field.type !== 'category' && field.type !== 'text') continue;
+            const mentioned = field.sampleValues.filter(v => !STOP_VALUES.has(v.toLowerCase()) && v.length > 1 && isNaN(Number(v)) && mentions(question, v));
+            if (mentioned.length === 1) addClause({ field: field.name, operator: '=', value: mentioned[0] });
+            else if (mentioned.length > 1) addClause({ field: field.name, operator: 'in_list', values: mentioned });
+        }
+
+        // Numeric comparisons; years go to a year-like field, other numbers to a field named nearby
+        const numericFields = schema.fields.filter(f => f.type === 'number');
+        const yearField = numericFields.find(f => /year|yr/i.test(f.name));
+        const pickNumericField = (context: string, n: number) => {
+            const words = context.split(/\s+/).filter(Boolean);
+            const named = numericFields.find(f => fieldMatchesWords(f.name, words));
+            if (named) return named;
+            if (yearField && n >= 1800 && n <= 2100) return yearField;
+            return numericFields.find(f => /area/i.test(f.name)) || numericFields[0];
+        };
+        const between = question.match(/([a-z_ ]*?)\s*between\s+(\d+(?:\.\d+)?)\s+and\s+(\d+(?:\.\d+)?)/);
+        if (between) {
+            const field = pickNumericField(between[1], Number(between[2]));
+            if (field) addClause({ field: field.name, operator: 'between', value: between[2], valueTo: between[3] });
+        }
+        const comparisonPattern = /([a-z_ ]*?)\s*(after|since|newer than|later than|more than|greater than|over|above|at least|before|older than|earlier than|less than|under|below|at most)\s+(\d+(?:\.\d+)?)/g;
+        for (const match of question.matchAll(comparisonPattern)) {
+            const field = pickNumericField(match[1], Number(match[3]));
+            if (!field) continue;
+            const isGreater = ['after', 'since', 'newer than', 'later than', 'more than', 'greater than', 'over', 'above', 'at least'].includes(match[2]);
+            const inclusive = ['since', 'at least', 'at most'].includes(match[2]);
+            const threshold = Number(match[3]) + (inclusive ? (isGreater ? -1 : 1) : 0);
+            addClause({ field: field.name, operator: (isGreater ? '>' : '<') as FilterOperator, value: String(threshold) });
+        }
+
+        if (clauses.length === 0) {
+            throw new QueryTranslationError(`Couldn't find any ${schema.layerName} fields or values in that question. Try naming a value, e.g. "RCC" or "after 2015".`);
+        }
+        const combinator = / or /.test(question) && !/ and /.test(question) ? 'or' : 'and';
+        return {
+            filter: { layerId: schema.layerId, combinator, clauses },
+            explanation: `Matched ${clauses.length} condition${clauses.length !== 1 ? 's' : ''} on ${schema.layerName} by keyword.`,
+        };
+    },
+});
+
+// Uses Gemini when an API key is configured, otherwise the offline mock
+export const getDefaultQueryProvider = (): QueryModelProvider => {
+    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+    return apiKey ? createGeminiQueryProvider(apiKey) : createMockQueryProvider();
+};
+
+// Translates a question and checks the resulting filter against the actual layers before it is applied
+export const translateQuestion = async (provider: QueryModelProvider, question: string, layers: GeoJsonLayer[]): Promise<QueryTranslation> => {
+    const translation = await provider.translate(question, buildLayerSchemas(layers));
+    const filter: AttributeFilter = {
+        layerId: translation.filter?.layerId,
+        combinator: translation.filter?.combinator === 'or' ? 'or' : 'and',
+        clauses: (translation.filter?.clauses || []).map(c => ({
+            field: c.field,
+            operator: c.operator,
+            ...(c.value !== undefined && c.value !== null ? { value: String(c.value) } : {}),
+            ...(c.valueTo !== undefined && c.valueTo !== null ? { valueTo: String(c.valueTo) } : {}),
+            ...(c.values ? { values: c.values.map(String) } : {}),
+        })),
+    };
+    const problems = validateFilter(filter, layers);
+    if (problems.length > 0) throw new QueryTranslationError(`The generated filter can't be applied: ${problems.join(' ')}`);
+    return { filter, explanation: translation.explanation };
+};
@@ -0,0 +1,421 @@
+// Decodes GeoTIFF images (site plans, drone orthomosaics) into RGBA pixels plus their georeference, without a
+// TIFF library. Covers what survey and photogrammetry software writes: 8-bit grey, RGB(A) and palette images,
+// striped or tiled, uncompressed or LZW, Deflate, PackBits or JPEG compressed, classic or BigTIFF, with
+// internal overviews.
+
+// Maps a pixel corner (column, row) to model coordinates: X = x[0]*col + x[1]*row + x[2], likewise Y
+export interface PixelTransform {
+    x: [number, number, number];
+    y: [number, number, number];
+}
+
+export interface GeoTiffImage {
+    // Size of the decoded pixels, which may be reduced from the full image
+    width: number;
+    height: number;
+    rgba: Uint8ClampedArray;
+    // Size of the full-resolution image, which the transform refers to
+    fullWidth: number;
+    fullHeight: number;
+    transform?: PixelTransform;
+    // EPSG code of the model coordinates, when the file names one
+    epsg?: number;
+}
+
+export class GeoTiffError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GeoTiffError';
+    }
+}
+
+type TagValue = number[] | string;
+
+const TAG = {
+    NEW_SUBFILE_TYPE: 254,
+    WIDTH: 256,
+    HEIGHT: 257,
+    BITS_PER_SAMPLE: 258,
+    COMPRESSION: 259,
+    PHOTOMETRIC: 262,
+    STRIP_OFFSETS: 273,
+    SAMPLES_PER_PIXEL: 277,
+    ROWS_PER_STRIP: 278,
+    STRIP_BYTE_COUNTS: 279,
+    PLANAR_CONFIG: 284,
+    PREDICTOR: 317,
+    COLOR_MAP: 320,
+    TILE_WIDTH: 322,
+    TILE_LENGTH: 323,
+    TILE_OFFSETS: 324,
+    TILE_BYTE_COUNTS: 325,
+    EXTRA_SAMPLES: 338,
+    SAMPLE_FORMAT: 339,
+    JPEG_TABLES: 347,
+    MODEL_PIXEL_SCALE: 33550,
+    MODEL_TIEPOINT: 33922,
+    MODEL_TRANSFORMATION: 34264,
+    GEO_KEY_DIRECTORY: 34735,
+    GDAL_NODATA: 42113,
+};
+
+const GEO_KEY = { MODEL_TYPE: 1024, RASTER_TYPE: 1025, GEOGRAPHIC_TYPE: 2048, PROJECTED_TYPE: 3072 };
+const USER_DEFINED = 32767;
+const PIXEL_IS_POINT = 2;
+
+const COMPRESSION = { NONE: 1, LZW: 5, JPEG: 7, DEFLATE: 8, ADOBE_DEFLATE: 32946, PACKBITS: 32773 };
+const PHOTOMETRIC = { WHITE_IS_ZERO: 0, BLACK_IS_ZERO: 1, RGB: 2, PALETTE: 3, YCBCR: 6 };
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 16: 8, 17: 8, 18: 8 };
+const MAX_IFDS = 64;
+
+const readIfds = (view: DataView): Map<number, TagValue>[] => {
+    const byteOrder = view.getUint16(0);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) throw new GeoTiffError('This is not a TIFF file.');
+    const le = byteOrder === 0x4949;
+    const version = view.getUint16(2, le);
+    if (version !== 42 && version !== 43) throw new GeoTiffError('This is not a TIFF file.');
+    const isBig = version === 43;
+    const readOffset = (at: number) => isBig ? Number(view.getBigUint64(at, le)) : view.getUint32(at, le);
+
+    const readValue = (type: number, at: number): number => {
+        switch (type) {
+            case 1: case 2: case 7: return view.getUint8(at);
+            case 6: return view.getInt8(at);
+            case 3: return view.getUint16(at, le);
+            case 8: return view.getInt16(at, le);
+            case 4: return view.getUint32(at, le);
+            case 9: return view.getInt32(at, le);
+            case 5: return view.getUint32(at, le) / view.getUint32(at + 4, le);
+            case 10: return view.getInt32(at, le) / view.getInt32(at + 4, le);
+            case 11: return view.getFloat32(at, le);
+            case 12: return view.getFloat64(at, le);
+            case 17: return Number(view.getBigInt64(at, le));
+            default: return Number(view.getBigUint64(at, le));
+        }
+    };
+
+    const ifds: Map<number, TagValue>[] = [];
+    let offset = readOffset(isBig ? 8 : 4);
+    while (offset !== 0 && ifds.length < MAX_IFDS) {
+        if (offset + (isBig ? 8 : 2) > view.byteLength) throw new GeoTiffError('The TIFF file is truncated.');
+        const count = isBig ? Number(view.getBigUint64(offset, le)) : view.getUint16(offset, le);
+        const entrySize = isBig ? 20 : 12;
+        const first = offset + (isBig ? 8 : 2);
+        const tags = new Map<number, TagValue>();
+        for (let i = 0; i < count; i++) {
+            const entry = first + i * entrySize;
+            const tag = view.getUint16(entry, le);
+            const type = view.getUint16(entry + 2, le);
+            const size = TYPE_SIZES[type];
+            if (!size) continue;
+            const valueCount = isBig ? Number(view.getBigUint64(entry + 4, le)) : view.getUint32(entry + 4, le);
+            const inline = entry + (isBig ? 12 : 8);
+            const at = valueCount * size <= (isBig ? 8 : 4) ? inline : readOffset(inline);
+            if (at + valueCount * size > view.byteLength) continue;
+            if (type === 2) {
+                tags.set(tag, new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + at, valueCount)).replace(/\0+$/, ''));
+            } else {
+                tags.set(tag, Array.from({ length: valueCount }, (_, k) => readValue(type, at + k * size)));
+            }
+        }
+        ifds.push(tags);
+        offset = readOffset(first + count * entrySize);
+    }
+    if (ifds.length === 0) throw new GeoTiffError('The TIFF file has no images.');
+    return ifds;
+};
+
+const numbers = (tags: Map<number, TagValue>, tag: number): number[] | undefined => {
+    const value = tags.get(tag);
+    return Array.isArray(value) ? value : undefined;
+};
+const number = (tags: Map<number, TagValue>, tag: number, fallback: number) => numbers(tags, tag)?.[0] ?? fallback;
+
+// --- Decompression ---
+
+// TIFF LZW: most significant bit first, code width growing one code early
+const decodeLzw = (input: Uint8Array, expectedSize: number): Uint8Array => {
+    const prefix = new Int16Array(4096);
+    const suffix = new Uint8Array(4096);
+    const lengths = new Uint16Array(4096);
+    const firstByte = new Uint8Array(4096);
+    for (let i = 0; i < 256; i++) {
+        prefix[i] = -1;
+        suffix[i] = i;
+        lengths[i] = 1;
+        firstByte[i] = i;
+    }
+    let output = new Uint8Array(Math.max(expectedSize, 1024));
+    let outPos = 0;
+    let bitPos = 0;
+    let codeLength = 9;
+    let next = 258;
+    let previous = -1;
+
+    const readCode = () => {
+        const byte = bitPos >>> 3;
+        if (byte >= input.length) return 257;
+        const chunk = (input[byte] << 16) | ((input[byte + 1] ?? 0) << 8) | (input[byte + 2] ?? 0);
+        const code = (chunk >>> (24 - (bitPos & 7) - codeLength)) & ((1 << codeLength) - 1);
+        bitPos += codeLength;
+        return code;
+    };
+    const write = (code: number) => {
+        const length = lengths[code];
+        if (outPos + length > output.length) {
+            const grown = new Uint8Array(Math.max(output.length * 2, outPos + length));
+            grown.set(output);
+            output = grown;
+        }
+        for (let c = code, at = outPos + length - 1; c >= 0; c = prefix[c], at--) output[at] = suffix[c];
+        outPos += length;
+    };
+
+    for (;;) {
+        const code = readCode();
+        if (code === 257) break;
+        if (code === 256) {
+            codeLength = 9;
+            next = 258;
+            previous = -1;
+            continue;
+        }
+        if (previous === -1) {
+            if (code > 255) throw new GeoTiffError('The LZW data in the TIFF file is corrupt.');
+            write(code);
+            previous = code;
+            continue;
+        }
+        if (code > next) throw new GeoTiffError('The LZW data in the TIFF file is corrupt.');
+        if (next < 4096) {
+            prefix[next] = previous;
+            suffix[next] = firstByte[code === next ? previous : code];
+            lengths[next] = lengths[previous] + 1;
+            firstByte[next] = firstByte[previous];
+            next++;
+        }
+        write(code);
+        previous = code;
+        if (next + 1 >= 1 << codeLength && codeLength < 12) codeLength++;
+    }
+    return output.subarray(0, outPos);
+};
+
+const decodePackBits = (input: Uint8Array, expectedSize: number): Uint8Array => {
+    const output = new Uint8Array(expectedSize);
+    let inPos = 0;
+    let outPos = 0;
+    while (inPos < input.length && outPos < expectedSize) {
+        const header = (input[inPos++] << 24) >> 24;
+        if (header >= 0) {
+            const run = input.subarray(inPos, inPos + header + 1);
+            output.set(run.subarray(0, expectedSize - outPos), outPos);
+            inPos += header + 1;
+            outPos += run.length;
+        } else if (header !== -128) {
+            output.fill(input[inPos++], outPos, Math.min(outPos + 1 - header, expectedSize));
+            outPos += 1 - header;
+        }
+    }
+    return output;
+};
+
+const inflate = async (input: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// JPEG-compressed chunks share their tables through the JPEGTables tag; joined back together they
+// make an ordinary JPEG the browser can decode
+const decodeJpeg = async (input: Uint8Array, tables: number[] | undefined, width: number, height: number): Promise<Uint8ClampedArray> => {
+    const parts: BlobPart[] = tables && tables.length > 4
+        ? [new Uint8Array(tables.slice(0, -2)), input.subarray(2)]
+        : [input];
+    const bitmap = await createImageBitmap(new Blob(parts, { type: 'image/jpeg' }));
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d')!;
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return context.getImageData(0, 0, width, height).data;
+};
+
+// --- Georeference ---
+
+const readGeoKeys = (tags: Map<number, TagValue>): Map<number, number> => {
+    const directory = numbers(tags, TAG.GEO_KEY_DIRECTORY);
+    const keys = new Map<number, number>();
+    if (!directory) return keys;
+    for (let i = 4; i + 3 < directory.length && keys.size < directory[3]; i += 4) {
+        // Keys stored in other tags (location != 0) aren't needed here
+        if (directory[i + 1] === 0) keys.set(directory[i], directory[i + 3]);
+    }
+    return keys;
+};
+
+const readTransform = (tags: Map<number, TagValue>, geoKeys: Map<number, number>): PixelTransform | undefined => {
+    const matrix = numbers(tags, TAG.MODEL_TRANSFORMATION);
+    const tiepoint = numbers(tags, TAG.MODEL_TIEPOINT);
+    const scale = numbers(tags, TAG.MODEL_PIXEL_SCALE);
+    let transform: PixelTransform | undefined;
+    if (matrix && matrix.length >= 8) {
+        transform = { x: [matrix[0], matrix[1], matrix[3]], y: [matrix[4], matrix[5], matrix[7]] };
+    } else if (tiepoint && tiepoint.length === 6 && scale && scale.length >= 2) {
+        // A single tie point plus pixel size; several tie points are ground control points, which aren't a transform
+        const [i, j, , x, y] = tiepoint;
+        transform = { x: [scale[0], 0, x - i * scale[0]], y: [0, -scale[1], y + j * scale[1]] };
+    }
+    // Point-referenced rasters tie coordinates to pixel centres rather than corners
+    if (transform && geoKeys.get(GEO_KEY.RASTER_TYPE) === PIXEL_IS_POINT) {
+        transform.x[2] -= (transform.x[0] + transform.x[1]) / 2;
+        transform.y[2] -= (transform.y[0] + transform.y[1]) / 2;
+    }
+    return transform;
+};
+
+const readEpsg = (geoKeys: Map<number, number>): number | undefined => {
+    const projected = geoKeys.get(GEO_KEY.PROJECTED_TYPE);
+    if (projected && projected !== USER_DEFINED) return projected;
+    const geographic = geoKeys.get(GEO_KEY.GEOGRAPHIC_TYPE);
+    if (geographic && geographic !== USER_DEFINED) return geographic;
+    // Geographic without a code is all but always WGS84
+    return geoKeys.get(GEO_KEY.MODEL_TYPE) === 2 ? 4326 : undefined;
+};
+
+// --- Pixels ---
+
+// Picks the image to decode: the smallest overview still at least maxSize across, or the full image
+const pickIfd = (ifds: Map<number, TagValue>[], maxSize: number) => {
+    const main = ifds[0];
+    const overviews = ifds.slice(1).filter(tags => {
+        const type = number(tags, TAG.NEW_SUBFILE_TYPE, 0);
+        // Reduced resolution, and not a transparency mask
+        return (type & 1) === 1 && (type & 4) === 0;
+    });
+    const longSide = (tags: Map<number, TagValue>) => Math.max(number(tags, TAG.WIDTH, 0), number(tags, TAG.HEIGHT, 0));
+    const candidates = [main, ...overviews].filter(tags => longSide(tags) >= maxSize).sort((a, b) => longSide(a) - longSide(b));
+    return candidates[0] || main;
+};
+
+export const decodeGeoTiff = async (buffer: ArrayBuffer, maxSize: number): Promise<GeoTiffImage> => {
+    const view = new DataView(buffer);
+    const ifds = readIfds(view);
+    const main = ifds[0];
+    const tags = pickIfd(ifds, maxSize);
+    // Overviews may leave out tags that are the same as the main image's
+    const get = (tag: number, fallback: number) => number(tags, tag, number(main, tag, fallback));
+
+    const width = get(TAG.WIDTH, 0);
+    const height = get(TAG.HEIGHT, 0);
+    if (!width || !height) throw new GeoTiffError('The TIFF image has no size.');
+    const samples = get(TAG.SAMPLES_PER_PIXEL, 1);
+    const bits = numbers(tags, TAG.BITS_PER_SAMPLE) || numbers(main, TAG.BITS_PER_SAMPLE) || [1];
+    const compression = get(TAG.COMPRESSION, COMPRESSION.NONE);
+    const photometric = get(TAG.PHOTOMETRIC, samples >= 3 ? PHOTOMETRIC.RGB : PHOTOMETRIC.BLACK_IS_ZERO);
+    const isJpeg = compression === COMPRESSION.JPEG;
+
+    if (!isJpeg && bits.some(b => b !== 8)) {
+        throw new GeoTiffError(`Only 8-bit images can be shown; this one has ${bits[0]}-bit samples. Export it as an 8-bit RGB image first.`);
+    }
+    if (get(TAG.SAMPLE_FORMAT, 1) !== 1) throw new GeoTiffError('Only unsigned 8-bit images can be shown; this one holds elevations or other measurements.');
+    if (get(TAG.PLANAR_CONFIG, 1) !== 1) throw new GeoTiffError('Band-interleaved TIFF files are not supported. Save it with pixel interleaving.');
+    if (!isJpeg && ![PHOTOMETRIC.WHITE_IS_ZERO, PHOTOMETRIC.BLACK_IS_ZERO, PHOTOMETRIC.RGB, PHOTOMETRIC.PALETTE].includes(photometric)) {
+        throw new GeoTiffError('The TIFF image uses a colour model that is not supported (only grey, RGB and palette images are).');
+    }
+    if (!Object.values(COMPRESSION).includes(compression)) throw new GeoTiffError(`The TIFF compression (type ${compression}) is not supported.`);
+    if (get(TAG.PREDICTOR, 1) > 2) throw new GeoTiffError('The TIFF uses floating-point prediction, which is not supported.');
+
+    const isTiled = tags.has(TAG.TILE_OFFSETS);
+    const chunkWidth = isTiled ? get(TAG.TILE_WIDTH, width) : width;
+    const chunkHeight = isTiled ? get(TAG.TILE_LENGTH, height) : Math.min(get(TAG.ROWS_PER_STRIP, height), height);
+    const offsets = numbers(tags, isTiled ? TAG.TILE_OFFSETS : TAG.STRIP_OFFSETS) || [];
+    const byteCounts = numbers(tags, isTiled ? TAG.TILE_BYTE_COUNTS : TAG.STRIP_BYTE_COUNTS) || [];
+    const chunksAcross = Math.ceil(width / chunkWidth);
+    const colorMap = numbers(tags, TAG.COLOR_MAP) || numbers(main, TAG.COLOR_MAP);
+    const jpegTables = numbers(tags, TAG.JPEG_TABLES) || numbers(main, TAG.JPEG_TABLES);
+    const noDataText = tags.get(TAG.GDAL_NODATA) ?? main.get(TAG.GDAL_NODATA);
+    const noData = typeof noDataText === 'string' && noDataText.trim() !== '' ? Number(noDataText) : NaN;
+    // Orthomosaics mark the area outside the flight with a no-data value, usually black, which is shown transparent
+    const hasNoData = !isJpeg && photometric !== PHOTOMETRIC.PALETTE && !Number.isNaN(noData);
+    const hasAlpha = !isJpeg && (photometric === PHOTOMETRIC.RGB ? samples >= 4 : photometric !== PHOTOMETRIC.PALETTE && samples >= 2);
+    if (photometric === PHOTOMETRIC.PALETTE && !colorMap) throw new GeoTiffError('The palette TIFF has no colour map.');
+
+    const scale = Math.min(1, maxSize / Math.max(width, height));
+    const outWidth = Math.max(1, Math.round(width * scale));
+    const outHeight = Math.max(1, Math.round(height * scale));
+    const rgba = new Uint8ClampedArray(outWidth * outHeight * 4);
+    // Nearest-neighbour sampling, one chunk at a time so a large image is never held whole
+    const sourceCols = Array.from({ length: outWidth }, (_, x) => Math.min(width - 1, Math.floor((x + 0.5) * width / outWidth)));
+    const sourceRows = Array.from({ length: outHeight }, (_, y) => Math.min(height - 1, Math.floor((y + 0.5) * height / outHeight)));
+
+    for (let index = 0; index < offsets.length; index++) {
+        const left = (index % chunksAcross) * chunkWidth;
+        const top = Math.floor(index / chunksAcross) * chunkHeight;
+        const outCols = sourceCols.map((col, x) => [x, col - left]).filter(([, col]) => col >= 0 && col < chunkWidth && col + left < width);
+        const outRows = sourceRows.map((row, y) => [y, row - top]).filter(([, row]) => row >= 0 && row < chunkHeight);
+        if (outCols.length === 0 || outRows.length === 0) continue;
+
+        const raw = new Uint8Array(buffer, offsets[index], Math.min(byteCounts[index] ?? 0, buffer.byteLength - offsets[index]));
+        const rowsInChunk = isTiled ? chunkHeight : Math.min(chunkHeight, height - top);
+        const expectedSize = chunkWidth * rowsInChunk * samples;
+        let pixels: Uint8Array | Uint8ClampedArray;
+        let stride = samples;
+        if (isJpeg) {
+            pixels = await decodeJpeg(raw, jpegTables, chunkWidth, rowsInChunk);
+            stride = 4;
+        } else if (compression === COMPRESSION.LZW) {
+            pixels = decodeLzw(raw, expectedSize);
+        } else if (compression === COMPRESSION.DEFLATE || compression === COMPRESSION.ADOBE_DEFLATE) {
+            pixels = await inflate(raw);
+        } else if (compression === COMPRESSION.PACKBITS) {
+            pixels = decodePackBits(raw, expectedSize);
+        } else {
+            pixels = raw;
+        }
+
+        if (!isJpeg && get(TAG.PREDICTOR, 1) === 2) {
+            // Horizontal differencing: each sample is stored as the change from the pixel to its left
+            pixels = new Uint8Array(pixels);
+            for (let row = 0; row < rowsInChunk; row++) {
+                const start = row * chunkWidth * samples;
+                for (let i = start + samples; i < start + chunkWidth * samples; i++) pixels[i] = (pixels[i] + pixels[i - samples]) & 0xff;
+            }
+        }
+
+        for (const [y, row] of outRows) {
+            for (const [x, col] of outCols) {
+                const at = (row * chunkWidth + col) * stride;
+                const out = (y * outWidth + x) * 4;
+                if (at + stride > pixels.length) continue;
+                let r: number, g: number, b: number;
+                if (isJpeg || photometric === PHOTOMETRIC.RGB) {
+                    r = pixels[at]; g = pixels[at + 1]; b = pixels[at + 2];
+                } else if (photometric === PHOTOMETRIC.PALETTE) {
+                    const entry = pixels[at];
+                    const size = colorMap!.length / 3;
+                    r = colorMap![entry] >> 8; g = colorMap![size + entry] >> 8; b = colorMap![2 * size + entry] >> 8;
+                } else {
+                    r = g = b = photometric === PHOTOMETRIC.WHITE_IS_ZERO ? 255 - pixels[at] : pixels[at];
+                }
+                const isNoData = hasNoData && pixels[at] === noData
+                    && (photometric !== PHOTOMETRIC.RGB || (pixels[at + 1] === noData && pixels[at + 2] === noData));
+                rgba[out] = r;
+                rgba[out + 1] = g;
+                rgba[out + 2] = b;
+                rgba[out + 3] = isNoData ? 0 : hasAlpha ? pixels[at + samples - 1] : 255;
+            }
+        }
+    }
+
+    const geoKeys = readGeoKeys(main);
+    return {
+        width: outWidth,
+        height: outHeight,
+        rgba,
+        fullWidth: number(main, TAG.WIDTH, width),
+        fullHeight: number(main, TAG.HEIGHT, height),
+        transform: readTransform(main, geoKeys),
+        epsg: readEpsg(geoKeys),
+    };
+};
@@ -0,0 +1,141 @@
+import type { Feature, Geometry, LineString, MultiLineString, MultiPolygon, Polygon, Position } from 'geojson';
+import { area as turfArea, length as turfLength, polygonToLine, booleanPointInPolygon } from '@turf/turf';
+
+// Polygons as editable rings: polygon -> ring -> vertex, without the closing vertex.
+export type EditRings = Position[][][];
+
+export const isPolygonFeature = (feature: Feature): feature is Feature<Polygon | MultiPolygon> =>
+    feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon';
+
+const openRing = (ring: Position[]) => {
+    const last = ring[ring.length - 1];
+    return ring.length > 1 && ring[0][0] === last[0] && ring[0][1] === last[1] ? ring.slice(0, -1) : ring.slice();
+};
+
+const closeRing = (ring: Position[]) => [...ring, ring[0]];
+
+export const geometryToEditRings = (geometry: Polygon | MultiPolygon): EditRings =>
+    geometry.type === 'Polygon'
+        ? [geometry.coordinates.map(openRing)]
+        : geometry.coordinates.map(polygon => polygon.map(openRing));
+
+export const editRingsToGeometry = (rings: EditRings, asMulti: boolean): Polygon | MultiPolygon => {
+    const polygons = rings.map(polygon => polygon.filter(r => r.length >= 3).map(closeRing)).filter(p => p.length > 0);
+    return asMulti || polygons.length > 1
+        ? { type: 'MultiPolygon', coordinates: polygons }
+        : { type: 'Polygon', coordinates: polygons[0] };
+};
+
+// Every vertex sequence of a geometry, used as snapping targets
+export const getLinework = (geometry: Geometry | null): Position[][] => {
+    if (!geometry) return [];
+    switch (geometry.type) {
+        case 'Point': return [[geometry.coordinates]];
+        case 'MultiPoint': return geometry.coordinates.map(p => [p]);
+        case 'LineString': return [geometry.coordinates];
+        case 'MultiLineString': return geometry.coordinates;
+        case 'Polygon': return geometry.coordinates;
+        case 'MultiPolygon': return geometry.coordinates.flat();
+        case 'GeometryCollection': return geometry.geometries.flatMap(getLinework);
+        default: return [];
+    }
+};
+
+// Recomputes the Shape_Area (m²) and Shape_Length (perimeter, m) properties after a geometry change
+export const withShapeMetrics = (feature: Feature): Feature => {
+    if (!isPolygonFeature(feature)) return feature;
+    let shapeArea = 0;
+    let shapeLength = 0;
+    try {
+        shapeArea = turfArea(feature);
+        const outline = polygonToLine(feature as Feature<Polygon | MultiPolygon>);
+        const lines: Feature<LineString | MultiLineString>[] = outline.type === 'FeatureCollection' ? outline.features : [outline];
+        shapeLength = lines.reduce((sum, line) => sum + turfLength(line, { units: 'meters' }), 0);
+    } catch (error) {
+        console.warn('Could not compute shape metrics for feature:', error);
+    }
+    return { ...feature, properties: { ...feature.properties, Shape_Area: shapeArea, Shape_Length: shapeLength } };
+};
+
+export const getNextFid = (features: Feature[]): number =>
+    features.reduce((max, f) => {
+        const fid = Number(f.properties?.fid);
+        return isFinite(fid) && fid > max ? fid : max;
+    }, 0) + 1;
+
+interface Crossing {
+    segment: number;
+    t: number;
+    edge: number;
+    u: number;
+    point: Position;
+}
+
+const intersectSegments = (p1: Position, p2: Position, q1: Position, q2: Position) => {
+    const r = [p2[0] - p1[0], p2[1] - p1[1]];
+    const s = [q2[0] - q1[0], q2[1] - q1[1]];
+    const denom = r[0] * s[1] - r[1] * s[0];
+    if (denom === 0) return null;
+    const t = ((q1[0] - p1[0]) * s[1] - (q1[1] - p1[1]) * s[0]) / denom;
+    const u = ((q1[0] - p1[0]) * r[1] - (q1[1] - p1[1]) * r[0]) / denom;
+    if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+    return { t, u, point: [p1[0] + t * r[0], p1[1] + t * r[1]] as Position };
+};
+
+// Walks the ring forward from a point on edge `fromEdge` to a point on edge `toEdge`, returning the vertices passed
+const walkRing = (ring: Position[], from: Crossing, to: Crossing): Position[] => {
+    if (from.edge === to.edge && from.u <= to.u) return [];
+    const vertices: Position[] = [];
+    let i = from.edge;
+    do {
+        i = (i + 1) % ring.length;
+        vertices.push(ring[i]);
+    } while (i !== to.edge);
+    return vertices;
+};
+
+const splitPolygonRings = (polygon: Position[][], line: Position[]): [Position[][], Position[][]] | null => {
+    const [outer, ...holes] = polygon;
+    const crossings: Crossing[] = [];
+    for (let segment = 0; segment < line.length - 1; segment++) {
+        for (let edge = 0; edge < outer.length; edge++) {
+            const hit = intersectSegments(line[segment], line[segment + 1], outer[edge], outer[(edge + 1) % outer.length]);
+            if (hit) crossings.push({ segment, edge, ...hit });
+        }
+    }
+    crossings.sort((a, b) => a.segment - b.segment || a.t - b.t);
+    if (crossings.length < 2) return null;
+
+    const [entry, exit] = crossings;
+    const path = [entry.point, ...line.slice(entry.segment + 1, exit.segment + 1), exit.point];
+    const pieceA = [...path, ...walkRing(outer, exit, entry)];
+    const pieceB = [...path.slice().reverse(), ...walkRing(outer, entry, exit)];
+    if (pieceA.length < 3 || pieceB.length < 3) return null;
+
+    const ringsA: Position[][] = [pieceA];
+    const ringsB: Position[][] = [pieceB];
+    const polygonA = { type: 'Polygon' as const, coordinates: [closeRing(pieceA)] };
+    for (const hole of holes) {
+        (booleanPointInPolygon(hole[0], polygonA) ? ringsA : ringsB).push(hole);
+    }
+    return [ringsA, ringsB];
+};
+
+// Splits a polygon feature along a polyline that crosses its outer boundary at least twice.
+// Returns the two resulting features (the first keeps the original properties), or null if the line doesn't cut it.
+export const splitPolygonFeature = (feature: Feature<Polygon | MultiPolygon>, line: Position[]): [Feature, Feature] | null => {
+    const rings = geometryToEditRings(feature.geometry);
+    const asMulti = feature.geometry.type === 'MultiPolygon';
+
+    for (let idx = 0; idx < rings.length; idx++) {
+        const result = splitPolygonRings(rings[idx], line);
+        if (!result) continue;
+        const [ringsA, ringsB] = result;
+        const otherParts = rings.filter((_, i) => i !== idx);
+        return [
+            withShapeMetrics({ ...feature, geometry: editRingsToGeometry([ringsA, ...otherParts], asMulti) }),
+            withShapeMetrics({ ...feature, geometry: editRingsToGeometry([ringsB], asMulti) }),
+        ];
+    }
+    return null;
+};
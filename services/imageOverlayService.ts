@@ -0,0 +1,286 @@
+import type { ImageCorners, RasterLayer } from '../types';
+import { decodeGeoTiff, PixelTransform } from './geoTiffService';
+import { getProjection, Projection } from './projectionService';
+
+// Loads scanned plans and orthophotos as map overlays, and works out where their corners go: from a
+// GeoTIFF's own georeference, a world file, typed-in corner coordinates or matched control points.
+
+export interface OverlayImage {
+    fileName: string;
+    // A data URL, so the image can be kept in the workspace
+    url: string;
+    mimeType: string;
+    // Full-resolution size; placement refers to these pixels even if the stored image was scaled down
+    width: number;
+    height: number;
+    // Placement read from a GeoTIFF or a world file, in the coordinate system below
+    transform?: PixelTransform;
+    projectionCode?: string;
+    // World files don't say what coordinate system they use, so theirs is a guess
+    isProjectionGuessed?: boolean;
+    warning?: string;
+}
+
+// An image being placed on the map: one just loaded, or an existing overlay (layerId) being adjusted
+export interface GeoreferenceSession {
+    image: OverlayImage;
+    corners?: ImageCorners;
+    layerId?: string;
+    opacity: number;
+}
+
+// A pixel on the image matched to where it belongs on the map
+export interface ControlPoint {
+    id: string;
+    pixel: [number, number];
+    latLng: [number, number];
+}
+
+export interface ControlPointFit {
+    corners: ImageCorners;
+    // Distance on the ground, in metres, between each point's target and where the fit puts it
+    residuals: number[];
+    rms: number;
+}
+
+export class ImageOverlayError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImageOverlayError';
+    }
+}
+
+export const IMAGE_OVERLAY_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.tif', '.tiff'];
+export const WORLD_FILE_EXTENSIONS = ['.pgw', '.pngw', '.jgw', '.jpgw', '.tfw', '.tifw', '.wld'];
+// Longest side of the stored image; larger scans and orthomosaics are scaled down to keep the workspace small
+export const MAX_OVERLAY_IMAGE_SIZE = 4096;
+export const DEFAULT_IMAGE_OPACITY = 0.7;
+// Share of the view a new image fills before it is placed
+const INITIAL_VIEW_FRACTION = 0.6;
+
+const mercator = getProjection('EPSG:3857')!;
+const extensionOf = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase();
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const loadImageElement = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new ImageOverlayError('The image could not be read. It may be damaged or in a format the browser cannot show.'));
+    image.src = url;
+});
+
+const scaledSize = (width: number, height: number) => {
+    const scale = Math.min(1, MAX_OVERLAY_IMAGE_SIZE / Math.max(width, height));
+    return [Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale))];
+};
+
+// World files hold six lines: x and y pixel size and rotation terms, then the centre of the top-left pixel
+export const parseWorldFile = (text: string): PixelTransform => {
+    const values = text.trim().split(/\s+/).map(Number);
+    if (values.length < 6 || values.slice(0, 6).some(v => !Number.isFinite(v))) {
+        throw new ImageOverlayError('The world file should hold six numbers, one per line.');
+    }
+    const [a, d, b, e, c, f] = values;
+    return { x: [a, b, c - a / 2 - b / 2], y: [d, e, f - d / 2 - e / 2] };
+};
+
+// Degrees for values that fit, the port's UTM zone for typical eastings and northings, otherwise Web Mercator
+export const guessProjectionCode = (transform: PixelTransform): string => {
+    const [x, y] = [transform.x[2], transform.y[2]];
+    if (Math.abs(x) <= 180 && Math.abs(y) <= 90) return 'EPSG:4326';
+    if (x > 100000 && x < 900000 && y >= 0 && y < 10000000) return 'EPSG:32644';
+    return 'EPSG:3857';
+};
+
+const applyTransform = (t: PixelTransform, [col, row]: [number, number]): [number, number] =>
+    [t.x[0] * col + t.x[1] * row + t.x[2], t.y[0] * col + t.y[1] * row + t.y[2]];
+
+export const transformToCorners = (transform: PixelTransform, [width, height]: [number, number], projection: Projection): ImageCorners => {
+    const corner = (pixel: [number, number]): [number, number] => {
+        const [lng, lat] = projection.toWgs84(applyTransform(transform, pixel));
+        return [lat, lng];
+    };
+    return [corner([0, 0]), corner([width, 0]), corner([0, height])];
+};
+
+// The image's pixel-to-projected transform implied by its corners. In Web Mercator this is exactly how the map
+// draws the image.
+const cornersToTransform = (corners: ImageCorners, [width, height]: [number, number], projection = mercator): PixelTransform => {
+    const [topLeft, topRight, bottomLeft] = corners.map(([lat, lng]) => projection.fromWgs84([lng, lat]));
+    return {
+        x: [(topRight[0] - topLeft[0]) / width, (bottomLeft[0] - topLeft[0]) / height, topLeft[0]],
+        y: [(topRight[1] - topLeft[1]) / width, (bottomLeft[1] - topLeft[1]) / height, topLeft[1]],
+    };
+};
+
+export const pixelToLatLng = (corners: ImageCorners, size: [number, number], pixel: [number, number]): [number, number] => {
+    const [lng, lat] = mercator.toWgs84(applyTransform(cornersToTransform(corners, size), pixel));
+    return [lat, lng];
+};
+
+export const latLngToPixel = (corners: ImageCorners, size: [number, number], [lat, lng]: [number, number]): [number, number] => {
+    const t = cornersToTransform(corners, size);
+    const [x, y] = mercator.fromWgs84([lng, lat]);
+    const det = t.x[0] * t.y[1] - t.x[1] * t.y[0];
+    const dx = x - t.x[2];
+    const dy = y - t.y[2];
+    return [(dx * t.y[1] - dy * t.x[1]) / det, (t.x[0] * dy - t.y[0] * dx) / det];
+};
+
+// Centres the image in the view, upright, at a size that leaves the map around it visible
+export const fitCornersToView = ([width, height]: [number, number], bounds: [[number, number], [number, number]]): ImageCorners => {
+    const [[south, west], [north, east]] = bounds;
+    const [minX, minY] = mercator.fromWgs84([west, south]);
+    const [maxX, maxY] = mercator.fromWgs84([east, north]);
+    const pixelSize = Math.min((maxX - minX) / width, (maxY - minY) / height) * INITIAL_VIEW_FRACTION;
+    const left = (minX + maxX) / 2 - width * pixelSize / 2;
+    const top = (minY + maxY) / 2 + height * pixelSize / 2;
+    return transformToCorners({ x: [pixelSize, 0, left], y: [0, -pixelSize, top] }, [width, height], mercator);
+};
+
+// One point moves the image, two also rotate and scale it, three or more give a least-squares affine fit that can
+// stretch and shear a distorted scan. Fitting is done in the local UTM zone: unlike Web Mercator it keeps shapes
+// true, which a two-point fit relies on, and its units are metres on the ground.
+export const fitControlPoints = (points: ControlPoint[], size: [number, number], current: ImageCorners): ControlPointFit => {
+    if (points.length === 0) throw new ImageOverlayError('Add at least one control point.');
+    const zone = Math.min(60, Math.floor((points[0].latLng[1] + 180) / 6) + 1);
+    const projection = getProjection(32600 + zone)!;
+    const targets = points.map(p => projection.fromWgs84([p.latLng[1], p.latLng[0]]));
+    let transform: PixelTransform;
+
+    if (points.length === 1) {
+        transform = cornersToTransform(current, size, projection);
+        const [x, y] = applyTransform(transform, points[0].pixel);
+        transform.x[2] += targets[0][0] - x;
+        transform.y[2] += targets[0][1] - y;
+    } else if (points.length === 2) {
+        // A similarity transform, worked with complex numbers; rows run down the image but northings run up
+        const [[c1, r1], [c2, r2]] = points.map(p => p.pixel);
+        const [[x1, y1], [x2, y2]] = targets;
+        const qx = c2 - c1;
+        const qy = r1 - r2;
+        const q = qx * qx + qy * qy;
+        if (q === 0) throw new ImageOverlayError('The two control points are on the same pixel.');
+        const sr = ((x2 - x1) * qx + (y2 - y1) * qy) / q;
+        const si = ((y2 - y1) * qx - (x2 - x1) * qy) / q;
+        transform = { x: [sr, si, x1 - sr * c1 - si * r1], y: [si, -sr, y1 - si * c1 + sr * r1] };
+    } else {
+        // Centred on the means so the normal equations stay well conditioned with coordinates in the millions
+        const n = points.length;
+        const meanCol = points.reduce((s, p) => s + p.pixel[0], 0) / n;
+        const meanRow = points.reduce((s, p) => s + p.pixel[1], 0) / n;
+        const meanX = targets.reduce((s, t) => s + t[0], 0) / n;
+        const meanY = targets.reduce((s, t) => s + t[1], 0) / n;
+        let scc = 0, scr = 0, srr = 0, scx = 0, srx = 0, scy = 0, sry = 0;
+        points.forEach((p, i) => {
+            const dc = p.pixel[0] - meanCol;
+            const dr = p.pixel[1] - meanRow;
+            const dx = targets[i][0] - meanX;
+            const dy = targets[i][1] - meanY;
+            scc += dc * dc; scr += dc * dr; srr += dr * dr;
+            scx += dc * dx; srx += dr * dx; scy += dc * dy; sry += dr * dy;
+        });
+        const det = scc * srr - scr * scr;
+        if (Math.abs(det) <= 1e-9 * Math.max(scc * srr, 1)) {
+            throw new ImageOverlayError('The control points lie on a line on the image. Add one off to the side.');
+        }
+        const solve = (sc: number, sr: number): [number, number] => [(sc * srr - sr * scr) / det, (sr * scc - sc * scr) / det];
+        const [a, b] = solve(scx, srx);
+        const [d, e] = solve(scy, sry);
+        transform = { x: [a, b, meanX - a * meanCol - b * meanRow], y: [d, e, meanY - d * meanCol - e * meanRow] };
+    }
+
+    const residuals = points.map((p, i) => {
+        const [x, y] = applyTransform(transform, p.pixel);
+        return Math.hypot(x - targets[i][0], y - targets[i][1]);
+    });
+    return {
+        corners: transformToCorners(transform, size, projection),
+        residuals,
+        rms: Math.sqrt(residuals.reduce((s, r) => s + r * r, 0) / residuals.length),
+    };
+};
+
+const loadGeoTiff = async (file: File): Promise<OverlayImage> => {
+    const tiff = await decodeGeoTiff(await file.arrayBuffer(), MAX_OVERLAY_IMAGE_SIZE);
+    const canvas = document.createElement('canvas');
+    canvas.width = tiff.width;
+    canvas.height = tiff.height;
+    canvas.getContext('2d')!.putImageData(new ImageData(tiff.rgba, tiff.width, tiff.height), 0, 0);
+    const image: OverlayImage = { fileName: file.name, url: canvas.toDataURL('image/png'), mimeType: 'image/png', width: tiff.fullWidth, height: tiff.fullHeight };
+    if (!tiff.transform) return image;
+    const projection = tiff.epsg ? getProjection(tiff.epsg) : getProjection(guessProjectionCode(tiff.transform));
+    if (!projection) {
+        return { ...image, warning: `The GeoTIFF is in EPSG:${tiff.epsg}, which can't be converted here. Place it by hand, or re-project it to WGS 84 or UTM first.` };
+    }
+    return { ...image, transform: tiff.transform, projectionCode: projection.code, isProjectionGuessed: !tiff.epsg };
+};
+
+const loadPicture = async (file: File): Promise<OverlayImage> => {
+    const url = await readAsDataUrl(file);
+    const element = await loadImageElement(url);
+    const { naturalWidth: width, naturalHeight: height } = element;
+    const [storedWidth, storedHeight] = scaledSize(width, height);
+    if (storedWidth === width) return { fileName: file.name, url, mimeType: file.type || 'image/png', width, height };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = storedWidth;
+    canvas.height = storedHeight;
+    canvas.getContext('2d')!.drawImage(element, 0, 0, storedWidth, storedHeight);
+    // Photos stay JPEG; PNG keeps transparency
+    const mimeType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    return { fileName: file.name, url: canvas.toDataURL(mimeType, 0.9), mimeType, width, height };
+};
+
+// Takes the chosen files: one image, optionally with its world file
+export const loadOverlayImage = async (files: File[]): Promise<OverlayImage> => {
+    const imageFile = files.find(f => IMAGE_OVERLAY_EXTENSIONS.includes(extensionOf(f.name)));
+    if (!imageFile) throw new ImageOverlayError('Choose a PNG, JPEG or GeoTIFF image, optionally with its world file.');
+    const worldFile = files.find(f => WORLD_FILE_EXTENSIONS.includes(extensionOf(f.name)));
+    const isTiff = ['.tif', '.tiff'].includes(extensionOf(imageFile.name));
+
+    let image: OverlayImage;
+    try {
+        image = isTiff ? await loadGeoTiff(imageFile) : await loadPicture(imageFile);
+    } catch (error) {
+        throw new ImageOverlayError(`${imageFile.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    // A world file next to the image takes precedence, as GIS software does
+    if (worldFile) {
+        const transform = parseWorldFile(await worldFile.text());
+        return { ...image, transform, projectionCode: guessProjectionCode(transform), isProjectionGuessed: true, warning: undefined };
+    }
+    return image;
+};
+
+export const createImageRasterLayer = (image: OverlayImage, corners: ImageCorners): RasterLayer => ({
+    id: `image-${Date.now()}`,
+    name: image.fileName.replace(/\.[^.]+$/, ''),
+    kind: 'image',
+    url: image.url,
+    layer: image.fileName,
+    format: image.mimeType,
+    opacity: DEFAULT_IMAGE_OPACITY,
+    isVisible: true,
+    corners,
+    imageSize: [image.width, image.height],
+});
+
+export const createGeoreferenceSession = (layer: RasterLayer): GeoreferenceSession => ({
+    image: {
+        fileName: layer.layer,
+        url: layer.url,
+        mimeType: layer.format,
+        width: layer.imageSize?.[0] || 1,
+        height: layer.imageSize?.[1] || 1,
+    },
+    corners: layer.corners,
+    layerId: layer.id,
+    opacity: layer.opacity,
+});
@@ -0,0 +1,434 @@
+import type { Feature, FeatureCollection, Geometry, LineString, Polygon, Position } from 'geojson';
+
+// Colors handed out to imported layers, in order, skipping ones already in use.
+export const LAYER_COLOR_PALETTE = [
+    '#3b82f6', '#a855f7', '#ec4899', '#14b8a6', '#eab308',
+    '#ef4444', '#6366f1', '#84cc16', '#06b6d4', '#f43f5e',
+];
+
+export const SUPPORTED_IMPORT_EXTENSIONS = ['.geojson', '.json', '.kml', '.zip', '.csv'];
+
+export class LayerImportError extends Error {
+    constructor(public fileName: string, message: string) {
+        super(`${fileName}: ${message}`);
+        this.name = 'LayerImportError';
+    }
+}
+
+export const getNextLayerColor = (usedColors: string[]): string => {
+    const used = new Set(usedColors.map(c => c.toLowerCase()));
+    const free = LAYER_COLOR_PALETTE.find(c => !used.has(c));
+    return free || LAYER_COLOR_PALETTE[usedColors.length % LAYER_COLOR_PALETTE.length];
+};
+
+// Returns `name` as it is, or with a " (2)", " (3)"... suffix when a layer already has it
+export const dedupeLayerName = (name: string, existingNames: string[]): string => {
+    if (!existingNames.includes(name)) return name;
+    let n = 2;
+    while (existingNames.includes(`${name} (${n})`)) n++;
+    return `${name} (${n})`;
+};
+
+// Helper to derive a layer name from a file name that doesn't clash with existing layers
+export const getUniqueLayerName = (fileName: string, existingNames: string[]): string =>
+    dedupeLayerName(fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || 'Imported Layer', existingNames);
+
+const getExtension = (fileName: string) => {
+    const match = /\.[^.]+$/.exec(fileName.toLowerCase());
+    return match ? match[0] : '';
+};
+
+// --- Validation ---
+
+const isValidPosition = (p: unknown): p is Position =>
+    Array.isArray(p) && p.length >= 2 && typeof p[0] === 'number' && typeof p[1] === 'number' && isFinite(p[0]) && isFinite(p[1]);
+
+const collectPositions = (geometry: Geometry): Position[] => {
+    if (geometry.type === 'GeometryCollection') return geometry.geometries.flatMap(collectPositions);
+    const flatten = (coords: unknown): Position[] => isValidPosition(coords) ? [coords] : (Array.isArray(coords) ? coords.flatMap(flatten) : []);
+    return flatten(geometry.coordinates);
+};
+
+const validateCollection = (fileName: string, collection: FeatureCollection): FeatureCollection => {
+    const features = collection.features.filter(f => f && f.type === 'Feature' && f.geometry && collectPositions(f.geometry).length > 0);
+    if (features.length === 0) {
+        throw new LayerImportError(fileName, 'no features with a valid geometry were found.');
+    }
+    const outOfRange = features.some(f => collectPositions(f.geometry).some(([x, y]) => Math.abs(x) > 180 || Math.abs(y) > 90));
+    if (outOfRange) {
+        throw new LayerImportError(fileName, 'coordinates are not WGS84 longitude/latitude. Re-project the data to EPSG:4326 before importing.');
+    }
+    return {
+        type: 'FeatureCollection',
+        features: features.map(f => ({ ...f, properties: f.properties || {} })),
+    };
+};
+
+// --- GeoJSON ---
+
+const parseGeoJson = (fileName: string, text: string): FeatureCollection => {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new LayerImportError(fileName, 'file is not valid JSON.');
+    }
+    // Only the outer shape is checked here; validateCollection drops features without a usable geometry
+    const type = json && typeof json === 'object' && 'type' in json ? json.type : null;
+    if (type === 'FeatureCollection' && Array.isArray((json as FeatureCollection).features)) return json as FeatureCollection;
+    if (type === 'Feature') return { type: 'FeatureCollection', features: [json as Feature] };
+    if (typeof type === 'string' && (type === 'GeometryCollection' || 'coordinates' in (json as object))) {
+        return { type: 'FeatureCollection', features: [{ type: 'Feature', properties: {}, geometry: json as Geometry }] };
+    }
+    throw new LayerImportError(fileName, 'JSON is not a GeoJSON Feature, FeatureCollection or Geometry.');
+};
+
+// --- KML ---
+
+const parseKmlCoordinates = (text: string | null | undefined): Position[] =>
+    (text || '').trim().split(/\s+/).filter(Boolean)
+        .map(tuple => tuple.split(',').map(Number))
+        .filter(isValidPosition)
+        .map(([lng, lat]) => [lng, lat]);
+
+const childrenByTag = (el: Element, tag: string) => Array.from(el.children).filter(c => c.localName === tag);
+
+const parseKmlGeometry = (el: Element): Geometry | null => {
+    switch (el.localName) {
+        case 'Point': {
+            const [coord] = parseKmlCoordinates(el.getElementsByTagName('coordinates')[0]?.textContent);
+            return coord ? { type: 'Point', coordinates: coord } : null;
+        }
+        case 'LineString':
+            return { type: 'LineString', coordinates: parseKmlCoordinates(el.getElementsByTagName('coordinates')[0]?.textContent) };
+        case 'Polygon': {
+            const ringOf = (boundary: Element) => parseKmlCoordinates(boundary.getElementsByTagName('coordinates')[0]?.textContent);
+            const outer = childrenByTag(el, 'outerBoundaryIs').map(ringOf);
+            const inner = childrenByTag(el, 'innerBoundaryIs').map(ringOf);
+            return { type: 'Polygon', coordinates: [...outer, ...inner].filter(r => r.length >= 4) };
+        }
+        case 'MultiGeometry': {
+            const parts = Array.from(el.children).map(parseKmlGeometry).filter((g): g is Geometry => !!g);
+            const polygons = parts.filter((g): g is Polygon => g.type === 'Polygon');
+            if (parts.length > 0 && polygons.length === parts.length) {
+                return { type: 'MultiPolygon', coordinates: polygons.map(p => p.coordinates) };
+            }
+            const lines = parts.filter((g): g is LineString => g.type === 'LineString');
+            if (parts.length > 0 && lines.length === parts.length) {
+                return { type: 'MultiLineString', coordinates: lines.map(p => p.coordinates) };
+            }
+            return parts.length > 0 ? { type: 'GeometryCollection', geometries: parts } : null;
+        }
+        default:
+            return null;
+    }
+};
+
+const parseKml = (fileName: string, text: string): FeatureCollection => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new LayerImportError(fileName, 'file is not valid KML/XML.');
+    }
+    const features: Feature[] = [];
+    for (const placemark of Array.from(doc.getElementsByTagName('Placemark'))) {
+        const geometryEl = Array.from(placemark.children).find(c => ['Point', 'LineString', 'Polygon', 'MultiGeometry'].includes(c.localName));
+        const geometry = geometryEl ? parseKmlGeometry(geometryEl) : null;
+        if (!geometry) continue;
+
+        const properties: Record<string, unknown> = {};
+        const name = childrenByTag(placemark, 'name')[0]?.textContent;
+        const description = childrenByTag(placemark, 'description')[0]?.textContent;
+        if (name) properties.Name = name.trim();
+        if (description) properties.description = description.trim();
+        for (const data of Array.from(placemark.getElementsByTagName('Data'))) {
+            const key = data.getAttribute('name');
+            if (key) properties[key] = data.getElementsByTagName('value')[0]?.textContent ?? '';
+        }
+        for (const data of Array.from(placemark.getElementsByTagName('SimpleData'))) {
+            const key = data.getAttribute('name');
+            if (key) properties[key] = data.textContent ?? '';
+        }
+        features.push({ type: 'Feature', properties, geometry });
+    }
+    return { type: 'FeatureCollection', features };
+};
+
+// --- CSV ---
+
+const LAT_COLUMNS = ['lat', 'latitude', 'y'];
+const LON_COLUMNS = ['lon', 'lng', 'long', 'longitude', 'x'];
+
+// Splits CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines
+export const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field); field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            if (row.some(v => v !== '')) rows.push(row);
+            row = [];
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    if (row.some(v => v !== '')) rows.push(row);
+    return rows;
+};
+
+const coerceCsvValue = (value: string): string | number => {
+    const trimmed = value.trim();
+    return trimmed !== '' && !isNaN(Number(trimmed)) ? Number(trimmed) : value;
+};
+
+// Blank cells are missing coordinates, not 0
+const toCsvCoordinate = (cell: string | undefined) => cell && cell.trim() ? Number(cell) : NaN;
+
+const parseCsv = (fileName: string, text: string): FeatureCollection => {
+    const [header, ...records] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+    if (!header) throw new LayerImportError(fileName, 'CSV file is empty.');
+
+    const lowerHeader = header.map(h => h.trim().toLowerCase());
+    const latIndex = lowerHeader.findIndex(h => LAT_COLUMNS.includes(h));
+    const lonIndex = lowerHeader.findIndex(h => LON_COLUMNS.includes(h));
+    if (latIndex === -1 || lonIndex === -1) {
+        throw new LayerImportError(fileName, `CSV needs latitude and longitude columns (e.g. "${LAT_COLUMNS[0]}" and "${LON_COLUMNS[0]}").`);
+    }
+
+    // Rows with a blank or non-numeric latitude or longitude have no position and are left out
+    const features: Feature[] = records.flatMap((record): Feature[] => {
+        const position = [toCsvCoordinate(record[lonIndex]), toCsvCoordinate(record[latIndex])];
+        if (!isValidPosition(position)) return [];
+        const properties: Record<string, unknown> = {};
+        header.forEach((key, idx) => {
+            if (idx !== latIndex && idx !== lonIndex) properties[key.trim()] = coerceCsvValue(record[idx] ?? '');
+        });
+        return [{ type: 'Feature', properties, geometry: { type: 'Point', coordinates: position } }];
+    });
+    if (features.length === 0) {
+        throw new LayerImportError(fileName, `no row has a numeric "${header[latIndex].trim()}" and "${header[lonIndex].trim()}".`);
+    }
+    return { type: 'FeatureCollection', features };
+};
+
+// --- Zipped Shapefile ---
+
+type ZipEntries = Map<string, Uint8Array>;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads a zip archive through its central directory. Supports stored and deflated entries.
+export const readZip = async (buffer: ArrayBuffer): Promise<ZipEntries> => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    let eocd = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+    }
+    if (eocd === -1) throw new Error('not a zip archive');
+
+    const entryCount = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    const entries: ZipEntries = new Map();
+    const decoder = new TextDecoder();
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('corrupt zip central directory');
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (!name.endsWith('/')) {
+            if (method === 0) entries.set(name, raw);
+            else if (method === 8) entries.set(name, await inflateRaw(raw));
+        }
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};
+
+// Positive for clockwise rings
+export const ringArea = (ring: Position[]) => {
+    let sum = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        sum += (ring[i][0] - ring[j][0]) * (ring[i][1] + ring[j][1]);
+    }
+    return sum / 2;
+};
+
+const parseShp = (buffer: ArrayBuffer): (Geometry | null)[] => {
+    const view = new DataView(buffer);
+    const geometries: (Geometry | null)[] = [];
+    let offset = 100;
+
+    const readPoints = (start: number, count: number): Position[] => {
+        const points: Position[] = [];
+        for (let i = 0; i < count; i++) {
+            points.push([view.getFloat64(start + i * 16, true), view.getFloat64(start + i * 16 + 8, true)]);
+        }
+        return points;
+    };
+
+    while (offset + 8 <= buffer.byteLength) {
+        const contentLength = view.getInt32(offset + 4, false) * 2;
+        const recordStart = offset + 8;
+        const shapeType = view.getInt32(recordStart, true);
+        const baseType = shapeType % 10;
+
+        if (shapeType === 0) {
+            geometries.push(null);
+        } else if (baseType === 1) {
+            geometries.push({ type: 'Point', coordinates: readPoints(recordStart + 4, 1)[0] });
+        } else if (baseType === 8) {
+            const numPoints = view.getInt32(recordStart + 36, true);
+            geometries.push({ type: 'MultiPoint', coordinates: readPoints(recordStart + 40, numPoints) });
+        } else if (baseType === 3 || baseType === 5) {
+            const numParts = view.getInt32(recordStart + 36, true);
+            const numPoints = view.getInt32(recordStart + 40, true);
+            const partsStart = recordStart + 44;
+            const pointsStart = partsStart + numParts * 4;
+            const parts: Position[][] = [];
+            for (let p = 0; p < numParts; p++) {
+                const from = view.getInt32(partsStart + p * 4, true);
+                const to = p + 1 < numParts ? view.getInt32(partsStart + (p + 1) * 4, true) : numPoints;
+                parts.push(readPoints(pointsStart + from * 16, to - from));
+            }
+            if (baseType === 3) {
+                geometries.push(parts.length === 1
+                    ? { type: 'LineString', coordinates: parts[0] }
+                    : { type: 'MultiLineString', coordinates: parts });
+            } else {
+                // Shapefile outer rings are clockwise, holes counter-clockwise.
+                const polygons: Position[][][] = [];
+                for (const ring of parts) {
+                    if (ringArea(ring) >= 0 || polygons.length === 0) polygons.push([ring.slice().reverse()]);
+                    else polygons[polygons.length - 1].push(ring.slice().reverse());
+                }
+                geometries.push(polygons.length === 1
+                    ? { type: 'Polygon', coordinates: polygons[0] }
+                    : { type: 'MultiPolygon', coordinates: polygons });
+            }
+        } else {
+            geometries.push(null);
+        }
+        offset = recordStart + contentLength;
+    }
+    return geometries;
+};
+
+const parseDbf = (buffer: ArrayBuffer): Record<string, unknown>[] => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const decoder = new TextDecoder('utf-8');
+    const recordCount = view.getUint32(4, true);
+    const headerLength = view.getUint16(8, true);
+    const recordLength = view.getUint16(10, true);
+
+    const fields: { name: string; type: string; length: number }[] = [];
+    for (let offset = 32; offset < headerLength - 1 && bytes[offset] !== 0x0d; offset += 32) {
+        fields.push({
+            name: decoder.decode(bytes.subarray(offset, offset + 11)).replace(/\0.*$/, ''),
+            type: String.fromCharCode(bytes[offset + 11]),
+            length: bytes[offset + 16],
+        });
+    }
+
+    const records: Record<string, unknown>[] = [];
+    for (let r = 0; r < recordCount; r++) {
+        let offset = headerLength + r * recordLength + 1;
+        const record: Record<string, unknown> = {};
+        for (const field of fields) {
+            const raw = decoder.decode(bytes.subarray(offset, offset + field.length)).trim();
+            offset += field.length;
+            if (field.type === 'N' || field.type === 'F') {
+                record[field.name] = raw === '' ? null : Number(raw);
+            } else if (field.type === 'L') {
+                record[field.name] = /^[YyTt]$/.test(raw) ? true : /^[NnFf]$/.test(raw) ? false : null;
+            } else {
+                record[field.name] = raw;
+            }
+        }
+        records.push(record);
+    }
+    return records;
+};
+
+const parseZippedShapefile = async (fileName: string, buffer: ArrayBuffer): Promise<FeatureCollection> => {
+    let entries: ZipEntries;
+    try {
+        entries = await readZip(buffer);
+    } catch (error) {
+        throw new LayerImportError(fileName, `could not read archive (${(error as Error).message}).`);
+    }
+    const findEntry = (ext: string) => Array.from(entries.entries()).find(([name]) => name.toLowerCase().endsWith(ext));
+    const shp = findEntry('.shp');
+    if (!shp) throw new LayerImportError(fileName, 'archive does not contain a .shp file.');
+    const base = shp[0].slice(0, -4).toLowerCase();
+    const dbf = Array.from(entries.entries()).find(([name]) => name.toLowerCase() === `${base}.dbf`);
+    const prj = Array.from(entries.entries()).find(([name]) => name.toLowerCase() === `${base}.prj`);
+
+    if (prj) {
+        const wkt = new TextDecoder().decode(prj[1]);
+        if (/^\s*PROJCS/i.test(wkt)) {
+            throw new LayerImportError(fileName, 'shapefile uses a projected coordinate system. Re-project it to WGS84 (EPSG:4326) before importing.');
+        }
+    }
+
+    const toArrayBuffer = (data: Uint8Array) => data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+    const geometries = parseShp(toArrayBuffer(shp[1]));
+    const records = dbf ? parseDbf(toArrayBuffer(dbf[1])) : [];
+
+    const features: Feature[] = [];
+    geometries.forEach((geometry, idx) => {
+        if (geometry) features.push({ type: 'Feature', properties: records[idx] || {}, geometry });
+    });
+    return { type: 'FeatureCollection', features };
+};
+
+// Parses a dropped or picked file into a validated FeatureCollection.
+export const parseLayerFile = async (file: File): Promise<FeatureCollection> => {
+    const ext = getExtension(file.name);
+    let collection: FeatureCollection;
+    switch (ext) {
+        case '.geojson':
+        case '.json':
+            collection = parseGeoJson(file.name, await file.text());
+            break;
+        case '.kml':
+            collection = parseKml(file.name, await file.text());
+            break;
+        case '.csv':
+            collection = parseCsv(file.name, await file.text());
+            break;
+        case '.zip':
+            collection = await parseZippedShapefile(file.name, await file.arrayBuffer());
+            break;
+        default:
+            throw new LayerImportError(file.name, `unsupported file type. Use ${SUPPORTED_IMPORT_EXTENSIONS.join(', ')}.`);
+    }
+    return validateCollection(file.name, collection);
+};
@@ -0,0 +1,85 @@
+import type { FeatureCollection } from 'geojson';
+import type { GeoJsonLayer, LayerManifest, LayerManifestEntry, LayerStyle } from '../types';
+
+// Deployments can point at their own manifest with LAYER_MANIFEST_URL in .env.local
+export const LAYER_MANIFEST_URL = process.env.LAYER_MANIFEST_URL || '/data/layers.json';
+
+export const DEFAULT_LAYER_STYLE: LayerStyle = {
+    color: '#64748b',
+    strokeOpacity: 1,
+    fillOpacity: 0.5,
+    dashArray: '',
+    weight: 2,
+};
+
+const EMPTY_COLLECTION: FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+const isManifestEntry = (value: unknown): value is LayerManifestEntry => {
+    if (!value || typeof value !== 'object') return false;
+    const entry = value as Partial<Record<keyof LayerManifestEntry, unknown>>;
+    return typeof entry.id === 'string' && typeof entry.name === 'string';
+};
+
+const validateManifest = (json: unknown): LayerManifest => {
+    const layers = json && typeof json === 'object' && 'layers' in json ? json.layers : null;
+    if (!Array.isArray(layers)) {
+        throw new Error('Layer manifest must be an object with a "layers" array');
+    }
+    const ids = new Set<string>();
+    const names = new Set<string>();
+    const entries: LayerManifestEntry[] = [];
+    layers.forEach((entry: unknown, idx: number) => {
+        if (!isManifestEntry(entry)) {
+            throw new Error(`Layer manifest entry ${idx} needs a string "id" and "name"`);
+        }
+        if (ids.has(entry.id) || names.has(entry.name)) {
+            throw new Error(`Layer manifest entry "${entry.name}" duplicates the id or name of another layer`);
+        }
+        ids.add(entry.id);
+        names.add(entry.name);
+        entries.push(entry);
+    });
+    return { layers: entries };
+};
+
+const loadLayerData = async (entry: LayerManifestEntry): Promise<FeatureCollection> => {
+    if (!entry.url) return EMPTY_COLLECTION;
+    const response = await fetch(entry.url);
+    if (!response.ok) throw new Error(`Failed to fetch data for layer "${entry.name}" from ${entry.url}`);
+    const data = await response.json();
+    if (data?.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+        throw new Error(`Data for layer "${entry.name}" is not a GeoJSON FeatureCollection`);
+    }
+    return data as FeatureCollection;
+};
+
+export const manifestEntryToLayer = (entry: LayerManifestEntry, data: FeatureCollection): GeoJsonLayer => ({
+    id: entry.id,
+    name: entry.name,
+    data,
+    isVisible: entry.visible ?? true,
+    ...DEFAULT_LAYER_STYLE,
+    ...entry.style,
+    icon: entry.icon,
+    displayNameField: entry.displayNameField,
+    labelTemplate: entry.labelTemplate,
+    idField: entry.idField,
+    statusModel: entry.statusModel,
+});
+
+// Loads the manifest and every layer it lists. A layer whose data fails to load is kept empty
+// so the rest of the catalog still comes up.
+export const loadLayerCatalog = async (manifestUrl: string = LAYER_MANIFEST_URL): Promise<GeoJsonLayer[]> => {
+    const response = await fetch(manifestUrl);
+    if (!response.ok) throw new Error(`Failed to fetch layer manifest from ${manifestUrl}`);
+    const manifest = validateManifest(await response.json());
+
+    return Promise.all(manifest.layers.map(async entry => {
+        try {
+            return manifestEntryToLayer(entry, await loadLayerData(entry));
+        } catch (error) {
+            console.error(error);
+            return manifestEntryToLayer(entry, EMPTY_COLLECTION);
+        }
+    }));
+};
@@ -0,0 +1,48 @@
+import type { GeoJsonLayer, LayerStyle } from '../types';
+
+const STORAGE_KEY = 'layerStyles';
+
+export const DASH_PRESETS: { label: string; value: string }[] = [
+    { label: 'Solid', value: '' },
+    { label: 'Dashed', value: '8, 6' },
+    { label: 'Dotted', value: '2, 6' },
+    { label: 'Dash-dot', value: '10, 5, 2, 5' },
+];
+
+export const pickLayerStyle = (layer: GeoJsonLayer): LayerStyle => ({
+    color: layer.color,
+    strokeOpacity: layer.strokeOpacity,
+    fillOpacity: layer.fillOpacity,
+    dashArray: layer.dashArray,
+    weight: layer.weight,
+    renderer: layer.renderer,
+    statusModel: layer.statusModel,
+    labelTemplate: layer.labelTemplate,
+});
+
+export const loadSavedLayerStyles = (): Record<string, Partial<LayerStyle>> => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        return saved && typeof saved === 'object' ? saved : {};
+    } catch {
+        return {};
+    }
+};
+
+export const saveLayerStyle = (layerId: string, style: LayerStyle) => {
+    const saved = loadSavedLayerStyles();
+    saved[layerId] = style;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+};
+
+export const clearSavedLayerStyle = (layerId: string) => {
+    const saved = loadSavedLayerStyles();
+    delete saved[layerId];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+};
+
+// Helper to overlay any styles saved in a previous session onto freshly loaded layers
+export const applySavedLayerStyles = (layers: GeoJsonLayer[]): GeoJsonLayer[] => {
+    const saved = loadSavedLayerStyles();
+    return layers.map(layer => saved[layer.id] ? { ...layer, ...saved[layer.id] } : layer);
+};
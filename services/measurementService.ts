@@ -0,0 +1,104 @@
+import type { Feature, FeatureCollection, LineString, Polygon, Position } from 'geojson';
+import { area as turfArea, bearing as turfBearing, distance as turfDistance } from '@turf/turf';
+
+// Saved measurements are plain GeoJSON features (LineString for distance, Polygon for area) with
+// { id, kind, name } properties, so they can go straight into the workspace or a new layer.
+
+export type MeasurementKind = 'distance' | 'area';
+
+export interface MeasurementSegment {
+    // Metres along the ground
+    length: number;
+    // Initial bearing from the segment's first vertex, in degrees clockwise from true north (0-360)
+    bearing: number;
+}
+
+export interface MeasurementSummary {
+    // Line length, or the perimeter of an area
+    length: number;
+    area: number | null;
+    segments: MeasurementSegment[];
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const getMeasurementKind = (measurement: Feature): MeasurementKind =>
+    measurement.geometry?.type === 'Polygon' ? 'area' : 'distance';
+
+// The measured vertices, without a polygon's closing vertex
+export const getMeasurementPositions = (measurement: Feature): Position[] => {
+    const geometry = measurement.geometry;
+    if (geometry?.type === 'LineString') return geometry.coordinates;
+    if (geometry?.type === 'Polygon') return geometry.coordinates[0].slice(0, -1);
+    return [];
+};
+
+export const summarizeMeasurement = (kind: MeasurementKind, positions: Position[]): MeasurementSummary => {
+    const path = kind === 'area' && positions.length > 2 ? [...positions, positions[0]] : positions;
+    const segments = path.slice(1).map((end, i) => ({
+        length: turfDistance(path[i], end, { units: 'meters' }),
+        bearing: (turfBearing(path[i], end) + 360) % 360,
+    }));
+    return {
+        length: segments.reduce((sum, s) => sum + s.length, 0),
+        area: kind === 'area' && positions.length > 2 ? turfArea({ type: 'Polygon', coordinates: [path] }) : null,
+        segments,
+    };
+};
+
+export const formatBearing = (bearing: number): string =>
+    `${bearing.toFixed(1).padStart(5, '0')}° ${COMPASS_POINTS[Math.round(bearing / 45) % 8]}`;
+
+const toGeometry = (kind: MeasurementKind, positions: Position[]): LineString | Polygon => kind === 'area'
+    ? { type: 'Polygon', coordinates: [[...positions, positions[0]]] }
+    : { type: 'LineString', coordinates: positions };
+
+export const withMeasurementPositions = (measurement: Feature, positions: Position[]): Feature => ({
+    ...measurement,
+    geometry: toGeometry(getMeasurementKind(measurement), positions),
+});
+
+const getDefaultName = (kind: MeasurementKind, existing: Feature[]) => {
+    const prefix = kind === 'area' ? 'Area' : 'Distance';
+    const count = existing.filter(m => getMeasurementKind(m) === kind).length;
+    return `${prefix} ${count + 1}`;
+};
+
+export const createMeasurement = (kind: MeasurementKind, positions: Position[], existing: Feature[]): Feature => ({
+    type: 'Feature',
+    properties: { id: `measurement-${Date.now()}`, kind, name: getDefaultName(kind, existing) },
+    geometry: toGeometry(kind, positions),
+});
+
+// Measurements saved before they had names get an id and a default name
+export const normalizeMeasurements = (measurements: Feature[]): Feature[] =>
+    measurements.reduce<Feature[]>((result, measurement, index) => {
+        const kind = getMeasurementKind(measurement);
+        const properties = measurement.properties || {};
+        return [...result, {
+            ...measurement,
+            properties: {
+                ...properties,
+                kind,
+                id: properties.id || `measurement-${index}`,
+                name: properties.name || getDefaultName(kind, result),
+            },
+        }];
+    }, []);
+
+// One feature per measurement, with its results as attributes, for a new layer
+export const measurementsToFeatureCollection = (measurements: Feature[]): FeatureCollection => ({
+    type: 'FeatureCollection',
+    features: measurements.map(measurement => {
+        const kind = getMeasurementKind(measurement);
+        const summary = summarizeMeasurement(kind, getMeasurementPositions(measurement));
+        const round = (value: number) => Math.round(value * 100) / 100;
+        return {
+            type: 'Feature',
+            geometry: measurement.geometry,
+            properties: kind === 'area'
+                ? { name: measurement.properties?.name, kind, area_m2: round(summary.area || 0), perimeter_m: round(summary.length) }
+                : { name: measurement.properties?.name, kind, length_m: round(summary.length), vertices: summary.segments.length + 1 },
+        };
+    }),
+});
@@ -0,0 +1,192 @@
+import type { RasterLayer, RasterLayerKind } from '../types';
+
+// Reads WMS and WMTS capabilities documents into the layers the map can draw. Leaflet requests images in
+// Web Mercator, so only layers offered in EPSG:3857 are listed.
+
+export type OgcServiceKind = Exclude<RasterLayerKind, 'image'>;
+
+export interface ServiceLayerOption {
+    // WMS layer name or WMTS layer identifier
+    id: string;
+    title: string;
+    formats: string[];
+    // WMTS only: the tile URL template with {z}, {x} and {y}
+    tileUrl?: string;
+}
+
+export interface ServiceCapabilities {
+    title: string;
+    // The endpoint images are requested from; WMS servers may name a different one than the capabilities URL
+    url: string;
+    layers: ServiceLayerOption[];
+}
+
+export class OgcError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OgcError';
+    }
+}
+
+const WEB_MERCATOR_CODES = ['3857', '900913', '3785', '102100'];
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+const PREFERRED_FORMATS = ['image/png', 'image/png8', 'image/jpeg'];
+// Scale denominator of zoom level 0 in the OGC well-known GoogleMapsCompatible set
+const ZOOM_0_SCALE = 559082264.0287178;
+
+const isWebMercator = (crs: string) => WEB_MERCATOR_CODES.some(code => crs.trim().endsWith(`:${code}`));
+
+// Namespace-agnostic child lookup, since servers differ in which prefixes they use
+const childElements = (element: Element, name: string) => Array.from(element.children).filter(child => child.localName === name);
+const childElement = (element: Element, name: string) => childElements(element, name)[0];
+const childText = (element: Element, name: string) => childElement(element, name)?.textContent?.trim() || '';
+const findPath = (element: Element | undefined, path: string[]): Element | undefined =>
+    path.reduce<Element | undefined>((current, name) => current && childElement(current, name), element);
+
+export const buildServiceUrl = (base: string, params: Record<string, string>): string => {
+    const url = new URL(base.trim(), globalThis.location?.href);
+    const keys = Object.keys(params).map(k => k.toLowerCase());
+    // Servers treat parameter names case-insensitively, so a pasted GetCapabilities URL mustn't leave duplicates
+    Array.from(url.searchParams.keys()).filter(k => keys.includes(k.toLowerCase())).forEach(k => url.searchParams.delete(k));
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+};
+
+// The service endpoint without the capabilities request parameters
+const stripRequestParams = (base: string) => {
+    const url = new URL(base.trim(), globalThis.location?.href);
+    Array.from(url.searchParams.keys())
+        .filter(k => ['service', 'request', 'version'].includes(k.toLowerCase()))
+        .forEach(k => url.searchParams.delete(k));
+    return url.toString();
+};
+
+const fetchXml = async (url: string): Promise<Document> => {
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch {
+        throw new OgcError(`Could not reach ${url}. Check the address and that the server allows cross-origin requests.`);
+    }
+    if (!response.ok) throw new OgcError(`The server answered HTTP ${response.status} for ${url}.`);
+    const doc = new DOMParser().parseFromString(await response.text(), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new OgcError('The server did not return a capabilities document.');
+    const exception = /Exception(Report)?$/.test(doc.documentElement.localName) ? doc.documentElement.textContent?.trim() : null;
+    if (exception) throw new OgcError(`The server reported an error: ${exception}`);
+    return doc;
+};
+
+const sortFormats = (formats: string[]) => [...formats].sort((a, b) => {
+    const rank = (f: string) => PREFERRED_FORMATS.includes(f) ? PREFERRED_FORMATS.indexOf(f) : PREFERRED_FORMATS.length;
+    return rank(a) - rank(b);
+});
+
+export const fetchWmsCapabilities = async (serviceUrl: string): Promise<ServiceCapabilities> => {
+    const doc = await fetchXml(buildServiceUrl(serviceUrl, { SERVICE: 'WMS', REQUEST: 'GetCapabilities' }));
+    const root = doc.documentElement;
+    if (root.localName !== 'WMS_Capabilities' && root.localName !== 'WMT_MS_Capabilities') throw new OgcError('This is not a WMS capabilities document.');
+    const capability = childElement(root, 'Capability');
+    const getMap = findPath(capability, ['Request', 'GetMap']);
+    const formats = sortFormats(childElements(getMap || root, 'Format').map(f => f.textContent?.trim() || '').filter(Boolean));
+    const endpoint = findPath(getMap, ['DCPType', 'HTTP', 'Get', 'OnlineResource'])?.getAttributeNS(XLINK_NS, 'href');
+
+    // Layers nest, and inherit the coordinate systems of the layers around them
+    const layers: ServiceLayerOption[] = [];
+    const visit = (layer: Element, inheritedCrs: string[]) => {
+        const crs = [...inheritedCrs, ...[...childElements(layer, 'CRS'), ...childElements(layer, 'SRS')].flatMap(e => (e.textContent || '').split(/\s+/))];
+        const name = childText(layer, 'Name');
+        if (name && (crs.length === 0 || crs.some(isWebMercator))) layers.push({ id: name, title: childText(layer, 'Title') || name, formats });
+        childElements(layer, 'Layer').forEach(child => visit(child, crs));
+    };
+    if (capability) childElements(capability, 'Layer').forEach(layer => visit(layer, []));
+    if (layers.length === 0) throw new OgcError('The service has no layers available in Web Mercator (EPSG:3857).');
+
+    return {
+        title: childText(childElement(root, 'Service') || root, 'Title') || 'WMS',
+        url: endpoint ? stripRequestParams(endpoint) : stripRequestParams(serviceUrl),
+        layers,
+    };
+};
+
+// The TileMatrix identifier of each zoom level, when the set is Web Mercator tiled from zoom 0 the usual way
+const readZoomIdentifiers = (matrixSet: Element): Map<number, string> | null => {
+    if (!isWebMercator(childText(matrixSet, 'SupportedCRS'))) return null;
+    const zooms = new Map<number, string>();
+    for (const matrix of childElements(matrixSet, 'TileMatrix')) {
+        const scale = Number(childText(matrix, 'ScaleDenominator'));
+        const zoom = Math.round(Math.log2(ZOOM_0_SCALE / scale));
+        if (!Number.isFinite(zoom) || Math.abs(ZOOM_0_SCALE / 2 ** zoom - scale) / scale > 0.01) return null;
+        zooms.set(zoom, childText(matrix, 'Identifier'));
+    }
+    return zooms.size > 0 ? zooms : null;
+};
+
+// Leaflet substitutes {z} directly, so identifiers must read "<prefix><zoom>", e.g. "12" or "EPSG:3857:12"
+const zoomTemplate = (zooms: Map<number, string>): string | null => {
+    const [zoom, identifier] = Array.from(zooms.entries())[0];
+    if (!identifier.endsWith(String(zoom))) return null;
+    const prefix = identifier.slice(0, identifier.length - String(zoom).length);
+    return Array.from(zooms.entries()).every(([z, id]) => id === `${prefix}${z}`) ? `${prefix}{z}` : null;
+};
+
+export const fetchWmtsCapabilities = async (serviceUrl: string): Promise<ServiceCapabilities> => {
+    const capabilitiesUrl = /WMTSCapabilities\.xml$/i.test(new URL(serviceUrl.trim(), globalThis.location?.href).pathname)
+        ? serviceUrl.trim()
+        : buildServiceUrl(serviceUrl, { SERVICE: 'WMTS', REQUEST: 'GetCapabilities' });
+    const doc = await fetchXml(capabilitiesUrl);
+    const root = doc.documentElement;
+    if (root.localName !== 'Capabilities') throw new OgcError('This is not a WMTS capabilities document.');
+    const contents = childElement(root, 'Contents');
+    if (!contents) throw new OgcError('The WMTS capabilities list no layers.');
+
+    const matrixSets = new Map(childElements(contents, 'TileMatrixSet').map(set => [childText(set, 'Identifier'), set]));
+    const getTile = childElements(findPath(root, ['OperationsMetadata']) || root, 'Operation').find(op => op.getAttribute('name') === 'GetTile');
+    const kvpEndpoint = findPath(getTile, ['DCP', 'HTTP', 'Get'])?.getAttributeNS(XLINK_NS, 'href') || stripRequestParams(serviceUrl);
+
+    const layers: ServiceLayerOption[] = [];
+    childElements(contents, 'Layer').forEach(layer => {
+        const id = childText(layer, 'Identifier');
+        const styles = childElements(layer, 'Style');
+        const style = childText(styles.find(s => s.getAttribute('isDefault') === 'true') || styles[0] || layer, 'Identifier') || 'default';
+        const formats = sortFormats(childElements(layer, 'Format').map(f => f.textContent?.trim() || ''));
+        for (const link of childElements(layer, 'TileMatrixSetLink')) {
+            const setId = childText(link, 'TileMatrixSet');
+            const zooms = matrixSets.has(setId) ? readZoomIdentifiers(matrixSets.get(setId)!) : null;
+            const matrix = zooms && zoomTemplate(zooms);
+            if (!matrix) continue;
+            const resource = childElements(layer, 'ResourceURL').find(r => r.getAttribute('resourceType') === 'tile');
+            const tileUrl = resource
+                ? resource.getAttribute('template')!
+                    .replace('{TileMatrixSet}', setId).replace('{Style}', style).replace('{TileMatrix}', matrix)
+                    .replace('{TileRow}', '{y}').replace('{TileCol}', '{x}')
+                : buildServiceUrl(kvpEndpoint, {
+                    SERVICE: 'WMTS', REQUEST: 'GetTile', VERSION: '1.0.0', LAYER: id, STYLE: style, TILEMATRIXSET: setId,
+                    TILEMATRIX: matrix, TILEROW: '{y}', TILECOL: '{x}', FORMAT: resource?.getAttribute('format') || formats[0] || 'image/png',
+                }).replace(/%7B/g, '{').replace(/%7D/g, '}');
+            layers.push({ id, title: childText(layer, 'Title') || id, formats: resource ? [resource.getAttribute('format') || ''] : formats, tileUrl });
+            break;
+        }
+    });
+    if (layers.length === 0) throw new OgcError('The service has no layers in a Web Mercator (GoogleMapsCompatible) tile matrix set.');
+
+    return {
+        title: childText(findPath(root, ['ServiceIdentification']) || root, 'Title') || 'WMTS',
+        url: stripRequestParams(serviceUrl),
+        layers,
+    };
+};
+
+export const fetchServiceCapabilities = (kind: OgcServiceKind, url: string) =>
+    kind === 'wms' ? fetchWmsCapabilities(url) : fetchWmtsCapabilities(url);
+
+export const createRasterLayer = (kind: OgcServiceKind, capabilities: ServiceCapabilities, option: ServiceLayerOption, format: string): RasterLayer => ({
+    id: `${kind}-${Date.now()}-${option.id}`,
+    name: option.title,
+    kind,
+    url: kind === 'wmts' ? option.tileUrl! : capabilities.url,
+    layer: option.id,
+    format,
+    opacity: 0.8,
+    isVisible: true,
+    attribution: capabilities.title,
+});
@@ -0,0 +1,177 @@
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import { area as turfArea, bbox as turfBbox, buffer, difference, featureCollection, intersect, union } from '@turf/turf';
+import type { GeoJsonLayer } from '../types';
+import { isPolygonFeature, withShapeMetrics } from './geometryEditService';
+import { matchesSpatialPredicate, SpatialPredicate } from './spatialSelectionService';
+
+export type OverlayOperation = 'intersect' | 'union' | 'difference' | 'buffer' | 'spatial_join';
+
+export const OVERLAY_OPERATIONS: { key: OverlayOperation; label: string; icon: string; description: string; needsOverlay: boolean }[] = [
+    { key: 'intersect', label: 'Intersect', icon: 'join_inner', description: 'Areas covered by both layers, with attributes from both.', needsOverlay: true },
+    { key: 'union', label: 'Union', icon: 'join_full', description: 'Everything covered by either layer, dissolved into one shape.', needsOverlay: true },
+    { key: 'difference', label: 'Difference', icon: 'join_left', description: 'Parts of the input layer not covered by the overlay layer.', needsOverlay: true },
+    { key: 'buffer', label: 'Buffer', icon: 'blur_circular', description: 'A zone of the given distance around each input feature.', needsOverlay: false },
+    { key: 'spatial_join', label: 'Spatial join', icon: 'link', description: 'Input features that match overlay features, with the first match\'s attributes and a match count.', needsOverlay: true },
+];
+
+export interface OverlayOptions {
+    operation: OverlayOperation;
+    input: GeoJsonLayer;
+    overlay?: GeoJsonLayer;
+    // Buffer distance, or the search distance of a spatial join (metres)
+    distance?: number;
+    predicate?: SpatialPredicate;
+    // Spatial join only: keep input features without a match (left join)
+    keepUnmatched?: boolean;
+}
+
+export interface OverlayResult {
+    name: string;
+    data: FeatureCollection;
+    summary: string;
+}
+
+export class OverlayError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OverlayError';
+    }
+}
+
+type BBox = [number, number, number, number];
+type PolygonFeature = Feature<Polygon | MultiPolygon>;
+
+const bboxesOverlap = (a: BBox, b: BBox) => a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+
+const formatArea = (sqMeters: number) => sqMeters >= 10000
+    ? `${(sqMeters / 10000).toLocaleString(undefined, { maximumFractionDigits: 3 })} ha`
+    : `${sqMeters.toLocaleString(undefined, { maximumFractionDigits: 0 })} m²`;
+
+const totalArea = (features: Feature[]) => features.reduce((sum, f) => {
+    try {
+        return sum + (isPolygonFeature(f) ? turfArea(f) : 0);
+    } catch {
+        return sum;
+    }
+}, 0);
+
+const toFieldPrefix = (layerName: string) => layerName.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'Join';
+
+// Copies the overlay attributes onto the input attributes; clashing names get the overlay layer's name as a prefix
+const joinProperties = (base: Feature['properties'], extra: Feature['properties'], prefix: string) => {
+    const joined: Record<string, unknown> = { ...base };
+    Object.entries(extra || {}).forEach(([key, value]) => {
+        if (key === 'fid') return;
+        joined[key in joined ? `${prefix}_${key}` : key] = value;
+    });
+    return joined;
+};
+
+const withBboxes = (features: Feature[]) => features
+    .filter(f => f.geometry)
+    .map(feature => ({ feature, bbox: turfBbox(feature) as BBox }));
+
+const renumber = (features: Feature[]): Feature[] =>
+    features.map((f, i) => ({ ...f, properties: { ...f.properties, fid: i + 1 } }));
+
+const polygonsOf = (layer: GeoJsonLayer) => layer.data.features.filter(isPolygonFeature);
+
+const runIntersect = (input: GeoJsonLayer, overlay: GeoJsonLayer): Feature[] => {
+    const prefix = toFieldPrefix(overlay.name);
+    const candidates = withBboxes(polygonsOf(overlay));
+    const results: Feature[] = [];
+    withBboxes(polygonsOf(input)).forEach(({ feature, bbox }) => {
+        candidates.forEach(other => {
+            if (!bboxesOverlap(bbox, other.bbox)) return;
+            const piece = intersect(featureCollection([feature as PolygonFeature, other.feature as PolygonFeature]));
+            if (!piece) return;
+            results.push(withShapeMetrics({ type: 'Feature', geometry: piece.geometry, properties: joinProperties(feature.properties, other.feature.properties, prefix) }));
+        });
+    });
+    return results;
+};
+
+const runUnion = (input: GeoJsonLayer, overlay: GeoJsonLayer): Feature[] => {
+    const polygons = [...polygonsOf(input), ...polygonsOf(overlay)] as PolygonFeature[];
+    if (polygons.length === 0) return [];
+    const merged = polygons.length > 1 ? union(featureCollection(polygons)) : polygons[0];
+    if (!merged) return [];
+    return [withShapeMetrics({ type: 'Feature', geometry: merged.geometry, properties: { Source: `${input.name} ∪ ${overlay.name}` } })];
+};
+
+const runDifference = (input: GeoJsonLayer, overlay: GeoJsonLayer): Feature[] => {
+    const cutters = withBboxes(polygonsOf(overlay));
+    const results: Feature[] = [];
+    withBboxes(polygonsOf(input)).forEach(({ feature, bbox }) => {
+        const overlapping = cutters.filter(c => bboxesOverlap(bbox, c.bbox)).map(c => c.feature as PolygonFeature);
+        const remainder = overlapping.length > 0
+            ? difference(featureCollection([feature as PolygonFeature, ...overlapping]))
+            : feature;
+        if (remainder) results.push(withShapeMetrics({ ...feature, geometry: remainder.geometry }));
+    });
+    return results;
+};
+
+const runBuffer = (input: GeoJsonLayer, distance: number): Feature[] => input.data.features
+    .filter(f => f.geometry)
+    .map(f => {
+        const zone = buffer(f, distance, { units: 'meters' });
+        return zone ? withShapeMetrics({ type: 'Feature', geometry: zone.geometry, properties: { ...f.properties, Buffer_m: distance } }) : null;
+    })
+    .filter((f): f is Feature => !!f);
+
+const runSpatialJoin = (input: GeoJsonLayer, overlay: GeoJsonLayer, predicate: SpatialPredicate, distance: number, keepUnmatched: boolean): Feature[] => {
+    const prefix = toFieldPrefix(overlay.name);
+    // A search distance widens each input feature before it is compared with the overlay
+    const candidates = withBboxes(overlay.data.features);
+    const results: Feature[] = [];
+    input.data.features.forEach(feature => {
+        if (!feature.geometry) return;
+        const probe: Feature | undefined = distance > 0 ? buffer(feature, distance, { units: 'meters' }) : feature;
+        if (!probe) return;
+        const probeBbox = turfBbox(probe) as BBox;
+        const matches = candidates.filter(c => bboxesOverlap(probeBbox, c.bbox) && matchesSpatialPredicate(probe, c.feature, predicate));
+        if (matches.length === 0 && !keepUnmatched) return;
+        const properties = matches.length > 0 ? joinProperties(feature.properties, matches[0].feature.properties, prefix) : { ...feature.properties };
+        results.push({ ...feature, properties: { ...properties, Join_Count: matches.length } });
+    });
+    return results;
+};
+
+export const runOverlay = ({ operation, input, overlay, distance = 0, predicate = 'intersects', keepUnmatched = false }: OverlayOptions): OverlayResult => {
+    const spec = OVERLAY_OPERATIONS.find(o => o.key === operation);
+    if (!spec) throw new OverlayError(`Unknown operation "${operation}".`);
+    if (spec.needsOverlay && !overlay) throw new OverlayError(`${spec.label} needs an overlay layer.`);
+    if (operation === 'buffer' && !(distance > 0)) throw new OverlayError('Enter a buffer distance greater than 0 m.');
+    if (distance < 0) throw new OverlayError('The distance cannot be negative.');
+
+    let features: Feature[];
+    let name: string;
+    switch (operation) {
+        case 'intersect':
+            features = runIntersect(input, overlay!);
+            name = `${input.name} ∩ ${overlay!.name}`;
+            break;
+        case 'union':
+            features = runUnion(input, overlay!);
+            name = `${input.name} ∪ ${overlay!.name}`;
+            break;
+        case 'difference':
+            features = runDifference(input, overlay!);
+            name = `${input.name} − ${overlay!.name}`;
+            break;
+        case 'buffer':
+            features = runBuffer(input, distance);
+            name = `${input.name} buffer ${distance} m`;
+            break;
+        case 'spatial_join':
+            features = runSpatialJoin(input, overlay!, predicate, distance, keepUnmatched);
+            name = `${input.name} joined to ${overlay!.name}`;
+            break;
+    }
+
+    if (features.length === 0) throw new OverlayError('The operation produced no features.');
+    const area = totalArea(features);
+    const summary = `${features.length} feature${features.length !== 1 ? 's' : ''}${area > 0 ? `, total area ${formatArea(area)}` : ''}`;
+    return { name, data: { type: 'FeatureCollection', features: renumber(features) }, summary };
+};
@@ -0,0 +1,565 @@
+import type { Feature, Geometry, Position } from 'geojson';
+import type { AttributeFilter, BasemapDefinition, GeoJsonLayer, TimeFilter } from '../types';
+import { getFeatureDisplayName } from '../utils';
+import { getFeatureColor, getLegendEntries } from './thematicService';
+import { getFeatureStatus, getLayerStatusModel } from './statusService';
+import { concatBytes, crc32, downloadBlob, toExportFileName } from './exportService';
+import { getFeatureId } from './featureIdService';
+import { formatTileUrl, getBasemapArchive, isArchiveBasemap } from './basemapService';
+import { matchesFilter } from './filterService';
+import { matchesTimeFilter } from './timeSliderService';
+
+export type PaperSize = 'A4' | 'A3' | 'Letter' | 'Legal';
+export type PaperOrientation = 'portrait' | 'landscape';
+export type PrintFormat = 'pdf' | 'png';
+
+// Portrait dimensions in millimetres
+export const PAPER_SIZES: Record<PaperSize, { label: string; widthMm: number; heightMm: number }> = {
+    A4: { label: 'A4', widthMm: 210, heightMm: 297 },
+    A3: { label: 'A3', widthMm: 297, heightMm: 420 },
+    Letter: { label: 'Letter', widthMm: 215.9, heightMm: 279.4 },
+    Legal: { label: 'Legal', widthMm: 215.9, heightMm: 355.6 },
+};
+
+export const PRINT_DPIS = [96, 150, 300];
+
+export interface PrintLayout {
+    title: string;
+    paper: PaperSize;
+    orientation: PaperOrientation;
+    dpi: number;
+    includeTable: boolean;
+}
+
+export interface PrintContent {
+    // South-west and north-east corners of the extent to print
+    bounds: [[number, number], [number, number]];
+    basemap: BasemapDefinition;
+    layers: GeoJsonLayer[];
+    selectedAssets: { layer: GeoJsonLayer; feature: Feature }[];
+    // Drawn as on the map: features outside the query are faded, those outside the time filter left out
+    queryFilter: AttributeFilter | null;
+    timeFilter: TimeFilter | null;
+    // Standalone SVG markup of the north arrow
+    northArrowSvg: string;
+}
+
+export interface RenderedPrint {
+    canvas: HTMLCanvasElement;
+    missingTiles: number;
+}
+
+export class PrintError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PrintError';
+    }
+}
+
+const TILE_SIZE = 256;
+const MAX_TILE_ZOOM = 19;
+const MAX_TILES = 300;
+const TILE_TIMEOUT_MS = 10000;
+const SELECTED_COLOR = '#3b82f6';
+const TEXT_COLOR = '#1e293b';
+const MUTED_COLOR = '#64748b';
+const FONT_FAMILY = "Inter, system-ui, sans-serif";
+
+// Layout measurements in millimetres
+const MARGIN = 10;
+const HEADER_HEIGHT = 16;
+const FOOTER_HEIGHT = 12;
+const GAP = 4;
+const LEGEND_WIDTH = 50;
+const NORTH_ARROW_SIZE = 14;
+const TABLE_ROW_HEIGHT = 5;
+
+export const getPageSizeMm = (paper: PaperSize, orientation: PaperOrientation) => {
+    const { widthMm, heightMm } = PAPER_SIZES[paper];
+    return orientation === 'portrait' ? { widthMm, heightMm } : { widthMm: heightMm, heightMm: widthMm };
+};
+
+// Web Mercator world pixel coordinates at a (possibly fractional) zoom level
+const project = ([lng, lat]: Position, zoom: number): [number, number] => {
+    const scale = TILE_SIZE * 2 ** zoom;
+    const sin = Math.min(Math.max(Math.sin(lat * Math.PI / 180), -0.9999), 0.9999);
+    return [(lng + 180) / 360 * scale, (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale];
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement | null> => new Promise(resolve => {
+    const image = new Image();
+    // Tiles must come with CORS headers, otherwise the canvas could not be exported
+    image.crossOrigin = 'anonymous';
+    const timer = setTimeout(() => resolve(null), TILE_TIMEOUT_MS);
+    image.onload = () => { clearTimeout(timer); resolve(image); };
+    image.onerror = () => { clearTimeout(timer); resolve(null); };
+    image.src = src;
+});
+
+// Archive tiles are drawn through object URLs, which need no CORS headers
+const loadTile = async (basemap: BasemapDefinition, x: number, y: number, z: number): Promise<HTMLImageElement | null> => {
+    if (!isArchiveBasemap(basemap)) return loadImage(formatTileUrl(basemap, x, y, z));
+    try {
+        const blob = await (await getBasemapArchive(basemap)).getTile(z, x, y);
+        if (!blob) return null;
+        const url = URL.createObjectURL(blob);
+        const image = await loadImage(url);
+        URL.revokeObjectURL(url);
+        return image;
+    } catch {
+        return null;
+    }
+};
+
+// Leaflet attributions are HTML; the page only needs the text
+const attributionText = (html: string) => html
+    .replace(/<[^>]+>/g, '')
+    .replace(/&copy;/g, '©')
+    .replace(/&amp;/g, '&');
+
+const parseDashArray = (dashArray: string, scale: number) => dashArray
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter(n => n > 0)
+    .map(n => n * scale);
+
+// Shortens text with an ellipsis until it fits `maxWidth`
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let fitted = text;
+    while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) fitted = fitted.slice(0, -1);
+    return `${fitted}…`;
+};
+
+// Rounds down to 1, 2 or 5 times a power of ten
+const niceDistance = (meters: number) => {
+    const power = 10 ** Math.floor(Math.log10(meters));
+    const leading = meters / power;
+    return (leading >= 5 ? 5 : leading >= 2 ? 2 : 1) * power;
+};
+
+const formatDistance = (meters: number) => meters >= 1000 ? `${meters / 1000} km` : `${meters} m`;
+
+interface PathStyle {
+    color: string;
+    fillColor: string;
+    opacity: number;
+    fillOpacity: number;
+    lineWidth: number;
+    dash: number[];
+}
+
+type ToPixel = (position: Position) => [number, number];
+
+const tracePath = (ctx: CanvasRenderingContext2D, path: Position[], toPixel: ToPixel, close: boolean) => {
+    path.forEach((position, i) => {
+        const [x, y] = toPixel(position);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+    });
+    if (close) ctx.closePath();
+};
+
+const drawGeometry = (ctx: CanvasRenderingContext2D, geometry: Geometry, toPixel: ToPixel, style: PathStyle, pointRadius: number) => {
+    const stroke = () => {
+        ctx.globalAlpha = style.opacity;
+        ctx.strokeStyle = style.color;
+        ctx.lineWidth = style.lineWidth;
+        ctx.setLineDash(style.dash);
+        ctx.stroke();
+    };
+    const fill = () => {
+        ctx.globalAlpha = style.fillOpacity;
+        ctx.fillStyle = style.fillColor;
+        ctx.fill('evenodd');
+    };
+
+    switch (geometry.type) {
+        case 'Polygon':
+        case 'MultiPolygon': {
+            const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+            ctx.beginPath();
+            polygons.forEach(rings => rings.forEach(ring => tracePath(ctx, ring, toPixel, true)));
+            fill();
+            stroke();
+            break;
+        }
+        case 'LineString':
+        case 'MultiLineString': {
+            const lines = geometry.type === 'LineString' ? [geometry.coordinates] : geometry.coordinates;
+            ctx.beginPath();
+            lines.forEach(line => tracePath(ctx, line, toPixel, false));
+            stroke();
+            break;
+        }
+        case 'Point':
+        case 'MultiPoint': {
+            const points = geometry.type === 'Point' ? [geometry.coordinates] : geometry.coordinates;
+            points.forEach(point => {
+                const [x, y] = toPixel(point);
+                ctx.beginPath();
+                ctx.arc(x, y, pointRadius, 0, Math.PI * 2);
+                ctx.globalAlpha = 1;
+                ctx.fillStyle = style.color;
+                ctx.fill();
+                ctx.setLineDash([]);
+                ctx.lineWidth = pointRadius / 3;
+                ctx.strokeStyle = '#ffffff';
+                ctx.stroke();
+            });
+            break;
+        }
+        case 'GeometryCollection':
+            geometry.geometries.forEach(g => drawGeometry(ctx, g, toPixel, style, pointRadius));
+            break;
+    }
+    ctx.globalAlpha = 1;
+    ctx.setLineDash([]);
+};
+
+interface Frame { x: number; y: number; width: number; height: number }
+
+// Draws basemap tiles and the visible layers into `frame`; returns the map's fractional zoom and the number of tiles that failed to load
+const drawMap = async (ctx: CanvasRenderingContext2D, frame: Frame, content: PrintContent, dpi: number) => {
+    const [[south, west], [north, east]] = content.bounds;
+    const [x0, y0] = project([west, north], 0);
+    const [x1, y1] = project([east, south], 0);
+    const zoom = Math.log2(Math.min(frame.width / Math.max(x1 - x0, 1e-9), frame.height / Math.max(y1 - y0, 1e-9)));
+    const center: Position = [(west + east) / 2, (south + north) / 2];
+    const [cx, cy] = project(center, zoom);
+    const toPixel: ToPixel = position => {
+        const [px, py] = project(position, zoom);
+        return [px - cx + frame.width / 2, py - cy + frame.height / 2];
+    };
+
+    ctx.save();
+    ctx.translate(frame.x, frame.y);
+    ctx.beginPath();
+    ctx.rect(0, 0, frame.width, frame.height);
+    ctx.clip();
+    ctx.fillStyle = '#e2e8f0';
+    ctx.fillRect(0, 0, frame.width, frame.height);
+
+    // Tiles are fetched at their on-screen resolution and scaled up, so labels stay readable at high DPI
+    const maxTileZoom = Math.min(MAX_TILE_ZOOM, content.basemap.maxZoom ?? MAX_TILE_ZOOM);
+    let tileZoom = Math.max(0, Math.min(maxTileZoom, Math.round(zoom - Math.log2(dpi / 96))));
+    const tileRange = (z: number) => {
+        const scale = 2 ** (zoom - z);
+        const [tcx, tcy] = project(center, z);
+        const halfWidth = frame.width / 2 / scale;
+        const halfHeight = frame.height / 2 / scale;
+        return {
+            scale, tcx, tcy,
+            minX: Math.floor((tcx - halfWidth) / TILE_SIZE), maxX: Math.floor((tcx + halfWidth) / TILE_SIZE),
+            minY: Math.floor((tcy - halfHeight) / TILE_SIZE), maxY: Math.floor((tcy + halfHeight) / TILE_SIZE),
+        };
+    };
+    let range = tileRange(tileZoom);
+    while (tileZoom > 0 && (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1) > MAX_TILES) range = tileRange(--tileZoom);
+
+    const tileCount = 2 ** tileZoom;
+    const tiles: Promise<void>[] = [];
+    let missingTiles = 0;
+    for (let tx = range.minX; tx <= range.maxX; tx++) {
+        for (let ty = range.minY; ty <= range.maxY; ty++) {
+            if (ty < 0 || ty >= tileCount) continue;
+            const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+            const size = TILE_SIZE * range.scale;
+            const dx = (tx * TILE_SIZE - range.tcx) * range.scale + frame.width / 2;
+            const dy = (ty * TILE_SIZE - range.tcy) * range.scale + frame.height / 2;
+            tiles.push(loadTile(content.basemap, wrappedX, ty, tileZoom).then(image => {
+                // Overdraw by a pixel so scaled tiles don't leave hairline seams
+                if (image) ctx.drawImage(image, dx, dy, size + 1, size + 1);
+                else missingTiles++;
+            }));
+        }
+    }
+    await Promise.all(tiles);
+
+    const lineScale = dpi / 96;
+    const pointRadius = 1.6 * dpi / 25.4;
+    content.layers.filter(l => l.isVisible).forEach(layer => {
+        const selectedIds = new Set(content.selectedAssets.filter(a => a.layer.id === layer.id).map(a => getFeatureId(a.feature)));
+        const layerFilter = content.queryFilter?.layerId === layer.id ? content.queryFilter : null;
+        const layerTimeFilter = content.timeFilter?.layerId === layer.id ? content.timeFilter : null;
+        layer.data.features.forEach(feature => {
+            if (!feature.geometry || (layerTimeFilter && !matchesTimeFilter(feature, layerTimeFilter))) return;
+            const isSelected = selectedIds.has(getFeatureId(feature));
+            const isFaded = !isSelected && !!layerFilter && !matchesFilter(feature, layerFilter);
+            const color = isSelected ? SELECTED_COLOR : getFeatureColor(layer, feature);
+            drawGeometry(ctx, feature.geometry, toPixel, {
+                color,
+                fillColor: color,
+                opacity: isFaded ? layer.strokeOpacity * 0.25 : layer.strokeOpacity,
+                fillOpacity: isSelected ? 0.7 : isFaded ? layer.fillOpacity * 0.2 : layer.fillOpacity,
+                lineWidth: (isSelected ? layer.weight + 1 : layer.weight) * lineScale,
+                dash: parseDashArray(layer.dashArray, lineScale),
+            }, pointRadius);
+        });
+    });
+
+    ctx.restore();
+    ctx.strokeStyle = TEXT_COLOR;
+    ctx.lineWidth = Math.max(1, dpi / 150);
+    ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
+    return { zoom, centerLat: center[1], missingTiles };
+};
+
+const drawNorthArrow = async (ctx: CanvasRenderingContext2D, svg: string, x: number, y: number, size: number) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    try {
+        const image = await loadImage(url);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+        ctx.beginPath();
+        ctx.roundRect(x, y, size, size, size / 6);
+        ctx.fill();
+        if (image) ctx.drawImage(image, x + size * 0.15, y + size * 0.15, size * 0.7, size * 0.7);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+const drawLegend = (ctx: CanvasRenderingContext2D, layers: GeoJsonLayer[], frame: Frame, mm: number) => {
+    const visibleLayers = layers.filter(l => l.isVisible && l.data.features.length > 0);
+    let y = frame.y;
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.font = `700 ${4 * mm}px ${FONT_FAMILY}`;
+    ctx.fillText('Legend', frame.x, y);
+    y += 7 * mm;
+
+    const bottom = frame.y + frame.height;
+    for (let i = 0; i < visibleLayers.length; i++) {
+        const layer = visibleLayers[i];
+        const entries = getLegendEntries(layer);
+        if (y + 9 * mm > bottom) {
+            ctx.font = `400 ${2.8 * mm}px ${FONT_FAMILY}`;
+            ctx.fillStyle = MUTED_COLOR;
+            ctx.fillText(`+${visibleLayers.length - i} more layer${visibleLayers.length - i !== 1 ? 's' : ''}`, frame.x, y);
+            return;
+        }
+        ctx.font = `600 ${3 * mm}px ${FONT_FAMILY}`;
+        ctx.fillStyle = TEXT_COLOR;
+        ctx.fillText(fitText(ctx, layer.renderer ? `${layer.name} · ${layer.renderer.field}` : layer.name, frame.width), frame.x, y);
+        y += 4.5 * mm;
+
+        ctx.font = `400 ${2.6 * mm}px ${FONT_FAMILY}`;
+        for (let j = 0; j < entries.length; j++) {
+            if (y + 4 * mm > bottom) {
+                ctx.fillStyle = MUTED_COLOR;
+                ctx.fillText(`+${entries.length - j} more`, frame.x + 5 * mm, y);
+                return;
+            }
+            const entry = entries[j];
+            ctx.globalAlpha = Math.max(layer.fillOpacity, 0.3);
+            ctx.fillStyle = entry.color;
+            ctx.fillRect(frame.x, y, 3.2 * mm, 3.2 * mm);
+            ctx.globalAlpha = 1;
+            ctx.strokeStyle = entry.color;
+            ctx.lineWidth = 0.25 * mm;
+            ctx.strokeRect(frame.x, y, 3.2 * mm, 3.2 * mm);
+            ctx.fillStyle = '#475569';
+            ctx.fillText(fitText(ctx, entry.label, frame.width - 5 * mm), frame.x + 5 * mm, y + 0.3 * mm);
+            y += 4.2 * mm;
+        }
+        y += 3 * mm;
+    }
+};
+
+const drawScaleBar = (ctx: CanvasRenderingContext2D, zoom: number, centerLat: number, x: number, y: number, dpi: number, mm: number) => {
+    const metersPerPixel = 40075016.686 * Math.cos(centerLat * Math.PI / 180) / (TILE_SIZE * 2 ** zoom);
+    const distance = niceDistance(metersPerPixel * 40 * mm);
+    const barWidth = distance / metersPerPixel;
+    const barHeight = 1.5 * mm;
+
+    ctx.textBaseline = 'top';
+    ctx.font = `400 ${2.6 * mm}px ${FONT_FAMILY}`;
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText('0', x, y);
+    ctx.textAlign = 'right';
+    ctx.fillText(formatDistance(distance), x + barWidth, y);
+    ctx.textAlign = 'left';
+
+    // Alternating halves, as on printed topographic sheets
+    const barY = y + 3.5 * mm;
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillRect(x, barY, barWidth / 2, barHeight);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(x + barWidth / 2, barY, barWidth / 2, barHeight);
+    ctx.strokeStyle = TEXT_COLOR;
+    ctx.lineWidth = 0.25 * mm;
+    ctx.strokeRect(x, barY, barWidth, barHeight);
+
+    const ratio = Math.round(metersPerPixel * dpi / 0.0254);
+    ctx.fillStyle = MUTED_COLOR;
+    ctx.fillText(`Scale 1:${ratio.toLocaleString()}`, x + barWidth + 4 * mm, barY - 0.5 * mm);
+};
+
+const TABLE_COLUMNS: { label: string; share: number; value: (asset: PrintContent['selectedAssets'][number], index: number) => string }[] = [
+    { label: '#', share: 0.07, value: (_, i) => String(i + 1) },
+    { label: 'Layer', share: 0.25, value: a => a.layer.name },
+    { label: 'Name', share: 0.36, value: a => getFeatureDisplayName(a.feature, a.layer) },
+    { label: 'ID', share: 0.12, value: a => getFeatureId(a.feature) },
+    { label: 'Status', share: 0.2, value: a => getFeatureStatus(a.feature, getLayerStatusModel(a.layer)).label },
+];
+
+const tableHeight = (rows: number) => (rows + 1) * TABLE_ROW_HEIGHT;
+
+const drawTable = (ctx: CanvasRenderingContext2D, assets: PrintContent['selectedAssets'], frame: Frame, mm: number) => {
+    const rowHeight = TABLE_ROW_HEIGHT * mm;
+    const capacity = Math.floor(frame.height / rowHeight) - 1;
+    // Keep the last row for a note when not everything fits
+    const shown = assets.length > capacity ? assets.slice(0, capacity - 1) : assets;
+
+    ctx.fillStyle = '#f1f5f9';
+    ctx.fillRect(frame.x, frame.y, frame.width, rowHeight);
+    ctx.textBaseline = 'middle';
+    ctx.strokeStyle = '#cbd5e1';
+    ctx.lineWidth = 0.2 * mm;
+
+    const drawRow = (cells: string[], y: number, weight: number) => {
+        ctx.font = `${weight} ${2.6 * mm}px ${FONT_FAMILY}`;
+        ctx.fillStyle = TEXT_COLOR;
+        let x = frame.x;
+        TABLE_COLUMNS.forEach((column, i) => {
+            const width = column.share * frame.width;
+            ctx.fillText(fitText(ctx, cells[i], width - 2 * mm), x + 1 * mm, y + rowHeight / 2);
+            x += width;
+        });
+        ctx.beginPath();
+        ctx.moveTo(frame.x, y + rowHeight);
+        ctx.lineTo(frame.x + frame.width, y + rowHeight);
+        ctx.stroke();
+    };
+
+    drawRow(TABLE_COLUMNS.map(c => c.label), frame.y, 600);
+    shown.forEach((asset, i) => drawRow(TABLE_COLUMNS.map(c => c.value(asset, i)), frame.y + (i + 1) * rowHeight, 400));
+    if (shown.length < assets.length) {
+        ctx.font = `400 ${2.6 * mm}px ${FONT_FAMILY}`;
+        ctx.fillStyle = MUTED_COLOR;
+        ctx.fillText(`+${assets.length - shown.length} more selected assets`, frame.x + 1 * mm, frame.y + (shown.length + 1.5) * rowHeight);
+    }
+    ctx.textBaseline = 'top';
+};
+
+// Renders the whole page: title and date, map with north arrow, legend, scale bar, attribution and the optional asset table
+export const renderPrintLayout = async (layout: PrintLayout, content: PrintContent): Promise<RenderedPrint> => {
+    const { widthMm, heightMm } = getPageSizeMm(layout.paper, layout.orientation);
+    const mm = layout.dpi / 25.4;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(widthMm * mm);
+    canvas.height = Math.round(heightMm * mm);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new PrintError('This browser cannot draw the print layout.');
+    await document.fonts?.ready;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const contentWidth = widthMm - 2 * MARGIN;
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.font = `700 ${7 * mm}px ${FONT_FAMILY}`;
+    ctx.fillText(fitText(ctx, layout.title.trim() || 'Untitled map', (contentWidth - 45) * mm), MARGIN * mm, MARGIN * mm);
+    ctx.font = `400 ${3 * mm}px ${FONT_FAMILY}`;
+    ctx.fillStyle = MUTED_COLOR;
+    ctx.textAlign = 'right';
+    ctx.fillText(new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }), (widthMm - MARGIN) * mm, (MARGIN + 2) * mm);
+    ctx.textAlign = 'left';
+
+    const bodyTop = MARGIN + HEADER_HEIGHT;
+    const bodyHeight = heightMm - bodyTop - MARGIN - FOOTER_HEIGHT;
+    const assets = layout.includeTable ? content.selectedAssets : [];
+    const tableMm = assets.length > 0 ? Math.min(tableHeight(assets.length), bodyHeight * 0.4) : 0;
+    const mapHeight = bodyHeight - (tableMm > 0 ? tableMm + GAP : 0);
+    const mapFrame = { x: MARGIN * mm, y: bodyTop * mm, width: (contentWidth - LEGEND_WIDTH - GAP) * mm, height: mapHeight * mm };
+
+    const { zoom, centerLat, missingTiles } = await drawMap(ctx, mapFrame, content, layout.dpi);
+    await drawNorthArrow(ctx, content.northArrowSvg, mapFrame.x + mapFrame.width - (NORTH_ARROW_SIZE + 3) * mm, mapFrame.y + 3 * mm, NORTH_ARROW_SIZE * mm);
+    drawLegend(ctx, content.layers, { x: mapFrame.x + mapFrame.width + GAP * mm, y: mapFrame.y, width: LEGEND_WIDTH * mm, height: mapFrame.height }, mm);
+    if (tableMm > 0) drawTable(ctx, assets, { x: MARGIN * mm, y: (bodyTop + mapHeight + GAP) * mm, width: contentWidth * mm, height: tableMm * mm }, mm);
+
+    const footerTop = (heightMm - MARGIN - FOOTER_HEIGHT + 3) * mm;
+    drawScaleBar(ctx, zoom, centerLat, MARGIN * mm, footerTop, layout.dpi, mm);
+    ctx.font = `400 ${2.2 * mm}px ${FONT_FAMILY}`;
+    ctx.fillStyle = MUTED_COLOR;
+    ctx.textAlign = 'right';
+    ctx.fillText(fitText(ctx, attributionText(content.basemap.attribution), contentWidth * 0.5 * mm), (widthMm - MARGIN) * mm, footerTop + 4 * mm);
+    ctx.textAlign = 'left';
+
+    return { canvas, missingTiles };
+};
+
+const canvasToBytes = (canvas: HTMLCanvasElement, type: string, quality?: number) => new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(async blob => {
+        if (!blob) reject(new PrintError('The page is too large for this browser. Try a lower DPI or smaller paper.'));
+        else resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, type, quality);
+});
+
+// Adds a pHYs chunk right after IHDR so the PNG prints at its intended size
+const withPngDpi = (png: Uint8Array, dpi: number): Uint8Array => {
+    const chunk = new Uint8Array(21);
+    const view = new DataView(chunk.buffer);
+    const pixelsPerMeter = Math.round(dpi / 0.0254);
+    view.setUint32(0, 9);
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4);
+    view.setUint32(8, pixelsPerMeter);
+    view.setUint32(12, pixelsPerMeter);
+    chunk[16] = 1;
+    view.setUint32(17, crc32(chunk.subarray(4, 17)));
+    // 8-byte signature + 25-byte IHDR chunk
+    return concatBytes([png.subarray(0, 33), chunk, png.subarray(33)]);
+};
+
+// Writes a single-page PDF holding the page as one JPEG image
+export const writeImagePdf = (jpeg: Uint8Array, pixelWidth: number, pixelHeight: number, widthMm: number, heightMm: number): Uint8Array => {
+    const encoder = new TextEncoder();
+    const width = (widthMm / 25.4 * 72).toFixed(2);
+    const height = (heightMm / 25.4 * 72).toFixed(2);
+    const drawing = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+    const objects: (string | Uint8Array)[][] = [
+        ['<< /Type /Catalog /Pages 2 0 R >>'],
+        ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+        [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+        [`<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`, jpeg, '\nendstream'],
+        [`<< /Length ${drawing.length} >>\nstream\n${drawing}\nendstream`],
+    ];
+
+    const parts: Uint8Array[] = [encoder.encode('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')];
+    let offset = parts[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+        offsets.push(offset);
+        const bytes = [`${i + 1} 0 obj\n`, ...body, '\nendobj\n'].map(part => typeof part === 'string' ? encoder.encode(part) : part);
+        bytes.forEach(b => { parts.push(b); offset += b.length; });
+    });
+    const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+        'startxref',
+        String(offset),
+        '%%EOF\n',
+    ].join('\n');
+    parts.push(encoder.encode(xref));
+    return concatBytes(parts);
+};
+
+export const exportPrintLayout = async (layout: PrintLayout, content: PrintContent, format: PrintFormat): Promise<RenderedPrint> => {
+    const rendered = await renderPrintLayout(layout, content);
+    const { canvas } = rendered;
+    const fileName = toExportFileName(layout.title || 'map');
+    if (format === 'png') {
+        const png = withPngDpi(await canvasToBytes(canvas, 'image/png'), layout.dpi);
+        downloadBlob(new Blob([png], { type: 'image/png' }), `${fileName}.png`);
+    } else {
+        const { widthMm, heightMm } = getPageSizeMm(layout.paper, layout.orientation);
+        const pdf = writeImagePdf(await canvasToBytes(canvas, 'image/jpeg', 0.92), canvas.width, canvas.height, widthMm, heightMm);
+        downloadBlob(new Blob([pdf], { type: 'application/pdf' }), `${fileName}.pdf`);
+    }
+    return rendered;
+};
@@ -0,0 +1,130 @@
+// Converts positions between WGS84 longitude/latitude and the projected systems the port's data comes in:
+// UTM zones (the port lies in zone 44N) and Web Mercator.
+
+export interface Projection {
+    // e.g. "EPSG:32644"
+    code: string;
+    name: string;
+    // Labels for the x and y values, in that order
+    axes: [string, string];
+    isGeographic: boolean;
+    fromWgs84: (lngLat: [number, number]) => [number, number];
+    toWgs84: (xy: [number, number]) => [number, number];
+}
+
+const DEG = Math.PI / 180;
+// WGS84 ellipsoid
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const EP2 = E2 / (1 - E2);
+const UTM_SCALE = 0.9996;
+const UTM_FALSE_EASTING = 500000;
+const UTM_FALSE_NORTHING_SOUTH = 10000000;
+const WEB_MERCATOR_MAX_LAT = 85.0511287798;
+
+const WGS84: Projection = {
+    code: 'EPSG:4326',
+    name: 'WGS 84 (latitude/longitude)',
+    axes: ['Longitude', 'Latitude'],
+    isGeographic: true,
+    fromWgs84: ([lng, lat]) => [lng, lat],
+    toWgs84: ([x, y]) => [x, y],
+};
+
+const WEB_MERCATOR: Projection = {
+    code: 'EPSG:3857',
+    name: 'Web Mercator',
+    axes: ['X', 'Y'],
+    isGeographic: false,
+    fromWgs84: ([lng, lat]) => {
+        const clamped = Math.max(-WEB_MERCATOR_MAX_LAT, Math.min(WEB_MERCATOR_MAX_LAT, lat));
+        return [A * lng * DEG, A * Math.log(Math.tan(Math.PI / 4 + clamped * DEG / 2))];
+    },
+    toWgs84: ([x, y]) => [x / A / DEG, (2 * Math.atan(Math.exp(y / A)) - Math.PI / 2) / DEG],
+};
+
+// Meridian arc length from the equator (Snyder, Map Projections: A Working Manual, 3-21)
+const meridianArc = (phi: number) => A * (
+    (1 - E2 / 4 - 3 * E2 ** 2 / 64 - 5 * E2 ** 3 / 256) * phi
+    - (3 * E2 / 8 + 3 * E2 ** 2 / 32 + 45 * E2 ** 3 / 1024) * Math.sin(2 * phi)
+    + (15 * E2 ** 2 / 256 + 45 * E2 ** 3 / 1024) * Math.sin(4 * phi)
+    - (35 * E2 ** 3 / 3072) * Math.sin(6 * phi)
+);
+
+// Transverse Mercator series (Snyder 8-9 to 8-25), accurate to millimetres within a zone
+const createUtm = (zone: number, isSouth: boolean): Projection => {
+    const lng0 = (zone * 6 - 183) * DEG;
+    const falseNorthing = isSouth ? UTM_FALSE_NORTHING_SOUTH : 0;
+    return {
+        code: `EPSG:${isSouth ? 32700 + zone : 32600 + zone}`,
+        name: `WGS 84 / UTM zone ${zone}${isSouth ? 'S' : 'N'}`,
+        axes: ['Easting', 'Northing'],
+        isGeographic: false,
+        fromWgs84: ([lng, lat]) => {
+            const phi = lat * DEG;
+            const n = A / Math.sqrt(1 - E2 * Math.sin(phi) ** 2);
+            const t = Math.tan(phi) ** 2;
+            const c = EP2 * Math.cos(phi) ** 2;
+            const a = Math.cos(phi) * (lng * DEG - lng0);
+            const x = UTM_SCALE * n * (a + (1 - t + c) * a ** 3 / 6 + (5 - 18 * t + t ** 2 + 72 * c - 58 * EP2) * a ** 5 / 120);
+            const y = UTM_SCALE * (meridianArc(phi) + n * Math.tan(phi) * (
+                a ** 2 / 2 + (5 - t + 9 * c + 4 * c ** 2) * a ** 4 / 24 + (61 - 58 * t + t ** 2 + 600 * c - 330 * EP2) * a ** 6 / 720
+            ));
+            return [x + UTM_FALSE_EASTING, y + falseNorthing];
+        },
+        toWgs84: ([x, y]) => {
+            const mu = (y - falseNorthing) / UTM_SCALE / (A * (1 - E2 / 4 - 3 * E2 ** 2 / 64 - 5 * E2 ** 3 / 256));
+            const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+            const phi1 = mu
+                + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu)
+                + (21 * e1 ** 2 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu)
+                + (151 * e1 ** 3 / 96) * Math.sin(6 * mu)
+                + (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+            const c1 = EP2 * Math.cos(phi1) ** 2;
+            const t1 = Math.tan(phi1) ** 2;
+            const n1 = A / Math.sqrt(1 - E2 * Math.sin(phi1) ** 2);
+            const r1 = A * (1 - E2) / (1 - E2 * Math.sin(phi1) ** 2) ** 1.5;
+            const d = (x - UTM_FALSE_EASTING) / (n1 * UTM_SCALE);
+            const phi = phi1 - (n1 * Math.tan(phi1) / r1) * (
+                d ** 2 / 2
+                - (5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * EP2) * d ** 4 / 24
+                + (61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * EP2 - 3 * c1 ** 2) * d ** 6 / 720
+            );
+            const lng = lng0 + (
+                d - (1 + 2 * t1 + c1) * d ** 3 / 6 + (5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * EP2 + 24 * t1 ** 2) * d ** 5 / 120
+            ) / Math.cos(phi1);
+            return [lng / DEG, phi / DEG];
+        },
+    };
+};
+
+const toEpsg = (code: string | number) => Number(String(code).replace(/^EPSG:/i, ''));
+
+// Projections offered wherever a coordinate system is chosen: the coordinate readout, typed-in corners.
+// Others (a local grid, say) can be added with registerProjection.
+const registry: Projection[] = [WGS84];
+
+export const registerProjection = (projection: Projection) => {
+    const index = registry.findIndex(p => p.code === projection.code);
+    if (index >= 0) registry[index] = projection;
+    else registry.push(projection);
+};
+
+export const listProjections = (): Projection[] => [...registry];
+
+// Accepts "EPSG:32644", "32644" or 32644. Returns null for systems that aren't supported.
+export const getProjection = (code: string | number): Projection | null => {
+    const registered = registry.find(p => toEpsg(p.code) === toEpsg(code) || p.code === String(code));
+    if (registered) return registered;
+    const epsg = toEpsg(code);
+    if (epsg === 4326) return WGS84;
+    if (epsg === 3857 || epsg === 900913 || epsg === 102100) return WEB_MERCATOR;
+    if (epsg > 32600 && epsg <= 32660) return createUtm(epsg - 32600, false);
+    if (epsg > 32700 && epsg <= 32760) return createUtm(epsg - 32700, true);
+    return null;
+};
+
+// The port lies in UTM zone 44N
+registerProjection(createUtm(44, false));
+registerProjection(WEB_MERCATOR);
@@ -0,0 +1,78 @@
+import type { Feature, MultiPolygon, Polygon, Position } from 'geojson';
+import { bbox as turfBbox, booleanContains, booleanIntersects, buffer, circle, featureCollection, flatten, kinks, polygon, union, unkinkPolygon } from '@turf/turf';
+import type { GeoJsonLayer } from '../types';
+
+export type SpatialPredicate = 'intersects' | 'within' | 'contains';
+
+export type SelectionShape = Feature<Polygon | MultiPolygon>;
+
+export const SPATIAL_PREDICATES: { key: SpatialPredicate; label: string; description: string }[] = [
+    { key: 'intersects', label: 'Intersects', description: 'Features touching or overlapping the shape' },
+    { key: 'within', label: 'Within', description: 'Features completely inside the shape' },
+    { key: 'contains', label: 'Contains', description: 'Features that completely enclose the shape' },
+];
+
+type BBox = [number, number, number, number];
+
+const bboxesOverlap = (a: BBox, b: BBox) => a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+
+// Turf's contains only handles single-part geometries on the inner side, so multi-part features are tested part by part
+export const matchesSpatialPredicate = (feature: Feature, shape: Feature, predicate: SpatialPredicate): boolean => {
+    if (!feature.geometry || !shape.geometry) return false;
+    try {
+        switch (predicate) {
+            case 'intersects':
+                return booleanIntersects(feature, shape);
+            case 'within':
+                return flatten(feature).features.every(part => booleanContains(shape, part));
+            case 'contains':
+                return flatten(shape).features.every(part =>
+                    flatten(feature).features.some(container => booleanContains(container, part)));
+            default:
+                return false;
+        }
+    } catch {
+        // Geometry combinations turf can't compare (e.g. a line "containing" a polygon) never match
+        return false;
+    }
+};
+
+export const selectFeaturesByShape = (layers: GeoJsonLayer[], shape: SelectionShape, predicate: SpatialPredicate): { layerId: string; feature: Feature }[] => {
+    const shapeBbox = turfBbox(shape) as BBox;
+    const found: { layerId: string; feature: Feature }[] = [];
+    layers.forEach(layer => {
+        if (!layer.isVisible) return;
+        layer.data.features.forEach(feature => {
+            if (!feature.geometry) return;
+            try {
+                if (!bboxesOverlap(turfBbox(feature) as BBox, shapeBbox)) return;
+            } catch {
+                return;
+            }
+            if (matchesSpatialPredicate(feature, shape, predicate)) found.push({ layerId: layer.id, feature });
+        });
+    });
+    return found;
+};
+
+// Builds a polygon from sketched positions; self-intersecting lasso outlines are split into valid parts and merged
+export const createPolygonShape = (positions: Position[]): SelectionShape | null => {
+    if (positions.length < 3) return null;
+    const shape = polygon([[...positions, positions[0]]]);
+    if (kinks(shape).features.length === 0) return shape;
+    const parts = unkinkPolygon(shape);
+    return parts.features.length > 1 ? union(parts) : parts.features[0] || null;
+};
+
+export const createCircleShape = (center: Position, radiusMeters: number): SelectionShape =>
+    circle(center, radiusMeters, { steps: 64, units: 'meters' });
+
+// The area within `distanceMeters` of any of the given features, merged into one shape
+export const createBufferShape = (features: Feature[], distanceMeters: number): SelectionShape | null => {
+    const buffers = features
+        .filter(f => f.geometry)
+        .map(f => buffer(f, distanceMeters, { units: 'meters' }))
+        .filter((b): b is SelectionShape => !!b);
+    if (buffers.length === 0) return null;
+    return buffers.length > 1 ? union(featureCollection(buffers)) : buffers[0];
+};
@@ -0,0 +1,91 @@
+import type { Feature } from 'geojson';
+import type { GeoJsonLayer, StatusCategory, StatusModel } from '../types';
+
+export const UNKNOWN_STATUS_COLOR = '#94a3b8';
+export const UNKNOWN_STATUS_LABEL = 'Unknown';
+
+// Used by layers that don't declare their own status vocabulary
+export const DEFAULT_STATUS_MODEL: StatusModel = {
+    field: 'Status',
+    categories: [
+        { value: 'Comp', label: 'Good Condition', color: '#22c55e', severity: 0 },
+        { value: 'Requires Maintenance', label: 'Requires Maintenance', color: '#eab308', severity: 2 },
+    ],
+};
+
+// Colors offered to values picked up from the data, from good to bad
+const SEVERITY_PALETTE = ['#22c55e', '#84cc16', '#eab308', '#f97316', '#ef4444', '#b91c1c'];
+
+export interface FeatureStatus {
+    // The raw field value, or null when the feature has none
+    value: string | null;
+    label: string;
+    color: string;
+    severity: number;
+    isKnown: boolean;
+}
+
+export const getLayerStatusModel = (layer: Pick<GeoJsonLayer, 'statusModel'>): StatusModel => layer.statusModel || DEFAULT_STATUS_MODEL;
+
+const normalize = (value: unknown) => String(value).trim().toLowerCase();
+
+export const findStatusCategory = (model: StatusModel, value: unknown): StatusCategory | undefined => {
+    if (value === null || value === undefined || String(value).trim() === '') return undefined;
+    const key = normalize(value);
+    return model.categories.find(c => normalize(c.value) === key);
+};
+
+// Values are matched case-insensitively; values the model doesn't list keep their raw text but count as unknown
+export const getFeatureStatus = (feature: Feature, model: StatusModel = DEFAULT_STATUS_MODEL): FeatureStatus => {
+    const raw = feature.properties?.[model.field];
+    const value = raw === null || raw === undefined || String(raw).trim() === '' ? null : String(raw).trim();
+    const category = findStatusCategory(model, value);
+    return category
+        ? { value, label: category.label, color: category.color, severity: category.severity, isKnown: true }
+        : { value, label: UNKNOWN_STATUS_LABEL, color: UNKNOWN_STATUS_COLOR, severity: -1, isKnown: false };
+};
+
+// Worst first, unknown last
+export const sortStatusCategories = (categories: StatusCategory[]): StatusCategory[] =>
+    [...categories].sort((a, b) => b.severity - a.severity || a.label.localeCompare(b.label));
+
+export interface StatusSummaryEntry {
+    category: StatusCategory | null;
+    label: string;
+    color: string;
+    count: number;
+}
+
+// Feature counts per status, in severity order; categories without features are left out
+export const summarizeStatuses = (layer: GeoJsonLayer): StatusSummaryEntry[] => {
+    const model = getLayerStatusModel(layer);
+    const counts = new Map<StatusCategory | null, number>();
+    layer.data.features.forEach(feature => {
+        const category = findStatusCategory(model, feature.properties?.[model.field]) || null;
+        counts.set(category, (counts.get(category) || 0) + 1);
+    });
+    const known = sortStatusCategories(model.categories)
+        .filter(c => counts.has(c))
+        .map(c => ({ category: c, label: c.label, color: c.color, count: counts.get(c)! }));
+    const unknown = counts.get(null);
+    return unknown ? [...known, { category: null, label: UNKNOWN_STATUS_LABEL, color: UNKNOWN_STATUS_COLOR, count: unknown }] : known;
+};
+
+// Values of `field` present in the data that the model doesn't cover yet, as new categories
+export const detectStatusCategories = (layer: GeoJsonLayer, model: StatusModel): StatusCategory[] => {
+    const seen = new Set<string>();
+    const detected: StatusCategory[] = [];
+    layer.data.features.forEach(feature => {
+        const raw = feature.properties?.[model.field];
+        if (raw === null || raw === undefined || String(raw).trim() === '') return;
+        const value = String(raw).trim();
+        if (seen.has(normalize(value)) || findStatusCategory(model, value)) return;
+        seen.add(normalize(value));
+        detected.push({ value, label: value, color: '', severity: 0 });
+    });
+    const base = model.categories.length;
+    return detected.map((c, i) => ({ ...c, severity: base + i, color: SEVERITY_PALETTE[Math.min(base + i, SEVERITY_PALETTE.length - 1)] }));
+};
+
+export const getStatusModelKey = (model: StatusModel): string =>
+    `${model.field}:${model.categories.map(c => `${c.value}=${c.color}`).join('|')}`;
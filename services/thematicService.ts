@@ -0,0 +1,217 @@
+import type { Feature } from 'geojson';
+import type { CategorizedRenderer, ClassificationMethod, GeoJsonLayer, GraduatedRenderer, LayerRenderer, StatusModel, StatusRenderer } from '../types';
+import { DEFAULT_STATUS_MODEL, getFeatureStatus, getLayerStatusModel, getStatusModelKey, sortStatusCategories, UNKNOWN_STATUS_COLOR, UNKNOWN_STATUS_LABEL } from './statusService';
+
+export const CLASSIFICATION_METHODS: { key: ClassificationMethod; label: string }[] = [
+    { key: 'equal-interval', label: 'Equal interval' },
+    { key: 'quantile', label: 'Quantile' },
+    { key: 'jenks', label: 'Natural breaks (Jenks)' },
+];
+
+export const COLOR_RAMPS: Record<string, { label: string; stops: string[] }> = {
+    YlOrRd: { label: 'Yellow–Red', stops: ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'] },
+    Blues: { label: 'Blues', stops: ['#eff3ff', '#bdd7e7', '#6baed6', '#3182bd', '#08519c'] },
+    Greens: { label: 'Greens', stops: ['#edf8e9', '#bae4b3', '#74c476', '#31a354', '#006d2c'] },
+    Purples: { label: 'Purples', stops: ['#f2f0f7', '#cbc9e2', '#9e9ac8', '#756bb1', '#54278f'] },
+    RdYlGn: { label: 'Red–Green', stops: ['#d7191c', '#fdae61', '#ffffbf', '#a6d96a', '#1a9641'] },
+};
+
+const CATEGORY_PALETTE = [
+    '#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f',
+    '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac',
+];
+
+const MAX_CATEGORIES = CATEGORY_PALETTE.length;
+
+// Helper to list the fields of a layer that can drive a categorized or graduated renderer
+export const getThematicFields = (layer: GeoJsonLayer): { categorical: string[]; numeric: string[] } => {
+    const numericCounts: Record<string, number> = {};
+    const valueCounts: Record<string, number> = {};
+    for (const feature of layer.data.features) {
+        for (const [key, value] of Object.entries(feature.properties || {})) {
+            if (value === null || value === undefined || String(value).trim() === '') continue;
+            valueCounts[key] = (valueCounts[key] || 0) + 1;
+            if (typeof value === 'number' && isFinite(value)) numericCounts[key] = (numericCounts[key] || 0) + 1;
+        }
+    }
+    const keys = Object.keys(valueCounts).sort();
+    return {
+        categorical: keys.filter(k => numericCounts[k] !== valueCounts[k]),
+        numeric: keys.filter(k => numericCounts[k] === valueCounts[k]),
+    };
+};
+
+const hexToRgb = (hex: string) => {
+    const n = parseInt(hex.slice(1), 16);
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const rgbToHex = (rgb: number[]) => `#${rgb.map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+// Samples `count` evenly spaced colors from a ramp's stops
+export const interpolateRamp = (rampKey: string, count: number): string[] => {
+    const stops = (COLOR_RAMPS[rampKey] || COLOR_RAMPS.YlOrRd).stops.map(hexToRgb);
+    if (count <= 1) return [rgbToHex(stops[stops.length - 1])];
+    return Array.from({ length: count }, (_, i) => {
+        const t = (i / (count - 1)) * (stops.length - 1);
+        const lower = Math.floor(t);
+        const upper = Math.min(stops.length - 1, lower + 1);
+        const f = t - lower;
+        return rgbToHex(stops[lower].map((c, idx) => c + (stops[upper][idx] - c) * f));
+    });
+};
+
+const jenksBreaks = (sorted: number[], classCount: number): number[] => {
+    const n = sorted.length;
+    const lowerClassLimits = Array.from({ length: n + 1 }, () => new Array(classCount + 1).fill(0));
+    const variance = Array.from({ length: n + 1 }, () => new Array(classCount + 1).fill(Infinity));
+    for (let j = 1; j <= classCount; j++) {
+        lowerClassLimits[1][j] = 1;
+        variance[1][j] = 0;
+    }
+    for (let l = 2; l <= n; l++) {
+        let sum = 0, sumSquares = 0, w = 0, v = 0;
+        for (let m = 1; m <= l; m++) {
+            const lowerIndex = l - m + 1;
+            const value = sorted[lowerIndex - 1];
+            w++;
+            sum += value;
+            sumSquares += value * value;
+            v = sumSquares - (sum * sum) / w;
+            if (lowerIndex !== 1) {
+                for (let j = 2; j <= classCount; j++) {
+                    if (variance[l][j] >= v + variance[lowerIndex - 1][j - 1]) {
+                        lowerClassLimits[l][j] = lowerIndex;
+                        variance[l][j] = v + variance[lowerIndex - 1][j - 1];
+                    }
+                }
+            }
+        }
+        lowerClassLimits[l][1] = 1;
+        variance[l][1] = v;
+    }
+    const breaks: number[] = new Array(classCount);
+    breaks[classCount - 1] = sorted[n - 1];
+    let k = n;
+    for (let j = classCount; j >= 2; j--) {
+        const id = lowerClassLimits[k][j] - 1;
+        breaks[j - 2] = sorted[id - 1];
+        k = lowerClassLimits[k][j] - 1;
+    }
+    return breaks;
+};
+
+// Returns the upper bound of each class for the given values
+export const computeClassBreaks = (values: number[], method: ClassificationMethod, classCount: number): number[] => {
+    const sorted = values.filter(v => isFinite(v)).sort((a, b) => a - b);
+    if (sorted.length === 0) return [];
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    const uniqueCount = new Set(sorted).size;
+    const count = Math.max(1, Math.min(classCount, uniqueCount));
+    if (count === 1) return [max];
+
+    switch (method) {
+        case 'quantile':
+            return Array.from({ length: count }, (_, i) =>
+                i === count - 1 ? max : sorted[Math.min(sorted.length - 1, Math.ceil(((i + 1) / count) * sorted.length) - 1)]
+            ).filter((b, i, arr) => i === 0 || b > arr[i - 1]);
+        case 'jenks': {
+            // Fisher-Jenks is O(k·n²); sample large layers to keep styling responsive.
+            const sample = sorted.length > 1000
+                ? Array.from({ length: 1000 }, (_, i) => sorted[Math.floor((i / 999) * (sorted.length - 1))])
+                : sorted;
+            return jenksBreaks(sample, count).filter((b, i, arr) => i === 0 || b > arr[i - 1]);
+        }
+        case 'equal-interval':
+        default: {
+            const step = (max - min) / count;
+            return Array.from({ length: count }, (_, i) => i === count - 1 ? max : min + step * (i + 1));
+        }
+    }
+};
+
+export const buildCategorizedRenderer = (layer: GeoJsonLayer, field: string): CategorizedRenderer => {
+    const counts: Record<string, number> = {};
+    for (const feature of layer.data.features) {
+        const value = feature.properties?.[field];
+        if (value === null || value === undefined || String(value).trim() === '') continue;
+        const key = String(value).trim();
+        counts[key] = (counts[key] || 0) + 1;
+    }
+    const values = Object.entries(counts).sort(([, a], [, b]) => b - a).map(([value]) => value).slice(0, MAX_CATEGORIES);
+    return {
+        type: 'categorized',
+        field,
+        categories: values.map((value, i) => ({ value, color: CATEGORY_PALETTE[i % CATEGORY_PALETTE.length] })),
+        otherColor: '#94a3b8',
+    };
+};
+
+export const buildGraduatedRenderer = (layer: GeoJsonLayer, field: string, method: ClassificationMethod, classCount: number, ramp: string): GraduatedRenderer => {
+    const values = layer.data.features
+        .map(f => f.properties?.[field])
+        .filter((v): v is number => typeof v === 'number' && isFinite(v));
+    const breaks = computeClassBreaks(values, method, classCount);
+    return {
+        type: 'graduated',
+        field,
+        method,
+        ramp,
+        min: values.length > 0 ? Math.min(...values) : 0,
+        breaks,
+        colors: interpolateRamp(ramp, breaks.length),
+    };
+};
+
+export const buildStatusRenderer = (layer: GeoJsonLayer): StatusRenderer => ({ type: 'status', field: getLayerStatusModel(layer).field });
+
+// Resolves the fill/stroke color a feature gets from its layer's renderer
+export const getFeatureColor = (layer: GeoJsonLayer, feature?: Feature): string => {
+    const renderer = layer.renderer;
+    if (!renderer || !feature) return layer.color;
+    if (renderer.type === 'status') return getFeatureStatus(feature, getLayerStatusModel(layer)).color;
+    const value = feature.properties?.[renderer.field];
+
+    if (renderer.type === 'categorized') {
+        if (value === null || value === undefined) return renderer.otherColor;
+        const match = renderer.categories.find(c => c.value === String(value).trim());
+        return match ? match.color : renderer.otherColor;
+    }
+
+    if (typeof value !== 'number' || !isFinite(value)) return '#cbd5e1';
+    const classIndex = renderer.breaks.findIndex(b => value <= b);
+    return renderer.colors[classIndex === -1 ? renderer.colors.length - 1 : classIndex];
+};
+
+const formatBreak = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export const getLegendEntries = (layer: GeoJsonLayer): { label: string; color: string }[] => {
+    const renderer = layer.renderer;
+    if (!renderer) return [{ label: layer.name, color: layer.color }];
+    if (renderer.type === 'categorized') {
+        const entries = renderer.categories.map(c => ({ label: c.value, color: c.color }));
+        const hasOther = layer.data.features.some(f => getFeatureColor(layer, f) === renderer.otherColor);
+        return hasOther ? [...entries, { label: 'Other', color: renderer.otherColor }] : entries;
+    }
+    if (renderer.type === 'status') {
+        const model = getLayerStatusModel(layer);
+        const entries = sortStatusCategories(model.categories).map(c => ({ label: c.label, color: c.color }));
+        const hasUnknown = layer.data.features.some(f => !getFeatureStatus(f, model).isKnown);
+        return hasUnknown ? [...entries, { label: UNKNOWN_STATUS_LABEL, color: UNKNOWN_STATUS_COLOR }] : entries;
+    }
+    return renderer.breaks.map((upper, i) => ({
+        label: `${formatBreak(i === 0 ? renderer.min : renderer.breaks[i - 1])} – ${formatBreak(upper)}`,
+        color: renderer.colors[i],
+    }));
+};
+
+// Short stable string that changes whenever the renderer would paint features differently
+export const getRendererKey = (renderer?: LayerRenderer, statusModel?: StatusModel): string => {
+    if (!renderer) return 'single';
+    if (renderer.type === 'status') return `status:${getStatusModelKey(statusModel || DEFAULT_STATUS_MODEL)}`;
+    if (renderer.type === 'categorized') {
+        return `cat:${renderer.field}:${renderer.categories.map(c => `${c.value}=${c.color}`).join('|')}`;
+    }
+    return `grad:${renderer.field}:${renderer.breaks.join('|')}:${renderer.colors.join('|')}`;
+};
@@ -0,0 +1,538 @@
+// Reads raster tiles straight out of MBTiles and PMTiles archives, either files picked from disk or (for PMTiles)
+// a URL on a server that answers HTTP range requests. Only the pages and directories a tile needs are read,
+// so archives of several gigabytes open instantly.
+
+export interface TileArchive {
+    format: 'mbtiles' | 'pmtiles';
+    name?: string;
+    attribution?: string;
+    minZoom: number;
+    maxZoom: number;
+    // [west, south, east, north]
+    bounds?: [number, number, number, number];
+    // Tiles are addressed like XYZ URLs, y counted from the top; null where the archive has no tile
+    getTile: (z: number, x: number, y: number) => Promise<Blob | null>;
+}
+
+export class TileArchiveError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TileArchiveError';
+    }
+}
+
+type ReadRange = (offset: number, length: number) => Promise<Uint8Array>;
+
+const fileRange = (file: Blob): ReadRange => async (offset, length) =>
+    new Uint8Array(await file.slice(offset, offset + length).arrayBuffer());
+
+const httpRange = (url: string): ReadRange => async (offset, length) => {
+    const response = await fetch(url, { headers: { Range: `bytes=${offset}-${offset + length - 1}` } });
+    if (response.status === 200) throw new TileArchiveError(`The server for ${url} does not support range requests.`);
+    if (!response.ok) throw new TileArchiveError(`Failed to read ${url} (HTTP ${response.status}).`);
+    return new Uint8Array(await response.arrayBuffer());
+};
+
+const RASTER_SIGNATURES: { type: string; bytes: number[] }[] = [
+    { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+    { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+    { type: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46] },
+];
+
+const toImageBlob = (bytes: Uint8Array, type?: string): Blob => {
+    const sniffed = RASTER_SIGNATURES.find(s => s.bytes.every((b, i) => bytes[i] === b))?.type;
+    return new Blob([bytes], { type: sniffed || type || 'application/octet-stream' });
+};
+
+const decompress = async (bytes: Uint8Array, compression: 'none' | 'gzip'): Promise<Uint8Array> => {
+    if (compression === 'none') return bytes;
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const utf8 = new TextDecoder();
+
+// --- MBTiles: a read-only walk of the SQLite file format -------------------------------------------------------
+
+type SqlValue = number | string | Uint8Array | null;
+
+interface BtreePage {
+    type: number;
+    bytes: Uint8Array;
+    cells: number[];
+    rightChild: number;
+}
+
+const PAGE_TABLE_INTERIOR = 0x05;
+const PAGE_TABLE_LEAF = 0x0d;
+const PAGE_INDEX_INTERIOR = 0x02;
+const PAGE_INDEX_LEAF = 0x0a;
+const PAGE_CACHE_SIZE = 512;
+
+const u16 = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+const u32 = (bytes: Uint8Array, offset: number) => ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+
+// SQLite varints are big-endian, 7 bits per byte, with a full ninth byte
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+    let value = 0;
+    for (let i = 0; i < 8; i++) {
+        const byte = bytes[offset + i];
+        value = value * 128 + (byte & 0x7f);
+        if (byte < 0x80) return [value, i + 1];
+    }
+    return [value * 256 + bytes[offset + 8], 9];
+};
+
+const readInt = (bytes: Uint8Array, offset: number, size: number) => {
+    let value = 0;
+    for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i];
+    return bytes[offset] & 0x80 ? value - 2 ** (size * 8) : value;
+};
+
+const INT_SIZES: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 4, 5: 6, 6: 8 };
+
+const decodeRecord = (payload: Uint8Array): SqlValue[] => {
+    const [headerSize, headerStart] = readVarint(payload, 0);
+    const values: SqlValue[] = [];
+    let header = headerStart;
+    let body = headerSize;
+    while (header < headerSize) {
+        const [serial, length] = readVarint(payload, header);
+        header += length;
+        if (serial === 0) values.push(null);
+        else if (serial in INT_SIZES) {
+            values.push(readInt(payload, body, INT_SIZES[serial]));
+            body += INT_SIZES[serial];
+        } else if (serial === 7) {
+            values.push(new DataView(payload.buffer, payload.byteOffset + body, 8).getFloat64(0));
+            body += 8;
+        } else if (serial === 8 || serial === 9) values.push(serial - 8);
+        else if (serial >= 12) {
+            const size = Math.floor((serial - 12) / 2);
+            const content = payload.subarray(body, body + size);
+            values.push(serial % 2 === 0 ? content : utf8.decode(content));
+            body += size;
+        } else throw new TileArchiveError('The MBTiles file uses an unsupported SQLite record format.');
+    }
+    return values;
+};
+
+// Compares an index key with a search key the way SQLite orders values: numbers before text
+const compareKey = (record: SqlValue[], key: (number | string)[]) => {
+    for (let i = 0; i < key.length; i++) {
+        const a = record[i];
+        const b = key[i];
+        if (a === b) continue;
+        if (a === null || (typeof a === 'number' && typeof b === 'string')) return -1;
+        if (typeof a !== typeof b) return 1;
+        return (a as number | string) < b ? -1 : 1;
+    }
+    return 0;
+};
+
+interface SqliteColumns {
+    names: string[];
+    // The INTEGER PRIMARY KEY column, which is stored as the rowid instead of in the record
+    rowidAlias?: string;
+}
+
+const unquote = (name: string) => name.replace(/^["'`[]|["'`\]]$/g, '');
+
+const parseColumns = (sql: string): SqliteColumns => {
+    const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of body) {
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        current += char;
+    }
+    parts.push(current);
+    const definitions = parts.map(p => p.trim()).filter(p => p && !/^(PRIMARY|UNIQUE|CHECK|FOREIGN|CONSTRAINT)\b/i.test(p));
+    const names = definitions.map(d => unquote(d.split(/\s+/)[0]).toLowerCase());
+    const aliasIndex = definitions.findIndex(d => /\bINTEGER\s+PRIMARY\s+KEY\b/i.test(d));
+    return { names, rowidAlias: aliasIndex >= 0 ? names[aliasIndex] : undefined };
+};
+
+interface SchemaEntry {
+    type: string;
+    name: string;
+    table: string;
+    rootPage: number;
+    sql: string;
+}
+
+class SqliteReader {
+    private cache = new Map<number, BtreePage>();
+    private usableSize: number;
+
+    constructor(private read: ReadRange, private pageSize: number, reservedBytes: number) {
+        this.usableSize = pageSize - reservedBytes;
+    }
+
+    static async open(read: ReadRange): Promise<SqliteReader> {
+        const header = await read(0, 100);
+        const pageSize = u16(header, 16) === 1 ? 65536 : u16(header, 16);
+        return new SqliteReader(read, pageSize, header[20]);
+    }
+
+    private async readRaw(pageNumber: number) {
+        return this.read((pageNumber - 1) * this.pageSize, this.pageSize);
+    }
+
+    async getPage(pageNumber: number): Promise<BtreePage> {
+        const cached = this.cache.get(pageNumber);
+        if (cached) return cached;
+        const bytes = await this.readRaw(pageNumber);
+        // Page 1 starts with the 100-byte file header
+        const start = pageNumber === 1 ? 100 : 0;
+        const type = bytes[start];
+        const isInterior = type === PAGE_TABLE_INTERIOR || type === PAGE_INDEX_INTERIOR;
+        const headerSize = isInterior ? 12 : 8;
+        const cells = Array.from({ length: u16(bytes, start + 3) }, (_, i) => u16(bytes, start + headerSize + i * 2));
+        const page = { type, bytes, cells, rightChild: isInterior ? u32(bytes, start + 8) : 0 };
+        if (this.cache.size >= PAGE_CACHE_SIZE) this.cache.delete(this.cache.keys().next().value!);
+        this.cache.set(pageNumber, page);
+        return page;
+    }
+
+    // Cell payloads too large for their page continue on a chain of overflow pages
+    private async readPayload(page: BtreePage, offset: number, size: number, isIndex: boolean): Promise<Uint8Array> {
+        const usable = this.usableSize;
+        const maxLocal = isIndex ? Math.floor((usable - 12) * 64 / 255) - 23 : usable - 35;
+        if (size <= maxLocal) return page.bytes.subarray(offset, offset + size);
+        const minLocal = Math.floor((usable - 12) * 32 / 255) - 23;
+        const k = minLocal + (size - minLocal) % (usable - 4);
+        const localSize = k <= maxLocal ? k : minLocal;
+        const payload = new Uint8Array(size);
+        payload.set(page.bytes.subarray(offset, offset + localSize));
+        let written = localSize;
+        let next = u32(page.bytes, offset + localSize);
+        while (written < size && next) {
+            const overflow = await this.readRaw(next);
+            const chunk = Math.min(usable - 4, size - written);
+            payload.set(overflow.subarray(4, 4 + chunk), written);
+            written += chunk;
+            next = u32(overflow, 0);
+        }
+        return payload;
+    }
+
+    async readAllRows(rootPage: number): Promise<{ rowid: number; values: SqlValue[] }[]> {
+        const page = await this.getPage(rootPage);
+        if (page.type === PAGE_TABLE_INTERIOR) {
+            const children = [...page.cells.map(cell => u32(page.bytes, cell)), page.rightChild];
+            const rows = [];
+            for (const child of children) rows.push(...await this.readAllRows(child));
+            return rows;
+        }
+        if (page.type !== PAGE_TABLE_LEAF) throw new TileArchiveError('The MBTiles file is not a valid SQLite database.');
+        const rows = [];
+        for (const cell of page.cells) {
+            const [size, sizeLength] = readVarint(page.bytes, cell);
+            const [rowid, rowidLength] = readVarint(page.bytes, cell + sizeLength);
+            rows.push({ rowid, values: decodeRecord(await this.readPayload(page, cell + sizeLength + rowidLength, size, false)) });
+        }
+        return rows;
+    }
+
+    async findRow(rootPage: number, rowid: number): Promise<SqlValue[] | null> {
+        let page = await this.getPage(rootPage);
+        while (page.type === PAGE_TABLE_INTERIOR) {
+            const current = page;
+            const cell = current.cells.find(c => rowid <= readVarint(current.bytes, c + 4)[0]);
+            page = await this.getPage(cell === undefined ? current.rightChild : u32(current.bytes, cell));
+        }
+        for (const cell of page.cells) {
+            const [size, sizeLength] = readVarint(page.bytes, cell);
+            const [key, keyLength] = readVarint(page.bytes, cell + sizeLength);
+            if (key === rowid) return decodeRecord(await this.readPayload(page, cell + sizeLength + keyLength, size, false));
+        }
+        return null;
+    }
+
+    private async readIndexCell(page: BtreePage, cell: number): Promise<SqlValue[]> {
+        const offset = page.type === PAGE_INDEX_INTERIOR ? cell + 4 : cell;
+        const [size, sizeLength] = readVarint(page.bytes, offset);
+        return decodeRecord(await this.readPayload(page, offset + sizeLength, size, true));
+    }
+
+    // The rowid of the first index entry starting with `key`
+    async findInIndex(rootPage: number, key: (number | string)[]): Promise<number | null> {
+        let page = await this.getPage(rootPage);
+        for (;;) {
+            const isInterior = page.type === PAGE_INDEX_INTERIOR;
+            let child = page.rightChild;
+            for (const cell of page.cells) {
+                const record = await this.readIndexCell(page, cell);
+                const order = compareKey(record, key);
+                if (order === 0) return record[record.length - 1] as number;
+                if (order > 0) {
+                    if (!isInterior) return null;
+                    child = u32(page.bytes, cell);
+                    break;
+                }
+            }
+            if (!isInterior) return null;
+            page = await this.getPage(child);
+        }
+    }
+
+    // The smallest or largest key in an index
+    async getIndexBoundary(rootPage: number, last: boolean): Promise<SqlValue[] | null> {
+        let page = await this.getPage(rootPage);
+        while (page.type === PAGE_INDEX_INTERIOR) {
+            page = await this.getPage(last ? page.rightChild : u32(page.bytes, page.cells[0]));
+        }
+        if (page.cells.length === 0) return null;
+        return this.readIndexCell(page, page.cells[last ? page.cells.length - 1 : 0]);
+    }
+
+    async readSchema(): Promise<SchemaEntry[]> {
+        const rows = await this.readAllRows(1);
+        return rows.map(({ values: [type, name, table, rootPage, sql] }) => ({
+            type: String(type), name: String(name), table: String(table), rootPage: Number(rootPage), sql: String(sql || ''),
+        }));
+    }
+}
+
+const TILE_KEY = ['zoom_level', 'tile_column', 'tile_row'];
+
+const findIndex = (schema: SchemaEntry[], table: string, columns: string[]) => schema.find(entry =>
+    entry.type === 'index' && entry.table.toLowerCase() === table && entry.sql &&
+    columns.every((column, i) => parseColumns(entry.sql).names[i] === column));
+
+const findTable = (schema: SchemaEntry[], name: string) => {
+    const entry = schema.find(e => e.type === 'table' && e.name.toLowerCase() === name);
+    return entry && { rootPage: entry.rootPage, columns: parseColumns(entry.sql) };
+};
+
+const columnValue = (columns: SqliteColumns, row: SqlValue[], rowid: number, column: string): SqlValue =>
+    columns.rowidAlias === column ? rowid : row[columns.names.indexOf(column)] ?? null;
+
+const MBTILES_FORMATS: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+const openMbtiles = async (read: ReadRange): Promise<TileArchive> => {
+    const db = await SqliteReader.open(read);
+    const schema = await db.readSchema();
+
+    const metadataTable = findTable(schema, 'metadata');
+    const metadata: Record<string, string> = {};
+    if (metadataTable) {
+        (await db.readAllRows(metadataTable.rootPage)).forEach(({ rowid, values }) => {
+            const name = columnValue(metadataTable.columns, values, rowid, 'name');
+            if (name !== null) metadata[String(name)] = String(columnValue(metadataTable.columns, values, rowid, 'value') ?? '');
+        });
+    }
+    if (metadata.format === 'pbf') throw new TileArchiveError('This MBTiles file holds vector tiles; only raster (PNG, JPEG, WebP) basemaps are supported.');
+
+    // Tiles live either in a "tiles" table, or in "map" and "images" tables joined by tile_id behind a "tiles" view
+    const tilesTable = findTable(schema, 'tiles');
+    const mapTable = findTable(schema, 'map');
+    const imagesTable = findTable(schema, 'images');
+    const tileTable = tilesTable || mapTable;
+    const tileIndex = findIndex(schema, tilesTable ? 'tiles' : 'map', TILE_KEY);
+    const imagesIndex = findIndex(schema, 'images', ['tile_id']);
+    if (!tileTable || (!tilesTable && (!imagesTable || !imagesIndex))) throw new TileArchiveError('This file is not an MBTiles archive: it has no tiles table.');
+    if (!tileIndex) throw new TileArchiveError('The MBTiles file has no index on its tiles. Add one with: CREATE UNIQUE INDEX tile_index ON tiles (zoom_level, tile_column, tile_row);');
+
+    const readTileData = async (rowid: number): Promise<SqlValue> => {
+        const row = await db.findRow(tileTable.rootPage, rowid);
+        if (!row) return null;
+        if (tilesTable) return columnValue(tilesTable.columns, row, rowid, 'tile_data');
+        const tileId = columnValue(mapTable!.columns, row, rowid, 'tile_id');
+        if (tileId === null) return null;
+        const imageRowid = await db.findInIndex(imagesIndex!.rootPage, [tileId as string | number]);
+        const image = imageRowid === null ? null : await db.findRow(imagesTable!.rootPage, imageRowid);
+        return image && columnValue(imagesTable!.columns, image, imageRowid!, 'tile_data');
+    };
+
+    const zoomOf = (record: SqlValue[] | null, fallback: number) => typeof record?.[0] === 'number' ? record[0] : fallback;
+    const minZoom = metadata.minzoom ? Number(metadata.minzoom) : zoomOf(await db.getIndexBoundary(tileIndex.rootPage, false), 0);
+    const maxZoom = metadata.maxzoom ? Number(metadata.maxzoom) : zoomOf(await db.getIndexBoundary(tileIndex.rootPage, true), 18);
+    const bounds = metadata.bounds?.split(',').map(Number);
+
+    return {
+        format: 'mbtiles',
+        name: metadata.name,
+        attribution: metadata.attribution,
+        minZoom,
+        maxZoom,
+        bounds: bounds?.length === 4 && bounds.every(Number.isFinite) ? bounds as [number, number, number, number] : undefined,
+        getTile: async (z, x, y) => {
+            // MBTiles rows are counted from the bottom (TMS)
+            const rowid = await db.findInIndex(tileIndex.rootPage, [z, x, 2 ** z - 1 - y]);
+            if (rowid === null) return null;
+            const data = await readTileData(rowid);
+            return data instanceof Uint8Array ? toImageBlob(data, MBTILES_FORMATS[metadata.format]) : null;
+        },
+    };
+};
+
+// --- PMTiles (version 3) ----------------------------------------------------------------------------------------
+
+interface DirectoryEntry {
+    tileId: number;
+    offset: number;
+    length: number;
+    runLength: number;
+}
+
+const PMTILES_HEADER_SIZE = 127;
+// The spec guarantees the header and root directory fit in the first 16 KiB
+const PMTILES_ROOT_SIZE = 16384;
+const PMTILES_TILE_TYPES: Record<number, string> = { 2: 'image/png', 3: 'image/jpeg', 4: 'image/webp', 5: 'image/avif' };
+
+// PMTiles varints are little-endian (LEB128)
+const readLeb128 = (bytes: Uint8Array, offset: number): [number, number] => {
+    let value = 0;
+    for (let i = 0; ; i++) {
+        const byte = bytes[offset + i];
+        value += (byte & 0x7f) * 2 ** (7 * i);
+        if (byte < 0x80) return [value, i + 1];
+    }
+};
+
+const parseDirectory = (bytes: Uint8Array): DirectoryEntry[] => {
+    let offset = 0;
+    const next = () => {
+        const [value, length] = readLeb128(bytes, offset);
+        offset += length;
+        return value;
+    };
+    const entries: DirectoryEntry[] = Array.from({ length: next() }, () => ({ tileId: 0, offset: 0, length: 0, runLength: 0 }));
+    let tileId = 0;
+    entries.forEach(e => { tileId += next(); e.tileId = tileId; });
+    entries.forEach(e => { e.runLength = next(); });
+    entries.forEach(e => { e.length = next(); });
+    entries.forEach((e, i) => {
+        const value = next();
+        // Zero means "straight after the previous entry"
+        e.offset = value === 0 && i > 0 ? entries[i - 1].offset + entries[i - 1].length : value - 1;
+    });
+    return entries;
+};
+
+// Tiles are numbered along a Hilbert curve, zoom level by zoom level
+export const zxyToTileId = (z: number, x: number, y: number): number => {
+    let id = (4 ** z - 1) / 3;
+    let [tx, ty] = [x, y];
+    for (let s = 2 ** (z - 1); s >= 1; s /= 2) {
+        const rx = (tx & s) > 0 ? 1 : 0;
+        const ry = (ty & s) > 0 ? 1 : 0;
+        id += s * s * ((3 * rx) ^ ry);
+        if (ry === 0) {
+            if (rx === 1) {
+                tx = s - 1 - tx;
+                ty = s - 1 - ty;
+            }
+            [tx, ty] = [ty, tx];
+        }
+    }
+    return id;
+};
+
+const findEntry = (entries: DirectoryEntry[], tileId: number): DirectoryEntry | null => {
+    let low = 0;
+    let high = entries.length - 1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (entries[mid].tileId < tileId) low = mid + 1;
+        else if (entries[mid].tileId > tileId) high = mid - 1;
+        else return entries[mid];
+    }
+    const entry = entries[high];
+    // A run length of zero points at a leaf directory covering the ids that follow
+    return entry && (entry.runLength === 0 || tileId - entry.tileId < entry.runLength) ? entry : null;
+};
+
+const openPmtiles = async (read: ReadRange, size: number): Promise<TileArchive> => {
+    const start = await read(0, Math.min(PMTILES_ROOT_SIZE, size));
+    if (start[7] !== 3) throw new TileArchiveError(`PMTiles version ${start[7]} is not supported; convert the archive to version 3.`);
+    const view = new DataView(start.buffer, start.byteOffset, PMTILES_HEADER_SIZE);
+    const u64 = (offset: number) => view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+    const compressionOf = (code: number): 'none' | 'gzip' => {
+        if (code === 0 || code === 1) return 'none';
+        if (code === 2) return 'gzip';
+        throw new TileArchiveError('The PMTiles archive uses Brotli or Zstandard compression, which the browser cannot read; rebuild it with gzip.');
+    };
+    const header = {
+        rootOffset: u64(8), rootLength: u64(16),
+        metadataOffset: u64(24), metadataLength: u64(32),
+        leafOffset: u64(40),
+        dataOffset: u64(56),
+        internalCompression: compressionOf(view.getUint8(97)),
+        tileCompression: compressionOf(view.getUint8(98)),
+        tileType: view.getUint8(99),
+        minZoom: view.getUint8(100), maxZoom: view.getUint8(101),
+        bounds: [view.getInt32(102, true), view.getInt32(106, true), view.getInt32(110, true), view.getInt32(114, true)].map(v => v / 1e7),
+    };
+    if (header.tileType === 1) throw new TileArchiveError('This PMTiles archive holds vector tiles; only raster (PNG, JPEG, WebP) basemaps are supported.');
+
+    const readSection = async (offset: number, length: number) => offset + length <= start.length
+        ? start.slice(offset, offset + length)
+        : read(offset, length);
+    const root = parseDirectory(await decompress(await readSection(header.rootOffset, header.rootLength), header.internalCompression));
+    const leaves = new Map<number, Promise<DirectoryEntry[]>>();
+    const getLeaf = (entry: DirectoryEntry) => {
+        if (!leaves.has(entry.offset)) {
+            leaves.set(entry.offset, read(header.leafOffset + entry.offset, entry.length)
+                .then(bytes => decompress(bytes, header.internalCompression))
+                .then(parseDirectory));
+        }
+        return leaves.get(entry.offset)!;
+    };
+
+    let metadata: { name?: string; attribution?: string } = {};
+    if (header.metadataLength > 0) {
+        try {
+            metadata = JSON.parse(utf8.decode(await decompress(await readSection(header.metadataOffset, header.metadataLength), header.internalCompression)));
+        } catch {
+            // Names are cosmetic; an unreadable metadata block doesn't stop the tiles from loading
+        }
+    }
+
+    return {
+        format: 'pmtiles',
+        name: metadata.name,
+        attribution: metadata.attribution,
+        minZoom: header.minZoom,
+        maxZoom: header.maxZoom,
+        bounds: header.bounds as [number, number, number, number],
+        getTile: async (z, x, y) => {
+            const tileId = zxyToTileId(z, x, y);
+            let entries = root;
+            // The spec allows at most three levels of leaf directories
+            for (let depth = 0; depth < 4; depth++) {
+                const entry = findEntry(entries, tileId);
+                if (!entry) return null;
+                if (entry.runLength > 0) {
+                    const bytes = await read(header.dataOffset + entry.offset, entry.length);
+                    return toImageBlob(await decompress(bytes, header.tileCompression), PMTILES_TILE_TYPES[header.tileType]);
+                }
+                entries = await getLeaf(entry);
+            }
+            return null;
+        },
+    };
+};
+
+// Opens an MBTiles or PMTiles archive from a file, or a PMTiles archive from a URL
+export const openTileArchive = async (source: File | string): Promise<TileArchive> => {
+    const read = typeof source === 'string' ? httpRange(source) : fileRange(source);
+    const magic = utf8.decode(await read(0, 16));
+    if (magic.startsWith('PMTiles')) {
+        return openPmtiles(read, typeof source === 'string' ? PMTILES_ROOT_SIZE : source.size);
+    }
+    if (magic.startsWith('SQLite format 3')) {
+        if (typeof source === 'string') throw new TileArchiveError('MBTiles can only be opened from a file; serve it through a tile server to use a URL.');
+        return openMbtiles(read);
+    }
+    throw new TileArchiveError('The file is neither an MBTiles nor a PMTiles archive.');
+};
@@ -0,0 +1,137 @@
+import type { BasemapDefinition } from '../types';
+import { formatTileUrl, isArchiveBasemap } from './basemapService';
+
+// Must match TILE_CACHE_NAME in public/tile-sw.js, which answers tile requests from this cache
+export const TILE_CACHE_NAME = 'geoasset-tiles-v1';
+const SERVICE_WORKER_URL = '/tile-sw.js';
+
+// Keeps a single download within what a phone or field laptop can reasonably store
+export const MAX_PREFETCH_TILES = 20000;
+const PREFETCH_CONCURRENCY = 6;
+
+export interface TilePrefetchProgress {
+    total: number;
+    done: number;
+    failed: number;
+}
+
+export class TileCacheError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TileCacheError';
+    }
+}
+
+export const isTileCacheSupported = () => 'serviceWorker' in navigator && 'caches' in window;
+
+// Installs the service worker that serves cached tiles; the map works as before where it isn't supported
+export const registerTileCacheWorker = () => {
+    if (!isTileCacheSupported()) return;
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => console.error('Tile cache service worker failed to register', error));
+};
+
+const lngToTileX = (lng: number, z: number) => Math.floor((lng + 180) / 360 * 2 ** z);
+const latToTileY = (lat: number, z: number) => {
+    const rad = Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI / 180;
+    return Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * 2 ** z);
+};
+
+interface TileRange {
+    z: number;
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+}
+
+// The tiles covering [[south, west], [north, east]] at each zoom level from minZoom to maxZoom
+export const getTileRanges = (bounds: [[number, number], [number, number]], minZoom: number, maxZoom: number): TileRange[] => {
+    const [[south, west], [north, east]] = bounds;
+    const ranges: TileRange[] = [];
+    for (let z = minZoom; z <= maxZoom; z++) {
+        const clamp = (value: number) => Math.max(0, Math.min(2 ** z - 1, value));
+        ranges.push({
+            z,
+            minX: clamp(lngToTileX(west, z)), maxX: clamp(lngToTileX(east, z)),
+            minY: clamp(latToTileY(north, z)), maxY: clamp(latToTileY(south, z)),
+        });
+    }
+    return ranges;
+};
+
+export const countTiles = (ranges: TileRange[]) =>
+    ranges.reduce((sum, r) => sum + (r.maxX - r.minX + 1) * (r.maxY - r.minY + 1), 0);
+
+// Tile servers without CORS headers only work when the basemap opts in: their tiles are stored as opaque
+// responses, which images can display but whose status can't be checked
+const fetchTile = async (basemap: BasemapDefinition, url: string, signal: AbortSignal) => {
+    try {
+        return await fetch(url, { mode: 'cors', signal });
+    } catch (error) {
+        if (signal.aborted || !basemap.cacheOpaqueTiles) throw error;
+        return fetch(url, { mode: 'no-cors', signal });
+    }
+};
+
+// Downloads every tile of `basemap` in the extent and zoom range into the tile cache. Tiles already cached are
+// skipped, so an interrupted download can simply be started again; opaque ones are fetched again, as they may be
+// a stored error.
+export const prefetchTiles = async (
+    basemap: BasemapDefinition,
+    bounds: [[number, number], [number, number]],
+    minZoom: number,
+    maxZoom: number,
+    onProgress: (progress: TilePrefetchProgress) => void,
+    signal: AbortSignal,
+): Promise<TilePrefetchProgress> => {
+    if (!isTileCacheSupported()) throw new TileCacheError('This browser cannot store tiles for offline use.');
+    if (isArchiveBasemap(basemap)) throw new TileCacheError(`"${basemap.name}" is read from a tile archive and already works offline.`);
+    if (!basemap.allowPrefetch) {
+        throw new TileCacheError(`"${basemap.name}" does not allow bulk downloads. Only basemaps marked allowPrefetch, such as a local or self-hosted tile server, can be stored for offline use.`);
+    }
+    const ranges = getTileRanges(bounds, minZoom, maxZoom);
+    const total = countTiles(ranges);
+    if (total > MAX_PREFETCH_TILES) {
+        throw new TileCacheError(`That is ${total.toLocaleString()} tiles; zoom in or lower the maximum zoom to stay under ${MAX_PREFETCH_TILES.toLocaleString()}.`);
+    }
+
+    const urls: string[] = [];
+    ranges.forEach(r => {
+        for (let x = r.minX; x <= r.maxX; x++) {
+            for (let y = r.minY; y <= r.maxY; y++) urls.push(formatTileUrl(basemap, x, y, r.z));
+        }
+    });
+
+    const cache = await caches.open(TILE_CACHE_NAME);
+    const progress: TilePrefetchProgress = { total, done: 0, failed: 0 };
+    let next = 0;
+    const worker = async () => {
+        while (next < urls.length && !signal.aborted) {
+            const url = urls[next++];
+            try {
+                const cached = await cache.match(url);
+                if (!cached || cached.type === 'opaque') {
+                    const response = await fetchTile(basemap, url, signal);
+                    if (response.ok || response.type === 'opaque') await cache.put(url, response);
+                    else progress.failed++;
+                }
+            } catch {
+                if (!signal.aborted) progress.failed++;
+            }
+            progress.done++;
+            onProgress({ ...progress });
+        }
+    };
+    await Promise.all(Array.from({ length: PREFETCH_CONCURRENCY }, worker));
+    return progress;
+};
+
+export const getCachedTileCount = async (): Promise<number> => {
+    if (!isTileCacheSupported()) return 0;
+    const cache = await caches.open(TILE_CACHE_NAME);
+    return (await cache.keys()).length;
+};
+
+export const clearTileCache = async () => {
+    if (isTileCacheSupported()) await caches.delete(TILE_CACHE_NAME);
+};
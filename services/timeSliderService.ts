@@ -0,0 +1,84 @@
+import type { Feature } from 'geojson';
+import type { GeoJsonLayer, TimeFilter } from '../types';
+import { getFeatureArea } from '../utils';
+
+const MIN_YEAR = 1000;
+const MAX_YEAR = 3000;
+
+export interface YearAreaStat {
+    year: number;
+    // Features dated in this year and their area
+    count: number;
+    area: number;
+    // Everything dated up to and including this year
+    cumulativeCount: number;
+    cumulativeArea: number;
+}
+
+// Years are read from whole numbers (e.g. Cons_Year 2019) or from date strings ("2019-04-01")
+export const parseYear = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') return Number.isInteger(value) && value >= MIN_YEAR && value <= MAX_YEAR ? value : null;
+    const text = String(value).trim();
+    if (/^\d{4}$/.test(text)) return parseYear(Number(text));
+    if (!/^\d{4}-\d{2}(-\d{2})?/.test(text)) return null;
+    const year = new Date(text).getUTCFullYear();
+    return isFinite(year) ? parseYear(year) : null;
+};
+
+export const getFeatureYear = (feature: Feature, field: string): number | null => parseYear(feature.properties?.[field]);
+
+// Fields where every filled-in value reads as a year, and at least two different years occur
+export const getTemporalFields = (layer: GeoJsonLayer): string[] => {
+    const years = new Map<string, Set<number>>();
+    const invalid = new Set<string>();
+    layer.data.features.forEach(feature => Object.entries(feature.properties || {}).forEach(([field, value]) => {
+        // 0 is a common placeholder for an unknown year
+        if (invalid.has(field) || value === null || value === undefined || value === 0 || String(value).trim() === '') return;
+        const year = parseYear(value);
+        if (year === null) {
+            invalid.add(field);
+            return;
+        }
+        if (!years.has(field)) years.set(field, new Set());
+        years.get(field)!.add(year);
+    }));
+    return Array.from(years.entries()).filter(([field, set]) => !invalid.has(field) && set.size > 1).map(([field]) => field).sort();
+};
+
+export const getYearRange = (layer: GeoJsonLayer, field: string): { min: number; max: number } | null => {
+    const years = layer.data.features.map(f => getFeatureYear(f, field)).filter((y): y is number => y !== null);
+    return years.length > 0 ? { min: Math.min(...years), max: Math.max(...years) } : null;
+};
+
+// Undated features are left out while a time filter is on
+export const matchesTimeFilter = (feature: Feature, filter: TimeFilter): boolean => {
+    const year = getFeatureYear(feature, filter.field);
+    if (year === null) return false;
+    return filter.mode === 'cumulative' ? year <= filter.year : year === filter.year;
+};
+
+// One entry per year from the first to the last dated feature, including years in which nothing was added
+export const getAreaByYear = (layer: GeoJsonLayer, field: string): YearAreaStat[] => {
+    const range = getYearRange(layer, field);
+    if (!range) return [];
+    const byYear = new Map<number, { count: number; area: number }>();
+    layer.data.features.forEach(feature => {
+        const year = getFeatureYear(feature, field);
+        if (year === null) return;
+        const entry = byYear.get(year) || { count: 0, area: 0 };
+        entry.count++;
+        entry.area += getFeatureArea(feature);
+        byYear.set(year, entry);
+    });
+    const stats: YearAreaStat[] = [];
+    let cumulativeCount = 0;
+    let cumulativeArea = 0;
+    for (let year = range.min; year <= range.max; year++) {
+        const { count, area } = byYear.get(year) || { count: 0, area: 0 };
+        cumulativeCount += count;
+        cumulativeArea += area;
+        stats.push({ year, count, area, cumulativeCount, cumulativeArea });
+    }
+    return stats;
+};
@@ -0,0 +1,100 @@
+import type { AttributeFilter, FilterClause, MapViewState } from '../types';
+import { FILTER_OPERATORS } from './filterService';
+
+// Everything needed to reopen the app on the same view, as carried in the URL hash:
+// #map=<zoom>/<lat>/<lng>&basemap=<key>&layers=<id>,<id>&tab=<id>&filter=<json>&sel=<layerId>:<featureId>,...
+export interface UrlState {
+    view?: Pick<MapViewState, 'center' | 'zoom'>;
+    basemap?: string;
+    visibleLayerIds?: string[];
+    activeLayerId?: string;
+    filter?: AttributeFilter;
+    selection?: { layerId: string; fid: string }[];
+}
+
+const COORDINATE_DECIMALS = 5;
+
+const parseView = (value: string | null): UrlState['view'] => {
+    if (!value) return undefined;
+    const [zoom, lat, lng] = value.split('/').map(Number);
+    if (![zoom, lat, lng].every(isFinite) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+    return { center: [lat, lng], zoom };
+};
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isFilterClause = (value: unknown): value is FilterClause => {
+    if (!value || typeof value !== 'object') return false;
+    const clause = value as Partial<Record<keyof FilterClause, unknown>>;
+    return typeof clause.field === 'string' &&
+        FILTER_OPERATORS.some(o => o.key === clause.operator) &&
+        isOptionalString(clause.value) &&
+        isOptionalString(clause.valueTo) &&
+        (clause.values === undefined || (Array.isArray(clause.values) && clause.values.every(v => typeof v === 'string')));
+};
+
+// A filter that doesn't have the expected shape is ignored rather than passed on half-read
+const isAttributeFilter = (value: unknown): value is AttributeFilter => {
+    if (!value || typeof value !== 'object') return false;
+    const filter = value as Partial<Record<keyof AttributeFilter, unknown>>;
+    return typeof filter.layerId === 'string' &&
+        (filter.combinator === 'and' || filter.combinator === 'or') &&
+        Array.isArray(filter.clauses) && filter.clauses.every(isFilterClause);
+};
+
+const parseFilter = (value: string | null): AttributeFilter | undefined => {
+    if (!value) return undefined;
+    try {
+        const filter: unknown = JSON.parse(value);
+        return isAttributeFilter(filter) ? filter : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+const parseList = (value: string | null) => value ? value.split(',').filter(Boolean) : undefined;
+
+export const parseUrlState = (hash: string): UrlState => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    return {
+        view: parseView(params.get('map')),
+        basemap: params.get('basemap') || undefined,
+        visibleLayerIds: parseList(params.get('layers')),
+        activeLayerId: params.get('tab') || undefined,
+        filter: parseFilter(params.get('filter')),
+        selection: parseList(params.get('sel'))?.map(entry => {
+            // Layer ids may contain ':' themselves, so split on the last one; feature ids are encoded
+            const i = entry.lastIndexOf(':');
+            if (i <= 0) return null;
+            try {
+                return { layerId: entry.slice(0, i), fid: decodeURIComponent(entry.slice(i + 1)) };
+            } catch {
+                return null;
+            }
+        }).filter((s): s is { layerId: string; fid: string } => !!s && !!s.fid),
+    };
+};
+
+export const formatUrlState = (state: UrlState): string => {
+    const params = new URLSearchParams();
+    if (state.view) {
+        const [lat, lng] = state.view.center;
+        params.set('map', `${state.view.zoom}/${lat.toFixed(COORDINATE_DECIMALS)}/${lng.toFixed(COORDINATE_DECIMALS)}`);
+    }
+    if (state.basemap) params.set('basemap', state.basemap);
+    if (state.visibleLayerIds) params.set('layers', state.visibleLayerIds.join(','));
+    if (state.activeLayerId) params.set('tab', state.activeLayerId);
+    if (state.filter) params.set('filter', JSON.stringify(state.filter));
+    if (state.selection?.length) params.set('sel', state.selection.map(s => `${s.layerId}:${encodeURIComponent(s.fid)}`).join(','));
+    // Keep separators readable in shared links
+    return `#${params.toString().replace(/%2C/g, ',').replace(/%2F/g, '/').replace(/%3A/g, ':')}`;
+};
+
+export const readUrlState = (): UrlState => parseUrlState(window.location.hash);
+
+// Replaces the current history entry so panning the map doesn't flood the back button
+export const writeUrlState = (state: UrlState) => {
+    const hash = formatUrlState(state);
+    if (hash === window.location.hash || (hash === '#' && !window.location.hash)) return;
+    window.history.replaceState(null, '', hash === '#' ? window.location.pathname + window.location.search : hash);
+};
@@ -0,0 +1,150 @@
+import type { Feature } from 'geojson';
+import type { GeoJsonLayer, WorkOrder, WorkOrderAsset, WorkOrderPriority, WorkOrderStatus } from '../types';
+import { getFeatureDisplayName } from '../utils';
+import { getFeatureId } from './featureIdService';
+
+export const WORK_ORDER_STATUSES: { key: WorkOrderStatus; label: string; icon: string; color: string; isOpen: boolean }[] = [
+    { key: 'open', label: 'Open', icon: 'radio_button_unchecked', color: '#2563eb', isOpen: true },
+    { key: 'in_progress', label: 'In progress', icon: 'pending', color: '#d97706', isOpen: true },
+    { key: 'on_hold', label: 'On hold', icon: 'pause_circle', color: '#64748b', isOpen: true },
+    { key: 'completed', label: 'Completed', icon: 'check_circle', color: '#16a34a', isOpen: false },
+    { key: 'cancelled', label: 'Cancelled', icon: 'cancel', color: '#94a3b8', isOpen: false },
+];
+
+// Ordered from least to most pressing
+export const WORK_ORDER_PRIORITIES: { key: WorkOrderPriority; label: string; color: string }[] = [
+    { key: 'low', label: 'Low', color: '#0ea5e9' },
+    { key: 'medium', label: 'Medium', color: '#eab308' },
+    { key: 'high', label: 'High', color: '#f97316' },
+    { key: 'urgent', label: 'Urgent', color: '#dc2626' },
+];
+
+// Allowed next statuses; closed orders can only be reopened
+export const WORK_ORDER_TRANSITIONS: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+    open: ['in_progress', 'on_hold', 'cancelled'],
+    in_progress: ['on_hold', 'completed', 'cancelled'],
+    on_hold: ['in_progress', 'cancelled'],
+    completed: ['open'],
+    cancelled: ['open'],
+};
+
+const ASSIGNEE_FIELD = 'Incharge';
+
+export interface WorkOrderDraft {
+    title: string;
+    description: string;
+    priority: WorkOrderPriority;
+    assignee: string;
+    dueDate: string | null;
+}
+
+// Where work orders are kept. The dashboard ships with local storage; a server-backed store can be swapped in with setWorkOrderStore.
+export interface WorkOrderStore {
+    load: () => Promise<WorkOrder[]>;
+    save: (orders: WorkOrder[]) => Promise<void>;
+}
+
+export class WorkOrderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkOrderError';
+    }
+}
+
+export const createLocalStorageWorkOrderStore = (storageKey = 'workOrders'): WorkOrderStore => ({
+    load: async () => {
+        try {
+            const saved = JSON.parse(localStorage.getItem(storageKey) || '[]');
+            return Array.isArray(saved) ? saved : [];
+        } catch {
+            return [];
+        }
+    },
+    save: async (orders) => {
+        localStorage.setItem(storageKey, JSON.stringify(orders));
+    },
+});
+
+let store: WorkOrderStore = createLocalStorageWorkOrderStore();
+
+export const setWorkOrderStore = (next: WorkOrderStore) => {
+    store = next;
+};
+
+export const loadWorkOrders = (): Promise<WorkOrder[]> => store.load();
+export const saveWorkOrders = (orders: WorkOrder[]): Promise<void> => store.save(orders);
+
+export const getStatusSpec = (status: WorkOrderStatus) => WORK_ORDER_STATUSES.find(s => s.key === status) || WORK_ORDER_STATUSES[0];
+export const getPrioritySpec = (priority: WorkOrderPriority) => WORK_ORDER_PRIORITIES.find(p => p.key === priority) || WORK_ORDER_PRIORITIES[1];
+
+export const isWorkOrderOpen = (order: WorkOrder) => getStatusSpec(order.status).isOpen;
+
+export const isWorkOrderOverdue = (order: WorkOrder, today = new Date().toISOString().slice(0, 10)) =>
+    isWorkOrderOpen(order) && !!order.dueDate && order.dueDate < today;
+
+export const getWorkOrderAssetKey = (layerId: string, fid: unknown) => `${layerId}:${fid}`;
+
+// The most common Incharge among the assets, so orders land with whoever looks after them
+export const getDefaultAssignee = (assets: { feature: Feature }[]): string => {
+    const counts = new Map<string, number>();
+    assets.forEach(({ feature }) => {
+        const value = String(feature.properties?.[ASSIGNEE_FIELD] ?? '').trim();
+        if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+};
+
+export const toWorkOrderAssets = (assets: { layer: GeoJsonLayer; feature: Feature }[]): WorkOrderAsset[] => assets.map(({ layer, feature }) => ({
+    layerId: layer.id,
+    fid: getFeatureId(feature),
+    name: getFeatureDisplayName(feature, layer),
+}));
+
+export const createWorkOrder = (draft: WorkOrderDraft, assets: WorkOrderAsset[]): WorkOrder => {
+    if (!draft.title.trim()) throw new WorkOrderError('Give the work order a title.');
+    if (assets.length === 0) throw new WorkOrderError('Select at least one asset for the work order.');
+    const now = new Date().toISOString();
+    return {
+        id: `wo-${Date.now()}`,
+        title: draft.title.trim(),
+        description: draft.description.trim(),
+        assets,
+        priority: draft.priority,
+        assignee: draft.assignee.trim(),
+        dueDate: draft.dueDate || null,
+        status: 'open',
+        createdAt: now,
+        updatedAt: now,
+        statusHistory: [{ status: 'open', at: now }],
+    };
+};
+
+export const transitionWorkOrder = (order: WorkOrder, status: WorkOrderStatus): WorkOrder => {
+    if (!WORK_ORDER_TRANSITIONS[order.status].includes(status)) {
+        throw new WorkOrderError(`Cannot move a work order from "${getStatusSpec(order.status).label}" to "${getStatusSpec(status).label}".`);
+    }
+    const now = new Date().toISOString();
+    return { ...order, status, updatedAt: now, statusHistory: [...order.statusHistory, { status, at: now }] };
+};
+
+// Open orders per asset key, keeping the most pressing priority when an asset has several
+export const getOpenWorkOrderPriorities = (orders: WorkOrder[]): Map<string, WorkOrderPriority> => {
+    const rank = (p: WorkOrderPriority) => WORK_ORDER_PRIORITIES.findIndex(spec => spec.key === p);
+    const priorities = new Map<string, WorkOrderPriority>();
+    orders.filter(isWorkOrderOpen).forEach(order => order.assets.forEach(asset => {
+        const key = getWorkOrderAssetKey(asset.layerId, asset.fid);
+        const current = priorities.get(key);
+        if (!current || rank(order.priority) > rank(current)) priorities.set(key, order.priority);
+    }));
+    return priorities;
+};
+
+// Open orders first, then by due date (undated last) and priority
+export const sortWorkOrders = (orders: WorkOrder[]): WorkOrder[] => {
+    const rank = (p: WorkOrderPriority) => WORK_ORDER_PRIORITIES.findIndex(spec => spec.key === p);
+    return [...orders].sort((a, b) =>
+        Number(isWorkOrderOpen(b)) - Number(isWorkOrderOpen(a)) ||
+        (a.dueDate || '9999').localeCompare(b.dueDate || '9999') ||
+        rank(b.priority) - rank(a.priority) ||
+        b.createdAt.localeCompare(a.createdAt));
+};
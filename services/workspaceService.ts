@@ -0,0 +1,82 @@
+import type { Workspace } from '../types';
+import { downloadBlob } from './exportService';
+
+const DB_NAME = 'geoasset-dashboard';
+const STORE_NAME = 'workspace';
+const CURRENT_KEY = 'current';
+
+export const WORKSPACE_VERSION = 1;
+export const WORKSPACE_FILE_EXTENSION = '.workspace.json';
+
+export class WorkspaceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkspaceError';
+    }
+}
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Runs one request against the workspace store and closes the connection afterwards
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+const isWorkspace = (value: unknown): value is Workspace => {
+    if (!value || typeof value !== 'object') return false;
+    const candidate = value as Partial<Record<keyof Workspace, unknown>>;
+    return typeof candidate.version === 'number' &&
+        Array.isArray(candidate.visibleLayerIds) &&
+        Array.isArray(candidate.importedLayers) &&
+        Array.isArray(candidate.bookmarks) &&
+        !!candidate.layerStyles && typeof candidate.layerStyles === 'object';
+};
+
+export const loadWorkspace = async (): Promise<Workspace | null> => {
+    try {
+        const saved = await withStore<unknown>('readonly', store => store.get(CURRENT_KEY));
+        return isWorkspace(saved) && saved.version <= WORKSPACE_VERSION ? saved : null;
+    } catch (error) {
+        console.warn('Could not load the saved workspace:', error);
+        return null;
+    }
+};
+
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+    await withStore('readwrite', store => store.put(workspace, CURRENT_KEY));
+};
+
+export const clearWorkspace = async (): Promise<void> => {
+    await withStore('readwrite', store => store.delete(CURRENT_KEY));
+};
+
+export const parseWorkspaceFile = async (file: File): Promise<Workspace> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new WorkspaceError(`${file.name} is not valid JSON.`);
+    }
+    if (!isWorkspace(parsed)) throw new WorkspaceError(`${file.name} is not a workspace file.`);
+    if (parsed.version > WORKSPACE_VERSION) throw new WorkspaceError(`${file.name} was saved by a newer version of the dashboard.`);
+    return parsed;
+};
+
+export const exportWorkspaceFile = (workspace: Workspace) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([JSON.stringify(workspace)], { type: 'application/json' }), `workspace-${date}${WORKSPACE_FILE_EXTENSION}`);
+};
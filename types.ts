@@ -1,4 +1,4 @@
-import type { FeatureCollection } from 'geojson';
+import type { Feature, FeatureCollection } from 'geojson';
 
 export interface GeoJsonLayer {
   id: string;
@@ -9,4 +9,283 @@ export interface GeoJsonLayer {
   strokeOpacity: number;
   fillOpacity: number;
   dashArray: string;
+  weight: number;
+  renderer?: LayerRenderer;
+  icon?: string;
+  displayNameField?: string;
+  // e.g. "{Location} ({POLY_TYPE})"; takes precedence over displayNameField
+  labelTemplate?: string;
+  // Property holding each feature's unique id (default "fid")
+  idField?: string;
+  statusModel?: StatusModel;
+  // Set on layers whose features were fetched from a feature service, so they can be fetched again
+  source?: RemoteLayerSource;
+}
+
+// An ArcGIS FeatureServer or MapServer layer, queried into GeoJSON
+export interface RemoteLayerSource {
+  type: 'arcgis';
+  // The layer endpoint, e.g. https://gis.example.com/arcgis/rest/services/Utilities/FeatureServer/0
+  url: string;
+  where: string;
+}
+
+export type RasterLayerKind = 'wms' | 'wmts' | 'image';
+
+// Where an image's top-left, top-right and bottom-left corners lie, as [lat, lng]. Three corners place
+// an image that is rotated or sheared as well as scaled; the fourth follows from them.
+export type ImageCorners = [[number, number], [number, number], [number, number]];
+
+// A map image overlay: drawn by a web map service, or a georeferenced image such as a scanned plan or
+// drone orthophoto. It has no features of its own.
+export interface RasterLayer {
+  id: string;
+  name: string;
+  kind: RasterLayerKind;
+  // WMS: the service endpoint. WMTS: a tile URL template with {z}, {x} and {y}. Image: a data URL.
+  url: string;
+  // WMS layer name, WMTS layer identifier, or the image's file name
+  layer: string;
+  format: string;
+  opacity: number;
+  isVisible: boolean;
+  attribution?: string;
+  // Image overlays only
+  corners?: ImageCorners;
+  // Image overlays only: the pixel size placement was worked out in, as [width, height]
+  imageSize?: [number, number];
+}
+
+// What a feature's label is built from
+export type FeatureLabelConfig = Pick<GeoJsonLayer, 'labelTemplate' | 'displayNameField' | 'idField'>;
+
+export interface LayerStyle {
+  color: string;
+  strokeOpacity: number;
+  fillOpacity: number;
+  dashArray: string;
+  weight: number;
+  renderer?: LayerRenderer;
+  statusModel?: StatusModel;
+  labelTemplate?: string;
+}
+
+// One value of a layer's status field and how it is shown. Higher severity means worse condition.
+export interface StatusCategory {
+  value: string;
+  label: string;
+  color: string;
+  severity: number;
+}
+
+// The status vocabulary of a layer: which field holds the condition and what its values mean
+export interface StatusModel {
+  field: string;
+  categories: StatusCategory[];
+}
+
+export type ClassificationMethod = 'equal-interval' | 'quantile' | 'jenks';
+
+export interface CategorizedRenderer {
+  type: 'categorized';
+  field: string;
+  categories: { value: string; color: string }[];
+  otherColor: string;
+}
+
+// `breaks` holds the upper bound of each class; the first class starts at `min`.
+export interface GraduatedRenderer {
+  type: 'graduated';
+  field: string;
+  method: ClassificationMethod;
+  ramp: string;
+  min: number;
+  breaks: number[];
+  colors: string[];
+}
+
+// Colors features by the layer's status model
+export interface StatusRenderer {
+  type: 'status';
+  field: string;
+}
+
+export type LayerRenderer = CategorizedRenderer | GraduatedRenderer | StatusRenderer;
+
+// One entry of the layer manifest (data/layers.json) loaded at startup.
+export interface LayerManifestEntry {
+  id: string;
+  name: string;
+  url?: string;
+  icon?: string;
+  visible?: boolean;
+  displayNameField?: string;
+  labelTemplate?: string;
+  idField?: string;
+  statusModel?: StatusModel;
+  style?: Partial<LayerStyle>;
+}
+
+export interface LayerManifest {
+  layers: LayerManifestEntry[];
+}
+
+// How a basemap's tiles are addressed: URL templates with the y axis counted from the top (xyz) or
+// the bottom (tms), or a single tile archive file
+export type BasemapType = 'xyz' | 'tms' | 'mbtiles' | 'pmtiles';
+
+export interface BasemapDefinition {
+  id: string;
+  name: string;
+  type: BasemapType;
+  // Tile URL template for xyz/tms, e.g. http://tiles.local/{z}/{x}/{y}.png; the archive URL for pmtiles.
+  // Archives opened from disk have no URL.
+  url?: string;
+  attribution: string;
+  icon: string;
+  minZoom?: number;
+  maxZoom?: number;
+  // Values for {s} in the URL template
+  subdomains?: string;
+  // The tile server may be downloaded in bulk for offline use. Only set this for local or self-hosted servers;
+  // public ones such as OpenStreetMap forbid bulk downloads in their usage policies.
+  allowPrefetch?: boolean;
+  // The server sends no CORS headers, so offline tiles can only be stored unchecked, as opaque responses that
+  // may hide an error. Without this, tiles that can't be read are counted as failed instead.
+  cacheOpaqueTiles?: boolean;
+}
+
+export interface BasemapManifest {
+  basemaps: BasemapDefinition[];
+}
+
+// A batch of feature changes to one layer, produced by geometry editing
+export interface FeatureEdits {
+  added?: Feature[];
+  updated?: { before: Feature; after: Feature }[];
+  removed?: Feature[];
+}
+
+export type FilterOperator = '=' | '!=' | 'contains' | 'starts_with' | '<' | '>' | 'between' | 'is_empty' | 'in_list';
+
+export interface FilterClause {
+  field: string;
+  operator: FilterOperator;
+  value?: string;
+  // Upper bound for 'between'
+  valueTo?: string;
+  // Candidates for 'in_list'
+  values?: string[];
+}
+
+export interface AttributeFilter {
+  layerId: string;
+  combinator: 'and' | 'or';
+  clauses: FilterClause[];
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  filter: AttributeFilter;
+}
+
+// What the map is showing; reported by MapWrapper and kept in the URL
+export interface MapViewState {
+  center: [number, number];
+  zoom: number;
+  basemap: string;
+  // [[south, west], [north, east]]
+  bounds: [[number, number], [number, number]];
+}
+
+// Map tool settings and graphics that live only in the map component
+export interface MapSessionState {
+  distanceUnit: string;
+  areaUnit: string;
+  // Saved measurements as LineString (distance) or Polygon (area) features with { id, kind, name } properties
+  measurements: Feature[];
+}
+
+// Limits a layer on the map to features dated up to (or in) one year
+export interface TimeFilter {
+  layerId: string;
+  field: string;
+  year: number;
+  mode: 'cumulative' | 'year';
+}
+
+export interface SpatialBookmark {
+  id: string;
+  name: string;
+  bounds: [[number, number], [number, number]];
+}
+
+// Everything restored on the next visit; also the content of an exported workspace file
+export interface Workspace {
+  version: number;
+  savedAt: string;
+  layerStyles: Record<string, LayerStyle>;
+  visibleLayerIds: string[];
+  // Layers that aren't in the catalog (imported files, analysis results), with their data
+  importedLayers: GeoJsonLayer[];
+  // Features of catalog layers that have been edited, keyed by layer id; restored in place of the catalog's copy
+  editedLayerData?: Record<string, FeatureCollection>;
+  // Missing in workspaces saved before service layers existed
+  rasterLayers?: RasterLayer[];
+  queryFilter: AttributeFilter | null;
+  view?: Pick<MapViewState, 'center' | 'zoom'>;
+  basemap?: string;
+  session?: MapSessionState;
+  bookmarks: SpatialBookmark[];
+}
+
+export type WorkOrderStatus = 'open' | 'in_progress' | 'on_hold' | 'completed' | 'cancelled';
+export type WorkOrderPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// An asset a work order is raised against; the name is kept so the order still reads well if the feature goes away
+export interface WorkOrderAsset {
+  layerId: string;
+  // The feature id (see getFeatureId)
+  fid: string;
+  name: string;
+}
+
+export interface WorkOrder {
+  id: string;
+  title: string;
+  description: string;
+  assets: WorkOrderAsset[];
+  priority: WorkOrderPriority;
+  assignee: string;
+  // YYYY-MM-DD
+  dueDate: string | null;
+  status: WorkOrderStatus;
+  createdAt: string;
+  updatedAt: string;
+  statusHistory: { status: WorkOrderStatus; at: string }[];
+}
+
+export type AuditAction = 'created' | 'updated' | 'deleted' | 'reverted';
+
+export interface AuditFieldChange {
+  // A property name, or "(geometry)" when the shape changed
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// One change to one feature. Entries are only ever appended; the snapshots let a feature be put back as it was.
+export interface AuditEntry {
+  id: string;
+  layerId: string;
+  layerName: string;
+  featureId: string;
+  featureName: string;
+  action: AuditAction;
+  user: string;
+  at: string;
+  changes: AuditFieldChange[];
+  before: Feature | null;
+  after: Feature | null;
 }
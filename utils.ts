@@ -1,25 +1,61 @@
 import type { Feature } from 'geojson';
+import { area as turfArea } from '@turf/turf';
+import type { FeatureLabelConfig } from './types';
 
-// Helper to get a display name for a feature
-export const getFeatureDisplayName = (feature: Feature): string => {
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+// Fills "{Field}" placeholders from the properties. Brackets and separators left empty by missing values are
+// dropped; returns '' when none of the fields has a value.
+export const formatLabelTemplate = (template: string, properties: Record<string, unknown>): string => {
+  let filled = 0;
+  const text = template.replace(/\{([^{}]+)\}/g, (_, field: string) => {
+    const value = properties[field.trim()];
+    if (isBlank(value)) return '';
+    filled++;
+    return String(value).trim();
+  });
+  if (filled === 0) return '';
+  return text.replace(/\(\s*\)|\[\s*\]/g, '').replace(/\s{2,}/g, ' ').replace(/^[\s,;:·|-]+|[\s,;:·|-]+$/g, '');
+};
+
+// Helper to get a display name for a feature from the layer's label template or display-name field,
+// falling back to common name fields and then the feature's id
+export const getFeatureDisplayName = (feature: Feature, label: FeatureLabelConfig = {}): string => {
   if (!feature.properties) return `Feature (unnamed)`;
   const props = feature.properties;
+  if (label.labelTemplate) {
+    const text = formatLabelTemplate(label.labelTemplate, props);
+    if (text) return text;
+  }
+  const configured = label.displayNameField ? props[label.displayNameField] : undefined;
+  if (!isBlank(configured)) return String(configured);
   const name = props.Name || props.name || props.NAME || props.Bldg_Name;
   if (name && String(name).trim() !== "") return String(name);
 
-  const id = props.fid || props.id || props.ID || props.OBJECTID;
+  const id = (label.idField && !isBlank(props[label.idField]) ? props[label.idField] : undefined) || props.fid || props.id || props.ID || props.OBJECTID || feature.id;
   return `Feature ${id || '(no ID)'}`;
 };
 
-// Helper to get status and color
-export const getFeatureStatus = (feature: Feature): { status: string; color: string } => {
-    const statusProp = feature.properties?.Status || 'Unknown';
-    switch(String(statusProp).toLowerCase()) {
-        case 'comp':
-            return { status: 'Good Condition', color: 'text-green-500'};
-        case 'requires maintenance':
-            return { status: 'Requires Maintenance', color: 'text-yellow-500'};
-        default:
-            return { status: 'Unknown', color: 'text-slate-500'};
+// Helper to get the area of a polygon feature in square meters; 0 for other geometries or invalid shapes
+export const getFeatureArea = (feature: Feature): number => {
+  try {
+    if (feature.geometry && (feature.geometry.type === "Polygon" || feature.geometry.type === "MultiPolygon")) {
+      return turfArea(feature);
     }
-}
\ No newline at end of file
+  } catch (e) {
+    console.warn("Could not calculate area for a feature:", e);
+  }
+  return 0;
+};
+
+export type FieldType = 'number' | 'boolean' | 'category' | 'text';
+
+// Helper to infer an editor/comparison type for a property from the values it holds
+export const inferFieldType = (values: unknown[]): FieldType => {
+    const present = values.filter(v => v !== null && v !== undefined && String(v).trim() !== '');
+    if (present.length === 0) return 'text';
+    if (present.every(v => typeof v === 'number')) return 'number';
+    if (present.every(v => typeof v === 'boolean' || ['yes', 'no'].includes(String(v).trim().toLowerCase()))) return 'boolean';
+    const distinct = new Set(present.map(v => String(v).trim()));
+    return distinct.size <= Math.max(8, present.length / 4) ? 'category' : 'text';
+}
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LAYER_MANIFEST_URL': JSON.stringify(env.LAYER_MANIFEST_URL || ''),
+        'process.env.BASEMAP_MANIFEST_URL': JSON.stringify(env.BASEMAP_MANIFEST_URL || '')
       },
       resolve: {
         alias: {